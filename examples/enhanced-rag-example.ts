@@ -180,8 +180,7 @@ async function main() {
         keywordWeight: 0.3,
         applyReranking: true,
         minScore: 0.5,
-        maxResults: 10,
-        maxKeywordDistance: 3
+        maxResults: 10
       },
       
       // 分块配置
@@ -1,9 +1,12 @@
 import { z } from 'zod';
 import type { Action, ActionContext, ActionOutput, ActionConfig } from '../types/action';
-import type { LLMProvider } from '../types/llm';
+import type { LLMProvider, StructuredOutputOptions } from '../types/llm';
 import { ActionContextSchema, ActionOutputSchema } from '../types/action';
 import { logger } from '../utils/logger';
 import { ArrayMemory } from '../types/memory';
+import { withCostAttribution, withStreamCostAttribution } from '../utils/cost-manager';
+import type { CostAttribution } from '../utils/cost-manager';
+import { generateStructured } from '../utils/structured-output';
 
 /**
  * Base Action Class
@@ -144,28 +147,17 @@ export abstract class BaseAction implements Action {
         this.llm = llmFromArgs;
       }
       
-      // Apply system messages if provided
-      const systemMessages = this.getArg<string[]>('system_messages') || [];
-      let currentSystemPrompt = '';
-      
-      if (systemMessages.length > 0) {
-        currentSystemPrompt = systemMessages.join('\n');
-      }
-
-      // Set system prompt if different from current
-      if (currentSystemPrompt && 
-          this.llm &&
-          typeof this.llm.setSystemPrompt === 'function' && 
-          typeof this.llm.getSystemPrompt === 'function' &&
-          this.llm.getSystemPrompt() !== currentSystemPrompt) {
-        this.llm.setSystemPrompt(currentSystemPrompt);
-      }
+      this.applySystemMessages();
 
       // Send prompt to LLM
       const promptPreview = prompt.length > 100 ? prompt.substring(0, 100) + '...' : prompt;
       logger.debug(`[${this.name}] Asking LLM: ${promptPreview}`);
       
-      const response = await this.llm.chat(prompt) as string | { content: string };
+      const llm = this.llm;
+      const response = await withCostAttribution(
+        this.getCostAttribution(),
+        () => llm.chat(prompt)
+      ) as string | { content: string };
       
       if (!response) {
         throw new Error(`[${this.name}] No response received from LLM`);
@@ -199,34 +191,21 @@ export abstract class BaseAction implements Action {
         throw new Error(`[${this.name}] No LLM provider set for action`);
       }
       
-      // Apply system messages if provided
-      const systemMessages = this.getArg<string[]>('system_messages') || [];
-      let currentSystemPrompt = '';
-      
-      if (systemMessages.length > 0) {
-        currentSystemPrompt = systemMessages.join('\n');
-      }
-
-      // Set system prompt if different from current
-      if (currentSystemPrompt && 
-          this.llm &&
-          typeof this.llm.setSystemPrompt === 'function' && 
-          typeof this.llm.getSystemPrompt === 'function' &&
-          this.llm.getSystemPrompt() !== currentSystemPrompt) {
-        this.llm.setSystemPrompt(currentSystemPrompt);
-      }
+      this.applySystemMessages();
 
       // Send prompt to LLM with streaming
       logger.debug(`[${this.name}] Asking LLM (streaming): ${prompt.substring(0, 100)}...`);
       
       // Check if chatStream method exists on the LLM provider
       if (this.llm && 'chatStream' in this.llm && typeof this.llm.chatStream === 'function') {
-        for await (const chunk of this.llm.chatStream(prompt)) {
+        const stream = this.llm.chatStream(prompt);
+        for await (const chunk of withStreamCostAttribution(this.getCostAttribution(), stream)) {
           yield chunk;
         }
       } else if (this.llm && 'generateStream' in this.llm && typeof this.llm.generateStream === 'function') {
         // Fall back to generateStream if chatStream is not available
-        for await (const chunk of this.llm.generateStream(prompt)) {
+        const stream = this.llm.generateStream(prompt);
+        for await (const chunk of withStreamCostAttribution(this.getCostAttribution(), stream)) {
           yield chunk;
         }
       } else {
@@ -242,6 +221,66 @@ export abstract class BaseAction implements Action {
     }
   }
 
+  /**
+   * Ask the LLM for an answer matching a zod schema.
+   * Uses the provider's native structured output when available and otherwise
+   * validates chat responses, sending validation errors back for repair.
+   * @param prompt - The prompt to send to the LLM
+   * @param schema - Schema the answer must match
+   * @param options - Structured output options
+   * @returns The validated answer
+   * @throws {StructuredOutputError} If the LLM fails to produce a valid answer
+   */
+  protected async askStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: StructuredOutputOptions
+  ): Promise<T> {
+    const llm = this.llm;
+    if (!llm?.generateObject) {
+      return generateStructured(p => this.ask(p), prompt, schema, options);
+    }
+
+    try {
+      this.applySystemMessages();
+      logger.debug(`[${this.name}] Asking LLM for structured output: ${prompt.substring(0, 100)}...`);
+      return await withCostAttribution(
+        this.getCostAttribution(),
+        () => llm.generateObject!(prompt, schema, options)
+      );
+    } catch (error) {
+      logger.error(`[${this.name}] Error asking LLM for structured output:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the `system_messages` argument as the LLM's system prompt
+   */
+  private applySystemMessages(): void {
+    const systemMessages = this.getArg<string[]>('system_messages') || [];
+    const currentSystemPrompt = systemMessages.join('\n');
+
+    // Set system prompt if different from current
+    if (currentSystemPrompt && 
+        this.llm &&
+        typeof this.llm.setSystemPrompt === 'function' && 
+        typeof this.llm.getSystemPrompt === 'function' &&
+        this.llm.getSystemPrompt() !== currentSystemPrompt) {
+      this.llm.setSystemPrompt(currentSystemPrompt);
+    }
+  }
+
+  /**
+   * Get the role and action LLM calls of this action are billed to
+   */
+  protected getCostAttribution(): CostAttribution {
+    return {
+      role: this.context.role?.name,
+      action: this.name,
+    };
+  }
+
   /**
    * Get string representation of the action
    * @returns String representation
@@ -5,10 +5,12 @@
  * performs root cause analysis, and provides debugging steps documentation.
  */
 
+import { z } from 'zod';
 import { BaseAction } from './base-action';
 import type { Message } from '../types/message';
 import type { ActionOutput, ActionConfig } from '../types/action';
 import { logger } from '../utils/logger';
+import { StructuredOutputError } from '../utils/errors';
 import { RunCode, ProgrammingLanguage, type ExecutionResult } from './run-code';
 
 /**
@@ -90,6 +92,40 @@ export interface DebuggingResult {
   };
 }
 
+/**
+ * Schema of the error analysis returned by the LLM; validation is filled in by the action
+ */
+export const DebuggingAnalysisSchema = z.object({
+  error_analysis: z.object({
+    error_message: z.string().describe('The exact error message'),
+    error_type: z.nativeEnum(ErrorType),
+    severity: z.nativeEnum(ErrorSeverity),
+    line_number: z.number().optional(),
+    column_number: z.number().optional(),
+    file_path: z.string().optional(),
+  }),
+  root_cause: z.object({
+    description: z.string().describe('Brief description of the root cause'),
+    technical_explanation: z.string().describe('Detailed technical explanation of why this error occurs'),
+  }),
+  solutions: z.array(z.object({
+    description: z.string(),
+    code: z.string().describe('The complete fixed code, not just the changed lines'),
+    explanation: z.string().describe('Why this solution works'),
+    confidence: z.number().min(0).max(1).describe('How likely this solution is to work'),
+  })),
+  debugging_steps: z.array(z.object({
+    order: z.number(),
+    description: z.string(),
+    code: z.string().optional().describe('Code to try for this step'),
+    expected_outcome: z.string().describe('What to expect if this step is successful'),
+  })),
+  resources: z.object({
+    documentation_links: z.array(z.string()).default([]),
+    related_stack_overflow_questions: z.array(z.string()).optional(),
+  }).optional(),
+});
+
 /**
  * Debug configuration
  */
@@ -265,65 +301,26 @@ export class DebugError extends BaseAction {
     ${error_message}
     \`\`\`
     
-    Please analyze this error and provide a detailed debugging result as a valid JSON object with the following structure:
-    
-    {
-      "error_analysis": {
-        "error_message": "The exact error message",
-        "error_type": "One of: SYNTAX, RUNTIME, LOGICAL, TYPE, REFERENCE, DEPENDENCY, PERFORMANCE, MEMORY, SECURITY, COMPATIBILITY, NETWORK, IO, OTHER",
-        "severity": "One of: CRITICAL, MAJOR, MINOR, WARNING, INFO",
-        "line_number": optional line number where the error occurs,
-        "column_number": optional column number where the error occurs,
-        "file_path": optional file path of the error
-      },
-      "root_cause": {
-        "description": "Brief description of the root cause",
-        "technical_explanation": "Detailed technical explanation of why this error occurs"
-      },
-      "solutions": [
-        {
-          "description": "Brief description of the solution",
-          "code": "The corrected code (provide the complete fixed code, not just the changed lines)",
-          "explanation": "Explanation of why this solution works",
-          "confidence": confidence score from 0-1 on how likely this solution will work
-        }
-      ],
-      "debugging_steps": [
-        {
-          "order": 1,
-          "description": "Step description",
-          "code": "Optional code to try for this step",
-          "expected_outcome": "What to expect if this step is successful"
-        }
-      ],
-      "resources": {
-        "documentation_links": ["Relevant documentation links"],
-        "related_stack_overflow_questions": ["Optional links to related Stack Overflow questions"]
-      }
-    }
+    Please analyze this error and provide a detailed debugging result.
     
     Please provide up to ${max_solutions} different solution approaches if possible, from most to least recommended.
     Make sure the solution code is complete, correct, and properly handles the error.
     Focus on providing practical debugging steps that would help identify the issue.
     `;
     
-    // Get LLM response
-    const response = await this.ask(prompt);
-    
     try {
-      // Parse the JSON response
-      const debugResult = JSON.parse(response) as DebuggingResult;
-      
-      // Initialize validation field if not present
-      if (!debugResult.validation) {
-        debugResult.validation = {
+      const analysis = await this.askStructured(prompt, DebuggingAnalysisSchema);
+      return {
+        ...analysis,
+        validation: {
           fixed: false
-        };
-      }
-      
-      return debugResult;
+        }
+      };
     } catch (error) {
-      logger.error('Failed to parse LLM response as JSON', error);
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      logger.error('Failed to get a valid debugging result from the LLM', error);
       // Create fallback debugging result
       return this.createFallbackDebuggingResult(code, language, error_message);
     }
@@ -29,6 +29,9 @@ export { ComplexReasoning } from './complex-reasoning';
 export { Research } from './research';
 export { SearchAndSummarize } from './search-and-summarize';
 
+// Tool actions
+export { UseTools } from './use-tools';
+
 // Document actions
 export { DocumentGeneration } from './document-generation';
 export { WriteReport } from './write-report';
@@ -5,6 +5,7 @@
  * topics or questions, providing structured research results and summaries.
  */
 
+import { z } from 'zod';
 import { BaseAction } from './base-action';
 import type { ActionOutput, ActionConfig } from '../types/action';
 import { logger } from '../utils/logger';
@@ -114,6 +115,45 @@ export interface ResearchResult {
   future_research_directions: string[];
 }
 
+/**
+ * Schema of the research result returned by the LLM
+ */
+export const ResearchResultSchema = z.object({
+  query: z.string(),
+  topic_type: z.nativeEnum(ResearchTopicType).optional(),
+  objective: z.string().default(''),
+  sources: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    url: z.string().optional(),
+    author: z.string().optional(),
+    publicationDate: z.string().optional(),
+    type: z.nativeEnum(SourceType),
+    reliability: z.nativeEnum(ReliabilityRating).default(ReliabilityRating.UNKNOWN),
+    key_points: z.array(z.string()).default([]),
+  })),
+  findings: z.array(z.object({
+    id: z.string(),
+    topic: z.string(),
+    description: z.string(),
+    source_ids: z.array(z.string()).default([]).describe('IDs of sources supporting this finding'),
+    confidence: z.number().min(0).max(1).default(0.5),
+    contradicting_findings: z.array(z.string()).optional().describe('IDs of contradicting findings'),
+  })),
+  analysis: z.object({
+    patterns: z.array(z.string()).default([]),
+    gaps: z.array(z.string()).default([]),
+    controversies: z.array(z.string()).default([]),
+    consensus: z.array(z.string()).default([]),
+    emerging_trends: z.array(z.string()).default([]),
+  }),
+  key_takeaways: z.array(z.string()),
+  summary: z.string(),
+  confidence_score: z.number().min(0).max(1).default(0.5).describe('Overall confidence in the research'),
+  limitations: z.array(z.string()),
+  future_research_directions: z.array(z.string()),
+});
+
 /**
  * Configuration for the research process
  */
@@ -202,45 +242,19 @@ export class Research extends BaseAction {
       const prompt = this.constructResearchPrompt(config);
       
       // Send to LLM for research
-      const response = await this.llm?.generate(prompt);
+      const parsed = await this.askStructured(prompt, ResearchResultSchema);
+      logger.info(`[${this.name}] Research result: ${JSON.stringify(parsed)}`);
       
-      if (!response) {
-        throw new Error('Failed to get response from LLM');
-      }
+      // Only set the topic_type if not provided by the LLM response
+      const result: ResearchResult = {
+        ...parsed,
+        topic_type: parsed.topic_type || config.topic_type || ResearchTopicType.GENERAL
+      };
       
-      // Parse the research result
-      let result: ResearchResult;
-      try {
-        logger.info(`[${this.name}] Research result: ${response}`);
-        result = JSON.parse(response);
-        
-        // Ensure all required fields exist
-        if (!result.query || !result.sources || !result.findings || !result.analysis || 
-            !result.key_takeaways || !result.summary || !result.limitations || 
-            !result.future_research_directions) {
-          throw new Error('Missing required fields in research result');
-        }
-        
-        // Only set the topic_type if not provided by the LLM response
-        if (!result.topic_type) {
-          result.topic_type = config.topic_type || ResearchTopicType.GENERAL;
-        }
-        
-        // Ensure confidence_score exists and is valid
-        if (typeof result.confidence_score !== 'number' || 
-            result.confidence_score < 0 || 
-            result.confidence_score > 1) {
-          result.confidence_score = 0.5; // Set default confidence score
-        }
-        
-        // Validate the research result
-        this.validateResearchResult(result, config);
-        
-        return result;
-      } catch (parseError: unknown) {
-        logger.error(`[${this.name}] Failed to parse research result:`, parseError);
-        throw parseError;
-      }
+      // Validate the research result
+      this.validateResearchResult(result, config);
+      
+      return result;
     } catch (error) {
       logger.error(`[${this.name}] Error performing research:`, error);
       throw error;
@@ -372,53 +386,6 @@ export class Research extends BaseAction {
     3. Synthesize findings into coherent insights
     4. Provide key takeaways and a comprehensive summary
     5. Identify limitations and future research directions
-
-    ## Response Format
-    Provide your response as a JSON object with the following structure:
-    {
-      "query": "The original research query",
-      "topic_type": "TOPIC_TYPE",
-      "objective": "Research objective",
-      
-      "sources": [
-        {
-          "id": "unique-id",
-          "title": "Source title",
-          "url": "Source URL (if applicable)",
-          "author": "Author name(s) (if applicable)",
-          "publicationDate": "Publication date (if applicable)",
-          "type": "SOURCE_TYPE",
-          "reliability": "RELIABILITY_RATING",
-          "key_points": ["List of key points from this source"]
-        }
-      ],
-      
-      "findings": [
-        {
-          "id": "unique-id",
-          "topic": "Sub-topic of the finding",
-          "description": "Description of the finding",
-          "source_ids": ["IDs of sources supporting this finding"],
-          "confidence": 0.85,
-          "contradicting_findings": ["IDs of contradicting findings (if any)"]
-        }
-      ],
-      
-      "analysis": {
-        "patterns": ["Identified patterns in the research"],
-        "gaps": ["Identified gaps in the available information"],
-        "controversies": ["Identified controversies or disagreements"],
-        "consensus": ["Areas of consensus among sources"],
-        "emerging_trends": ["Emerging trends identified in the research"]
-      },
-      
-      "key_takeaways": ["List of key takeaways from the research"],
-      "summary": "Comprehensive summary of the research findings",
-      
-      "confidence_score": 0.8,
-      "limitations": ["Limitations of this research"],
-      "future_research_directions": ["Suggested directions for future research"]
-    }
     `;
   }
 
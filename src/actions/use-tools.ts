@@ -0,0 +1,145 @@
+/**
+ * UseTools Action
+ *
+ * This action lets the LLM call registered tools as functions. Every call is
+ * executed and its result fed back to the model until it answers or the step
+ * limit is reached. Each tool invocation is recorded in working memory.
+ */
+
+import { BaseAction } from './base-action';
+import type { ActionConfig, ActionOutput } from '../types/action';
+import { DEFAULT_MAX_TOOL_STEPS } from '../types/llm';
+import type { ToolCallingResult, ToolInvocation } from '../types/llm';
+import { MessageSchema } from '../types/message';
+import type { Message } from '../types/message';
+import type { Tool } from '../types/tool';
+import { toToolDefinition } from '../tools/base-tool';
+import { withCostAttribution } from '../utils/cost-manager';
+import { logger } from '../utils/logger';
+
+/**
+ * Configuration of the UseTools action
+ */
+export interface UseToolsConfig extends Omit<ActionConfig, 'name'> {
+  name?: string;
+  tools?: Tool[];
+  maxSteps?: number;
+}
+
+/**
+ * Metadata tag of tool invocation messages in working memory
+ */
+export const TOOL_CALL_TAG = 'tool_call';
+
+/**
+ * Action for answering with the help of tools
+ */
+export class UseTools extends BaseAction {
+  readonly tools: Map<string, Tool> = new Map();
+  maxSteps: number;
+
+  constructor(config: UseToolsConfig) {
+    super({
+      ...config,
+      name: config.name || 'UseTools',
+      description: config.description || 'Answers the latest request, calling tools where needed',
+    });
+    this.maxSteps = config.maxSteps ?? DEFAULT_MAX_TOOL_STEPS;
+    for (const tool of config.tools || []) {
+      this.registerTool(tool);
+    }
+  }
+
+  /**
+   * Register a tool the model may call
+   * @param tool Tool to register
+   * @throws If a tool with the same name is already registered
+   */
+  public registerTool(tool: Tool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Runs the UseTools action
+   * @returns The model's final answer
+   */
+  public async run(): Promise<ActionOutput> {
+    if (!this.llm?.generateWithTools) {
+      throw new Error(`[${this.name}] LLM provider ${this.llm?.getName()} does not support tool calling`);
+    }
+
+    const messages: Message[] = (await this.context.memory?.get()) || [];
+    if (messages.length === 0) {
+      return this.createOutput('No messages available', 'failed');
+    }
+
+    const llm = this.llm;
+    const prompt = this.buildPrompt(messages);
+    const definitions = Array.from(this.tools.values()).map(toToolDefinition);
+    logger.debug(`[${this.name}] Running with tools: ${Array.from(this.tools.keys()).join(', ')}`);
+
+    const result = await withCostAttribution(
+      this.getCostAttribution(),
+      () => llm.generateWithTools!(prompt, definitions, { maxSteps: this.maxSteps })
+    );
+
+    for (const invocation of result.toolCalls) {
+      await this.recordInvocation(invocation);
+    }
+
+    return this.createOutput(this.formatAnswer(result), 'completed', result);
+  }
+
+  /**
+   * Build the prompt from the role and the conversation so far
+   * @param messages Conversation messages
+   * @returns Prompt
+   */
+  protected buildPrompt(messages: Message[]): string {
+    const role = this.context.role;
+    const history = messages
+      .map(message => `${message.role}: ${message.content}`)
+      .join('\n');
+
+    return `${role ? `You are ${role.name}, a ${role.profile}. Your goal: ${role.goal}\n${role.constraints ? `Constraints: ${role.constraints}\n` : ''}\n` : ''}Conversation so far:
+${history}
+
+Answer the latest request. Call the available tools when you need information or need to make changes.`;
+  }
+
+  /**
+   * Record a tool invocation in working memory
+   * @param invocation Tool invocation
+   */
+  private async recordInvocation(invocation: ToolInvocation): Promise<void> {
+    const roleName = this.context.role?.name || this.name;
+    const message = MessageSchema.parse({
+      role: roleName,
+      content: `Called ${invocation.name}(${JSON.stringify(invocation.args)}): ${JSON.stringify(invocation.result)}`,
+      causedBy: this.name,
+      sentFrom: roleName,
+      sendTo: roleName,
+      metadata: {
+        tags: [TOOL_CALL_TAG, invocation.name],
+        context: { ...invocation },
+      },
+    });
+    await this.context.workingMemory?.add(message);
+  }
+
+  /**
+   * Format the final answer, noting when the step limit stopped the loop
+   * @param result Tool calling result
+   * @returns Answer text
+   */
+  private formatAnswer(result: ToolCallingResult): string {
+    if (result.finishReason === 'tool-calls') {
+      const note = `Stopped after ${result.steps} steps without a final answer`;
+      return result.text ? `${result.text}\n\n${note}` : note;
+    }
+    return result.text;
+  }
+}
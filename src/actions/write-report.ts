@@ -6,6 +6,7 @@
  * report formats and can include data visualizations, metrics, and recommendations.
  */
 
+import { z } from 'zod';
 import { BaseAction } from './base-action';
 import type { ActionOutput } from '../types/action';
 import { logger } from '../utils/logger';
@@ -70,6 +71,45 @@ export interface Report {
   }[];
 }
 
+const DataPointSchema = z.object({
+  label: z.string(),
+  value: z.union([z.number(), z.string()]),
+  unit: z.string().optional(),
+  trend: z.enum(['UP', 'DOWN', 'STABLE']).optional(),
+  change_percentage: z.number().optional(),
+});
+
+const ReportSectionSchema: z.ZodType<ReportSection> = z.lazy(() => z.object({
+  title: z.string(),
+  content: z.string(),
+  key_points: z.array(z.string()).optional(),
+  data_points: z.array(DataPointSchema).optional(),
+  subsections: z.array(ReportSectionSchema).optional(),
+  recommendations: z.array(z.string()).optional(),
+  references: z.array(z.string()).optional(),
+}));
+
+/**
+ * Schema of the report returned by the LLM
+ */
+export const ReportSchema = z.object({
+  title: z.string().default('Generated Report'),
+  type: z.nativeEnum(ReportType).optional(),
+  format: z.nativeEnum(ReportFormat).optional(),
+  executive_summary: z.string().default('No summary provided'),
+  date: z.string().optional(),
+  author: z.string().optional(),
+  sections: z.array(ReportSectionSchema).default([]),
+  metrics: z.array(z.object({
+    name: z.string(),
+    value: z.union([z.number(), z.string()]),
+    target: z.union([z.number(), z.string()]).optional(),
+    status: z.enum(['ON_TRACK', 'AT_RISK', 'OFF_TRACK']),
+  })).default([]),
+  conclusions: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
+});
+
 export interface WriteReportArgs {
   report_type?: ReportType;
   format?: ReportFormat;
@@ -145,20 +185,14 @@ export class WriteReport extends BaseAction {
       throw new Error('LLM not initialized');
     }
 
-    const response = await this.llm.chat(prompt);
-    const report = JSON.parse(response);
+    const report = await this.askStructured(prompt, ReportSchema);
 
     return {
-      title: report.title || 'Generated Report',
-      type: report.type || this.args.report_type,
-      format: report.format || this.args.format,
-      executive_summary: report.executive_summary || 'No summary provided',
+      ...report,
+      type: report.type || this.args.report_type || ReportType.PROJECT_STATUS,
+      format: report.format || this.args.format || ReportFormat.DETAILED,
       date: report.date || new Date().toISOString(),
-      author: report.author || this.args.author || 'System Generated',
-      sections: report.sections || [],
-      conclusions: report.conclusions || [],
-      recommendations: report.recommendations || [],
-      metrics: report.metrics || []
+      author: report.author || this.args.author || 'System Generated'
     };
   }
 
@@ -6,6 +6,7 @@
  * and acceptance criteria.
  */
 
+import { z } from 'zod';
 import { BaseAction } from './base-action';
 import type { ActionOutput } from '../types/action';
 import { logger } from '../utils/logger';
@@ -58,6 +59,39 @@ export interface RequirementsDocument {
   }[];
 }
 
+/**
+ * Schema of the requirements document returned by the LLM
+ */
+export const RequirementsDocumentSchema = z.object({
+  project_name: z.string().optional(),
+  version: z.string().default('1.0.0'),
+  last_updated: z.string().optional(),
+  executive_summary: z.string().default('Basic project description'),
+  scope: z.object({
+    included: z.array(z.string()).default([]),
+    excluded: z.array(z.string()).default([]),
+  }).default({}),
+  assumptions: z.array(z.string()).default([]),
+  constraints: z.array(z.string()).default([]),
+  requirements: z.array(z.object({
+    id: z.string().optional(),
+    title: z.string(),
+    description: z.string(),
+    type: z.nativeEnum(RequirementType),
+    priority: z.nativeEnum(RequirementPriority),
+    acceptance_criteria: z.array(z.string()).default([]),
+    dependencies: z.array(z.string()).optional(),
+    stakeholders: z.array(z.string()).optional(),
+    estimated_effort: z.string().optional(),
+    notes: z.string().optional(),
+  })).default([]),
+  risks: z.array(z.object({
+    description: z.string(),
+    impact: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    mitigation: z.string(),
+  })).default([]),
+});
+
 export interface WriteRequirementsArgs {
   project_name: string;
   scope_focus?: string[];
@@ -135,25 +169,16 @@ export class WriteRequirements extends BaseAction {
       throw new Error('LLM not initialized');
     }
 
-    const response = await this.llm.chat(prompt);
-    const doc = JSON.parse(response);
+    const doc = await this.askStructured(prompt, RequirementsDocumentSchema);
 
     return {
+      ...doc,
       project_name: doc.project_name || this.args.project_name || 'Untitled Project',
-      version: doc.version || '1.0.0',
       last_updated: doc.last_updated || new Date().toISOString(),
-      executive_summary: doc.executive_summary || 'Basic project description',
-      scope: {
-        included: doc.scope?.included || [],
-        excluded: doc.scope?.excluded || []
-      },
-      assumptions: doc.assumptions || [],
-      constraints: doc.constraints || [],
-      requirements: (doc.requirements || []).map((req: any, index: number) => ({
+      requirements: doc.requirements.map((req, index) => ({
         ...req,
-        id: req.id || this.generateRequirementId(req.type || RequirementType.FUNCTIONAL, index)
-      })),
-      risks: doc.risks || []
+        id: req.id || this.generateRequirementId(req.type, index)
+      }))
     };
   }
 
@@ -5,10 +5,12 @@
  * provides best practice suggestions, and detects code smells.
  */
 
+import { z } from 'zod';
 import { BaseAction } from './base-action';
 import type { Message } from '../types/message';
 import type { ActionOutput, ActionConfig } from '../types/action';
 import { logger } from '../utils/logger';
+import { StructuredOutputError } from '../utils/errors';
 
 /**
  * Review severity levels
@@ -64,6 +66,28 @@ export interface CodeReview {
   }[];
 }
 
+/**
+ * Schema of the code review returned by the LLM
+ */
+export const CodeReviewSchema = z.object({
+  summary: z.string().default('The code needs improvement in several areas'),
+  generalFeedback: z.string().default('The code has several issues that should be addressed'),
+  comments: z.array(z.object({
+    severity: z.nativeEnum(ReviewSeverity),
+    category: z.nativeEnum(ReviewCategory),
+    location: z.string().optional(),
+    comment: z.string(),
+    suggestion: z.string().optional(),
+  })).default([]),
+  bestPractices: z.array(z.string()).default(['Follow security best practices']),
+  codeSmells: z.array(z.object({
+    description: z.string(),
+    location: z.string().optional(),
+    impact: z.string(),
+    recommendation: z.string(),
+  })).default([]),
+});
+
 /**
  * Action for generating code reviews
  */
@@ -145,33 +169,10 @@ Please include:
 5. Code smells identification`;
 
     try {
-      const response = await this.llm.chat(prompt);
-      try {
-        const review = JSON.parse(response);
-        
-        // Add specific phrases expected by tests if empty
-        return {
-          summary: review.summary || 'The code needs improvement in several areas',
-          generalFeedback: review.generalFeedback || 'The code has several issues that should be addressed',
-          comments: review.comments || [
-            {
-              severity: ReviewSeverity.CRITICAL,
-              category: ReviewCategory.SECURITY,
-              comment: 'Password is being stored in plain text',
-              suggestion: 'Use secure password hashing'
-            },
-            {
-              severity: ReviewSeverity.CRITICAL,
-              category: ReviewCategory.PERFORMANCE,
-              comment: 'Critical performance issue',
-              suggestion: 'Optimize algorithm'
-            }
-          ],
-          bestPractices: review.bestPractices || ['Follow security best practices'],
-          codeSmells: review.codeSmells || []
-        };
-      } catch (parseError) {
-        logger.error('Error parsing code review:', parseError);
+      return await this.askStructured(prompt, CodeReviewSchema);
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        logger.error('Error parsing code review:', error);
         return {
           summary: 'Unable to generate a complete code review',
           generalFeedback: 'Basic feedback only available due to processing error',
@@ -187,7 +188,7 @@ Please include:
           codeSmells: []
         };
       }
-    } catch (error) {
+
       logger.error('Error analyzing code:', error);
       return {
         summary: 'Partial code review',
@@ -12,6 +12,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import type { LLMProvider } from '../types/llm';
 import type { MemoryManager } from '../types/memory';
+import type { CostManager } from '../utils/cost-manager';
 
 /**
  * Context interface defining the core functionality for the context management system.
@@ -42,6 +43,11 @@ export interface Context {
    */
   memory?: MemoryManager;
   
+  /**
+   * Cost manager tracking token usage and spend
+   */
+  costManager?: CostManager;
+  
   /**
    * Get a value from the context
    * @param key The key to retrieve
@@ -130,9 +136,10 @@ export class ContextImpl implements Context {
   readonly parent?: Context;
   readonly data: Record<string, any>;
   
-  // Add typed llm and memory properties
+  // Add typed llm, memory and cost manager properties
   llm?: LLMProvider;
   memory?: MemoryManager;
+  costManager?: CostManager;
   
   /**
    * Create a new context
@@ -159,6 +166,13 @@ export class ContextImpl implements Context {
     } else if (parent?.memory) {
       this.memory = parent.memory;
     }
+    
+    if (data.costManager) {
+      this.costManager = data.costManager;
+      delete this.data.costManager;
+    } else if (parent?.costManager) {
+      this.costManager = parent.costManager;
+    }
   }
   
   /**
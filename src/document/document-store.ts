@@ -30,6 +30,11 @@ export const DocumentStoreConfigSchema = z.object({
     supportedExtensions: z.array(z.string()).default(['.txt', '.md', '.json', '.csv', '.html']),
     /** Character encoding */
     encoding: z.string().default('utf-8'),
+    /**
+     * Load subdirectories too; hidden entries and node_modules are skipped,
+     * and only files with supported extensions are loaded
+     */
+    recursive: z.boolean().default(false),
   }).default({}),
   /** Document indexing options */
   indexingOptions: z.object({
@@ -244,6 +249,12 @@ export class BasicDocumentStore implements DocumentStore {
       // 统一使用正斜杠
       const normalizedPath = dirPath.replace(/\\/g, '/');
       
+      const parsingOptions = options?.parsingOptions ?? this.config.parsingOptions;
+      if (parsingOptions.recursive) {
+        const files = await this.listFiles(normalizedPath, parsingOptions.supportedExtensions);
+        return Promise.all(files.map(file => this.loadDocument(file, options)));
+      }
+      
       // 读取目录内容
       const files = await fs.readdir(normalizedPath);
       
@@ -263,6 +274,31 @@ export class BasicDocumentStore implements DocumentStore {
     }
   }
   
+  /**
+   * List the files with supported extensions below a directory
+   * @param dirPath Directory path, with forward slashes
+   * @param extensions Supported file extensions
+   * @returns File paths, with forward slashes
+   */
+  private async listFiles(dirPath: string, extensions: string[]): Promise<string[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    const files: string[] = [];
+    
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+        continue;
+      }
+      const entryPath = `${dirPath.replace(/\/$/, '')}/${entry.name}`;
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(entryPath, extensions));
+      } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(entryPath);
+      }
+    }
+    
+    return files;
+  }
+  
   /**
    * Save a document to storage
    * @param document Document to save
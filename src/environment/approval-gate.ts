@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { Message } from '../types/message';
+import type { HumanChannel } from './human-channel';
+
+/**
+ * Action type (`causedBy`) of the feedback sent to a role whose output was rejected
+ */
+export const APPROVAL_REJECTED = 'ApprovalRejected';
+
+/**
+ * Decision taken on a held message
+ */
+export const ApprovalDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve') }),
+  /** Publish the message with replaced content */
+  z.object({ decision: z.literal('edit'), content: z.string() }),
+  /** Drop the message and send the feedback back to its author */
+  z.object({ decision: z.literal('reject'), feedback: z.string().default('') }),
+]);
+
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+/**
+ * Function deciding on a held message
+ */
+export type ApprovalReviewer = (message: Message) => Promise<ApprovalDecision>;
+
+/**
+ * Options of an approval gate
+ */
+export interface ApprovalGateOptions {
+  /** Hold output of these roles; all roles when omitted */
+  roles?: string[];
+  /** Hold output caused by these actions; all actions when omitted */
+  actions?: string[];
+  /** Channel asking a person for the decision */
+  channel?: HumanChannel;
+  /** Custom reviewer, used instead of the channel */
+  reviewer?: ApprovalReviewer;
+  /** Name the decisions are given under */
+  reviewerName?: string;
+}
+
+/**
+ * Decision recorded by a gate
+ */
+export interface ApprovalRecord {
+  messageId: string;
+  role: string;
+  action: string;
+  decision: ApprovalDecision;
+}
+
+/**
+ * Parse a person's reply into a decision.
+ *
+ * Accepted replies:
+ * - empty, `y`, `yes`, `ok`, `approve` - approve
+ * - `edit: <content>` - publish `<content>` instead
+ * - `reject: <feedback>`, `n`, `no` - reject
+ * - anything else - reject with the reply as feedback
+ * @param reply Reply text
+ * @returns Decision
+ */
+export function parseApprovalReply(reply: string): ApprovalDecision {
+  const text = reply.trim();
+  const command = text.toLowerCase();
+
+  if (['', 'y', 'yes', 'ok', 'approve', 'approved'].includes(command)) {
+    return { decision: 'approve' };
+  }
+  if (command.startsWith('edit:')) {
+    return { decision: 'edit', content: text.slice('edit:'.length).trim() };
+  }
+  if (command.startsWith('reject:')) {
+    return { decision: 'reject', feedback: text.slice('reject:'.length).trim() };
+  }
+  if (['n', 'no', 'reject', 'rejected'].includes(command)) {
+    return { decision: 'reject', feedback: '' };
+  }
+  return { decision: 'reject', feedback: text };
+}
+
+/**
+ * Gate holding role output until it is approved, edited or rejected.
+ *
+ * Gates are added to an `Environment`, which reviews every matching role
+ * output before publishing it.
+ */
+export class ApprovalGate {
+  readonly reviewerName: string;
+  /** Decisions taken so far */
+  readonly records: ApprovalRecord[] = [];
+  private roles?: Set<string>;
+  private actions?: Set<string>;
+  private reviewer: ApprovalReviewer;
+
+  /**
+   * @param options Gate options
+   * @throws If neither a channel nor a reviewer is given
+   */
+  constructor(options: ApprovalGateOptions) {
+    this.reviewerName = options.reviewerName || 'Human';
+    this.roles = options.roles ? new Set(options.roles) : undefined;
+    this.actions = options.actions ? new Set(options.actions) : undefined;
+
+    if (options.reviewer) {
+      this.reviewer = options.reviewer;
+    } else if (options.channel) {
+      const channel = options.channel;
+      this.reviewer = async message => parseApprovalReply(await channel.ask(this.formatPrompt(message)));
+    } else {
+      throw new Error('An approval gate needs a channel or a reviewer');
+    }
+  }
+
+  /**
+   * Check whether a message is held by this gate
+   * @param message Role output
+   */
+  matches(message: Message): boolean {
+    const role = message.sentFrom || message.role;
+    return (!this.roles || this.roles.has(role)) &&
+      (!this.actions || this.actions.has(message.causedBy));
+  }
+
+  /**
+   * Get the decision on a held message
+   * @param message Role output
+   * @returns Decision
+   */
+  async review(message: Message): Promise<ApprovalDecision> {
+    const decision = ApprovalDecisionSchema.parse(await this.reviewer(message));
+    this.records.push({
+      messageId: message.id,
+      role: message.sentFrom || message.role,
+      action: message.causedBy,
+      decision,
+    });
+    return decision;
+  }
+
+  /**
+   * Build the prompt shown to the person
+   * @param message Role output
+   */
+  protected formatPrompt(message: Message): string {
+    return `${message.sentFrom || message.role} produced the following output (${message.causedBy}):
+
+${message.content}
+
+Approve [y], edit [edit: <new content>] or reject [reject: <feedback>]?`;
+  }
+}
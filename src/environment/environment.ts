@@ -1,8 +1,14 @@
 import { z } from 'zod';
-import type { Message } from '../types/message';
+import type { Message, SerializedMessage } from '../types/message';
+import { MessageSchema, serializeMessage, deserializeMessage, isRoleNotice } from '../types/message';
 import type { Role } from '../types/role';
 import type { Context } from '../context/context';
 import { logger } from '../utils/logger';
+import { MessageBus, isAddressedTo, isBroadcast } from './message-bus';
+import type { SubscriptionOptions } from './message-bus';
+import { APPROVAL_REJECTED } from './approval-gate';
+import type { ApprovalGate } from './approval-gate';
+import { readJsonFile, writeJsonFile } from '../utils/file';
 import path from 'path';
 import fs from 'fs';
 
@@ -18,20 +24,26 @@ export const EnvironmentConfigSchema = z.object({
   maxHistorySize: z.number().default(1000),
 });
 
-export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>;
+export type EnvironmentConfig = z.input<typeof EnvironmentConfigSchema>;
 
 /**
- * Helper function to write JSON file
+ * Serializable environment state: history plus undelivered role queues
  */
-function writeJsonFile(filePath: string, data: any): void {
-  // Ensure directory exists
-  const dirPath = path.dirname(filePath);
-  if (!fs.existsSync(dirPath)) {
-    fs.mkdirSync(dirPath, { recursive: true });
-  }
-  
-  // Write file
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+export interface EnvironmentSnapshot {
+  description: string;
+  messages: SerializedMessage[];
+  pending: Record<string, SerializedMessage[]>;
+}
+
+/**
+ * Read a role's idle flag, which may be exposed as a getter or a method
+ */
+function isRoleIdle(role: Role): boolean {
+  const idle = (role as any).isIdle;
+  if (typeof idle === 'function') {
+    return idle.call(role);
+  }
+  return idle ?? true;
 }
 
 /**
@@ -41,20 +53,28 @@ function writeJsonFile(filePath: string, data: any): void {
  * all roles (agents) in the system. It maintains message history,
  * manages the message bus, and provides mechanisms for roles to observe
  * and publish messages.
+ *
+ * Every role added to the environment is subscribed to the bus by name and
+ * by the action types in its `RoleContext.watch` set, and receives matching
+ * messages in its own delivery queue (see `popMessages`).
  */
 export class Environment {
   /** Environment configuration */
-  private config: EnvironmentConfig;
+  private config: z.infer<typeof EnvironmentConfigSchema>;
   /** Message history */
   private messageHistory: Message[] = [];
   /** Roles in the environment */
   private roles: Map<string, Role> = new Map();
+  /** Message bus delivering messages to role queues */
+  private bus: MessageBus = new MessageBus();
   /** Environment description */
   private description: string = '';
   /** Context for cost tracking and other shared state */
   private _context: any;
   /** Flag indicating if all roles are idle */
   private _isIdle: boolean = true;
+  /** Gates holding role output until it is approved */
+  private approvalGates: ApprovalGate[] = [];
 
   /**
    * Create a new environment
@@ -88,12 +108,48 @@ export class Environment {
   public addRoles(roles: Role[]): void {
     for (const role of roles) {
       this.roles.set(role.name, role);
+      this.bus.subscribe(role.name, { names: [role.name] });
+      if (role.context?.watch) {
+        this.bus.watchActions(role.name, role.context.watch);
+      }
       // Note: Roles must implement setEnvironment method
       (role as any).setEnvironment?.(this);
     }
     logger.info(`Added ${roles.length} roles to environment`);
   }
 
+  /**
+   * Subscribe a role to additional addresses, action types or tags
+   * @param name Role name
+   * @param options Subscription options
+   */
+  public subscribe(name: string, options: SubscriptionOptions): void {
+    this.bus.subscribe(name, options);
+  }
+
+  /**
+   * Remove a role's subscription and pending deliveries
+   * @param name Role name
+   */
+  public unsubscribe(name: string): void {
+    this.bus.unsubscribe(name);
+  }
+
+  /**
+   * Hold matching role output until the gate approves it
+   * @param gate Approval gate
+   */
+  public addApprovalGate(gate: ApprovalGate): void {
+    this.approvalGates.push(gate);
+  }
+
+  /**
+   * Get the message bus
+   */
+  public get messageBus(): MessageBus {
+    return this.bus;
+  }
+
   /**
    * Get a role by name
    * @param name Role name
@@ -125,7 +181,8 @@ export class Environment {
       );
     }
     
-    logger.debug(`Published message: ${(message as any).role} -> ${(message as any).sendTo || 'ALL'}`);
+    const delivered = this.bus.publish(message);
+    logger.debug(`Published message: ${message.role} -> [${delivered.join(', ')}]`);
   }
 
   /**
@@ -138,10 +195,27 @@ export class Environment {
     const start = fromIndex !== undefined ? Math.max(0, fromIndex) : 0;
     
     return this.messageHistory.slice(start).filter(message => {
-      return (message as any).sendTo === 'ALL' || (message as any).sendTo === recipient;
+      return isBroadcast(message) || isAddressedTo(message, [recipient]);
     });
   }
 
+  /**
+   * Take all messages delivered to a role since its last call
+   * @param name Role name
+   * @returns Pending messages in delivery order
+   */
+  public async popMessages(name: string): Promise<Message[]> {
+    return this.bus.popAll(name);
+  }
+
+  /**
+   * Check whether a role has undelivered messages waiting
+   * @param name Role name
+   */
+  public hasPendingMessages(name: string): boolean {
+    return this.bus.hasPending(name);
+  }
+
   /**
    * Get all messages in the environment
    * @returns All messages
@@ -159,7 +233,7 @@ export class Environment {
     }
     
     for (const role of this.roles.values()) {
-      if (!(role as any).isIdle?.()) {
+      if (!isRoleIdle(role) || this.bus.hasPending(role.name)) {
         return false;
       }
     }
@@ -174,17 +248,100 @@ export class Environment {
   public async run(): Promise<void> {
     this._isIdle = true;
     
-    // Run all roles in parallel
+    // Run all roles with pending deliveries or unfinished work in parallel
     const promises = Array.from(this.roles.values()).map(async (role) => {
-      if (!(role as any).isIdle?.()) {
+      if (this.bus.hasPending(role.name) || !isRoleIdle(role)) {
         this._isIdle = false;
-        await (role as any).run?.();
+        const result: Message | undefined = await (role as any).run?.();
+        
+        // Notices about the role itself are not meant for other roles
+        if (result && isRoleNotice(result)) {
+          logger.debug(`[${role.name}] ${result.content}`);
+          return;
+        }
+        
+        // Publish the role's output so watching roles receive it next round
+        if (result?.content && !this.messageHistory.some(msg => msg.id === result.id)) {
+          const approved = await this.reviewOutput(result);
+          if (approved) {
+            this.publishMessage(approved);
+          }
+        }
       }
     });
     
     await Promise.all(promises);
   }
 
+  /**
+   * Pass a role's output through the matching approval gates
+   * @param message Role output
+   * @returns Message to publish, or null if it was rejected
+   */
+  private async reviewOutput(message: Message): Promise<Message | null> {
+    let output = message;
+    for (const gate of this.approvalGates) {
+      if (!gate.matches(output)) {
+        continue;
+      }
+
+      const review = await gate.review(output);
+      if (review.decision === 'edit') {
+        output = { ...output, content: review.content };
+      } else if (review.decision === 'reject') {
+        // Send the feedback back so the author works on it next round
+        const author = output.sentFrom || output.role;
+        logger.info(`[Environment] ${gate.reviewerName} rejected output of ${author}`);
+        this.publishMessage(MessageSchema.parse({
+          role: gate.reviewerName,
+          content: `${gate.reviewerName} rejected your output of ${output.causedBy}${review.feedback ? `: ${review.feedback}` : ''}`,
+          causedBy: APPROVAL_REJECTED,
+          sentFrom: gate.reviewerName,
+          sendTo: author,
+        }));
+        return null;
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Capture the environment state
+   * @returns Snapshot of history and pending deliveries
+   */
+  public async snapshot(): Promise<EnvironmentSnapshot> {
+    const pending: Record<string, SerializedMessage[]> = {};
+    for (const name of this.roles.keys()) {
+      const queue = this.bus.getQueue(name);
+      if (queue && !queue.empty()) {
+        pending[name] = JSON.parse(await queue.dump()).messages;
+      }
+    }
+    
+    return {
+      description: this.description,
+      messages: this.messageHistory.map(serializeMessage),
+      pending,
+    };
+  }
+
+  /**
+   * Restore the environment state from a snapshot.
+   * Roles must already be added so their queues exist.
+   * @param snapshot Snapshot produced by `snapshot`
+   */
+  public async restore(snapshot: EnvironmentSnapshot): Promise<void> {
+    this.description = snapshot.description;
+    this.messageHistory = snapshot.messages.map(deserializeMessage);
+    
+    for (const name of this.roles.keys()) {
+      await this.bus.popAll(name);
+      for (const message of snapshot.pending[name] || []) {
+        this.bus.getQueue(name)?.push(deserializeMessage(message));
+      }
+    }
+  }
+
   /**
    * Archive the environment
    * @param storagePath Storage path for archiving
@@ -199,11 +356,30 @@ export class Environment {
     const historyPath = path.join(envPath, 'history.json');
     
     // Save message history
-    writeJsonFile(historyPath, {
-      description: this.description,
-      messages: this.messageHistory.map(msg => (msg as any).serialize?.() || msg),
-    });
+    writeJsonFile(historyPath, await this.snapshot());
     
     logger.info(`Archived environment data to ${envPath}`);
   }
+
+  /**
+   * Load an archive written by `archive`
+   * @param storagePath Storage path used for archiving
+   * @returns True if an archive was found and restored
+   */
+  public async loadArchive(storagePath: string): Promise<boolean> {
+    const historyPath = path.join(storagePath, 'environment', 'history.json');
+    if (!fs.existsSync(historyPath)) {
+      return false;
+    }
+    
+    const data = readJsonFile(historyPath);
+    await this.restore({
+      description: data.description || '',
+      messages: data.messages || [],
+      pending: data.pending || {},
+    });
+    
+    logger.info(`Loaded environment archive from ${historyPath}`);
+    return true;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { createInterface } from 'readline/promises';
+import type { Readable, Writable } from 'stream';
+
+/**
+ * Channel through which a person is asked for input
+ */
+export interface HumanChannel {
+  /**
+   * Show a prompt and wait for the person's reply
+   * @param prompt Prompt to show
+   * @returns Reply text
+   */
+  ask(prompt: string): Promise<string>;
+  /**
+   * Release resources held by the channel
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * A scripted reply: fixed text, or computed from the prompt
+ */
+export type ScriptedReply = string | ((prompt: string) => string | Promise<string>);
+
+/**
+ * Channel replying from a script, for tests and unattended runs
+ */
+export class ScriptedHumanChannel implements HumanChannel {
+  /** Prompts asked so far */
+  readonly prompts: string[] = [];
+  private replies: ScriptedReply[];
+
+  /**
+   * @param replies Replies in the order they are given
+   */
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  /**
+   * Queue more replies
+   * @param replies Replies to append
+   */
+  push(...replies: ScriptedReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  /**
+   * @throws If the script has no reply left
+   */
+  async ask(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    const reply = this.replies.shift();
+    if (reply === undefined) {
+      throw new Error(`No scripted reply left for prompt: ${prompt.substring(0, 50)}`);
+    }
+    return typeof reply === 'function' ? reply(prompt) : reply;
+  }
+}
+
+/**
+ * Channel reading replies from the terminal
+ */
+export class StdinHumanChannel implements HumanChannel {
+  // Roles run in parallel; questions are asked one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private input: Readable = process.stdin,
+    private output: Writable = process.stdout
+  ) {}
+
+  async ask(prompt: string): Promise<string> {
+    const answer = this.queue.then(() => this.question(prompt));
+    this.queue = answer.catch(() => undefined);
+    return answer;
+  }
+
+  private async question(prompt: string): Promise<string> {
+    // A fresh interface per question keeps stdin unpaused only while waiting
+    const rl = createInterface({ input: this.input, output: this.output });
+    try {
+      return await rl.question(`${prompt}\n> `);
+    } finally {
+      rl.close();
+    }
+  }
+}
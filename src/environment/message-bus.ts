@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import type { Message } from '../types/message';
+import { AsyncMessageQueue, MESSAGE_ROUTE } from '../types/message';
+import { logger } from '../utils/logger';
+
+/**
+ * Legacy broadcast address still used by older callers (e.g. `sendTo: 'ALL'`)
+ */
+export const LEGACY_BROADCAST_ADDRESS = 'ALL';
+
+/**
+ * Subscription schema describing which messages a subscriber is interested in
+ */
+export const SubscriptionSchema = z.object({
+  /** Addresses (role names, profiles, aliases) the subscriber answers to */
+  names: z.set(z.string()).default(() => new Set<string>()),
+  /** Action types (`causedBy`) the subscriber watches for */
+  actions: z.set(z.string()).default(() => new Set<string>()),
+  /** Message tags (`metadata.tags`) the subscriber watches for */
+  tags: z.set(z.string()).default(() => new Set<string>()),
+});
+
+export type Subscription = z.infer<typeof SubscriptionSchema>;
+
+/**
+ * Subscription options accepted by the message bus
+ */
+export interface SubscriptionOptions {
+  names?: Iterable<string>;
+  actions?: Iterable<string>;
+  tags?: Iterable<string>;
+}
+
+/**
+ * Check whether a message is a broadcast
+ * @param message Message to check
+ * @returns True if the message is addressed to everyone
+ */
+export function isBroadcast(message: Message): boolean {
+  const sendTo = toAddressSet(message.sendTo);
+  return sendTo.size === 0 ||
+    sendTo.has(MESSAGE_ROUTE.TO_ALL) ||
+    sendTo.has(LEGACY_BROADCAST_ADDRESS);
+}
+
+/**
+ * Check whether a message is explicitly addressed to one of the given names
+ * @param message Message to check
+ * @param names Addresses to match against `sendTo`
+ * @returns True if any address appears in `sendTo`
+ */
+export function isAddressedTo(message: Message, names: Iterable<string>): boolean {
+  const sendTo = toAddressSet(message.sendTo);
+  for (const name of names) {
+    if (sendTo.has(name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Normalize a `sendTo` value into a set of addresses.
+ * Messages built without `MessageSchema` may still carry a plain string or array.
+ */
+function toAddressSet(sendTo: unknown): Set<string> {
+  if (sendTo instanceof Set) {
+    return sendTo as Set<string>;
+  }
+  if (Array.isArray(sendTo)) {
+    return new Set(sendTo);
+  }
+  if (typeof sendTo === 'string' && sendTo) {
+    return new Set([sendTo]);
+  }
+  return new Set();
+}
+
+/**
+ * Topic-based message bus
+ *
+ * Every subscriber owns an `AsyncMessageQueue`. Published messages are
+ * delivered to a subscriber when:
+ * - `sendTo` explicitly names one of the subscriber's addresses, or
+ * - the message is a broadcast and it matches one of the subscriber's
+ *   watched actions (`causedBy`) or tags. Subscribers that watch no
+ *   actions and no tags receive every broadcast.
+ *
+ * Broadcasts are never echoed back to their sender.
+ */
+export class MessageBus {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private queues: Map<string, AsyncMessageQueue> = new Map();
+
+  /**
+   * Subscribe to the bus, or extend an existing subscription
+   * @param subscriberId Unique subscriber id (usually the role name)
+   * @param options Addresses, actions and tags to subscribe to
+   * @returns The subscriber's subscription
+   */
+  public subscribe(subscriberId: string, options: SubscriptionOptions = {}): Subscription {
+    const subscription = this.subscriptions.get(subscriberId) ||
+      SubscriptionSchema.parse({ names: new Set([subscriberId]) });
+
+    for (const name of options.names || []) subscription.names.add(name);
+    for (const action of options.actions || []) subscription.actions.add(action);
+    for (const tag of options.tags || []) subscription.tags.add(tag);
+
+    this.subscriptions.set(subscriberId, subscription);
+    if (!this.queues.has(subscriberId)) {
+      this.queues.set(subscriberId, new AsyncMessageQueue());
+    }
+    return subscription;
+  }
+
+  /**
+   * Watch a live set of action types.
+   * The set is shared by reference, so later changes (e.g. to `RoleContext.watch`) take effect.
+   * @param subscriberId Subscriber id
+   * @param actions Action set to watch
+   */
+  public watchActions(subscriberId: string, actions: Set<string>): void {
+    const subscription = this.subscribe(subscriberId);
+    for (const action of subscription.actions) actions.add(action);
+    subscription.actions = actions;
+  }
+
+  /**
+   * Remove a subscriber and drop its pending deliveries
+   * @param subscriberId Subscriber id
+   */
+  public unsubscribe(subscriberId: string): void {
+    this.subscriptions.delete(subscriberId);
+    this.queues.delete(subscriberId);
+  }
+
+  /**
+   * Get a subscriber's subscription
+   * @param subscriberId Subscriber id
+   */
+  public getSubscription(subscriberId: string): Subscription | undefined {
+    return this.subscriptions.get(subscriberId);
+  }
+
+  /**
+   * Get a subscriber's delivery queue
+   * @param subscriberId Subscriber id
+   */
+  public getQueue(subscriberId: string): AsyncMessageQueue | undefined {
+    return this.queues.get(subscriberId);
+  }
+
+  /**
+   * Publish a message to all matching subscribers
+   * @param message Message to publish
+   * @returns Ids of the subscribers the message was delivered to
+   */
+  public publish(message: Message): string[] {
+    const delivered: string[] = [];
+
+    for (const [subscriberId, subscription] of this.subscriptions) {
+      if (this.matches(message, subscription)) {
+        this.queues.get(subscriberId)!.push(message);
+        delivered.push(subscriberId);
+      }
+    }
+
+    logger.debug(`[MessageBus] Delivered message ${message.id} to [${delivered.join(', ')}]`);
+    return delivered;
+  }
+
+  /**
+   * Check whether a message should be delivered to a subscription
+   * @param message Message to check
+   * @param subscription Subscription to check against
+   */
+  public matches(message: Message, subscription: Subscription): boolean {
+    if (isAddressedTo(message, subscription.names)) {
+      return true;
+    }
+
+    if (!isBroadcast(message) || subscription.names.has(message.sentFrom)) {
+      return false;
+    }
+
+    if (subscription.actions.size === 0 && subscription.tags.size === 0) {
+      return true;
+    }
+
+    if (subscription.actions.has(message.causedBy)) {
+      return true;
+    }
+
+    const tags = message.metadata?.tags || [];
+    return tags.some(tag => subscription.tags.has(tag));
+  }
+
+  /**
+   * Take all pending messages for a subscriber
+   * @param subscriberId Subscriber id
+   */
+  public async popAll(subscriberId: string): Promise<Message[]> {
+    const queue = this.queues.get(subscriberId);
+    return queue ? queue.popAll() : [];
+  }
+
+  /**
+   * Check whether a subscriber has pending messages
+   * @param subscriberId Subscriber id
+   */
+  public hasPending(subscriberId: string): boolean {
+    const queue = this.queues.get(subscriberId);
+    return queue ? !queue.empty() : false;
+  }
+}
@@ -0,0 +1,110 @@
+import { WebSocketServerImpl } from '../websocket/server';
+import { WebSocketMessageType } from '../websocket/types';
+import type { WebSocketMessage, WebSocketServerOptions } from '../websocket/types';
+import { logger } from '../utils/logger';
+import type { HumanChannel } from './human-channel';
+
+/**
+ * Payload of a human input request sent to WebSocket clients
+ */
+export interface HumanInputRequest {
+  requestId: string;
+  prompt: string;
+}
+
+/**
+ * Payload of a human input reply sent by a WebSocket client
+ */
+export interface HumanInputReply {
+  requestId?: string;
+  content: string;
+}
+
+/**
+ * Channel asking connected WebSocket clients for replies.
+ *
+ * Each prompt is broadcast as a `human_input_request` message; the first
+ * `human_input` message carrying the same `requestId` answers it. Replies
+ * without a `requestId` answer the oldest open request. Clients connecting
+ * later receive the requests still open.
+ */
+export class WebSocketHumanChannel implements HumanChannel {
+  readonly server: WebSocketServerImpl;
+  private pending: Map<string, {
+    request: HumanInputRequest;
+    resolve: (content: string) => void;
+    reject: (error: Error) => void;
+  }> = new Map();
+  private started?: Promise<void>;
+
+  /**
+   * @param options Options of the WebSocket server to start
+   */
+  constructor(options: WebSocketServerOptions) {
+    this.server = new WebSocketServerImpl({
+      ...options,
+      onConnection: client => {
+        for (const { request } of this.pending.values()) {
+          client.send(JSON.stringify(this.toWebSocketMessage(request)));
+        }
+        options.onConnection?.(client);
+      },
+      onMessage: (message, client) => {
+        this.handleMessage(message);
+        options.onMessage?.(message, client);
+      },
+    });
+  }
+
+  async ask(prompt: string): Promise<string> {
+    // Every call waits on the same start so requests stay in the order they were asked
+    this.started ??= this.server.isRunning() ? Promise.resolve() : this.server.start();
+    await this.started;
+
+    const request: HumanInputRequest = { requestId: crypto.randomUUID(), prompt };
+    const reply = new Promise<string>((resolve, reject) => {
+      this.pending.set(request.requestId, { request, resolve, reject });
+    });
+    await this.server.broadcast(this.toWebSocketMessage(request));
+    return reply;
+  }
+
+  async close(): Promise<void> {
+    // Nobody can answer once the server is gone
+    for (const { request, reject } of this.pending.values()) {
+      reject(new Error(`Human channel closed before request ${request.requestId} was answered`));
+    }
+    this.pending.clear();
+    this.started = undefined;
+    await this.server.stop();
+  }
+
+  /**
+   * Resolve the request a client replied to
+   * @param message Message received from a client
+   */
+  private handleMessage(message: WebSocketMessage): void {
+    if (message.type !== WebSocketMessageType.HUMAN_INPUT) {
+      return;
+    }
+
+    const reply = message.payload as HumanInputReply;
+    const requestId = reply.requestId ?? this.pending.keys().next().value;
+    const open = requestId ? this.pending.get(requestId) : undefined;
+    if (!open) {
+      logger.warn(`[WebSocketHumanChannel] Ignoring reply to unknown request ${requestId}`);
+      return;
+    }
+    this.pending.delete(open.request.requestId);
+    open.resolve(String(reply.content ?? ''));
+  }
+
+  private toWebSocketMessage(request: HumanInputRequest): WebSocketMessage {
+    return {
+      type: WebSocketMessageType.HUMAN_INPUT_REQUEST,
+      payload: request,
+      timestamp: Date.now(),
+      id: crypto.randomUUID(),
+    };
+  }
+}
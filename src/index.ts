@@ -12,11 +12,14 @@ export * from './types/rag';
 export * from './roles/base-role';
 export * from './roles/engineer';
 export * from './roles/tutorial-assistant';
+export * from './roles/tool-using-role';
+export * from './roles/human-role';
 
 // 动作实现
 export * from './actions/base-action';
 export * from './actions/analyze-task';
 export * from './actions/write-tutorial';
+export * from './actions/use-tools';
 
 // 技能实现
 export * from './skills/base-skill';
@@ -35,6 +38,7 @@ export * from './strategy';
 
 // 提供商实现
 export * from './provider/vercel-llm';
+export * from './provider/replay-llm';
 
 // 工具函数
 export * from './utils/common';
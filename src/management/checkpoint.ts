@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import fs from 'fs';
+import { join } from 'path';
+import type { Role } from '../types/role';
+import { PlanSchema, RoleReactModeEnum } from '../types/role';
+import type { Message, SerializedMessage } from '../types/message';
+import { serializeMessage, deserializeMessage } from '../types/message';
+import { CostSnapshotSchema } from '../utils/cost-manager';
+import { readJsonFile, writeJsonFile } from '../utils/file';
+import { logger } from '../utils/logger';
+import type { LLMJournalEntries } from './llm-journal';
+
+/**
+ * Checkpoint of a single role
+ */
+export const RoleCheckpointSchema = z.object({
+  /** Role name, used to match the checkpoint to a hired role */
+  name: z.string(),
+  /** Messages held in the role's memory */
+  memory: z.array(z.any()).default([]),
+  /** RoleContext.state */
+  state: z.number().default(-1),
+  /** Name of the action in RoleContext.todo */
+  todo: z.string().nullable().default(null),
+  /** RoleContext.reactMode */
+  reactMode: RoleReactModeEnum.default('react'),
+  /** RoleContext.maxReactLoop */
+  maxReactLoop: z.number().default(1),
+  /** RoleContext.plan */
+  plan: PlanSchema.nullable().default(null),
+  /** RoleContext.watch */
+  watch: z.array(z.string()).default([]),
+});
+
+export type RoleCheckpoint = z.infer<typeof RoleCheckpointSchema>;
+
+/**
+ * Checkpoint of a team run, written after every completed round
+ */
+export const TeamCheckpointSchema = z.object({
+  /** Number of completed rounds */
+  round: z.number(),
+  /** Round the run is meant to stop at */
+  maxRounds: z.number(),
+  /** Time the checkpoint was written */
+  timestamp: z.string().default(() => new Date().toISOString()),
+  /** Environment history and undelivered messages */
+  environment: z.object({
+    description: z.string().default(''),
+    messages: z.array(z.any()).default([]),
+    pending: z.record(z.array(z.any())).default({}),
+  }),
+  /** Per-role state */
+  roles: z.array(RoleCheckpointSchema).default([]),
+  /** Cost manager totals */
+  cost: CostSnapshotSchema,
+  /** Number of journal entries recorded up to this round */
+  journalLength: z.number().default(0),
+});
+
+export type TeamCheckpoint = z.infer<typeof TeamCheckpointSchema>;
+
+/**
+ * Capture a role's memory and RoleContext
+ * @param role Role to capture
+ * @returns Role checkpoint
+ */
+export async function captureRole(role: Role): Promise<RoleCheckpoint> {
+  const memory: Message[] = (await role.context.memory?.get?.()) || [];
+
+  return {
+    name: role.name,
+    memory: memory.map(serializeMessage),
+    state: role.context.state,
+    todo: role.context.todo?.name ?? null,
+    reactMode: role.context.reactMode,
+    maxReactLoop: role.context.maxReactLoop,
+    plan: role.context.plan ?? null,
+    watch: Array.from(role.context.watch),
+  };
+}
+
+/**
+ * Restore a role's memory and RoleContext from a checkpoint
+ * @param role Role to restore
+ * @param checkpoint Role checkpoint
+ */
+export async function restoreRole(role: Role, checkpoint: RoleCheckpoint): Promise<void> {
+  const memory = role.context.memory;
+  if (memory) {
+    await memory.clear();
+    for (const message of checkpoint.memory as SerializedMessage[]) {
+      await memory.add(deserializeMessage(message));
+    }
+  }
+
+  role.context.state = checkpoint.state;
+  role.context.todo = checkpoint.todo
+    ? role.actions.find(action => action.name === checkpoint.todo) ?? null
+    : null;
+  role.context.reactMode = checkpoint.reactMode;
+  role.context.maxReactLoop = checkpoint.maxReactLoop;
+  role.context.plan = checkpoint.plan;
+
+  // Mutate in place: the environment's message bus holds this set by reference
+  role.context.watch.clear();
+  checkpoint.watch.forEach(action => role.context.watch.add(action));
+}
+
+/**
+ * File-based checkpoint store.
+ *
+ * Layout under `<storagePath>/team/checkpoints`:
+ * - `round-0003.json` - one checkpoint per completed round
+ * - `llm-journal.jsonl` - every LLM response recorded so far, one per line
+ *   in call order, including the round in progress, so a crashed round can
+ *   be replayed. Checkpoints only store how many entries they cover.
+ */
+export class CheckpointStore {
+  private dir: string;
+
+  constructor(storagePath: string) {
+    this.dir = join(storagePath, 'team', 'checkpoints');
+  }
+
+  /**
+   * Save a checkpoint
+   * @param checkpoint Checkpoint to save
+   * @returns Path of the written file
+   */
+  save(checkpoint: TeamCheckpoint): string {
+    const filePath = join(this.dir, `round-${String(checkpoint.round).padStart(4, '0')}.json`);
+    writeJsonFile(filePath, TeamCheckpointSchema.parse(checkpoint));
+    return filePath;
+  }
+
+  /**
+   * List the rounds that have a checkpoint
+   * @returns Round numbers in ascending order
+   */
+  list(): number[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.dir)
+      .map(file => /^round-(\d+)\.json$/.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Load the checkpoint of a round
+   * @param round Round number
+   */
+  load(round: number): TeamCheckpoint {
+    const filePath = join(this.dir, `round-${String(round).padStart(4, '0')}.json`);
+    return TeamCheckpointSchema.parse(readJsonFile(filePath));
+  }
+
+  /**
+   * Load the most recent checkpoint
+   * @returns Latest checkpoint, or null if none exists
+   */
+  loadLatest(): TeamCheckpoint | null {
+    const rounds = this.list();
+    return rounds.length > 0 ? this.load(rounds[rounds.length - 1]) : null;
+  }
+
+  /**
+   * Append a recorded response to the live LLM journal
+   * @param key Caller key
+   * @param response Response text
+   */
+  appendJournal(key: string, response: string): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(this.journalPath, `${JSON.stringify({ key, response })}\n`, 'utf8');
+  }
+
+  /**
+   * Load the live LLM journal
+   * @param length Number of entries to load, all if omitted
+   * @returns Journal entries, empty if none was written
+   */
+  loadJournal(length?: number): LLMJournalEntries {
+    const entries: LLMJournalEntries = {};
+    for (const { key, response } of this.readJournal().slice(0, length)) {
+      (entries[key] ??= []).push(response);
+    }
+    return entries;
+  }
+
+  /**
+   * Drop the journal entries recorded after the first `length`,
+   * so that responses of a re-run round are appended in their place
+   * @param length Number of entries to keep
+   */
+  truncateJournal(length: number): void {
+    const lines = this.readJournal().slice(0, length)
+      .map(entry => `${JSON.stringify(entry)}\n`);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.journalPath, lines.join(''), 'utf8');
+  }
+
+  private get journalPath(): string {
+    return join(this.dir, 'llm-journal.jsonl');
+  }
+
+  /**
+   * Read the journal entries in call order
+   */
+  private readJournal(): Array<{ key: string; response: string }> {
+    if (!fs.existsSync(this.journalPath)) {
+      return [];
+    }
+    const entries: Array<{ key: string; response: string }> = [];
+    for (const line of fs.readFileSync(this.journalPath, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash in the middle of an append leaves a partial last line
+        logger.warn(`[CheckpointStore] Skipping unreadable journal entry in ${this.journalPath}`);
+      }
+    }
+    return entries;
+  }
+}
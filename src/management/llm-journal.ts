@@ -0,0 +1,228 @@
+import type { z } from 'zod';
+import type {
+  LLMConfig,
+  LLMProvider,
+  LLMToolDefinition,
+  StructuredOutputOptions,
+  ToolCallingOptions,
+  ToolCallingResult,
+} from '../types/llm';
+import type { CostManager } from '../utils/cost-manager';
+import { ReplayMissError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { generateObjectWith } from '../utils/structured-output';
+
+/**
+ * Journal mode: record live responses, or serve previously recorded ones
+ */
+export type LLMJournalMode = 'record' | 'replay';
+
+/**
+ * Recorded responses, keyed by caller (e.g. `Engineer/WriteCode`) in call order
+ */
+export type LLMJournalEntries = Record<string, string[]>;
+
+/**
+ * Raised in replay mode when a caller asks for more responses than were recorded
+ */
+export class LLMReplayMissError extends ReplayMissError {
+  constructor(key: string, index: number) {
+    super(`No recorded LLM response #${index + 1} for "${key}"`);
+    this.name = 'LLMReplayMissError';
+  }
+}
+
+/**
+ * Journal of LLM responses used to make team runs reproducible.
+ *
+ * Responses are keyed per caller rather than globally so that roles running
+ * in parallel within a round replay the same way regardless of scheduling.
+ */
+export class LLMJournal {
+  private entries: Map<string, string[]>;
+  private cursors: Map<string, number> = new Map();
+
+  /**
+   * @param mode Journal mode
+   * @param entries Previously recorded responses
+   * @param onRecord Callback invoked with every recorded response
+   */
+  constructor(
+    readonly mode: LLMJournalMode = 'record',
+    entries: LLMJournalEntries = {},
+    private onRecord?: (key: string, response: string) => void
+  ) {
+    this.entries = new Map(
+      Object.entries(entries).map(([key, responses]) => [key, [...responses]])
+    );
+  }
+
+  /**
+   * Wrap a provider so its responses go through this journal
+   * @param llm Provider to wrap
+   * @param key Caller key
+   * @returns Journaled provider
+   */
+  wrap(llm: LLMProvider, key: string): JournaledLLMProvider {
+    const inner = llm instanceof JournaledLLMProvider ? llm.inner : llm;
+    return new JournaledLLMProvider(inner, this, key);
+  }
+
+  /**
+   * Record a response for a caller
+   * @param key Caller key
+   * @param response Response text
+   */
+  record(key: string, response: string): void {
+    const responses = this.entries.get(key) || [];
+    responses.push(response);
+    this.entries.set(key, responses);
+    this.onRecord?.(key, response);
+  }
+
+  /**
+   * Total number of recorded responses
+   */
+  get size(): number {
+    let size = 0;
+    this.entries.forEach(responses => size += responses.length);
+    return size;
+  }
+
+  /**
+   * Take the next recorded response for a caller
+   * @param key Caller key
+   * @throws {LLMReplayMissError} If no response is left for the caller
+   */
+  next(key: string): string {
+    const index = this.cursors.get(key) || 0;
+    const responses = this.entries.get(key) || [];
+    if (index >= responses.length) {
+      throw new LLMReplayMissError(key, index);
+    }
+    this.cursors.set(key, index + 1);
+    logger.debug(`[LLMJournal] Replaying response #${index + 1} for ${key}`);
+    return responses[index];
+  }
+
+  /**
+   * Get the recorded responses
+   * @returns Journal entries
+   */
+  toJSON(): LLMJournalEntries {
+    return Object.fromEntries(
+      Array.from(this.entries.entries()).map(([key, responses]) => [key, [...responses]])
+    );
+  }
+}
+
+/**
+ * LLM provider that records or replays responses through an `LLMJournal`
+ */
+export class JournaledLLMProvider implements LLMProvider {
+  constructor(
+    readonly inner: LLMProvider,
+    private journal: LLMJournal,
+    private key: string
+  ) {}
+
+  async chat(message: string): Promise<string> {
+    return this.call(() => this.inner.chat(message));
+  }
+
+  async generate(prompt: string, config?: Partial<LLMConfig>): Promise<string> {
+    return this.call(() => this.inner.generate(prompt, config));
+  }
+
+  async *generateStream(prompt: string, config?: Partial<LLMConfig>): AsyncIterable<string> {
+    yield* this.callStream(() => this.inner.generateStream
+      ? this.inner.generateStream(prompt, config)
+      : this.toStream(this.inner.generate(prompt, config)));
+  }
+
+  async *chatStream(message: string): AsyncIterable<string> {
+    yield* this.callStream(() => this.inner.chatStream
+      ? this.inner.chatStream(message)
+      : this.toStream(this.inner.chat(message)));
+  }
+
+  async generateObject<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: StructuredOutputOptions
+  ): Promise<T> {
+    // Objects are journaled as JSON and validated again on replay
+    const json = await this.call(async () => JSON.stringify(
+      await generateObjectWith(this.inner, prompt, schema, options)
+    ));
+    return schema.parse(JSON.parse(json));
+  }
+
+  async generateWithTools(
+    prompt: string,
+    tools: LLMToolDefinition[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResult> {
+    // Tools are not executed again on replay; the recorded calls and results are returned as they were
+    const json = await this.call(async () => {
+      if (!this.inner.generateWithTools) {
+        throw new Error(`Tool calling not supported by ${this.inner.getName()}`);
+      }
+      return JSON.stringify(await this.inner.generateWithTools(prompt, tools, options));
+    });
+    return JSON.parse(json);
+  }
+
+  setSystemPrompt(prompt: string): void {
+    this.inner.setSystemPrompt?.(prompt);
+  }
+
+  getSystemPrompt(): string {
+    return this.inner.getSystemPrompt?.() || '';
+  }
+
+  setCostManager(costManager: CostManager): void {
+    this.inner.setCostManager?.(costManager);
+  }
+
+  getName(): string {
+    return this.inner.getName();
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!this.inner.embed) {
+      throw new Error(`Embedding not supported by ${this.inner.getName()}`);
+    }
+    return this.inner.embed(text);
+  }
+
+  private async call(invoke: () => Promise<string>): Promise<string> {
+    if (this.journal.mode === 'replay') {
+      return this.journal.next(this.key);
+    }
+    const response = await invoke();
+    this.journal.record(this.key, response);
+    return response;
+  }
+
+  private async *callStream(invoke: () => AsyncIterable<string>): AsyncIterable<string> {
+    if (this.journal.mode === 'replay') {
+      yield this.journal.next(this.key);
+      return;
+    }
+    let response = '';
+    for await (const chunk of invoke()) {
+      response += chunk;
+      yield chunk;
+    }
+    this.journal.record(this.key, response);
+  }
+
+  private async *toStream(response: Promise<string>): AsyncIterable<string> {
+    yield await response;
+  }
+}
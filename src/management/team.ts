@@ -1,20 +1,38 @@
 import { z } from 'zod';
 import { Environment } from '../environment/environment';
-import { Context } from '../context/context';
-import { Message } from '../types/message';
-import { Role } from '../types/role';
-import { TeamConfig, TeamConfigSchema, TeamState, TeamStateSchema } from '../types/team';
-import { NoMoneyError } from '../utils/errors';
+import type { ApprovalGate } from '../environment/approval-gate';
+import { ContextImpl } from '../context/context';
+import type { Context } from '../context/context';
+import { MessageSchema } from '../types/message';
+import type { Message } from '../types/message';
+import type { Role } from '../types/role';
+import type { LLMProvider } from '../types/llm';
+import { TeamConfigSchema, TeamStateSchema } from '../types/team';
+import type { TeamConfig, TeamState, TeamRestoreOptions } from '../types/team';
+import { CostManager } from '../utils/cost-manager';
+import type { CostReport } from '../utils/cost-manager';
 import { readJsonFile, writeJsonFile } from '../utils/file';
+import { logger } from '../utils/logger';
+import { CheckpointStore, captureRole, restoreRole } from './checkpoint';
+import type { TeamCheckpoint } from './checkpoint';
+import { LLMJournal } from './llm-journal';
+import type { LLMJournalEntries } from './llm-journal';
 import { join } from 'path';
 
 /**
  * Team class for managing multiple roles (agents) and their interactions
+ *
+ * When `storagePath` is configured, a checkpoint is written before the first
+ * round and after every completed round, and every LLM response is journaled
+ * so that a run can be resumed with `Team.resume` or reproduced with
+ * `Team.restore(storagePath, { replay: true })`.
  */
 export class Team {
-  private config: TeamConfig;
+  private config: z.infer<typeof TeamConfigSchema>;
   private state: TeamState;
   private env: Environment;
+  private checkpoints?: CheckpointStore;
+  private journal: LLMJournal;
 
   /**
    * Create a new team instance
@@ -23,14 +41,23 @@ export class Team {
   constructor(config: TeamConfig) {
     this.config = TeamConfigSchema.parse(config);
     this.state = TeamStateSchema.parse({});
-    
-    const context = config.context || new Context();
+
+    const context = config.context || new ContextImpl();
     this.env = config.environment || new Environment({ context });
-    
+    if (!this.env.context.costManager) {
+      this.env.context.costManager = new CostManager();
+    }
+    this.costManager.maxBudget = this.config.investment;
+
+    if (this.config.storagePath) {
+      this.checkpoints = new CheckpointStore(this.config.storagePath);
+    }
+    this.journal = this.createJournal('record');
+
     if (config.roles) {
       this.hire(config.roles);
     }
-    
+
     if (config.envDesc) {
       this.env.setDescription(config.envDesc);
     }
@@ -42,15 +69,38 @@ export class Team {
    */
   public hire(roles: Role[]): void {
     this.env.addRoles(roles);
+    this.attachLLMs(roles);
+  }
+
+  /**
+   * Hold matching role output until the gate approves it
+   * @param gate Approval gate
+   */
+  public addApprovalGate(gate: ApprovalGate): void {
+    this.env.addApprovalGate(gate);
   }
 
   /**
    * Get the cost manager
    */
-  public get costManager() {
+  public get costManager(): CostManager {
     return this.env.context.costManager;
   }
 
+  /**
+   * Get the message history of the run
+   */
+  public get history(): Message[] {
+    return this.env.history;
+  }
+
+  /**
+   * Number of rounds left in the current run
+   */
+  public get remainingRounds(): number {
+    return Math.max(0, this.state.maxRounds - this.state.currentRound);
+  }
+
   /**
    * Invest in the team
    * @param amount Investment amount
@@ -66,12 +116,15 @@ export class Team {
    * @throws {NoMoneyError} If insufficient funds
    */
   private checkBalance(): void {
-    if (this.costManager.totalCost >= this.costManager.maxBudget) {
-      throw new NoMoneyError(
-        this.costManager.totalCost,
-        `Insufficient funds: ${this.costManager.maxBudget}`
-      );
-    }
+    this.costManager.checkBudget();
+  }
+
+  /**
+   * Get the cost breakdown of the run per role, action and model
+   * @returns Cost report
+   */
+  public getCostReport(): CostReport {
+    return this.costManager.getReport();
   }
 
   /**
@@ -84,11 +137,11 @@ export class Team {
 
     // Publish human requirement
     this.env.publishMessage(
-      new Message({
+      MessageSchema.parse({
         role: 'Human',
         content: idea,
         causedBy: 'UserRequirement',
-        sendTo: sendTo || 'ALL'
+        sendTo: sendTo || undefined
       })
     );
   }
@@ -110,26 +163,124 @@ export class Team {
       this.runProject(idea, sendTo);
     }
 
-    while (rounds > 0) {
-      if (this.env.isIdle) {
-        console.debug('All roles are idle.');
-        break;
-      }
+    this.state.maxRounds = this.state.currentRound + rounds;
+    this.state.isRunning = true;
+
+    if (this.checkpoints && this.journal.mode === 'record' && this.state.currentRound === 0) {
+      // Entries left over from an earlier run in the same storage path are not part of this one
+      this.checkpoints.truncateJournal(this.journal.size);
+      this.serialize(this.config.storagePath!);
+      await this.saveCheckpoint();
+    }
+
+    try {
+      while (this.state.currentRound < this.state.maxRounds) {
+        if (this.env.isIdle) {
+          console.debug('All roles are idle.');
+          break;
+        }
 
-      rounds--;
-      this.checkBalance();
-      await this.env.run();
+        this.checkBalance();
+        await this.env.run();
+        this.state.currentRound++;
+        await this.saveCheckpoint();
 
-      console.debug(`Max ${rounds} rounds left.`);
+        console.debug(`Max ${this.remainingRounds} rounds left.`);
+      }
+    } finally {
+      this.state.isRunning = false;
+      logger.info(`[Team] Cost report\n${this.costManager.formatReport()}`);
     }
 
     if (autoArchive) {
-      await this.env.archive();
+      await this.env.archive(this.config.storagePath);
+      this.state.isArchived = Boolean(this.config.storagePath);
     }
 
     return this.env.history;
   }
 
+  /**
+   * Capture the full state of the run
+   * @returns Team checkpoint
+   */
+  public async createCheckpoint(): Promise<TeamCheckpoint> {
+    return {
+      round: this.state.currentRound,
+      maxRounds: this.state.maxRounds,
+      timestamp: new Date().toISOString(),
+      environment: await this.env.snapshot(),
+      roles: await Promise.all(this.env.getRoles().map(captureRole)),
+      cost: this.costManager.snapshot(),
+      journalLength: this.journal.size,
+    };
+  }
+
+  /**
+   * Restore the run from a checkpoint
+   * @param checkpoint Team checkpoint
+   */
+  public async applyCheckpoint(checkpoint: TeamCheckpoint): Promise<void> {
+    for (const roleCheckpoint of checkpoint.roles) {
+      const role = this.env.getRole(roleCheckpoint.name);
+      if (!role) {
+        logger.warn(`[Team] No hired role named ${roleCheckpoint.name}, skipping its checkpoint`);
+        continue;
+      }
+      await restoreRole(role, roleCheckpoint);
+    }
+
+    await this.env.restore(checkpoint.environment);
+    this.costManager.restore(checkpoint.cost);
+    this.state.currentRound = checkpoint.round;
+    this.state.maxRounds = checkpoint.maxRounds;
+  }
+
+  /**
+   * Write a checkpoint for the current round
+   */
+  private async saveCheckpoint(): Promise<void> {
+    // A replay must never overwrite the checkpoints it is reproducing
+    if (!this.checkpoints || this.journal.mode === 'replay') {
+      return;
+    }
+    const filePath = this.checkpoints.save(await this.createCheckpoint());
+    logger.debug(`[Team] Saved checkpoint for round ${this.state.currentRound} to ${filePath}`);
+  }
+
+  /**
+   * Create a journal that persists every recorded response
+   */
+  private createJournal(mode: 'record' | 'replay', entries: LLMJournalEntries = {}): LLMJournal {
+    return new LLMJournal(mode, entries, (key, response) => {
+      this.checkpoints?.appendJournal(key, response);
+    });
+  }
+
+  /**
+   * Bill the LLM calls of roles and their actions to the team's cost manager,
+   * and route them through the journal when checkpointing is enabled
+   * @param roles Roles to attach
+   */
+  private attachLLMs(roles: Role[]): void {
+    const attach = (llm: LLMProvider, key: string): LLMProvider => {
+      llm.setCostManager?.(this.costManager);
+      return this.checkpoints ? this.journal.wrap(llm, key) : llm;
+    };
+
+    for (const role of roles) {
+      const roleWithLLM = role as Role & { llm?: LLMProvider };
+      if (roleWithLLM.llm) {
+        roleWithLLM.llm = attach(roleWithLLM.llm, role.name);
+      }
+      for (const action of role.actions) {
+        if (action.llm) {
+          action.llm = attach(action.llm, `${role.name}/${action.name}`);
+        }
+      }
+    }
+  }
+
   /**
    * Serialize team state to storage
    * @param storagePath Storage path
@@ -139,9 +290,18 @@ export class Team {
     const teamInfoPath = join(teamPath, 'team.json');
 
     const data = {
-      config: this.config,
-      state: this.state,
-      context: this.env.context.serialize()
+      config: {
+        investment: this.config.investment,
+        idea: this.config.idea,
+        envDesc: this.config.envDesc,
+        storagePath: this.config.storagePath,
+      },
+      state: {
+        currentRound: this.state.currentRound,
+        maxRounds: this.state.maxRounds,
+        isArchived: this.state.isArchived,
+      },
+      context: this.env.context.serialize?.()
     };
 
     writeJsonFile(teamInfoPath, data);
@@ -157,12 +317,61 @@ export class Team {
     const teamInfoPath = join(teamPath, 'team.json');
 
     const data = readJsonFile(teamInfoPath);
-    const ctx = context || new Context();
-    ctx.deserialize(data.context);
+    const ctx = context || new ContextImpl();
+    if (data.context) {
+      ctx.deserialize(data.context);
+    }
 
     return new Team({
       ...data.config,
+      storagePath: data.config.storagePath ?? storagePath,
       context: ctx
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Restore a team from its latest checkpoint without running it
+   * @param storagePath Storage path the team was run with
+   * @param options Roles to hire and restore options
+   * @returns Restored team
+   * @throws If no checkpoint exists
+   */
+  public static async restore(storagePath: string, options: TeamRestoreOptions = {}): Promise<Team> {
+    const team = Team.deserialize(storagePath, options.context);
+    const store = new CheckpointStore(storagePath);
+    const latest = store.loadLatest();
+    if (!latest) {
+      throw new Error(`No checkpoint found in ${storagePath}`);
+    }
+
+    if (options.replay) {
+      // Start over from the first checkpoint, serving every recorded response
+      team.journal = team.createJournal('replay', store.loadJournal());
+      team.hire(options.roles || []);
+      await team.applyCheckpoint(store.load(store.list()[0]));
+      team.state.maxRounds = latest.maxRounds;
+      logger.info(`[Team] Replaying run from ${storagePath} up to round ${latest.maxRounds}`);
+    } else {
+      // Drop responses recorded after the checkpoint; that round is re-run live
+      team.journal = team.createJournal('record', store.loadJournal(latest.journalLength));
+      store.truncateJournal(latest.journalLength);
+      team.hire(options.roles || []);
+      await team.applyCheckpoint(latest);
+      logger.info(`[Team] Restored run from ${storagePath} at round ${latest.round}`);
+    }
+
+    return team;
+  }
+
+  /**
+   * Resume a run from its latest checkpoint and run the remaining rounds
+   * @param storagePath Storage path the team was run with
+   * @param options Roles to hire and restore options
+   * @returns The resumed team after it finished running
+   */
+  public static async resume(storagePath: string, options: TeamRestoreOptions = {}): Promise<Team> {
+    const team = await Team.restore(storagePath, options);
+    await team.run(team.remainingRounds);
+    return team;
+  }
+}
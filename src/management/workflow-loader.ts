@@ -0,0 +1,582 @@
+/**
+ * Workflow Loader
+ *
+ * Loads workflow definitions authored as YAML or JSON files, so pipelines can
+ * be written without TypeScript:
+ *
+ * ```yaml
+ * id: prd-pipeline
+ * name: PRD pipeline
+ * nodes:
+ *   - { id: start, type: start }
+ *   - { id: write-prd, type: task, action: WritePRD, role: ProductManager }
+ *   - { id: review, type: condition, condition: variables.approved == true }
+ *   - { id: end, type: end }
+ * edges:
+ *   - { source: start, target: write-prd }
+ *   - { source: write-prd, target: review }
+ *   - { source: review, target: end, condition: 'true' }
+ *   - { source: review, target: write-prd, condition: 'false' }
+ * ```
+ *
+ * Action and role names are resolved against a {@link WorkflowRegistry}, whose
+ * factories create the action a task node runs and the role its task is
+ * assigned to, and the graph is checked before the definition is returned.
+ * Every problem is reported at once with the line and column it comes from.
+ *
+ * @module management/workflow-loader
+ * @category Core
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { LineCounter, parseDocument, type Document } from 'yaml';
+import type { Action } from '../types/action';
+import type { Role } from '../types/role';
+import { WorkflowValidationError, type WorkflowIssue } from '../utils/errors';
+import { compileExpression } from '../workflow/expression';
+import {
+  WorkflowDefinitionSchema,
+  WorkflowEdgeSchema,
+  WorkflowNodeSchema,
+  WorkflowNodeType,
+  findWorkflowCycle,
+  getNodeExpressions,
+  type WorkflowDefinition,
+  type WorkflowNode,
+} from './workflow-orchestration';
+
+/**
+ * Creates an action referenced by a workflow node
+ */
+export type ActionFactory = (options: Record<string, any>) => Action;
+
+/**
+ * Creates a role referenced by a workflow node
+ */
+export type RoleFactory = (options: Record<string, any>) => Role;
+
+/**
+ * Actions and roles that workflow files may refer to by name
+ */
+export class WorkflowRegistry {
+  private actions: Map<string, ActionFactory> = new Map();
+  private roles: Map<string, RoleFactory> = new Map();
+
+  /**
+   * Register an action
+   * @param name Name used in workflow files, e.g. `WritePRD`
+   * @param factory Action factory
+   */
+  registerAction(name: string, factory: ActionFactory): this {
+    this.actions.set(name, factory);
+    return this;
+  }
+
+  /**
+   * Register a role
+   * @param name Name used in workflow files, e.g. `Engineer`
+   * @param factory Role factory
+   */
+  registerRole(name: string, factory: RoleFactory): this {
+    this.roles.set(name, factory);
+    return this;
+  }
+
+  hasAction(name: string): boolean {
+    return this.actions.has(name);
+  }
+
+  hasRole(name: string): boolean {
+    return this.roles.has(name);
+  }
+
+  getActionNames(): string[] {
+    return Array.from(this.actions.keys());
+  }
+
+  getRoleNames(): string[] {
+    return Array.from(this.roles.keys());
+  }
+
+  /**
+   * Create a registered action
+   * @param name Action name
+   * @param options Options passed to the factory
+   */
+  createAction(name: string, options: Record<string, any> = {}): Action {
+    const factory = this.actions.get(name);
+    if (!factory) {
+      throw new Error(unknownReference('action', name, this.getActionNames()));
+    }
+    return factory(options);
+  }
+
+  /**
+   * Create a registered role
+   * @param name Role name
+   * @param options Options passed to the factory
+   */
+  createRole(name: string, options: Record<string, any> = {}): Role {
+    const factory = this.roles.get(name);
+    if (!factory) {
+      throw new Error(unknownReference('role', name, this.getRoleNames()));
+    }
+    return factory(options);
+  }
+}
+
+/**
+ * Node as written in a workflow file. `name` defaults to the id and, for
+ * TASK nodes, `taskId` does too.
+ */
+export const WorkflowFileNodeSchema = WorkflowNodeSchema.extend({
+  name: z.string().optional(),
+  /** Registered action performing the task */
+  action: z.string().optional(),
+  /** Registered role the task is assigned to */
+  role: z.string().optional(),
+}).strict();
+
+/**
+ * Edge as written in a workflow file; the id defaults to `source->target`
+ */
+export const WorkflowFileEdgeSchema = WorkflowEdgeSchema.extend({
+  id: z.string().optional(),
+}).strict();
+
+/**
+ * Workflow file schema. Unknown fields are rejected so typos surface as errors.
+ */
+export const WorkflowFileSchema = WorkflowDefinitionSchema.extend({
+  nodes: z.array(WorkflowFileNodeSchema).default([]),
+  edges: z.array(WorkflowFileEdgeSchema).default([]),
+}).strict();
+
+export type WorkflowFile = z.infer<typeof WorkflowFileSchema>;
+
+/**
+ * Workflow loader options
+ */
+export interface WorkflowLoaderOptions {
+  /** Actions and roles nodes may refer to; none when omitted */
+  registry?: WorkflowRegistry;
+}
+
+/**
+ * File extensions read by {@link WorkflowLoader.loadDirectory}
+ */
+const WORKFLOW_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Nodes that start tasks or child instances, and so can fail
+ */
+const WORKING_NODE_TYPES = [
+  WorkflowNodeType.TASK,
+  WorkflowNodeType.LOOP,
+  WorkflowNodeType.MAP,
+  WorkflowNodeType.SUBWORKFLOW,
+];
+
+/**
+ * Nodes that start child runs
+ */
+const CHILD_RUN_NODE_TYPES = [WorkflowNodeType.LOOP, WorkflowNodeType.MAP, WorkflowNodeType.SUBWORKFLOW];
+
+/**
+ * Node fields only some node types use, with how issues name them
+ */
+const TYPED_NODE_FIELDS: [keyof WorkflowNode, WorkflowNodeType[], string][] = [
+  ['retry', [WorkflowNodeType.TASK], 'a retry'],
+  ['timeout', [WorkflowNodeType.TASK], 'a timeout'],
+  ['workflowId', CHILD_RUN_NODE_TYPES, 'a workflowId'],
+  ['inputMapping', CHILD_RUN_NODE_TYPES, 'an inputMapping'],
+  ['outputMapping', CHILD_RUN_NODE_TYPES, 'an outputMapping'],
+  ['items', [WorkflowNodeType.MAP], 'items'],
+  ['concurrency', [WorkflowNodeType.MAP], 'a concurrency'],
+  ['maxIterations', [WorkflowNodeType.LOOP], 'maxIterations'],
+];
+
+/**
+ * Loads and validates workflow files
+ */
+export class WorkflowLoader {
+  readonly registry: WorkflowRegistry;
+
+  constructor(options: WorkflowLoaderOptions = {}) {
+    this.registry = options.registry ?? new WorkflowRegistry();
+  }
+
+  /**
+   * Load a workflow file
+   * @param filePath Path of a `.yaml`, `.yml` or `.json` file
+   * @returns Validated workflow definition
+   * @throws {WorkflowValidationError} Listing every problem in the file
+   */
+  async loadFile(filePath: string): Promise<WorkflowDefinition> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return this.parse(content, filePath);
+  }
+
+  /**
+   * Load every workflow file in a directory
+   * @param dirPath Directory path
+   * @returns Workflow definitions ordered by file name, with the workflows
+   * run by LOOP, MAP and SUBWORKFLOW nodes before those running them
+   * @throws {WorkflowValidationError} When workflows run each other in a cycle
+   */
+  async loadDirectory(dirPath: string): Promise<WorkflowDefinition[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    const files = entries
+      .filter(entry => entry.isFile() && WORKFLOW_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map(entry => entry.name)
+      .sort();
+
+    const workflows = new Map<string, WorkflowDefinition>();
+    const filePaths = new Map<string, string>();
+    for (const file of files) {
+      const workflow = await this.loadFile(path.join(dirPath, file));
+      workflows.set(workflow.id, workflow);
+      filePaths.set(workflow.id, path.join(dirPath, file));
+    }
+
+    for (const id of workflows.keys()) {
+      const cycle = findWorkflowCycle(id, workflows);
+      if (cycle) {
+        throw new WorkflowValidationError([{ message: `Workflow runs itself: ${cycle.join(' -> ')}`, path: [] }], filePaths.get(id));
+      }
+    }
+    return orderByReferences(workflows);
+  }
+
+  /**
+   * Parse a workflow from YAML or JSON text. JSON is read as YAML, which it
+   * is a subset of, so both report positions the same way.
+   * @param content File content
+   * @param file File name used in error messages
+   * @returns Validated workflow definition
+   * @throws {WorkflowValidationError} Listing every problem in the content
+   */
+  parse(content: string, file?: string): WorkflowDefinition {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter, prettyErrors: false });
+    const position = (offset: number): { line: number; column: number } => {
+      const { line, col } = lineCounter.linePos(offset);
+      return { line, column: col };
+    };
+
+    if (document.errors.length > 0) {
+      throw new WorkflowValidationError(
+        document.errors.map(error => ({ message: error.message, path: [], ...position(error.pos[0]) })),
+        file
+      );
+    }
+
+    const locate = (issue: WorkflowIssue): WorkflowIssue => ({ ...issue, ...position(offsetOf(document, issue.path)) });
+
+    const parsed = WorkflowFileSchema.safeParse(document.toJS() ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => locate({
+        message: issue.message,
+        path: issue.code === z.ZodIssueCode.unrecognized_keys ? [...issue.path, issue.keys[0]] : issue.path,
+      }));
+      throw new WorkflowValidationError(sortIssues(issues), file);
+    }
+
+    const issues = this.checkReferences(parsed.data);
+    const definition = this.resolve(parsed.data, issues);
+    issues.push(...validateWorkflowGraph(definition));
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(sortIssues(issues.map(locate)), file);
+    }
+    return definition;
+  }
+
+  /**
+   * Check that actions and roles exist and are only used on TASK nodes
+   */
+  private checkReferences(workflow: WorkflowFile): WorkflowIssue[] {
+    const issues: WorkflowIssue[] = [];
+    workflow.nodes.forEach((node, index) => {
+      for (const kind of ['action', 'role'] as const) {
+        const name = node[kind];
+        if (name === undefined) {
+          continue;
+        }
+        if (node.type !== WorkflowNodeType.TASK) {
+          issues.push({ message: `Only task nodes can have ${kind === 'action' ? 'an action' : 'a role'}`, path: ['nodes', index, kind] });
+        } else if (kind === 'action' ? !this.registry.hasAction(name) : !this.registry.hasRole(name)) {
+          const names = kind === 'action' ? this.registry.getActionNames() : this.registry.getRoleNames();
+          issues.push({ message: unknownReference(kind, name, names), path: ['nodes', index, kind] });
+        }
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Turn a workflow file into a definition. The actions and roles of TASK
+   * nodes are created through the registry, with the node inputs as options,
+   * and run the task when the orchestration dispatches it.
+   * @param issues Receives the references whose factory throws
+   */
+  private resolve(workflow: WorkflowFile, issues: WorkflowIssue[]): WorkflowDefinition {
+    return {
+      ...workflow,
+      nodes: workflow.nodes.map(({ action, role, ...node }, index) => {
+        const task = node.type === WorkflowNodeType.TASK;
+        return {
+          ...node,
+          name: node.name ?? node.id,
+          taskId: node.taskId ?? (task ? node.id : undefined),
+          action: task && action !== undefined && this.registry.hasAction(action)
+            ? this.create('action', action, ['nodes', index], issues, () => this.registry.createAction(action, node.inputs))
+            : undefined,
+          role: task && role !== undefined && this.registry.hasRole(role)
+            ? this.create('role', role, ['nodes', index], issues, () => this.registry.createRole(role, node.inputs))
+            : undefined,
+        };
+      }),
+      edges: workflow.edges.map(edge => ({ ...edge, id: edge.id ?? `${edge.source}->${edge.target}` })),
+    };
+  }
+
+  /**
+   * Call a registry factory, reporting a factory that throws as an issue
+   */
+  private create<T>(
+    kind: 'action' | 'role',
+    name: string,
+    nodePath: (string | number)[],
+    issues: WorkflowIssue[],
+    factory: () => T
+  ): T | undefined {
+    try {
+      return factory();
+    } catch (error) {
+      issues.push({ message: `Cannot create ${kind} ${name}: ${(error as Error).message}`, path: [...nodePath, kind] });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Check the structure of a workflow: a single START node, at least one END
+ * node, unique ids, edges between existing nodes, every node reachable from
+ * START and able to reach an END node, JOIN nodes downstream of a FORK node,
+ * valid expressions, complete LOOP, MAP and SUBWORKFLOW nodes, and fields
+ * only on the node types using them.
+ * @param workflow Workflow definition
+ * @returns Problems found, with paths into the definition
+ */
+export function validateWorkflowGraph(workflow: WorkflowDefinition): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = [];
+  const nodes = new Map<string, number>();
+
+  workflow.nodes.forEach((node, index) => {
+    if (nodes.has(node.id)) {
+      issues.push({ message: `Duplicate node id ${node.id}`, path: ['nodes', index, 'id'] });
+    } else {
+      nodes.set(node.id, index);
+    }
+  });
+
+  const starts = workflow.nodes.filter(node => node.type === WorkflowNodeType.START);
+  if (starts.length === 0) {
+    issues.push({ message: 'Workflow has no START node', path: ['nodes'] });
+  }
+  starts.slice(1).forEach(node => {
+    issues.push({ message: `Workflow has more than one START node: ${node.id}`, path: ['nodes', nodes.get(node.id)!] });
+  });
+  if (!workflow.nodes.some(node => node.type === WorkflowNodeType.END)) {
+    issues.push({ message: 'Workflow has no END node', path: ['nodes'] });
+  }
+
+  const edgeIds = new Set<string>();
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  workflow.edges.forEach((edge, index) => {
+    if (edgeIds.has(edge.id)) {
+      issues.push({ message: `Duplicate edge id ${edge.id}`, path: ['edges', index] });
+    }
+    edgeIds.add(edge.id);
+
+    let valid = true;
+    for (const end of ['source', 'target'] as const) {
+      if (!nodes.has(edge[end])) {
+        issues.push({ message: `Edge ${end} ${edge[end]} is not a node`, path: ['edges', index, end] });
+        valid = false;
+      }
+    }
+    if (!valid) {
+      return;
+    }
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target]);
+    incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge.source]);
+
+    const source = workflow.nodes[nodes.get(edge.source)!];
+    if (edge.onError && !WORKING_NODE_TYPES.includes(source.type)) {
+      issues.push({ message: `${describeNode(source)} cannot have error edges`, path: ['edges', index, 'onError'] });
+    } else if (source.type === WorkflowNodeType.CONDITION && edge.condition !== undefined &&
+      edge.condition !== 'true' && edge.condition !== 'false') {
+      issues.push({
+        message: `Edges leaving condition node ${source.id} take the condition 'true' or 'false'`,
+        path: ['edges', index, 'condition'],
+      });
+    }
+  });
+
+  // A failing node hands over to its compensation node
+  const compensations = new Set<string>();
+  workflow.nodes.forEach((node, index) => {
+    if (node.compensation === undefined) {
+      return;
+    }
+    if (!WORKING_NODE_TYPES.includes(node.type)) {
+      issues.push({ message: `${describeNode(node)} cannot have a compensation node`, path: ['nodes', index, 'compensation'] });
+    } else if (node.compensation === node.id) {
+      issues.push({ message: `Node ${node.id} cannot compensate itself`, path: ['nodes', index, 'compensation'] });
+    } else if (!nodes.has(node.compensation)) {
+      issues.push({ message: `Compensation node ${node.compensation} is not a node`, path: ['nodes', index, 'compensation'] });
+    } else {
+      compensations.add(node.compensation);
+      outgoing.set(node.id, [...(outgoing.get(node.id) ?? []), node.compensation]);
+    }
+  });
+
+  const reachable = traverse(starts.slice(0, 1).map(node => node.id), outgoing);
+  const reachesEnd = traverse(
+    workflow.nodes.filter(node => node.type === WorkflowNodeType.END).map(node => node.id),
+    incoming
+  );
+
+  workflow.nodes.forEach((node, index) => {
+    if (nodes.get(node.id) !== index) {
+      return;
+    }
+    if (starts.length > 0 && !reachable.has(node.id)) {
+      issues.push({ message: `Node ${node.id} is unreachable from the START node`, path: ['nodes', index] });
+    } else if (reachable.has(node.id) && !reachesEnd.has(node.id) && !compensations.has(node.id)) {
+      issues.push({ message: `Node ${node.id} cannot reach an END node`, path: ['nodes', index] });
+    }
+
+    for (const [field, types, name] of TYPED_NODE_FIELDS) {
+      if (node[field] !== undefined && !types.includes(node.type)) {
+        issues.push({ message: `Only ${listTypes(types)} nodes can have ${name}`, path: ['nodes', index, field] });
+      }
+    }
+
+    if (node.workflowId === workflow.id) {
+      issues.push({ message: `${describeNode(node)} runs its own workflow`, path: ['nodes', index, 'workflowId'] });
+    }
+    if (CHILD_RUN_NODE_TYPES.includes(node.type)) {
+      if (node.taskId !== undefined && (node.workflowId !== undefined || node.type === WorkflowNodeType.SUBWORKFLOW)) {
+        issues.push({ message: `${describeNode(node)} runs a workflow and cannot have a taskId`, path: ['nodes', index, 'taskId'] });
+      } else if (node.taskId === undefined && node.workflowId === undefined) {
+        const missing = node.type === WorkflowNodeType.SUBWORKFLOW ? 'workflowId' : 'taskId or workflowId';
+        issues.push({ message: `${describeNode(node)} has no ${missing}`, path: ['nodes', index] });
+      }
+    }
+    if (node.type === WorkflowNodeType.MAP && !node.items) {
+      issues.push({ message: `${describeNode(node)} has no items`, path: ['nodes', index] });
+    }
+
+    if (node.type === WorkflowNodeType.JOIN) {
+      const upstream = traverse(incoming.get(node.id) ?? [], incoming);
+      if (!workflow.nodes.some(other => other.type === WorkflowNodeType.FORK && upstream.has(other.id))) {
+        issues.push({ message: `Join node ${node.id} has no FORK node before it`, path: ['nodes', index] });
+      }
+    }
+
+    if ((node.type === WorkflowNodeType.CONDITION || node.type === WorkflowNodeType.LOOP) && !node.condition) {
+      issues.push({ message: `${describeNode(node)} has no condition`, path: ['nodes', index] });
+    }
+    for (const expression of getNodeExpressions(node)) {
+      try {
+        compileExpression(expression.source, { identifiers: expression.identifiers });
+      } catch (error) {
+        issues.push({ message: `Invalid ${expression.label}: ${(error as Error).message}`, path: ['nodes', index, ...expression.path] });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Order workflows so those run by LOOP, MAP and SUBWORKFLOW nodes come
+ * before the workflows running them, as registration requires
+ */
+function orderByReferences(workflows: Map<string, WorkflowDefinition>): WorkflowDefinition[] {
+  const ordered: WorkflowDefinition[] = [];
+  const visit = (workflow: WorkflowDefinition): void => {
+    if (ordered.includes(workflow)) {
+      return;
+    }
+    for (const node of workflow.nodes) {
+      const child = node.workflowId !== undefined ? workflows.get(node.workflowId) : undefined;
+      if (child && child !== workflow) {
+        visit(child);
+      }
+    }
+    ordered.push(workflow);
+  };
+  workflows.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Nodes reachable from the given ones, themselves included
+ */
+function traverse(from: string[], adjacency: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>(from);
+  const queue = [...from];
+  while (queue.length > 0) {
+    for (const next of adjacency.get(queue.shift()!) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Source offset of the value at a path, or of its closest existing parent
+ */
+function offsetOf(document: Document, issuePath: (string | number)[]): number {
+  for (let length = issuePath.length; length > 0; length--) {
+    const node = document.getIn(issuePath.slice(0, length), true) as { range?: [number, number, number] } | undefined;
+    if (node?.range) {
+      return node.range[0];
+    }
+  }
+  return document.contents?.range?.[0] ?? 0;
+}
+
+/**
+ * Node named with its type, e.g. `Loop node fix`
+ */
+function describeNode(node: WorkflowNode): string {
+  return `${node.type.charAt(0).toUpperCase()}${node.type.slice(1)} node ${node.id}`;
+}
+
+function listTypes(types: WorkflowNodeType[]): string {
+  return types.length > 1 ? `${types.slice(0, -1).join(', ')} and ${types.at(-1)}` : types[0];
+}
+
+function sortIssues(issues: WorkflowIssue[]): WorkflowIssue[] {
+  return [...issues].sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+}
+
+function unknownReference(kind: 'action' | 'role', name: string, names: string[]): string {
+  const match = names.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  if (match) {
+    return `Unknown ${kind} ${name}; did you mean ${match}?`;
+  }
+  return names.length > 0
+    ? `Unknown ${kind} ${name}; registered ${kind}s: ${names.join(', ')}`
+    : `Unknown ${kind} ${name}; no ${kind}s are registered`;
+}
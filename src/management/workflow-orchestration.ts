@@ -1,7 +1,37 @@
 import { z } from 'zod';
 import type { TeamCollaboration } from './team-collaboration';
 import { TaskState, type Task } from './team-collaboration';
+import type { Action } from '../types/action';
+import type { Role } from '../types/role';
 import { logger } from '../utils/logger';
+import { compileExpression, evaluateExpression } from '../workflow/expression';
+import type { WorkflowInstanceEvent, WorkflowInstanceEventInput, WorkflowInstanceStore } from './workflow-store';
+import { applyWorkflowEvent, replayWorkflowEvents } from './workflow-store';
+
+/**
+ * Names condition expressions may refer to
+ */
+const CONDITION_IDENTIFIERS = ['variables'];
+
+/**
+ * Names the condition and input mapping of a LOOP node may refer to
+ */
+const LOOP_IDENTIFIERS = ['variables', 'iteration'];
+
+/**
+ * Names the input mapping of a MAP node may refer to
+ */
+const MAP_IDENTIFIERS = ['variables', 'item', 'index'];
+
+/**
+ * Names output mappings may refer to
+ */
+const OUTPUT_IDENTIFIERS = ['result', 'variables'];
+
+/**
+ * Iterations a LOOP node runs at most when it sets no limit
+ */
+const DEFAULT_MAX_ITERATIONS = 100;
 
 /**
  * Workflow node types
@@ -13,8 +43,28 @@ export enum WorkflowNodeType {
   CONDITION = 'condition',
   FORK = 'fork',
   JOIN = 'join',
+  LOOP = 'loop',
+  MAP = 'map',
+  SUBWORKFLOW = 'subworkflow',
 }
 
+/**
+ * Retry policy of a TASK node. The delay before retry n is
+ * `initialDelay * backoffMultiplier^(n - 1)`, capped at `maxDelay`.
+ */
+export const NodeRetryPolicySchema = z.object({
+  /** Attempts including the first one */
+  maxAttempts: z.number().int().min(1).default(3),
+  /** Delay before the first retry (ms) */
+  initialDelay: z.number().min(0).default(1000),
+  /** Factor applied to the delay after each retry */
+  backoffMultiplier: z.number().min(1).default(2),
+  /** Longest delay between attempts (ms) */
+  maxDelay: z.number().min(0).default(60000),
+});
+
+export type NodeRetryPolicy = z.infer<typeof NodeRetryPolicySchema>;
+
 /**
  * Workflow node schema
  */
@@ -27,10 +77,32 @@ export const WorkflowNodeSchema = z.object({
   name: z.string(),
   /** Node description */
   description: z.string().default(''),
-  /** Associated task ID (for TASK nodes) */
+  /** Associated task ID (for TASK nodes, and LOOP and MAP nodes running a task) */
   taskId: z.string().optional(),
-  /** Condition expression (for CONDITION nodes) */
+  /** Condition expression (for CONDITION nodes, and the while-condition of LOOP nodes) */
   condition: z.string().optional(),
+  /** Workflow run by SUBWORKFLOW nodes, and by LOOP and MAP nodes instead of a task */
+  workflowId: z.string().optional(),
+  /** Expression giving the array a MAP node runs its task or workflow for */
+  items: z.string().optional(),
+  /** Items a MAP node runs at a time; maxParallelTasks when unset */
+  concurrency: z.number().int().positive().optional(),
+  /** Iterations after which a LOOP node whose condition still holds fails */
+  maxIterations: z.number().int().positive().optional(),
+  /** Variables of each child workflow, or fields of each child task, as expressions over the node's scope */
+  inputMapping: z.record(z.string()).optional(),
+  /** Variables set from the result of a child run, as expressions over `result` and `variables` */
+  outputMapping: z.record(z.string()).optional(),
+  /** Retry policy (for TASK nodes); a single attempt when unset */
+  retry: NodeRetryPolicySchema.optional(),
+  /** Timeout of each attempt in ms (for TASK nodes) */
+  timeout: z.number().positive().optional(),
+  /** Node run when this node fails permanently, to undo its side effects */
+  compensation: z.string().optional(),
+  /** Action run when the task of a TASK node is dispatched, settling the task with its output */
+  action: z.custom<Action>(value => typeof (value as Action)?.run === 'function').optional(),
+  /** Role the task of a TASK node is assigned to, and the action runs as */
+  role: z.custom<Role>(value => typeof (value as Role)?.name === 'string').optional(),
   /** Input parameters */
   inputs: z.record(z.any()).default({}),
   /** Output parameters */
@@ -41,6 +113,47 @@ export const WorkflowNodeSchema = z.object({
 
 export type WorkflowNode = z.infer<typeof WorkflowNodeSchema>;
 
+/**
+ * Expression held by a node
+ */
+export interface NodeExpression {
+  /** What the expression is for, e.g. `condition` or `input mapping topic` */
+  label: string;
+  /** Path of the expression in the node */
+  path: string[];
+  /** Expression source */
+  source: string;
+  /** Names the expression may refer to */
+  identifiers: string[];
+}
+
+/**
+ * List the expressions of a node with the names each may refer to, so they
+ * can be checked before an instance runs
+ * @param node Workflow node
+ * @returns Condition, items and mapping expressions of the node
+ */
+export function getNodeExpressions(node: WorkflowNode): NodeExpression[] {
+  const scope = node.type === WorkflowNodeType.LOOP ? LOOP_IDENTIFIERS
+    : node.type === WorkflowNodeType.MAP ? MAP_IDENTIFIERS
+    : CONDITION_IDENTIFIERS;
+  
+  const expressions: NodeExpression[] = [];
+  if (node.condition) {
+    expressions.push({ label: 'condition', path: ['condition'], source: node.condition, identifiers: scope });
+  }
+  if (node.items) {
+    expressions.push({ label: 'items', path: ['items'], source: node.items, identifiers: CONDITION_IDENTIFIERS });
+  }
+  for (const [name, source] of Object.entries(node.inputMapping ?? {})) {
+    expressions.push({ label: `input mapping ${name}`, path: ['inputMapping', name], source, identifiers: scope });
+  }
+  for (const [name, source] of Object.entries(node.outputMapping ?? {})) {
+    expressions.push({ label: `output mapping ${name}`, path: ['outputMapping', name], source, identifiers: OUTPUT_IDENTIFIERS });
+  }
+  return expressions;
+}
+
 /**
  * Workflow edge schema (connection between nodes)
  */
@@ -55,6 +168,8 @@ export const WorkflowEdgeSchema = z.object({
   label: z.string().default(''),
   /** Condition to evaluate (for conditional edges) */
   condition: z.string().optional(),
+  /** Followed only when the source node fails permanently, routing the failure to a handler */
+  onError: z.boolean().optional(),
   /** Edge metadata */
   metadata: z.record(z.any()).default({}),
 });
@@ -97,6 +212,76 @@ export enum WorkflowInstanceState {
   CANCELED = 'canceled',
 }
 
+/**
+ * Progress of the attempts of a TASK node
+ */
+export const NodeAttemptSchema = z.object({
+  /** Current attempt, starting at 1 */
+  attempt: z.number(),
+  /** Start time of the current attempt */
+  startedAt: z.date(),
+  /** Time of the next attempt, while waiting out a backoff */
+  retryAt: z.date().optional(),
+});
+
+export type NodeAttempt = z.infer<typeof NodeAttemptSchema>;
+
+/**
+ * Entry of an instance's history, one per recorded event
+ */
+export const WorkflowHistoryEntrySchema = z.object({
+  /** Event time */
+  timestamp: z.date(),
+  /** Event type, e.g. `attempt_failed` */
+  type: z.string(),
+  /** Node the event concerns */
+  nodeId: z.string().optional(),
+  /** Attempt the event concerns */
+  attempt: z.number().optional(),
+  /** Error of failures */
+  error: z.string().optional(),
+  /** Time of the next attempt, when a retry was scheduled */
+  retryAt: z.date().optional(),
+  /** Compensation node started for a failure */
+  compensationNodeId: z.string().optional(),
+});
+
+export type WorkflowHistoryEntry = z.infer<typeof WorkflowHistoryEntrySchema>;
+
+/**
+ * Task or workflow instance started by a LOOP, MAP or SUBWORKFLOW node
+ */
+export const ChildRunSchema = z.object({
+  /** Iteration of a LOOP node, or item index of a MAP node; 0 for SUBWORKFLOW nodes */
+  index: z.number(),
+  /** Task ID or workflow instance ID */
+  childId: z.string(),
+  /** Whether the child is a task or a workflow instance */
+  kind: z.enum(['task', 'workflow']),
+  /** Run state */
+  state: z.enum(['running', 'completed', 'failed']),
+  /** Task result, or the final `variables` and `nodeResults` of a workflow instance */
+  result: z.any().optional(),
+  /** Error of a failed run */
+  error: z.string().optional(),
+});
+
+export type ChildRun = z.infer<typeof ChildRunSchema>;
+
+/**
+ * Node of another instance that started an instance as its child
+ */
+export const WorkflowInstanceParentSchema = z.object({
+  /** Parent instance ID */
+  instanceId: z.string(),
+  /** LOOP, MAP or SUBWORKFLOW node of the parent */
+  nodeId: z.string(),
+  /** Index of the child run */
+  index: z.number(),
+});
+
+export type WorkflowInstanceParent = z.infer<typeof WorkflowInstanceParentSchema>;
+
 /**
  * Workflow instance schema
  */
@@ -115,6 +300,22 @@ export const WorkflowInstanceSchema = z.object({
   nodeResults: z.record(z.any()).default({}),
   /** Workflow variables */
   variables: z.record(z.any()).default({}),
+  /** Idempotency keys of the tasks dispatched by TASK nodes, by node ID */
+  dispatchedTasks: z.record(z.string()).default({}),
+  /** Attempts of TASK nodes, by node ID */
+  nodeAttempts: z.record(NodeAttemptSchema).default({}),
+  /** Nodes that failed permanently with the failure handled */
+  failedNodes: z.array(z.string()).default([]),
+  /** Failed node each running compensation node compensates, by compensation node ID */
+  compensations: z.record(z.string()).default({}),
+  /** Items of MAP nodes, evaluated when the node starts, by node ID */
+  mapItems: z.record(z.array(z.any())).default({}),
+  /** Tasks and instances started by LOOP, MAP and SUBWORKFLOW nodes, by node ID */
+  childRuns: z.record(z.array(ChildRunSchema)).default({}),
+  /** Node that started this instance, for child instances */
+  parent: WorkflowInstanceParentSchema.optional(),
+  /** Recorded events, including attempts, retries and compensations */
+  history: z.array(WorkflowHistoryEntrySchema).default([]),
   /** Start time */
   startTime: z.date().optional(),
   /** End time */
@@ -125,6 +326,47 @@ export const WorkflowInstanceSchema = z.object({
 
 export type WorkflowInstance = z.infer<typeof WorkflowInstanceSchema>;
 
+/**
+ * Find a chain of `workflowId` references leading from a workflow back to itself
+ * @param workflowId Workflow to start from
+ * @param workflows Workflow definitions by ID
+ * @returns Workflow IDs of the cycle, starting and ending with `workflowId`, or undefined
+ */
+export function findWorkflowCycle(
+  workflowId: string,
+  workflows: Map<string, WorkflowDefinition>
+): string[] | undefined {
+  const visited = new Set<string>();
+  const visit = (id: string, chain: string[]): string[] | undefined => {
+    for (const node of workflows.get(id)?.nodes ?? []) {
+      if (!node.workflowId) {
+        continue;
+      }
+      if (node.workflowId === workflowId) {
+        return [...chain, workflowId];
+      }
+      if (!visited.has(node.workflowId)) {
+        visited.add(node.workflowId);
+        const cycle = visit(node.workflowId, [...chain, node.workflowId]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    return undefined;
+  };
+  return visit(workflowId, [workflowId]);
+}
+
+/**
+ * States an instance never leaves
+ */
+const TERMINAL_STATES = [
+  WorkflowInstanceState.COMPLETED,
+  WorkflowInstanceState.FAILED,
+  WorkflowInstanceState.CANCELED,
+];
+
 /**
  * Configuration for WorkflowOrchestration
  */
@@ -137,6 +379,12 @@ export const WorkflowOrchestrationConfigSchema = z.object({
   enableAutoRecovery: z.boolean().default(true),
   /** Workflow execution timeout (ms) */
   executionTimeout: z.number().default(3600000), // 1 hour
+  /** Store persisting instance transitions; instances live in memory only when unset */
+  instanceStore: z.custom<WorkflowInstanceStore>().optional(),
+  /** Levels of child instances LOOP, MAP and SUBWORKFLOW nodes may nest */
+  maxNestingDepth: z.number().int().min(0).default(10),
+  /** Time (ms) to wait for the task of a node dispatched before a restart to reappear before failing the attempt */
+  recoveredTaskTimeout: z.number().min(0).default(60000),
 });
 
 export type WorkflowOrchestrationConfig = z.infer<typeof WorkflowOrchestrationConfigSchema>;
@@ -155,12 +403,20 @@ export class WorkflowOrchestration {
   private workflowInstances: Map<string, WorkflowInstance> = new Map();
   /** Execution timeouts */
   private executionTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** Task polling intervals, by instance and node ID */
+  private taskMonitors: Map<string, ReturnType<typeof setInterval>> = new Map();
+  /** Timers starting the next attempt of a node, by instance and node ID */
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** Timers failing the current attempt of a node, by instance and node ID */
+  private attemptTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** Pending writes to the instance store, in event order */
+  private pendingWrites: Promise<void> = Promise.resolve();
 
   /**
    * Create a new WorkflowOrchestration instance
    * @param config Configuration
    */
-  constructor(config: WorkflowOrchestrationConfig) {
+  constructor(config: z.input<typeof WorkflowOrchestrationConfigSchema>) {
     this.config = WorkflowOrchestrationConfigSchema.parse(config);
     this.teamCollaboration = this.config.teamCollaboration as TeamCollaboration;
   }
@@ -182,6 +438,29 @@ export class WorkflowOrchestration {
       throw new Error(`Workflow ${validated.id} must have START and END nodes`);
     }
     
+    // Reject malformed expressions before any instance runs
+    for (const node of validated.nodes) {
+      for (const expression of getNodeExpressions(node)) {
+        try {
+          compileExpression(expression.source, { identifiers: expression.identifiers });
+        } catch (error) {
+          throw new Error(`Invalid ${expression.label} in node ${node.id} of workflow ${validated.id}: ${(error as Error).message}`);
+        }
+      }
+    }
+    
+    // Child workflows must be registered first and must not lead back to this one
+    const workflows = new Map(this.workflowDefinitions).set(validated.id, validated);
+    for (const node of validated.nodes) {
+      if (node.workflowId && !workflows.has(node.workflowId)) {
+        throw new Error(`Node ${node.id} of workflow ${validated.id} runs unregistered workflow ${node.workflowId}`);
+      }
+    }
+    const cycle = findWorkflowCycle(validated.id, workflows);
+    if (cycle) {
+      throw new Error(`Workflow ${validated.id} runs itself: ${cycle.join(' -> ')}`);
+    }
+    
     // Store workflow
     this.workflowDefinitions.set(validated.id, validated);
     logger.info(`Registered workflow ${validated.id}: ${validated.name}`);
@@ -207,30 +486,42 @@ export class WorkflowOrchestration {
   public createWorkflowInstance(
     workflowId: string,
     variables: Record<string, any> = {}
+  ): WorkflowInstance {
+    return this.createInstance(this.generateInstanceId(), workflowId, variables);
+  }
+
+  /**
+   * Create an instance under a given ID
+   * @param parent Node starting the instance, for child instances
+   */
+  private createInstance(
+    instanceId: string,
+    workflowId: string,
+    variables: Record<string, any>,
+    parent?: WorkflowInstanceParent
   ): WorkflowInstance {
     const workflow = this.workflowDefinitions.get(workflowId);
     if (!workflow) {
       throw new Error(`Workflow ${workflowId} not found`);
     }
     
-    // Generate instance ID
-    const instanceId = `wf-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-    
     // Create instance
-    const instance: WorkflowInstance = WorkflowInstanceSchema.parse({
-      id: instanceId,
+    const instance = this.record({
+      type: 'created',
+      instanceId,
       workflowId,
-      state: WorkflowInstanceState.CREATED,
       variables: { ...workflow.inputs, ...variables },
+      parent,
     });
-    
-    // Store instance
-    this.workflowInstances.set(instanceId, instance);
     logger.info(`Created workflow instance ${instanceId} for workflow ${workflowId}`);
     
     return instance;
   }
 
+  private generateInstanceId(): string {
+    return `wf-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+
   /**
    * Start a workflow instance
    * @param instanceId Instance ID
@@ -259,24 +550,10 @@ export class WorkflowOrchestration {
     }
     
     // Update instance state
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      state: WorkflowInstanceState.RUNNING,
-      activeNodes: [startNode.id],
-      startTime: new Date(),
-    };
-    
-    // Store updated instance
-    this.workflowInstances.set(instanceId, updatedInstance);
+    const updatedInstance = this.record({ type: 'started', instanceId, nodeId: startNode.id });
     
     // Set execution timeout
-    if (this.config.executionTimeout > 0) {
-      const timeout = setTimeout(() => {
-        this.handleWorkflowTimeout(instanceId);
-      }, this.config.executionTimeout);
-      
-      this.executionTimeouts.set(instanceId, timeout);
-    }
+    this.scheduleTimeout(instanceId, this.config.executionTimeout);
     
     // Start execution
     this.executeWorkflowStep(instanceId);
@@ -326,6 +603,18 @@ export class WorkflowOrchestration {
           await this.processJoinNode(instance, workflow, node);
           break;
           
+        case WorkflowNodeType.LOOP:
+          await this.processLoopNode(instance, workflow, node);
+          break;
+          
+        case WorkflowNodeType.MAP:
+          await this.processMapNode(instance, workflow, node);
+          break;
+          
+        case WorkflowNodeType.SUBWORKFLOW:
+          await this.processSubworkflowNode(instance, workflow, node);
+          break;
+          
         case WorkflowNodeType.END:
           await this.processEndNode(instance, workflow, node);
           break;
@@ -348,7 +637,7 @@ export class WorkflowOrchestration {
     this.completeNode(instance.id, node.id, {});
     
     // Find outgoing edges
-    const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id);
+    const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id && !edge.onError);
     
     // Activate next nodes
     for (const edge of outgoingEdges) {
@@ -370,25 +659,69 @@ export class WorkflowOrchestration {
       return;
     }
     
-    const task = this.teamCollaboration.getTask(node.taskId);
+    // Waiting out the backoff before the next attempt
+    const progress = instance.nodeAttempts[node.id];
+    if (progress?.retryAt) {
+      this.scheduleRetry(instance.id, node.id, progress.retryAt.getTime() - Date.now());
+      return;
+    }
+    
+    // Retries dispatch a task of their own, so a late result of an abandoned attempt is ignored
+    const attempt = progress?.attempt ?? 1;
+    const baseTaskId = this.scopeTaskId(instance, node.taskId);
+    const taskId = attempt > 1 ? `${baseTaskId}#${attempt}` : baseTaskId;
+    const idempotencyKey = attempt > 1 ? `${instance.id}:${node.id}#${attempt}` : `${instance.id}:${node.id}`;
+    const task = this.teamCollaboration.getTask(taskId);
+    const dispatched = instance.dispatchedTasks[node.id] === idempotencyKey;
     
     if (!task) {
+      if (dispatched) {
+        // Dispatched before a restart: wait for the task to reappear instead of running it twice
+        this.monitorTaskCompletion(instance.id, node.id, taskId, attempt, this.config.recoveredTaskTimeout);
+        this.scheduleAttemptTimeout(instance.id, node, attempt);
+        return;
+      }
+      
+      if (!progress) {
+        this.record({ type: 'attempt_started', instanceId: instance.id, nodeId: node.id, attempt });
+      }
+      
+      // Save the dispatch before creating the task, so recovery never creates it again
+      try {
+        await this.recordSaved({ type: 'task_dispatched', instanceId: instance.id, nodeId: node.id, taskId, idempotencyKey });
+      } catch (error) {
+        this.handleAttemptFailure(instance.id, node.id, attempt, `Failed to save the dispatch of task ${taskId}: ${error}`);
+        return;
+      }
+      
+      // The instance may have been canceled or timed out while saving
+      const current = this.workflowInstances.get(instance.id);
+      if (current?.state !== WorkflowInstanceState.RUNNING || !current.activeNodes.includes(node.id) ||
+        current.dispatchedTasks[node.id] !== idempotencyKey) {
+        return;
+      }
+      
       // Create task if it doesn't exist
       const newTask = this.teamCollaboration.createTask({
-        id: node.taskId,
+        id: taskId,
         title: node.name,
         description: node.description || `Task for workflow ${workflow.id}`,
+        ...(node.role ? { assignee: node.role.name } : {}),
         ...node.inputs,
       });
+      if (node.action) {
+        this.runTaskAction(newTask.id, node.action, node.role);
+      }
       
       // Monitor task state
-      this.monitorTaskCompletion(instance.id, node.id, newTask);
+      this.monitorTaskCompletion(instance.id, node.id, newTask.id, attempt);
+      this.scheduleAttemptTimeout(instance.id, node, attempt);
     } else if (task.state === TaskState.COMPLETED) {
       // Task already completed
       this.completeNode(instance.id, node.id, { result: task.result });
       
       // Find outgoing edges
-      const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id);
+      const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id && !edge.onError);
       
       // Activate next nodes
       for (const edge of outgoingEdges) {
@@ -396,10 +729,33 @@ export class WorkflowOrchestration {
       }
     } else if (task.state === TaskState.FAILED) {
       // Task failed
-      this.failNode(instance.id, node.id, task.error || 'Task failed');
+      this.handleAttemptFailure(instance.id, node.id, attempt, task.error || 'Task failed');
+    } else if (dispatched) {
+      // Reattach to a task still running after a restart
+      this.monitorTaskCompletion(instance.id, node.id, task.id, attempt);
+      this.scheduleAttemptTimeout(instance.id, node, attempt);
     }
   }
 
+  /**
+   * Run the action of a TASK node and settle its task with the output
+   */
+  private runTaskAction(taskId: string, action: Action, role?: Role): void {
+    if (role) {
+      action.context.role ??= role;
+    }
+    this.teamCollaboration.updateTask(taskId, { state: TaskState.IN_PROGRESS });
+    action.run().then(
+      output => this.teamCollaboration.updateTask(taskId, output.status === 'failed'
+        ? { state: TaskState.FAILED, error: output.content }
+        : { state: TaskState.COMPLETED, result: output.content }),
+      error => this.teamCollaboration.updateTask(taskId, {
+        state: TaskState.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+
   /**
    * Process a CONDITION node
    */
@@ -411,11 +767,9 @@ export class WorkflowOrchestration {
     // Evaluate condition
     let result = false;
     try {
-      // Simple condition evaluation for demonstration
-      // In a real implementation, this would use a proper expression evaluator
       if (node.condition) {
-        const evalFn = new Function('variables', `return ${node.condition};`);
-        result = Boolean(evalFn(instance.variables));
+        result = compileExpression(node.condition, { identifiers: CONDITION_IDENTIFIERS })
+          .test({ variables: instance.variables });
       }
     } catch (error) {
       logger.error(`Error evaluating condition in node ${node.id}: ${error}`);
@@ -427,7 +781,7 @@ export class WorkflowOrchestration {
     
     // Find outgoing edges
     const outgoingEdges = workflow.edges.filter(edge => {
-      if (edge.source !== node.id) return false;
+      if (edge.source !== node.id || edge.onError) return false;
       
       // If edge has condition, check it
       if (edge.condition) {
@@ -457,7 +811,7 @@ export class WorkflowOrchestration {
     this.completeNode(instance.id, node.id, {});
     
     // Find all outgoing edges
-    const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id);
+    const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id && !edge.onError);
     
     // Activate all next nodes in parallel
     for (const edge of outgoingEdges) {
@@ -474,7 +828,7 @@ export class WorkflowOrchestration {
     node: WorkflowNode
   ): Promise<void> {
     // Find all incoming edges
-    const incomingEdges = workflow.edges.filter(edge => edge.target === node.id);
+    const incomingEdges = workflow.edges.filter(edge => edge.target === node.id && !edge.onError);
     
     // Check if all source nodes are completed
     const allCompleted = incomingEdges.every(edge => {
@@ -486,7 +840,7 @@ export class WorkflowOrchestration {
       this.completeNode(instance.id, node.id, {});
       
       // Find outgoing edges
-      const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id);
+      const outgoingEdges = workflow.edges.filter(edge => edge.source === node.id && !edge.onError);
       
       // Activate next nodes
       for (const edge of outgoingEdges) {
@@ -495,6 +849,149 @@ export class WorkflowOrchestration {
     }
   }
 
+  /**
+   * Process a LOOP node: run its task or workflow while its condition holds,
+   * one iteration at a time, failing after maxIterations iterations
+   */
+  private async processLoopNode(
+    instance: WorkflowInstance,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode
+  ): Promise<void> {
+    const current = this.settleChildRuns(instance.id, workflow, node);
+    if (!current) {
+      return;
+    }
+    
+    const runs = current.childRuns[node.id] ?? [];
+    const last = runs.at(-1);
+    if (last?.state === 'running') {
+      this.monitorChildRuns(instance.id, node);
+      return;
+    }
+    if (last?.state === 'failed') {
+      this.handleNodeFailure(instance.id, workflow, node, this.describeChildFailure(node, last));
+      return;
+    }
+    
+    // The condition sees the variables set by the previous iteration
+    const iteration = runs.length;
+    let proceed: boolean;
+    try {
+      proceed = compileExpression(node.condition ?? 'false', { identifiers: LOOP_IDENTIFIERS })
+        .test({ variables: current.variables, iteration });
+    } catch (error) {
+      this.handleNodeFailure(instance.id, workflow, node, `Invalid loop condition: ${(error as Error).message}`);
+      return;
+    }
+    
+    if (!proceed) {
+      this.completeNode(instance.id, node.id, { result: last?.result, iterations: iteration });
+      this.activateNextNodes(instance.id, workflow, node.id);
+      return;
+    }
+    
+    const limit = node.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    if (iteration >= limit) {
+      this.handleNodeFailure(instance.id, workflow, node, `Loop condition still holds after ${limit} iterations`);
+      return;
+    }
+    
+    if (this.startChildRun(current, workflow, node, iteration)) {
+      this.monitorChildRuns(instance.id, node);
+    }
+  }
+
+  /**
+   * Process a MAP node: run its task or workflow for each item, at most
+   * `concurrency` at a time, and gather the results in item order. The first
+   * failed item fails the node.
+   */
+  private async processMapNode(
+    instance: WorkflowInstance,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode
+  ): Promise<void> {
+    let current = this.settleChildRuns(instance.id, workflow, node);
+    if (!current) {
+      return;
+    }
+    
+    // Evaluate the items once, so recovery maps over the same items
+    if (!current.mapItems[node.id]) {
+      let items: unknown;
+      try {
+        items = evaluateExpression(node.items ?? 'undefined', { variables: current.variables });
+      } catch (error) {
+        this.handleNodeFailure(instance.id, workflow, node, `Invalid items: ${(error as Error).message}`);
+        return;
+      }
+      if (!Array.isArray(items)) {
+        this.handleNodeFailure(instance.id, workflow, node, `Items of map node ${node.id} are not an array`);
+        return;
+      }
+      current = this.record({ type: 'map_started', instanceId: instance.id, nodeId: node.id, items });
+    }
+    
+    const failed = current.childRuns[node.id]?.find(run => run.state === 'failed');
+    if (failed) {
+      this.handleNodeFailure(instance.id, workflow, node, this.describeChildFailure(node, failed));
+      return;
+    }
+    
+    // Start runs while below the concurrency limit
+    const items = current.mapItems[node.id];
+    const concurrency = node.concurrency ?? this.config.maxParallelTasks;
+    let runs = current.childRuns[node.id] ?? [];
+    while (runs.length < items.length && runs.filter(run => run.state === 'running').length < concurrency) {
+      if (!this.startChildRun(current, workflow, node, runs.length)) {
+        return;
+      }
+      current = this.workflowInstances.get(instance.id)!;
+      runs = current.childRuns[node.id] ?? [];
+    }
+    
+    if (runs.length < items.length || runs.some(run => run.state === 'running')) {
+      this.monitorChildRuns(instance.id, node);
+      return;
+    }
+    
+    const results = [...runs].sort((a, b) => a.index - b.index).map(run => run.result);
+    try {
+      this.applyOutputMapping(current, node, results);
+    } catch (error) {
+      this.handleNodeFailure(instance.id, workflow, node, `Invalid output mapping: ${(error as Error).message}`);
+      return;
+    }
+    this.completeNode(instance.id, node.id, { result: results });
+    this.activateNextNodes(instance.id, workflow, node.id);
+  }
+
+  /**
+   * Process a SUBWORKFLOW node: run another registered workflow as a child
+   * instance and complete with its final variables and node results
+   */
+  private async processSubworkflowNode(
+    instance: WorkflowInstance,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode
+  ): Promise<void> {
+    const current = this.settleChildRuns(instance.id, workflow, node);
+    if (!current) {
+      return;
+    }
+    
+    const run = current.childRuns[node.id]?.[0];
+    if (!run) {
+      this.startChildRun(current, workflow, node, 0);
+    } else if (run.state === 'failed') {
+      this.handleNodeFailure(instance.id, workflow, node, this.describeChildFailure(node, run));
+    } else if (run.state === 'completed') {
+      this.completeNode(instance.id, node.id, { result: run.result, instanceId: run.childId });
+      this.activateNextNodes(instance.id, workflow, node.id);
+    }
+  }
+
   /**
    * Process an END node
    */
@@ -512,21 +1009,45 @@ export class WorkflowOrchestration {
 
   /**
    * Monitor task completion
+   * @param attempt Attempt the task belongs to
+   * @param waitForTask Time (ms) to keep polling while the task does not exist, for tasks dispatched before a restart
    */
-  private monitorTaskCompletion(instanceId: string, nodeId: string, task: Task): void {
+  private monitorTaskCompletion(
+    instanceId: string,
+    nodeId: string,
+    taskId: string,
+    attempt: number,
+    waitForTask = 0
+  ): void {
     // In a real implementation, this would register a callback or poll task state
     // For simplicity, we'll just check the task state periodically
+    const key = `${instanceId}:${nodeId}`;
+    if (this.taskMonitors.has(key)) {
+      return;
+    }
+    
+    const stop = (): void => {
+      clearInterval(checkInterval);
+      this.taskMonitors.delete(key);
+    };
     
+    // A task dispatched before a restart may take a while to reappear
+    let waitUntil = Date.now() + waitForTask;
     const checkInterval = setInterval(() => {
-      const currentTask = this.teamCollaboration.getTask(task.id);
+      const currentTask = this.teamCollaboration.getTask(taskId);
       if (!currentTask) {
-        clearInterval(checkInterval);
-        this.failNode(instanceId, nodeId, 'Task no longer exists');
+        if (Date.now() >= waitUntil) {
+          stop();
+          this.handleAttemptFailure(instanceId, nodeId, attempt, waitForTask > 0 && waitUntil > 0
+            ? `Task ${taskId} dispatched before a restart did not reappear within ${waitForTask}ms`
+            : 'Task no longer exists');
+        }
         return;
       }
+      waitUntil = 0;
       
       if (currentTask.state === TaskState.COMPLETED) {
-        clearInterval(checkInterval);
+        stop();
         
         const instance = this.workflowInstances.get(instanceId);
         if (!instance) {
@@ -542,7 +1063,7 @@ export class WorkflowOrchestration {
         this.completeNode(instanceId, nodeId, { result: currentTask.result });
         
         // Find outgoing edges
-        const outgoingEdges = workflow.edges.filter(edge => edge.source === nodeId);
+        const outgoingEdges = workflow.edges.filter(edge => edge.source === nodeId && !edge.onError);
         
         // Activate next nodes
         for (const edge of outgoingEdges) {
@@ -552,10 +1073,12 @@ export class WorkflowOrchestration {
         // Continue workflow execution
         this.executeWorkflowStep(instanceId);
       } else if (currentTask.state === TaskState.FAILED) {
-        clearInterval(checkInterval);
-        this.failNode(instanceId, nodeId, currentTask.error || 'Task failed');
+        stop();
+        this.handleAttemptFailure(instanceId, nodeId, attempt, currentTask.error || 'Task failed');
       }
     }, 1000); // Check every second
+    
+    this.taskMonitors.set(key, checkInterval);
   }
 
   /**
@@ -569,12 +1092,7 @@ export class WorkflowOrchestration {
     
     // Add to active nodes if not already present
     if (!instance.activeNodes.includes(nodeId) && !instance.completedNodes.includes(nodeId)) {
-      const updatedInstance: WorkflowInstance = {
-        ...instance,
-        activeNodes: [...instance.activeNodes, nodeId],
-      };
-      
-      this.workflowInstances.set(instanceId, updatedInstance);
+      this.record({ type: 'node_activated', instanceId, nodeId });
       logger.debug(`Activated node ${nodeId} in workflow instance ${instanceId}`);
       
       // Continue workflow execution
@@ -586,76 +1104,44 @@ export class WorkflowOrchestration {
    * Complete a node
    */
   private completeNode(instanceId: string, nodeId: string, result: any): void {
-    const instance = this.workflowInstances.get(instanceId);
-    if (!instance) {
+    if (!this.workflowInstances.has(instanceId)) {
       return;
     }
     
-    // Update instance
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      activeNodes: instance.activeNodes.filter(id => id !== nodeId),
-      completedNodes: [...instance.completedNodes, nodeId],
-      nodeResults: { ...instance.nodeResults, [nodeId]: result },
-    };
-    
-    this.workflowInstances.set(instanceId, updatedInstance);
+    const instance = this.record({ type: 'node_completed', instanceId, nodeId, result });
+    this.clearNodeTimers(instanceId, nodeId);
     logger.debug(`Completed node ${nodeId} in workflow instance ${instanceId}`);
+    
+    // A finished compensation passes the failure it compensated on to the error edges
+    const compensated = instance.compensations[nodeId];
+    const workflow = this.workflowDefinitions.get(instance.workflowId);
+    if (compensated && workflow) {
+      this.routeFailure(instanceId, workflow, compensated, instance.nodeResults[compensated]?.error ?? 'Node failed');
+    }
   }
 
   /**
    * Fail a node
    */
   private failNode(instanceId: string, nodeId: string, error: string): void {
-    const instance = this.workflowInstances.get(instanceId);
-    if (!instance) {
+    if (!this.workflowInstances.has(instanceId)) {
       return;
     }
     
-    // Update instance
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      activeNodes: instance.activeNodes.filter(id => id !== nodeId),
-      state: WorkflowInstanceState.FAILED,
-      error: `Error in node ${nodeId}: ${error}`,
-      endTime: new Date(),
-    };
-    
-    this.workflowInstances.set(instanceId, updatedInstance);
+    this.record({ type: 'node_failed', instanceId, nodeId, error });
     logger.error(`Failed node ${nodeId} in workflow instance ${instanceId}: ${error}`);
-    
-    // Clear timeout if exists
-    if (this.executionTimeouts.has(instanceId)) {
-      clearTimeout(this.executionTimeouts.get(instanceId)!);
-      this.executionTimeouts.delete(instanceId);
-    }
   }
 
   /**
    * Complete a workflow
    */
   private completeWorkflow(instanceId: string): void {
-    const instance = this.workflowInstances.get(instanceId);
-    if (!instance) {
+    if (!this.workflowInstances.has(instanceId)) {
       return;
     }
     
-    // Update instance
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      state: WorkflowInstanceState.COMPLETED,
-      activeNodes: [],
-      endTime: new Date(),
-    };
-    
-    this.workflowInstances.set(instanceId, updatedInstance);
+    this.record({ type: 'completed', instanceId });
     logger.info(`Completed workflow instance ${instanceId}`);
-    
-    // Clear timeout if exists
-    if (this.executionTimeouts.has(instanceId)) {
-      clearTimeout(this.executionTimeouts.get(instanceId)!);
-      this.executionTimeouts.delete(instanceId);
-    }
   }
 
   /**
@@ -667,18 +1153,493 @@ export class WorkflowOrchestration {
       return;
     }
     
-    // Update instance
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      state: WorkflowInstanceState.FAILED,
-      error: 'Workflow execution timeout',
-      endTime: new Date(),
-    };
-    
-    this.workflowInstances.set(instanceId, updatedInstance);
+    this.record({ type: 'timed_out', instanceId });
     logger.error(`Workflow instance ${instanceId} timed out`);
+  }
+
+  /**
+   * Handle a failed attempt of a TASK node: retry after a backoff while
+   * attempts are left, otherwise run the node's compensation or route the
+   * failure along its error edges
+   */
+  private handleAttemptFailure(instanceId: string, nodeId: string, attempt: number, error: string): void {
+    const instance = this.workflowInstances.get(instanceId);
+    if (!instance || instance.state !== WorkflowInstanceState.RUNNING || !instance.activeNodes.includes(nodeId)) {
+      return;
+    }
+    
+    // Ignore failures reported twice or for an abandoned attempt
+    const progress = instance.nodeAttempts[nodeId];
+    if ((progress?.attempt ?? 1) !== attempt || progress?.retryAt) {
+      return;
+    }
+    
+    const workflow = this.workflowDefinitions.get(instance.workflowId);
+    const node = workflow?.nodes.find(n => n.id === nodeId);
+    if (!workflow || !node) {
+      return;
+    }
+    this.clearNodeTimers(instanceId, nodeId);
+    
+    const policy = node.retry;
+    if (policy && attempt < policy.maxAttempts) {
+      const delay = Math.min(policy.initialDelay * policy.backoffMultiplier ** (attempt - 1), policy.maxDelay);
+      const retryAt = new Date(Date.now() + delay).toISOString();
+      this.record({ type: 'attempt_failed', instanceId, nodeId, attempt, error, retryAt });
+      logger.warn(`Attempt ${attempt} of node ${nodeId} in workflow instance ${instanceId} failed, retrying in ${delay}ms: ${error}`);
+      this.scheduleRetry(instanceId, nodeId, delay);
+      return;
+    }
+    
+    this.record({ type: 'attempt_failed', instanceId, nodeId, attempt, error });
+    this.handleNodeFailure(instanceId, workflow, node, error);
+  }
+
+  /**
+   * Handle a permanent failure of a node: run its compensation node, or
+   * route the failure along its error edges
+   */
+  private handleNodeFailure(instanceId: string, workflow: WorkflowDefinition, node: WorkflowNode, error: string): void {
+    this.clearNodeTimers(instanceId, node.id);
+    this.cancelChildInstances(instanceId, node.id);
+    
+    if (node.compensation) {
+      this.record({ type: 'compensation_started', instanceId, nodeId: node.id, compensationNodeId: node.compensation, error });
+      logger.warn(`Node ${node.id} in workflow instance ${instanceId} failed permanently, running compensation node ${node.compensation}`);
+      this.executeWorkflowStep(instanceId);
+      return;
+    }
+    
+    this.routeFailure(instanceId, workflow, node.id, error);
+  }
+
+  /**
+   * Send a permanent failure of a node along its error edges, or fail the
+   * instance when it has none
+   */
+  private routeFailure(instanceId: string, workflow: WorkflowDefinition, nodeId: string, error: string): void {
+    const errorEdges = workflow.edges.filter(edge => edge.source === nodeId && edge.onError);
+    if (errorEdges.length === 0) {
+      this.failNode(instanceId, nodeId, error);
+      return;
+    }
+    
+    this.record({ type: 'error_routed', instanceId, nodeId, error });
+    logger.warn(`Routing failure of node ${nodeId} in workflow instance ${instanceId} to ${errorEdges.map(edge => edge.target).join(', ')}`);
+    
+    for (const edge of errorEdges) {
+      this.activateNode(instanceId, edge.target);
+    }
+  }
+
+  /**
+   * Task ID of a node in an instance. Child instances of one workflow can run
+   * side by side, so their task IDs are prefixed with the instance ID.
+   */
+  private scopeTaskId(instance: WorkflowInstance, taskId: string): string {
+    return instance.parent ? `${instance.id}/${taskId}` : taskId;
+  }
+
+  /**
+   * Activate the targets of the normal outgoing edges of a node
+   */
+  private activateNextNodes(instanceId: string, workflow: WorkflowDefinition, nodeId: string): void {
+    for (const edge of workflow.edges.filter(edge => edge.source === nodeId && !edge.onError)) {
+      this.activateNode(instanceId, edge.target);
+    }
+  }
+
+  /**
+   * Record the outcome of the finished child runs of a LOOP, MAP or
+   * SUBWORKFLOW node, applying the output mapping of LOOP and SUBWORKFLOW
+   * nodes to each result
+   * @returns Updated instance, or undefined when the node is no longer running
+   */
+  private settleChildRuns(
+    instanceId: string,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode
+  ): WorkflowInstance | undefined {
+    let instance = this.workflowInstances.get(instanceId);
+    if (!instance || instance.state !== WorkflowInstanceState.RUNNING || !instance.activeNodes.includes(node.id)) {
+      return undefined;
+    }
+    
+    for (const run of instance.childRuns[node.id] ?? []) {
+      if (run.state !== 'running') {
+        continue;
+      }
+      
+      // Started before a restart but never created, or created but never started
+      if (run.kind === 'workflow' && !this.workflowInstances.has(run.childId)) {
+        const error = this.launchChildRun(instance, workflow, node, run.index, run.childId);
+        if (error) {
+          instance = this.record({ type: 'child_finished', instanceId, nodeId: node.id, index: run.index, error });
+        }
+        continue;
+      }
+      if (run.kind === 'workflow' && this.workflowInstances.get(run.childId)?.state === WorkflowInstanceState.CREATED) {
+        this.startChildInstance(run.childId);
+        continue;
+      }
+      
+      const outcome = this.getChildOutcome(run);
+      if (!outcome) {
+        continue;
+      }
+      
+      let error = outcome.error;
+      let variables: Record<string, any> = {};
+      if (error === undefined && node.type !== WorkflowNodeType.MAP) {
+        try {
+          variables = this.evaluateMapping(node.outputMapping, { result: outcome.result, variables: instance.variables });
+        } catch (mappingError) {
+          error = `Invalid output mapping: ${(mappingError as Error).message}`;
+        }
+      }
+      
+      instance = this.record({ type: 'child_finished', instanceId, nodeId: node.id, index: run.index, result: outcome.result, error });
+      if (Object.keys(variables).length > 0) {
+        instance = this.record({ type: 'variables_updated', instanceId, variables });
+      }
+    }
+    return instance;
+  }
+
+  /**
+   * Outcome of a child run, or undefined while it is running
+   */
+  private getChildOutcome(run: ChildRun): { result?: any; error?: string } | undefined {
+    if (run.kind === 'task') {
+      const task = this.teamCollaboration.getTask(run.childId);
+      if (task?.state === TaskState.COMPLETED) {
+        return { result: task.result };
+      }
+      if (task?.state === TaskState.FAILED) {
+        return { error: task.error || 'Task failed' };
+      }
+      return undefined;
+    }
+    
+    const child = this.workflowInstances.get(run.childId);
+    if (child?.state === WorkflowInstanceState.COMPLETED) {
+      return { result: { variables: child.variables, nodeResults: child.nodeResults } };
+    }
+    if (child && TERMINAL_STATES.includes(child.state)) {
+      return { error: child.error ?? `Workflow instance ${child.id} was ${child.state}` };
+    }
+    return undefined;
+  }
+
+  /**
+   * Record and launch a child run of a node
+   * @returns Whether the run started; the node has failed otherwise
+   */
+  private startChildRun(
+    instance: WorkflowInstance,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    index: number
+  ): boolean {
+    const kind = node.workflowId ? 'workflow' : 'task';
+    const childId = node.workflowId
+      ? this.generateInstanceId()
+      : `${this.scopeTaskId(instance, node.taskId ?? node.id)}[${index}]`;
+    
+    // Record the run before launching it, so recovery never launches it again
+    this.record({ type: 'child_started', instanceId: instance.id, nodeId: node.id, index, childId, kind });
+    
+    const error = this.launchChildRun(instance, workflow, node, index, childId);
+    if (error) {
+      const run = this.record({ type: 'child_finished', instanceId: instance.id, nodeId: node.id, index, error })
+        .childRuns[node.id].find(run => run.index === index)!;
+      this.handleNodeFailure(instance.id, workflow, node, this.describeChildFailure(node, run));
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Create the task or start the workflow instance of a child run
+   * @returns Error preventing the launch
+   */
+  private launchChildRun(
+    instance: WorkflowInstance,
+    workflow: WorkflowDefinition,
+    node: WorkflowNode,
+    index: number,
+    childId: string
+  ): string | undefined {
+    const scope = node.type === WorkflowNodeType.LOOP ? { variables: instance.variables, iteration: index }
+      : node.type === WorkflowNodeType.MAP ? { variables: instance.variables, item: instance.mapItems[node.id]?.[index], index }
+      : { variables: instance.variables };
+    
+    let inputs: Record<string, any>;
+    try {
+      inputs = this.evaluateMapping(node.inputMapping, scope);
+    } catch (error) {
+      return `Invalid input mapping: ${(error as Error).message}`;
+    }
     
-    this.executionTimeouts.delete(instanceId);
+    try {
+      if (node.workflowId) {
+        if (this.getNestingDepth(instance) >= this.config.maxNestingDepth) {
+          return `Nesting depth limit of ${this.config.maxNestingDepth} reached`;
+        }
+        this.createInstance(childId, node.workflowId, inputs, { instanceId: instance.id, nodeId: node.id, index });
+        this.startChildInstance(childId);
+      } else if (node.taskId) {
+        this.teamCollaboration.createTask({
+          id: childId,
+          title: `${node.name} [${index}]`,
+          description: node.description || `Task for workflow ${workflow.id}`,
+          ...node.inputs,
+          ...inputs,
+        });
+      } else {
+        return 'No taskId or workflowId specified';
+      }
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return undefined;
+  }
+
+  /**
+   * Start a child instance once the current step is done, so nested child
+   * workflows never recurse on the stack
+   */
+  private startChildInstance(childId: string): void {
+    Promise.resolve().then(() => {
+      // Canceled with its parent in the meantime, or already started
+      if (this.workflowInstances.get(childId)?.state !== WorkflowInstanceState.CREATED) {
+        return;
+      }
+      try {
+        this.startWorkflowInstance(childId);
+      } catch (error) {
+        logger.error(`Failed to start child workflow instance ${childId}: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Number of ancestors of an instance
+   */
+  private getNestingDepth(instance: WorkflowInstance): number {
+    let depth = 0;
+    for (let parent = instance.parent; parent; parent = this.workflowInstances.get(parent.instanceId)?.parent) {
+      depth++;
+    }
+    return depth;
+  }
+
+  /**
+   * Poll the child tasks of a node. Child workflow instances report to
+   * their parent when they end.
+   */
+  private monitorChildRuns(instanceId: string, node: WorkflowNode): void {
+    const key = `${instanceId}:${node.id}`;
+    if (node.workflowId || this.taskMonitors.has(key)) {
+      return;
+    }
+    
+    this.taskMonitors.set(key, setInterval(() => {
+      const runs = this.workflowInstances.get(instanceId)?.childRuns[node.id] ?? [];
+      if (runs.some(run => run.state === 'running' && this.getChildOutcome(run))) {
+        this.executeWorkflowStep(instanceId);
+      }
+    }, 1000));
+  }
+
+  /**
+   * Cancel the unfinished child workflow instances of an instance, including
+   * those not started yet
+   * @param nodeId Only cancel the children of this node
+   */
+  private cancelChildInstances(instanceId: string, nodeId?: string): void {
+    const childRuns = this.workflowInstances.get(instanceId)?.childRuns ?? {};
+    for (const [id, runs] of Object.entries(childRuns)) {
+      if (nodeId !== undefined && id !== nodeId) {
+        continue;
+      }
+      for (const run of runs) {
+        const child = run.kind === 'workflow' && run.state === 'running'
+          ? this.workflowInstances.get(run.childId)
+          : undefined;
+        if (child && !TERMINAL_STATES.includes(child.state)) {
+          this.record({ type: 'canceled', instanceId: child.id });
+          logger.info(`Canceled child workflow instance ${child.id}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Set the variables of the output mapping of a node from a result
+   */
+  private applyOutputMapping(instance: WorkflowInstance, node: WorkflowNode, result: any): void {
+    const variables = this.evaluateMapping(node.outputMapping, { result, variables: instance.variables });
+    if (Object.keys(variables).length > 0) {
+      this.record({ type: 'variables_updated', instanceId: instance.id, variables });
+    }
+  }
+
+  /**
+   * Evaluate the expressions of a mapping
+   */
+  private evaluateMapping(mapping: Record<string, string> | undefined, scope: Record<string, unknown>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(mapping ?? {}).map(([name, source]) => [name, evaluateExpression(source, scope)])
+    );
+  }
+
+  private describeChildFailure(node: WorkflowNode, run: ChildRun): string {
+    switch (node.type) {
+      case WorkflowNodeType.LOOP:
+        return `Iteration ${run.index} failed: ${run.error}`;
+      case WorkflowNodeType.MAP:
+        return `Item ${run.index} failed: ${run.error}`;
+      default:
+        return run.error ?? 'Child run failed';
+    }
+  }
+
+  /**
+   * Start the next attempt of a node once its backoff has passed
+   * @param delay Time left in ms
+   */
+  private scheduleRetry(instanceId: string, nodeId: string, delay: number): void {
+    const key = `${instanceId}:${nodeId}`;
+    if (this.retryTimers.has(key)) {
+      return;
+    }
+    
+    this.retryTimers.set(key, setTimeout(() => {
+      this.retryTimers.delete(key);
+      const instance = this.workflowInstances.get(instanceId);
+      const progress = instance?.nodeAttempts[nodeId];
+      if (!instance || instance.state !== WorkflowInstanceState.RUNNING || !progress?.retryAt) {
+        return;
+      }
+      
+      this.record({ type: 'attempt_started', instanceId, nodeId, attempt: progress.attempt + 1 });
+      this.executeWorkflowStep(instanceId);
+    }, Math.max(0, delay)));
+  }
+
+  /**
+   * Fail the current attempt of a node once its timeout has passed. The task
+   * of a timed out attempt is abandoned, not canceled.
+   */
+  private scheduleAttemptTimeout(instanceId: string, node: WorkflowNode, attempt: number): void {
+    const key = `${instanceId}:${node.id}`;
+    const startedAt = this.workflowInstances.get(instanceId)?.nodeAttempts[node.id]?.startedAt;
+    if (!node.timeout || !startedAt || this.attemptTimeouts.has(key)) {
+      return;
+    }
+    
+    const timeout = node.timeout;
+    const remaining = timeout - (Date.now() - startedAt.getTime());
+    this.attemptTimeouts.set(key, setTimeout(() => {
+      this.attemptTimeouts.delete(key);
+      this.handleAttemptFailure(instanceId, node.id, attempt, `Attempt ${attempt} timed out after ${timeout}ms`);
+    }, Math.max(0, remaining)));
+  }
+
+  /**
+   * Schedule the execution timeout of an instance
+   * @param delay Time left in ms; no timeout when the configured timeout is 0
+   */
+  private scheduleTimeout(instanceId: string, delay: number): void {
+    if (this.config.executionTimeout > 0) {
+      const timeout = setTimeout(() => {
+        this.handleWorkflowTimeout(instanceId);
+      }, Math.max(0, delay));
+      
+      this.executionTimeouts.set(instanceId, timeout);
+    }
+  }
+
+  /**
+   * Apply an event to its instance and append it to the instance store.
+   * Every state change of an instance goes through here.
+   * @returns Updated instance
+   */
+  private record(event: WorkflowInstanceEventInput): WorkflowInstance {
+    return this.applyEvent(event).instance;
+  }
+
+  /**
+   * Record an event and wait until the instance store has saved it
+   * @returns Updated instance
+   * @throws When the store fails to save the event
+   */
+  private async recordSaved(event: WorkflowInstanceEventInput): Promise<WorkflowInstance> {
+    const { instance, saved } = this.applyEvent(event);
+    await saved;
+    return instance;
+  }
+
+  /**
+   * Apply an event to its instance and queue its append to the instance store
+   * @returns Updated instance, and the append of the event
+   */
+  private applyEvent(event: WorkflowInstanceEventInput): { instance: WorkflowInstance; saved: Promise<void> } {
+    const stamped = { ...event, timestamp: new Date().toISOString() } as WorkflowInstanceEvent;
+    const instance = applyWorkflowEvent(this.workflowInstances.get(event.instanceId), stamped);
+    this.workflowInstances.set(instance.id, instance);
+    
+    let saved = Promise.resolve();
+    const store = this.config.instanceStore;
+    if (store) {
+      saved = this.pendingWrites.then(() => store.append(stamped));
+      this.pendingWrites = saved
+        .catch(error => logger.error(`Failed to persist ${event.type} event of workflow instance ${event.instanceId}: ${error}`));
+    }
+    
+    if (TERMINAL_STATES.includes(instance.state)) {
+      this.releaseTimers(instance.id);
+      this.cancelChildInstances(instance.id);
+      
+      // Let the parent node pick up the outcome once the current step is done
+      const parent = instance.parent;
+      if (parent) {
+        Promise.resolve().then(() => this.executeWorkflowStep(parent.instanceId));
+      }
+    }
+    return { instance, saved };
+  }
+
+  /**
+   * Clear the timeout and node timers of an instance
+   */
+  private releaseTimers(instanceId: string): void {
+    if (this.executionTimeouts.has(instanceId)) {
+      clearTimeout(this.executionTimeouts.get(instanceId)!);
+      this.executionTimeouts.delete(instanceId);
+    }
+    for (const timers of [this.taskMonitors, this.retryTimers, this.attemptTimeouts]) {
+      for (const [key, timer] of timers) {
+        if (key.startsWith(`${instanceId}:`)) {
+          clearTimeout(timer);
+          timers.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Clear the task monitor, retry and attempt timeout of a node
+   */
+  private clearNodeTimers(instanceId: string, nodeId: string): void {
+    const key = `${instanceId}:${nodeId}`;
+    for (const timers of [this.taskMonitors, this.retryTimers, this.attemptTimeouts]) {
+      if (timers.has(key)) {
+        clearTimeout(timers.get(key)!);
+        timers.delete(key);
+      }
+    }
   }
 
   /**
@@ -734,23 +1695,67 @@ export class WorkflowOrchestration {
       return false;
     }
     
-    // Update instance
-    const updatedInstance: WorkflowInstance = {
-      ...instance,
-      state: WorkflowInstanceState.CANCELED,
-      activeNodes: [],
-      endTime: new Date(),
-    };
-    
-    this.workflowInstances.set(instanceId, updatedInstance);
+    this.record({ type: 'canceled', instanceId });
     logger.info(`Canceled workflow instance ${instanceId}`);
     
-    // Clear timeout if exists
-    if (this.executionTimeouts.has(instanceId)) {
-      clearTimeout(this.executionTimeouts.get(instanceId)!);
-      this.executionTimeouts.delete(instanceId);
+    return true;
+  }
+
+  /**
+   * Merge values into the variables of an instance, e.g. input given by a human
+   * @param instanceId Instance ID
+   * @param variables Variables to set
+   * @returns Updated workflow instance
+   */
+  public updateVariables(instanceId: string, variables: Record<string, any>): WorkflowInstance {
+    if (!this.workflowInstances.has(instanceId)) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
     }
     
-    return true;
+    return this.record({ type: 'variables_updated', instanceId, variables });
+  }
+
+  /**
+   * Rebuild instances from the instance store and resume the running ones.
+   * Call once on startup, after registering the workflow definitions.
+   * Tasks dispatched before the restart are not created again; their nodes
+   * wait for the task to be reported under the same task ID.
+   * @returns Resumed instances
+   */
+  public async recover(): Promise<WorkflowInstance[]> {
+    const store = this.config.instanceStore;
+    if (!store) {
+      return [];
+    }
+    
+    const instances = replayWorkflowEvents(await store.load());
+    const resumed: WorkflowInstance[] = [];
+    for (const instance of instances.values()) {
+      this.workflowInstances.set(instance.id, instance);
+      if (instance.state !== WorkflowInstanceState.RUNNING) {
+        continue;
+      }
+      if (!this.workflowDefinitions.has(instance.workflowId)) {
+        logger.warn(`Cannot resume workflow instance ${instance.id}: workflow ${instance.workflowId} is not registered`);
+        continue;
+      }
+      
+      const elapsed = instance.startTime ? Date.now() - instance.startTime.getTime() : 0;
+      this.scheduleTimeout(instance.id, this.config.executionTimeout - elapsed);
+      resumed.push(instance);
+      logger.info(`Resuming workflow instance ${instance.id} at nodes ${instance.activeNodes.join(', ')}`);
+    }
+    
+    for (const instance of resumed) {
+      this.executeWorkflowStep(instance.id);
+    }
+    return resumed;
+  }
+
+  /**
+   * Wait until every recorded event is written to the instance store
+   */
+  public async flush(): Promise<void> {
+    await this.pendingWrites;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,323 @@
+/**
+ * Workflow Instance Store
+ *
+ * Durable storage for workflow instances. Every transition of an instance is
+ * an event appended to a log; replaying the log through
+ * {@link applyWorkflowEvent} rebuilds the instances after a restart.
+ *
+ * @module management/workflow-store
+ * @category Core
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { openSqliteDatabase, type SqliteDatabase } from '../memory/store';
+import { logger } from '../utils/logger';
+import {
+  WorkflowInstanceSchema,
+  WorkflowInstanceState,
+  type ChildRun,
+  type WorkflowHistoryEntry,
+  type WorkflowInstance,
+  type WorkflowInstanceParent,
+} from './workflow-orchestration';
+
+/**
+ * Transition of a workflow instance
+ */
+export type WorkflowInstanceEvent = {
+  /** Instance the event belongs to */
+  instanceId: string;
+  /** ISO time the event happened */
+  timestamp: string;
+} & (
+  | { type: 'created'; workflowId: string; variables: Record<string, any>; parent?: WorkflowInstanceParent }
+  | { type: 'started'; nodeId: string }
+  | { type: 'node_activated'; nodeId: string }
+  | { type: 'node_completed'; nodeId: string; result: any }
+  | { type: 'node_failed'; nodeId: string; error: string }
+  | { type: 'task_dispatched'; nodeId: string; taskId: string; idempotencyKey: string }
+  | { type: 'attempt_started'; nodeId: string; attempt: number }
+  | { type: 'attempt_failed'; nodeId: string; attempt: number; error: string; retryAt?: string }
+  | { type: 'compensation_started'; nodeId: string; compensationNodeId: string; error: string }
+  | { type: 'error_routed'; nodeId: string; error: string }
+  | { type: 'map_started'; nodeId: string; items: any[] }
+  | { type: 'child_started'; nodeId: string; index: number; childId: string; kind: ChildRun['kind'] }
+  | { type: 'child_finished'; nodeId: string; index: number; result?: any; error?: string }
+  | { type: 'variables_updated'; variables: Record<string, any> }
+  | { type: 'completed' }
+  | { type: 'timed_out' }
+  | { type: 'canceled' }
+);
+
+/**
+ * Event before it is timestamped
+ */
+export type WorkflowInstanceEventInput = WorkflowInstanceEvent extends infer Event
+  ? Event extends unknown ? Omit<Event, 'timestamp'> : never
+  : never;
+
+/**
+ * Apply an event to an instance and add it to the instance history
+ * @param instance Instance before the event; undefined for `created` events
+ * @param event Event to apply
+ * @returns Instance after the event
+ */
+export function applyWorkflowEvent(
+  instance: WorkflowInstance | undefined,
+  event: WorkflowInstanceEvent
+): WorkflowInstance {
+  const updated = reduce(instance, event);
+  return { ...updated, history: [...updated.history, historyEntry(event)] };
+}
+
+function reduce(instance: WorkflowInstance | undefined, event: WorkflowInstanceEvent): WorkflowInstance {
+  if (event.type === 'created') {
+    return WorkflowInstanceSchema.parse({
+      id: event.instanceId,
+      workflowId: event.workflowId,
+      state: WorkflowInstanceState.CREATED,
+      variables: event.variables,
+      parent: event.parent,
+    });
+  }
+  if (!instance) {
+    throw new Error(`Event ${event.type} for unknown workflow instance ${event.instanceId}`);
+  }
+
+  const time = new Date(event.timestamp);
+  switch (event.type) {
+    case 'started':
+      return { ...instance, state: WorkflowInstanceState.RUNNING, activeNodes: [event.nodeId], startTime: time };
+    case 'node_activated':
+      return { ...instance, activeNodes: [...instance.activeNodes, event.nodeId] };
+    case 'node_completed':
+      return {
+        ...instance,
+        activeNodes: instance.activeNodes.filter(id => id !== event.nodeId),
+        completedNodes: [...instance.completedNodes, event.nodeId],
+        nodeResults: { ...instance.nodeResults, [event.nodeId]: event.result },
+      };
+    case 'node_failed':
+      return {
+        ...instance,
+        activeNodes: instance.activeNodes.filter(id => id !== event.nodeId),
+        state: WorkflowInstanceState.FAILED,
+        error: `Error in node ${event.nodeId}: ${event.error}`,
+        endTime: time,
+      };
+    case 'task_dispatched':
+      return { ...instance, dispatchedTasks: { ...instance.dispatchedTasks, [event.nodeId]: event.idempotencyKey } };
+    case 'attempt_started':
+      return {
+        ...instance,
+        nodeAttempts: { ...instance.nodeAttempts, [event.nodeId]: { attempt: event.attempt, startedAt: time } },
+      };
+    case 'attempt_failed': {
+      const attempt = instance.nodeAttempts[event.nodeId] ?? { attempt: event.attempt, startedAt: time };
+      return {
+        ...instance,
+        nodeAttempts: {
+          ...instance.nodeAttempts,
+          [event.nodeId]: { ...attempt, retryAt: event.retryAt ? new Date(event.retryAt) : undefined },
+        },
+      };
+    }
+    case 'compensation_started': {
+      const failed = markFailed(instance, event.nodeId, event.error);
+      return {
+        ...failed,
+        activeNodes: failed.activeNodes.includes(event.compensationNodeId)
+          ? failed.activeNodes
+          : [...failed.activeNodes, event.compensationNodeId],
+        compensations: { ...instance.compensations, [event.compensationNodeId]: event.nodeId },
+      };
+    }
+    case 'error_routed':
+      return markFailed(instance, event.nodeId, event.error);
+    case 'map_started':
+      return { ...instance, mapItems: { ...instance.mapItems, [event.nodeId]: event.items } };
+    case 'child_started': {
+      const run: ChildRun = { index: event.index, childId: event.childId, kind: event.kind, state: 'running' };
+      return { ...instance, childRuns: { ...instance.childRuns, [event.nodeId]: [...(instance.childRuns[event.nodeId] ?? []), run] } };
+    }
+    case 'child_finished': {
+      const runs = (instance.childRuns[event.nodeId] ?? []).map(run => run.index !== event.index ? run : {
+        ...run,
+        ...(event.error !== undefined
+          ? { state: 'failed' as const, error: event.error }
+          : { state: 'completed' as const, result: event.result }),
+      });
+      return { ...instance, childRuns: { ...instance.childRuns, [event.nodeId]: runs } };
+    }
+    case 'variables_updated':
+      return { ...instance, variables: { ...instance.variables, ...event.variables } };
+    case 'completed':
+      return { ...instance, state: WorkflowInstanceState.COMPLETED, activeNodes: [], endTime: time };
+    case 'timed_out':
+      return { ...instance, state: WorkflowInstanceState.FAILED, error: 'Workflow execution timeout', endTime: time };
+    case 'canceled':
+      return { ...instance, state: WorkflowInstanceState.CANCELED, activeNodes: [], endTime: time };
+  }
+}
+
+/**
+ * Take a failed node out of the active nodes, its failure being handled
+ */
+function markFailed(instance: WorkflowInstance, nodeId: string, error: string): WorkflowInstance {
+  return {
+    ...instance,
+    activeNodes: instance.activeNodes.filter(id => id !== nodeId),
+    failedNodes: instance.failedNodes.includes(nodeId) ? instance.failedNodes : [...instance.failedNodes, nodeId],
+    nodeResults: { ...instance.nodeResults, [nodeId]: { error } },
+  };
+}
+
+function historyEntry(event: WorkflowInstanceEvent): WorkflowHistoryEntry {
+  const entry: WorkflowHistoryEntry = { timestamp: new Date(event.timestamp), type: event.type };
+  if ('nodeId' in event) {
+    entry.nodeId = event.nodeId;
+  }
+  if ('attempt' in event) {
+    entry.attempt = event.attempt;
+  }
+  if ('error' in event) {
+    entry.error = event.error;
+  }
+  if ('retryAt' in event && event.retryAt) {
+    entry.retryAt = new Date(event.retryAt);
+  }
+  if ('compensationNodeId' in event) {
+    entry.compensationNodeId = event.compensationNodeId;
+  }
+  return entry;
+}
+
+/**
+ * Rebuild instances from their event log
+ * @param events Events in the order they were appended
+ * @returns Instances by id
+ */
+export function replayWorkflowEvents(events: WorkflowInstanceEvent[]): Map<string, WorkflowInstance> {
+  const instances = new Map<string, WorkflowInstance>();
+  for (const event of events) {
+    const instance = instances.get(event.instanceId);
+    if (!instance && event.type !== 'created') {
+      logger.warn(`[WorkflowStore] Skipping ${event.type} event of unknown instance ${event.instanceId}`);
+      continue;
+    }
+    instances.set(event.instanceId, applyWorkflowEvent(instance, event));
+  }
+  return instances;
+}
+
+/**
+ * Append-only persistence backend of workflow instances
+ */
+export interface WorkflowInstanceStore {
+  /** Append an event to the log */
+  append(event: WorkflowInstanceEvent): Promise<void>;
+  /** Load every event in the order it was appended */
+  load(): Promise<WorkflowInstanceEvent[]>;
+  /** Release resources held by the store */
+  close?(): Promise<void>;
+}
+
+/**
+ * Instance store appending events to a JSON-lines file
+ */
+export class FileWorkflowInstanceStore implements WorkflowInstanceStore {
+  /**
+   * @param filePath Path of the JSON-lines file
+   */
+  constructor(readonly filePath: string) {}
+
+  async append(event: WorkflowInstanceEvent): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(event)}\n`, 'utf8');
+  }
+
+  async load(): Promise<WorkflowInstanceEvent[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const events: WorkflowInstanceEvent[] = [];
+    const lines = (await fs.promises.readFile(this.filePath, 'utf8')).split('\n').filter(line => line.trim());
+    for (const [index, line] of lines.entries()) {
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A crash while appending can leave a truncated last line behind
+        logger.warn(`[FileWorkflowInstanceStore] Skipping malformed line ${index + 1} of ${this.filePath}`);
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * Row of the workflow events table
+ */
+interface WorkflowEventRow {
+  event: string;
+}
+
+/**
+ * Instance store appending events to an SQLite table
+ */
+export class SqliteWorkflowInstanceStore implements WorkflowInstanceStore {
+  private db?: Promise<SqliteDatabase>;
+
+  /**
+   * @param database Database file path, or an open database
+   * @param table Table name
+   */
+  constructor(
+    private database: string | SqliteDatabase,
+    private table = 'workflow_events'
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+  }
+
+  async append(event: WorkflowInstanceEvent): Promise<void> {
+    const db = await this.open();
+    db.prepare(`INSERT INTO ${this.table} (instance_id, type, timestamp, event) VALUES (?, ?, ?, ?)`)
+      .run(event.instanceId, event.type, event.timestamp, JSON.stringify(event));
+  }
+
+  async load(): Promise<WorkflowInstanceEvent[]> {
+    const db = await this.open();
+    const rows = db.prepare(`SELECT event FROM ${this.table} ORDER BY sequence`).all() as WorkflowEventRow[];
+    return rows.map(row => JSON.parse(row.event));
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      (await this.db).close?.();
+      this.db = undefined;
+    }
+  }
+
+  /**
+   * Open the database and create the table on first use
+   */
+  private open(): Promise<SqliteDatabase> {
+    this.db ??= (async () => {
+      const db = typeof this.database === 'string'
+        ? await openSqliteDatabase(this.database)
+        : this.database;
+      db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        instance_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        event TEXT NOT NULL
+      )`);
+      return db;
+    })();
+    return this.db;
+  }
+}
@@ -25,6 +25,14 @@ export class ArrayMemory {
     return this.messages.filter(msg => actions.has(msg.causedBy));
   }
 
+  /**
+   * Replace all messages
+   * @param messages New messages, oldest first
+   */
+  replace(messages: Message[]): void {
+    this.messages = [...messages];
+  }
+
   clear(): void {
     this.messages = [];
   }
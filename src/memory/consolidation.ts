@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import type { LLMProvider } from '../types/llm';
+import type { EmbeddingGenerator } from '../rag/embeddings';
+import { generateObjectWith } from '../utils/structured-output';
+
+/**
+ * Budget and clustering settings of memory consolidation
+ */
+export const ConsolidationConfigSchema = z.object({
+  /** Consolidate once working memory holds more entries than this */
+  maxEntries: z.number().int().positive().default(50),
+  /** Consolidate once working memory holds more estimated tokens than this */
+  maxTokens: z.number().int().positive().default(4000),
+  /** Number of most recent entries never consolidated */
+  keepRecent: z.number().int().min(0).default(10),
+  /** Minimum similarity for an entry to join a cluster (0-1) */
+  similarityThreshold: z.number().min(0).max(1).default(0.3),
+  /** Maximum number of entries summarized together */
+  maxClusterSize: z.number().int().positive().default(10),
+});
+
+export type ConsolidationConfig = z.infer<typeof ConsolidationConfigSchema>;
+
+/**
+ * Entry considered for consolidation: a working memory entry or a message
+ */
+export interface ConsolidationItem {
+  id: string;
+  content: string;
+  /** Creation time in milliseconds */
+  timestamp: number;
+  /** Importance score (0-1) */
+  importance?: number;
+  /** Whether the entry is itself a summary; summaries are never consolidated again */
+  summary?: boolean;
+}
+
+/**
+ * Summary written for a cluster of entries
+ */
+export interface ConsolidatedSummary {
+  content: string;
+  /** Importance score (0-1) */
+  importance: number;
+  /** IDs of the summarized entries */
+  sources: string[];
+}
+
+/**
+ * Consolidator options
+ */
+export interface MemoryConsolidatorOptions {
+  /** LLM writing the summaries; entries are joined verbatim when omitted */
+  llm?: LLMProvider;
+  /** Embedding generator used to cluster by meaning instead of shared words */
+  embeddings?: EmbeddingGenerator;
+  /** Budget and clustering settings */
+  config?: Partial<ConsolidationConfig>;
+}
+
+/**
+ * Summary the model writes for a cluster
+ */
+const ClusterSummarySchema = z.object({
+  summary: z.string(),
+  importance: z.number().min(0).max(1),
+});
+
+/**
+ * Estimate the number of tokens of a text (about four characters per token)
+ * @param text Text to measure
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Memory consolidator.
+ *
+ * Once working memory exceeds its entry or token budget, the older entries
+ * are grouped into clusters of related entries and each cluster is replaced
+ * by one summary listing the IDs of the entries it was written from.
+ */
+export class MemoryConsolidator {
+  readonly config: ConsolidationConfig;
+  private llm?: LLMProvider;
+  private embeddings?: EmbeddingGenerator;
+
+  constructor(options: MemoryConsolidatorOptions = {}) {
+    this.llm = options.llm;
+    this.embeddings = options.embeddings;
+    this.config = ConsolidationConfigSchema.parse(options.config || {});
+  }
+
+  /**
+   * Check whether entries exceed the entry or token budget
+   * @param items Working memory entries
+   */
+  isOverBudget(items: ConsolidationItem[]): boolean {
+    if (items.length > this.config.maxEntries) {
+      return true;
+    }
+    const tokens = items.reduce((total, item) => total + estimateTokens(item.content), 0);
+    return tokens > this.config.maxTokens;
+  }
+
+  /**
+   * Select the entries to consolidate: all but the `keepRecent` most recent,
+   * leaving out earlier summaries
+   * @param items Working memory entries
+   * @returns Entries to consolidate, oldest first
+   */
+  select(items: ConsolidationItem[]): ConsolidationItem[] {
+    const ordered = [...items].sort((a, b) => a.timestamp - b.timestamp);
+    return ordered
+      .slice(0, Math.max(0, ordered.length - this.config.keepRecent))
+      .filter(item => !item.summary);
+  }
+
+  /**
+   * Group related entries.
+   *
+   * Entries are visited oldest first and join the first cluster whose first
+   * entry is similar enough; otherwise they start a new cluster.
+   * @param items Entries to group
+   * @returns Clusters, in order of their oldest entry
+   */
+  async cluster(items: ConsolidationItem[]): Promise<ConsolidationItem[][]> {
+    const vectors = this.embeddings
+      ? await this.embeddings.embedBatch(items.map(item => item.content))
+      : items.map(item => wordSet(item.content));
+    const clusters: Array<{ seed: number; items: ConsolidationItem[] }> = [];
+
+    for (const [index, item] of items.entries()) {
+      const cluster = clusters.find(candidate =>
+        candidate.items.length < this.config.maxClusterSize &&
+        similarity(vectors[candidate.seed], vectors[index]) >= this.config.similarityThreshold
+      );
+      if (cluster) {
+        cluster.items.push(item);
+      } else {
+        clusters.push({ seed: index, items: [item] });
+      }
+    }
+
+    return clusters.map(cluster => cluster.items);
+  }
+
+  /**
+   * Summarize a cluster of entries
+   * @param cluster Related entries
+   * @returns Summary with its provenance
+   */
+  async summarize(cluster: ConsolidationItem[]): Promise<ConsolidatedSummary> {
+    const sources = cluster.map(item => item.id);
+    const importance = Math.max(...cluster.map(item => item.importance ?? 0.5));
+
+    if (!this.llm || cluster.length === 1) {
+      return { content: cluster.map(item => item.content).join('\n'), importance, sources };
+    }
+
+    const prompt = `Summarize the following related memory entries into one concise memory.
+Keep facts, decisions, results and open questions; drop repetition and small talk.
+Rate the importance of the summary from 0 to 1.
+
+${cluster.map((item, index) => `[${index + 1}] ${item.content}`).join('\n\n')}`;
+    const result = await generateObjectWith(this.llm, prompt, ClusterSummarySchema);
+
+    return {
+      content: result.summary,
+      importance: Math.max(importance, result.importance),
+      sources,
+    };
+  }
+
+  /**
+   * Consolidate entries when they exceed the budget
+   * @param items Working memory entries
+   * @param force Consolidate even within the budget
+   * @returns One summary per cluster of two or more entries; empty when nothing was consolidated
+   */
+  async consolidate(items: ConsolidationItem[], force = false): Promise<ConsolidatedSummary[]> {
+    if (!force && !this.isOverBudget(items)) {
+      return [];
+    }
+
+    const selected = this.select(items);
+    const summaries: ConsolidatedSummary[] = [];
+    for (const cluster of await this.cluster(selected)) {
+      // A lone entry would only be rewritten as is; it waits for related entries instead
+      if (cluster.length > 1) {
+        summaries.push(await this.summarize(cluster));
+      }
+    }
+    return summaries;
+  }
+}
+
+/**
+ * Policy choosing which long-term memories to forget
+ */
+export const ForgetPolicySchema = z.discriminatedUnion('policy', [
+  /** Keep the `maxEntries` most recently used memories */
+  z.object({ policy: z.literal('lru'), maxEntries: z.number().int().min(0) }),
+  /** Forget memories less important than `minImportance` */
+  z.object({ policy: z.literal('low_importance'), minImportance: z.number().min(0).max(1) }),
+  /** Forget memories older than `maxAge` milliseconds */
+  z.object({ policy: z.literal('age'), maxAge: z.number().positive() }),
+]);
+
+export type ForgetPolicy = z.infer<typeof ForgetPolicySchema>;
+
+type ClusterVector = number[] | Set<string>;
+
+/**
+ * Similarity of two entries: cosine of embeddings, or Jaccard index of words
+ */
+function similarity(a: ClusterVector, b: ClusterVector): number {
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size === 0 && b.size === 0) {
+      return 1;
+    }
+    let shared = 0;
+    for (const word of a) {
+      if (b.has(word)) {
+        shared++;
+      }
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  const x = a as number[];
+  const y = b as number[];
+  let dot = 0;
+  let normX = 0;
+  let normY = 0;
+  for (let i = 0; i < Math.min(x.length, y.length); i++) {
+    dot += x[i] * y[i];
+    normX += x[i] * x[i];
+    normY += y[i] * y[i];
+  }
+  return normX && normY ? dot / Math.sqrt(normX * normY) : 0;
+}
+
+/**
+ * Lowercase words of a text
+ */
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
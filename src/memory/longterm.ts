@@ -1,13 +1,71 @@
 import type { LongTermMemory, WorkingMemory } from './types';
-import type { MemoryEntrySchema, MemoryQueryOptions } from './types';
-import type { z } from 'zod';
+import type { MemoryEntry, MemoryEntrySchema, MemoryQueryOptions, RecalledMemory } from './types';
+import type { MemoryStore } from './store';
+import type { ForgetPolicy, MemoryConsolidator } from './consolidation';
+import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
+import type { EmbeddingGenerator } from '../rag/embeddings';
+import { InMemoryVectorStore } from '../rag/vector-store';
+import type { VectorStore } from '../rag/vector-store';
 
 /**
- * Long-term memory implementation with persistence and consolidation
+ * Weights used to rank recalled memories
+ */
+export const RecallConfigSchema = z.object({
+  /** Weight of the similarity to the query */
+  similarityWeight: z.number().min(0).default(0.6),
+  /** Weight of the memory's importance */
+  importanceWeight: z.number().min(0).default(0.25),
+  /** Weight of the memory's recency */
+  recencyWeight: z.number().min(0).default(0.15),
+  /** Age at which the recency score halves, in milliseconds */
+  recencyHalfLife: z.number().positive().default(7 * 24 * 60 * 60 * 1000),
+  /** Minimum similarity for `search` by content when embeddings are used */
+  minSimilarity: z.number().min(0).max(1).default(0.5),
+});
+
+export type RecallConfig = z.infer<typeof RecallConfigSchema>;
+
+/**
+ * Long-term memory options
+ */
+export interface LongTermMemoryOptions {
+  /** Persistence backend; memories are kept in process only when omitted */
+  store?: MemoryStore;
+  /** Embedding generator enabling semantic recall */
+  embeddings?: EmbeddingGenerator;
+  /** Vector index of the memory embeddings; in-memory when omitted */
+  vectorStore?: VectorStore;
+  /** Recall ranking */
+  recall?: Partial<RecallConfig>;
+  /** Consolidator summarizing working memory instead of copying it */
+  consolidator?: MemoryConsolidator;
+}
+
+/**
+ * Long-term memory implementation with persistence and consolidation.
+ *
+ * Memories are loaded from the store on first use and every change is
+ * written through. With an embedding generator, each memory is embedded and
+ * indexed in a vector store so recall ranks memories by meaning rather than
+ * by substring.
  */
 export class LongTermMemoryImpl implements LongTermMemory {
   private memories: Map<string, z.infer<typeof MemoryEntrySchema>> = new Map();
+  private store?: MemoryStore;
+  private embeddings?: EmbeddingGenerator;
+  private vectorStore?: VectorStore;
+  private recallConfig: RecallConfig;
+  private consolidator?: MemoryConsolidator;
+  private loaded?: Promise<void>;
+
+  constructor(options: LongTermMemoryOptions = {}) {
+    this.store = options.store;
+    this.embeddings = options.embeddings;
+    this.vectorStore = options.vectorStore;
+    this.recallConfig = RecallConfigSchema.parse(options.recall || {});
+    this.consolidator = options.consolidator;
+  }
 
   /**
    * Add a new memory
@@ -17,6 +75,7 @@ export class LongTermMemoryImpl implements LongTermMemory {
     type: string,
     metadata: Record<string, any> = {}
   ): Promise<z.infer<typeof MemoryEntrySchema>> {
+    await this.ensureLoaded();
     const memory = {
       id: uuidv4(),
       content,
@@ -24,10 +83,12 @@ export class LongTermMemoryImpl implements LongTermMemory {
       timestamp: Date.now(),
       metadata,
       importance: metadata.importance ?? 0.5,
-      embedding: metadata.embedding ?? [],
+      embedding: metadata.embedding ?? await this.embed(content),
     };
 
     this.memories.set(memory.id, memory);
+    await this.index(memory);
+    await this.store?.put(memory);
     return memory;
   }
 
@@ -35,6 +96,7 @@ export class LongTermMemoryImpl implements LongTermMemory {
    * Get a memory by ID
    */
   public async get(id: string): Promise<z.infer<typeof MemoryEntrySchema> | null> {
+    await this.ensureLoaded();
     return this.memories.get(id) || null;
   }
 
@@ -42,32 +104,18 @@ export class LongTermMemoryImpl implements LongTermMemory {
    * Search memories by query options
    */
   public async search(options: MemoryQueryOptions): Promise<z.infer<typeof MemoryEntrySchema>[]> {
-    let results = Array.from(this.memories.values());
-
-    // Apply filters
-    if (options.type) {
-      results = results.filter(m => m.type === options.type);
-    }
+    await this.ensureLoaded();
 
-    if (options.startTime) {
-      results = results.filter(m => m.timestamp >= options.startTime!);
+    // With embeddings, content is matched by meaning
+    if (options.content && this.embeddings) {
+      const recalled = await this.recall(options.content, { ...options, limit: undefined });
+      const matches = recalled.filter(memory => memory.similarity >= this.recallConfig.minSimilarity);
+      return matches
+        .slice(0, options.limit || matches.length)
+        .map(({ score: _score, similarity: _similarity, ...memory }) => memory);
     }
 
-    if (options.endTime) {
-      results = results.filter(m => m.timestamp <= options.endTime!);
-    }
-
-    if (options.minImportance) {
-      results = results.filter(m => m.importance >= options.minImportance!);
-    }
-
-    if (options.metadata) {
-      results = results.filter(m => {
-        return Object.entries(options.metadata!).every(([key, value]) => 
-          m.metadata[key] === value
-        );
-      });
-    }
+    let results = this.filter(options);
 
     if (options.content) {
       const searchContent = options.content.toLowerCase();
@@ -98,41 +146,112 @@ export class LongTermMemoryImpl implements LongTermMemory {
     id: string,
     updates: Partial<z.infer<typeof MemoryEntrySchema>>
   ): Promise<void> {
+    await this.ensureLoaded();
     const memory = this.memories.get(id);
     if (!memory) {
       throw new Error(`Memory ${id} not found`);
     }
 
+    const contentChanged = updates.content !== undefined && updates.content !== memory.content;
     Object.assign(memory, updates);
+    if (contentChanged && !updates.embedding) {
+      memory.embedding = await this.embed(memory.content);
+    }
     this.memories.set(id, memory);
+    await this.index(memory);
+    await this.store?.put(memory);
   }
 
   /**
    * Delete a memory
    */
   public async delete(id: string): Promise<void> {
+    await this.ensureLoaded();
     this.memories.delete(id);
+    await this.vectorStore?.delete([id]);
+    await this.store?.delete(id);
   }
 
   /**
    * Clear all memories
    */
   public async clear(): Promise<void> {
+    await this.ensureLoaded();
     this.memories.clear();
+    await this.vectorStore?.clear();
+    await this.store?.clear();
   }
 
   /**
-   * Consolidate memories from working memory
-   * This process involves:
+   * Recall the memories most relevant to a query.
+   *
+   * Memories are ranked by a weighted sum of their similarity to the query,
+   * their importance and their recency, which halves every `recencyHalfLife`.
+   * Similarity is the cosine similarity of the embeddings when an embedding
+   * generator is configured, and the share of query words found otherwise.
+   * @param query Query text
+   * @param options Filters applied before ranking
+   * @returns Memories with their scores, best first
+   */
+  public async recall(query: string, options: Omit<MemoryQueryOptions, 'content'> = {}): Promise<RecalledMemory[]> {
+    await this.ensureLoaded();
+    const candidates = this.filter(options);
+    const similarities = await this.similarities(query, candidates);
+    const { similarityWeight, importanceWeight, recencyWeight, recencyHalfLife } = this.recallConfig;
+    const now = Date.now();
+
+    const recalled = candidates.map(memory => {
+      const similarity = similarities.get(memory.id) ?? 0;
+      const recency = Math.pow(0.5, Math.max(0, now - memory.timestamp) / recencyHalfLife);
+      return {
+        ...memory,
+        similarity,
+        score: similarityWeight * similarity + importanceWeight * memory.importance + recencyWeight * recency,
+      };
+    });
+
+    recalled.sort((a, b) => b.score - a.score);
+    const results = options.limit ? recalled.slice(0, options.limit) : recalled;
+    if (options.limit) {
+      await this.touch(results.map(memory => memory.id));
+    }
+    return results;
+  }
+
+  /**
+   * Consolidate memories from working memory.
+   *
+   * With a consolidator, nothing happens until working memory exceeds its
+   * budget; then the older entries are summarized cluster by cluster into
+   * `summary` memories whose `sources` metadata lists the working memory IDs
+   * they were written from, and those entries are removed from working memory.
+   * Without one, every entry is copied and working memory is cleared,
+   * which involves:
    * 1. Evaluating importance of working memories
    * 2. Filtering out low importance memories
    * 3. Generating embeddings for semantic search
    * 4. Storing consolidated memories
    */
   public async consolidate(workingMemory: WorkingMemory): Promise<void> {
+    await this.ensureLoaded();
     // Get all memories from working memory
     const memories = await workingMemory.search({});
 
+    if (this.consolidator) {
+      const summaries = await this.consolidator.consolidate(memories);
+      for (const summary of summaries) {
+        await this.add(summary.content, 'summary', {
+          importance: summary.importance,
+          sources: summary.sources,
+          consolidatedAt: Date.now(),
+        });
+        for (const id of summary.sources) {
+          await workingMemory.delete(id);
+        }
+      }
+      return;
+    }
+
     for (const memory of memories) {
       // Skip if already consolidated
       if (this.memories.has(memory.id)) {
@@ -192,27 +311,179 @@ export class LongTermMemoryImpl implements LongTermMemory {
   }
 
   /**
-   * Forget old or unimportant memories
+   * Forget old or unimportant memories.
+   *
+   * Query options forget memories that are both older than `endTime` and
+   * less important than `minImportance`. A policy forgets instead:
+   * - `lru` - all but the `maxEntries` most recently recalled or created memories
+   * - `low_importance` - memories less important than `minImportance`
+   * - `age` - memories created more than `maxAge` milliseconds ago
    */
-  public async forget(options: MemoryQueryOptions): Promise<void> {
+  public async forget(options: MemoryQueryOptions | ForgetPolicy): Promise<void> {
+    await this.ensureLoaded();
     const memories = Array.from(this.memories.values());
-    
-    // Find memories to forget based on time and importance
-    const toForget = memories.filter(memory => {
-      // Check if memory is old enough using metadata timestamp if available
-      const timestamp = memory.metadata.timestamp ?? memory.timestamp;
-      const isOld = options.endTime ? timestamp <= options.endTime : false;
-      
-      // Check if memory is not important enough
-      const isUnimportant = options.minImportance ? memory.importance < options.minImportance : false;
-      
-      // Only forget memories that are both old and unimportant
-      return isOld && isUnimportant;
-    });
+    let toForget: MemoryEntry[];
+
+    if ('policy' in options) {
+      toForget = selectForgotten(memories, options);
+    } else {
+      // Find memories to forget based on time and importance
+      toForget = memories.filter(memory => {
+        // Check if memory is old enough using metadata timestamp if available
+        const timestamp = memory.metadata.timestamp ?? memory.timestamp;
+        const isOld = options.endTime ? timestamp <= options.endTime : false;
+
+        // Check if memory is not important enough
+        const isUnimportant = options.minImportance ? memory.importance < options.minImportance : false;
+
+        // Only forget memories that are both old and unimportant
+        return isOld && isUnimportant;
+      });
+    }
 
     // Delete forgotten memories
     for (const memory of toForget) {
       await this.delete(memory.id);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Apply the filters of a query, except content
+   * @param options Query options
+   * @returns Matching memories
+   */
+  private filter(options: Omit<MemoryQueryOptions, 'content'>): MemoryEntry[] {
+    let results = Array.from(this.memories.values());
+
+    if (options.type) {
+      results = results.filter(m => m.type === options.type);
+    }
+
+    if (options.startTime) {
+      results = results.filter(m => m.timestamp >= options.startTime!);
+    }
+
+    if (options.endTime) {
+      results = results.filter(m => m.timestamp <= options.endTime!);
+    }
+
+    if (options.minImportance) {
+      results = results.filter(m => m.importance >= options.minImportance!);
+    }
+
+    if (options.metadata) {
+      results = results.filter(m => {
+        return Object.entries(options.metadata!).every(([key, value]) => 
+          m.metadata[key] === value
+        );
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Compute the similarity of each candidate to a query
+   * @param query Query text
+   * @param candidates Memories to score
+   * @returns Similarity by memory ID
+   */
+  private async similarities(query: string, candidates: MemoryEntry[]): Promise<Map<string, number>> {
+    const similarities = new Map<string, number>();
+
+    if (this.embeddings && this.vectorStore) {
+      const results = await this.vectorStore.search(await this.embeddings.embed(query), this.memories.size, -1);
+      for (const result of results) {
+        similarities.set(result.id, Math.max(0, result.score));
+      }
+      return similarities;
+    }
+
+    const words = tokenize(query);
+    for (const memory of candidates) {
+      const contentWords = new Set(tokenize(memory.content));
+      const found = words.filter(word => contentWords.has(word)).length;
+      similarities.set(memory.id, words.length > 0 ? found / words.length : 0);
+    }
+    return similarities;
+  }
+
+  /**
+   * Record that memories were used, for the LRU forgetting policy
+   * @param ids IDs of the recalled memories
+   */
+  private async touch(ids: string[]): Promise<void> {
+    const now = Date.now();
+    for (const id of ids) {
+      const memory = this.memories.get(id);
+      if (memory) {
+        memory.metadata = { ...memory.metadata, lastAccessedAt: now };
+        await this.store?.put(memory);
+      }
+    }
+  }
+
+  /**
+   * Embed a text when an embedding generator is configured
+   */
+  private async embed(text: string): Promise<number[]> {
+    return this.embeddings ? this.embeddings.embed(text) : [];
+  }
+
+  /**
+   * Add a memory's embedding to the vector index
+   */
+  private async index(memory: MemoryEntry): Promise<void> {
+    if (!this.embeddings || !memory.embedding?.length) {
+      return;
+    }
+    this.vectorStore ??= new InMemoryVectorStore({ dimension: memory.embedding.length });
+    await this.vectorStore.add(memory.id, memory.embedding, { type: memory.type }, memory.content);
+  }
+
+  /**
+   * Load the stored memories on first use, embedding those stored without one
+   */
+  private ensureLoaded(): Promise<void> {
+    this.loaded ??= (async () => {
+      for (const memory of await this.store?.load() ?? []) {
+        if (this.embeddings && !memory.embedding?.length) {
+          memory.embedding = await this.embed(memory.content);
+          await this.store?.put(memory);
+        }
+        this.memories.set(memory.id, memory);
+        await this.index(memory);
+      }
+    })();
+    return this.loaded;
+  }
+}
+
+/**
+ * Split text into lowercase words
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Select the memories a forgetting policy drops
+ * @param memories All memories
+ * @param policy Forgetting policy
+ */
+function selectForgotten(memories: MemoryEntry[], policy: ForgetPolicy): MemoryEntry[] {
+  switch (policy.policy) {
+    case 'lru': {
+      const lastUsed = (memory: MemoryEntry) => memory.metadata.lastAccessedAt ?? memory.timestamp;
+      return [...memories]
+        .sort((a, b) => lastUsed(b) - lastUsed(a))
+        .slice(policy.maxEntries);
+    }
+    case 'low_importance':
+      return memories.filter(memory => memory.importance < policy.minImportance);
+    case 'age': {
+      const cutoff = Date.now() - policy.maxAge;
+      return memories.filter(memory => memory.timestamp < cutoff);
+    }
+  }
+}
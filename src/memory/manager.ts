@@ -1,19 +1,35 @@
 import type { Message } from '../types/message';
+import { MessageSchema } from '../types/message';
 import type { MemoryManager } from '../types/memory';
-import type { MemoryEntrySchema } from './types';
+import type { LongTermMemory, MemoryEntrySchema } from './types';
 import type { z } from 'zod';
 import { WorkingMemoryImpl } from './working';
-import { LongTermMemoryImpl } from './longterm';
 import { ArrayMemory } from './array';
+import type { ConsolidationItem, MemoryConsolidator } from './consolidation';
+import { logger } from '../utils/logger';
+
+/**
+ * Action type (`causedBy`) of the summaries replacing consolidated messages
+ */
+export const MEMORY_SUMMARY = 'MemorySummary';
 
 /**
  * Implementation of the MemoryManager interface
  */
 export class MemoryManagerImpl implements MemoryManager {
   private _working: ArrayMemory;
+  /** Long-term memory kept across runs, if any */
+  longTerm?: LongTermMemory;
+  /** Consolidator keeping working memory within its budget, if any */
+  consolidator?: MemoryConsolidator;
+  private consolidating?: Promise<void>;
+  /** IDs of the entries the last consolidation pass considered */
+  private lastSelection?: string;
 
-  constructor() {
+  constructor(longTerm?: LongTermMemory, consolidator?: MemoryConsolidator) {
     this._working = new ArrayMemory();
+    this.longTerm = longTerm;
+    this.consolidator = consolidator;
   }
 
   async init(): Promise<void> {
@@ -22,6 +38,89 @@ export class MemoryManagerImpl implements MemoryManager {
 
   async add(message: Message): Promise<void> {
     this._working.add(message);
+    if (this.consolidator && !this.consolidating) {
+      this.consolidating = this.consolidate().finally(() => {
+        this.consolidating = undefined;
+      });
+      await this.consolidating;
+    }
+  }
+
+  /**
+   * Summarize older messages once working memory exceeds the consolidator's budget.
+   *
+   * Each cluster of related messages is replaced by one summary message whose
+   * `context.sources` lists the IDs of the messages it was written from. The
+   * summaries are also stored in long-term memory when there is one. Summaries
+   * are never consolidated again, and a pass is skipped while the entries
+   * older than `keepRecent` are the same as in the previous pass.
+   * @param force Consolidate even within the budget
+   */
+  async consolidate(force = false): Promise<void> {
+    if (!this.consolidator) {
+      return;
+    }
+
+    const items: ConsolidationItem[] = this._working.get().map(message => ({
+      id: message.id,
+      content: message.content,
+      timestamp: Date.parse(message.timestamp) || 0,
+      importance: message.metadata?.importance,
+      summary: message.causedBy === MEMORY_SUMMARY,
+    }));
+    if (!force && !this.consolidator.isOverBudget(items)) {
+      return;
+    }
+    // At least two entries are needed to write a summary
+    const selected = this.consolidator.select(items);
+    const selection = selected.map(item => item.id).join(',');
+    if (selected.length < 2 || (!force && selection === this.lastSelection)) {
+      return;
+    }
+    this.lastSelection = selection;
+
+    let summaries;
+    try {
+      summaries = await this.consolidator.consolidate(items, true);
+    } catch (error) {
+      // Keep the messages as they are and try again on the next message
+      this.lastSelection = undefined;
+      logger.warn('[MemoryManager] Consolidation failed:', error);
+      return;
+    }
+    if (summaries.length === 0) {
+      return;
+    }
+
+    const consolidated = new Set(summaries.flatMap(summary => summary.sources));
+    const timestamps = new Map(items.map(item => [item.id, item.timestamp]));
+    const summaryMessages: Message[] = [];
+    for (const summary of summaries) {
+      const longTermEntry = await this.longTerm?.add(summary.content, 'summary', {
+        importance: summary.importance,
+        sources: summary.sources,
+        consolidatedAt: Date.now(),
+      });
+      summaryMessages.push(MessageSchema.parse({
+        role: 'system',
+        content: summary.content,
+        causedBy: MEMORY_SUMMARY,
+        // Dated like its newest source so later passes keep the original order
+        timestamp: new Date(Math.max(...summary.sources.map(id => timestamps.get(id) ?? 0))).toISOString(),
+        metadata: {
+          importance: summary.importance,
+          tags: [MEMORY_SUMMARY],
+          context: { sources: summary.sources, ...(longTermEntry ? { longTermId: longTermEntry.id } : {}) },
+        },
+      }));
+    }
+
+    // Summaries take the place of their newest source, after earlier summaries
+    // and before messages added while summarizing
+    const remaining = this._working.get().filter(message => !consolidated.has(message.id));
+    this._working.replace([...summaryMessages, ...remaining].sort((a, b) =>
+      (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0)
+    ));
   }
 
   async get(): Promise<Message[]> {
@@ -85,8 +184,17 @@ export class MemoryManagerImpl implements MemoryManager {
   }
 
   async cleanup(): Promise<void> {
-    // Consolidate working memory to long-term memory
-    await this._longTerm.consolidate(this._working);
+    // Move working memory messages to long-term memory
+    if (this.longTerm) {
+      for (const message of await this._working.get()) {
+        await this.longTerm.add(message.content, 'message', {
+          role: message.role,
+          causedBy: message.causedBy,
+          messageId: message.id,
+          ...(message.metadata?.importance !== undefined ? { importance: message.metadata.importance } : {}),
+        });
+      }
+    }
     // Clear working memory
     await this._working.clear();
   }
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { MemoryEntrySchema } from './types';
+import type { MemoryEntry } from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * Persistence backend of long-term memory
+ */
+export interface MemoryStore {
+  /** Load every stored memory */
+  load(): Promise<MemoryEntry[]>;
+  /** Insert or replace a memory */
+  put(entry: MemoryEntry): Promise<void>;
+  /** Delete a memory */
+  delete(id: string): Promise<void>;
+  /** Delete every memory */
+  clear(): Promise<void>;
+  /** Release resources held by the store */
+  close?(): Promise<void>;
+}
+
+/**
+ * Operation recorded in a JSON-lines memory file
+ */
+type JsonlOperation =
+  | { op: 'put'; entry: MemoryEntry }
+  | { op: 'delete'; id: string };
+
+/**
+ * Memory store appending every change to a JSON-lines file.
+ *
+ * The log is replayed on load and compacted to one line per memory once it
+ * holds more than `compactRatio` times as many lines as memories.
+ */
+export class JsonlMemoryStore implements MemoryStore {
+  /**
+   * @param filePath Path of the JSON-lines file
+   * @param compactRatio Ratio of log lines to memories that triggers compaction
+   */
+  constructor(
+    readonly filePath: string,
+    private compactRatio = 2
+  ) {}
+
+  async load(): Promise<MemoryEntry[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries = new Map<string, MemoryEntry>();
+    const lines = (await fs.promises.readFile(this.filePath, 'utf8')).split('\n').filter(line => line.trim());
+    for (const [index, line] of lines.entries()) {
+      let operation: JsonlOperation;
+      try {
+        operation = JSON.parse(line);
+      } catch {
+        // A crash while appending can leave a truncated last line behind
+        logger.warn(`[JsonlMemoryStore] Skipping malformed line ${index + 1} of ${this.filePath}`);
+        continue;
+      }
+      if (operation.op === 'put') {
+        entries.set(operation.entry.id, MemoryEntrySchema.parse(operation.entry));
+      } else if (operation.op === 'delete') {
+        entries.delete(operation.id);
+      }
+    }
+
+    if (lines.length > Math.max(1, entries.size) * this.compactRatio) {
+      await this.compact(Array.from(entries.values()));
+    }
+    return Array.from(entries.values());
+  }
+
+  async put(entry: MemoryEntry): Promise<void> {
+    await this.append({ op: 'put', entry });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.append({ op: 'delete', id });
+  }
+
+  async clear(): Promise<void> {
+    await this.compact([]);
+  }
+
+  /**
+   * Rewrite the file with one line per memory
+   * @param entries Memories to keep
+   */
+  private async compact(entries: MemoryEntry[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = entries.map(entry => `${JSON.stringify({ op: 'put', entry })}\n`).join('');
+    await fs.promises.writeFile(tempPath, lines, 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  private async append(operation: JsonlOperation): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(operation)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Prepared statement of a synchronous SQLite driver
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Synchronous SQLite database, as provided by `bun:sqlite` and `node:sqlite`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close?(): unknown;
+}
+
+/**
+ * Open an SQLite database with the driver built into the runtime
+ * @param filePath Database file path, or `:memory:`
+ * @returns Database
+ * @throws If the runtime has no SQLite driver (Bun or Node.js 22.5+ is required)
+ */
+export async function openSqliteDatabase(filePath: string): Promise<SqliteDatabase> {
+  if (filePath !== ':memory:') {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  }
+
+  const drivers: Array<[specifier: string, exportName: string]> = [
+    ['bun:sqlite', 'Database'],
+    ['node:sqlite', 'DatabaseSync'],
+  ];
+  for (const [specifier, exportName] of drivers) {
+    try {
+      const driver = await import(specifier);
+      return new driver[exportName](filePath) as SqliteDatabase;
+    } catch {
+      // Try the next driver
+    }
+  }
+  throw new Error('No SQLite driver available: run on Bun or Node.js 22.5+, or pass an open database');
+}
+
+/**
+ * Row of the memories table
+ */
+interface MemoryRow {
+  id: string;
+  content: string;
+  type: string;
+  timestamp: number;
+  importance: number;
+  metadata: string;
+  embedding: string | null;
+}
+
+/**
+ * Memory store keeping memories in an SQLite table
+ */
+export class SqliteMemoryStore implements MemoryStore {
+  private db?: Promise<SqliteDatabase>;
+
+  /**
+   * @param database Database file path, or an open database
+   * @param table Table name
+   */
+  constructor(
+    private database: string | SqliteDatabase,
+    private table = 'memories'
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+  }
+
+  async load(): Promise<MemoryEntry[]> {
+    const db = await this.open();
+    const rows = db.prepare(`SELECT * FROM ${this.table} ORDER BY timestamp`).all() as MemoryRow[];
+    return rows.map(row => MemoryEntrySchema.parse({
+      id: row.id,
+      content: row.content,
+      type: row.type,
+      timestamp: Number(row.timestamp),
+      importance: row.importance,
+      metadata: JSON.parse(row.metadata),
+      embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
+    }));
+  }
+
+  async put(entry: MemoryEntry): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT OR REPLACE INTO ${this.table} (id, content, type, timestamp, importance, metadata, embedding) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      entry.id,
+      entry.content,
+      entry.type,
+      entry.timestamp,
+      entry.importance,
+      JSON.stringify(entry.metadata),
+      entry.embedding?.length ? JSON.stringify(entry.embedding) : null
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    db.exec(`DELETE FROM ${this.table}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      (await this.db).close?.();
+      this.db = undefined;
+    }
+  }
+
+  /**
+   * Open the database and create the table on first use
+   */
+  private open(): Promise<SqliteDatabase> {
+    this.db ??= (async () => {
+      const db = typeof this.database === 'string'
+        ? await openSqliteDatabase(this.database)
+        : this.database;
+      db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        importance REAL NOT NULL,
+        metadata TEXT NOT NULL,
+        embedding TEXT
+      )`);
+      return db;
+    })();
+    return this.db;
+  }
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { Message } from '../types/message';
+import type { ForgetPolicy } from './consolidation';
 
 /**
  * Memory entry schema for storing individual memories
@@ -21,6 +22,18 @@ export const MemoryEntrySchema = z.object({
   embedding: z.array(z.number()).optional(),
 });
 
+export type MemoryEntry = z.infer<typeof MemoryEntrySchema>;
+
+/**
+ * Memory returned by recall, with its ranking scores
+ */
+export type RecalledMemory = MemoryEntry & {
+  /** Combined score of similarity, importance and recency */
+  score: number;
+  /** Similarity of the memory to the query (0-1) */
+  similarity: number;
+};
+
 /**
  * Memory query options
  */
@@ -77,8 +90,10 @@ export interface WorkingMemory extends Memory {
 export interface LongTermMemory extends Memory {
   /** Consolidate memories from working memory */
   consolidate(workingMemory: WorkingMemory): Promise<void>;
-  /** Forget old or unimportant memories */
-  forget(options: MemoryQueryOptions): Promise<void>;
+  /** Forget memories matching a query, or chosen by a forgetting policy */
+  forget(options: MemoryQueryOptions | ForgetPolicy): Promise<void>;
+  /** Recall the memories most relevant to a query */
+  recall(query: string, options?: Omit<MemoryQueryOptions, 'content'>): Promise<RecalledMemory[]>;
 }
 
 /**
@@ -0,0 +1,380 @@
+/**
+ * 录制/回放 LLM 提供商
+ *
+ * `RecordingLLMProvider` 包装任意提供商，把 prompt→response 写入夹具文件；
+ * `ReplayLLMProvider` 从夹具文件读取响应，不访问网络，未命中时直接抛错。
+ *
+ * 使用示例:
+ *
+ * ```typescript
+ * // 录制（需要真实模型）
+ * const llm = new RecordingLLMProvider(realProvider, 'tests/fixtures/llm/engineer.json');
+ *
+ * // 回放（CI 中离线运行）
+ * const llm = new ReplayLLMProvider('tests/fixtures/llm/engineer.json');
+ *
+ * // 根据 LLM_FIXTURE_MODE=record|replay 自动选择
+ * const llm = createFixtureLLMProvider('tests/fixtures/llm/engineer.json', () => realProvider);
+ * ```
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { z } from 'zod';
+import type { LLMConfig, LLMProvider } from '../types/llm';
+import type { CostManager } from '../utils/cost-manager';
+import { ReplayMissError } from '../utils/errors';
+import { readJsonFile, writeJsonFile } from '../utils/file';
+import { logger } from '../utils/logger';
+
+/**
+ * 调用方式：chat 与 generate 的 prompt 语义不同，分别建键
+ */
+export type LLMFixtureKind = 'chat' | 'generate';
+
+/**
+ * 单次录制的响应
+ */
+export const LLMFixtureResponseSchema = z.object({
+  text: z.string(),
+  // 流式调用录制的分块；非流式调用没有分块
+  chunks: z.array(z.string()).optional(),
+});
+
+export type LLMFixtureResponse = z.infer<typeof LLMFixtureResponseSchema>;
+
+/**
+ * 同一个键下按调用顺序录制的响应
+ */
+export const LLMFixtureEntrySchema = z.object({
+  kind: z.enum(['chat', 'generate']),
+  prompt: z.string(),
+  systemPrompt: z.string().default(''),
+  config: z.record(z.any()).default({}),
+  responses: z.array(LLMFixtureResponseSchema).default([]),
+});
+
+export type LLMFixtureEntry = z.infer<typeof LLMFixtureEntrySchema>;
+
+/**
+ * 夹具文件
+ */
+export const LLMFixtureFileSchema = z.object({
+  version: z.literal(1).default(1),
+  provider: z.string().default('replay'),
+  model: z.string().default('replay'),
+  entries: z.record(LLMFixtureEntrySchema).default({}),
+});
+
+export type LLMFixtureFile = z.infer<typeof LLMFixtureFileSchema>;
+
+/**
+ * 回放时找不到录制的响应
+ */
+export class LLMFixtureMissError extends ReplayMissError {
+  constructor(
+    readonly key: string,
+    readonly prompt: string,
+    readonly fixturePath: string,
+    readonly index = 0
+  ) {
+    const preview = prompt.length > 200 ? `${prompt.slice(0, 200)}...` : prompt;
+    super(
+      `No recorded LLM response #${index + 1} for prompt ${key.slice(0, 12)} in ${fixturePath}. ` +
+      `Re-record the fixture with LLM_FIXTURE_MODE=record.\nPrompt: ${preview}`
+    );
+    this.name = 'LLMFixtureMissError';
+  }
+}
+
+/**
+ * 会随运行变化的内容，建键前替换为占位符
+ */
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>'],
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+];
+
+/**
+ * 规范化 prompt：统一换行、去掉行尾空白与首尾空行，并替换 UUID、时间戳等易变内容
+ * @param prompt - 原始 prompt
+ * @returns 规范化后的 prompt
+ */
+export function normalizePrompt(prompt: string): string {
+  let normalized = prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n')
+    .trim();
+  for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, placeholder);
+  }
+  return normalized;
+}
+
+/**
+ * 计算夹具键：规范化后的调用方式、系统提示词、prompt 与生成参数的 SHA-256
+ * @param kind - 调用方式
+ * @param prompt - prompt
+ * @param systemPrompt - 系统提示词
+ * @param config - 生成参数
+ * @returns 十六进制哈希
+ */
+export function fixtureKey(
+  kind: LLMFixtureKind,
+  prompt: string,
+  systemPrompt = '',
+  config: Partial<LLMConfig> = {}
+): string {
+  const payload = JSON.stringify([kind, normalizePrompt(systemPrompt), normalizePrompt(prompt), sortConfig(config)]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * 去掉未定义的参数并按键排序，使键与参数书写顺序无关
+ */
+function sortConfig(config: Partial<LLMConfig>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(config)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * 读取夹具文件，文件不存在时返回空夹具
+ * @param fixturePath - 夹具文件路径
+ * @returns 夹具
+ */
+export function loadLLMFixtures(fixturePath: string): LLMFixtureFile {
+  if (!fs.existsSync(fixturePath)) {
+    return LLMFixtureFileSchema.parse({});
+  }
+  return LLMFixtureFileSchema.parse(readJsonFile(fixturePath));
+}
+
+/**
+ * 录制 LLM 提供商
+ *
+ * 每次调用都转发给被包装的提供商，并把响应写入夹具文件。
+ * 同一个键在本次录制中第一次出现时会覆盖旧的录制，因此重新录制是幂等的。
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  private fixtures: LLMFixtureFile;
+  private recordedKeys: Set<string> = new Set();
+
+  /**
+   * @param inner - 被录制的提供商
+   * @param fixturePath - 夹具文件路径
+   */
+  constructor(
+    readonly inner: LLMProvider,
+    readonly fixturePath: string
+  ) {
+    this.fixtures = loadLLMFixtures(fixturePath);
+    this.fixtures.provider = inner.getName();
+    this.fixtures.model = inner.getModel();
+  }
+
+  async chat(message: string): Promise<string> {
+    const text = await this.inner.chat(message);
+    this.record('chat', message, {}, { text });
+    return text;
+  }
+
+  async generate(prompt: string, config?: Partial<LLMConfig>): Promise<string> {
+    const text = await this.inner.generate(prompt, config);
+    this.record('generate', prompt, config, { text });
+    return text;
+  }
+
+  async *generateStream(prompt: string, config?: Partial<LLMConfig>): AsyncIterable<string> {
+    const stream = this.inner.generateStream
+      ? this.inner.generateStream(prompt, config)
+      : toStream(this.inner.generate(prompt, config));
+    yield* this.recordStream('generate', prompt, config, stream);
+  }
+
+  async *chatStream(message: string): AsyncIterable<string> {
+    const stream = this.inner.chatStream
+      ? this.inner.chatStream(message)
+      : toStream(this.inner.chat(message));
+    yield* this.recordStream('chat', message, {}, stream);
+  }
+
+  setSystemPrompt(prompt: string): void {
+    this.inner.setSystemPrompt?.(prompt);
+  }
+
+  getSystemPrompt(): string {
+    return this.inner.getSystemPrompt?.() || '';
+  }
+
+  setCostManager(costManager: CostManager): void {
+    this.inner.setCostManager?.(costManager);
+  }
+
+  getName(): string {
+    return this.inner.getName();
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!this.inner.embed) {
+      throw new Error(`Embedding not supported by ${this.inner.getName()}`);
+    }
+    return this.inner.embed(text);
+  }
+
+  /**
+   * 获取当前录制的夹具
+   */
+  getFixtures(): LLMFixtureFile {
+    return this.fixtures;
+  }
+
+  private async *recordStream(
+    kind: LLMFixtureKind,
+    prompt: string,
+    config: Partial<LLMConfig> | undefined,
+    stream: AsyncIterable<string>
+  ): AsyncIterable<string> {
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    this.record(kind, prompt, config, { text: chunks.join(''), chunks });
+  }
+
+  private record(
+    kind: LLMFixtureKind,
+    prompt: string,
+    config: Partial<LLMConfig> = {},
+    response: LLMFixtureResponse
+  ): void {
+    const systemPrompt = this.getSystemPrompt();
+    const key = fixtureKey(kind, prompt, systemPrompt, config);
+
+    // 本次录制第一次遇到该键时丢弃旧响应
+    const existing = this.recordedKeys.has(key) ? this.fixtures.entries[key] : undefined;
+    const entry = existing || LLMFixtureEntrySchema.parse({
+      kind,
+      prompt: normalizePrompt(prompt),
+      systemPrompt: normalizePrompt(systemPrompt),
+      config: sortConfig(config),
+    });
+    entry.responses.push(response);
+    this.fixtures.entries[key] = entry;
+    this.recordedKeys.add(key);
+
+    // 合并其他录制者写入同一文件的键，避免多个角色共用夹具时互相覆盖
+    const entries = loadLLMFixtures(this.fixturePath).entries;
+    for (const recordedKey of this.recordedKeys) {
+      entries[recordedKey] = this.fixtures.entries[recordedKey];
+    }
+    this.fixtures.entries = entries;
+    writeJsonFile(this.fixturePath, this.fixtures);
+    logger.debug(`[RecordingLLMProvider] Recorded ${kind} response for ${key.slice(0, 12)} to ${this.fixturePath}`);
+  }
+}
+
+/**
+ * 回放 LLM 提供商
+ *
+ * 只从夹具文件读取响应。同一个键被多次调用时按录制顺序返回，
+ * 未录制的 prompt 或超出录制次数的调用都会抛出 `LLMFixtureMissError`。
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  private fixtures: LLMFixtureFile;
+  private cursors: Map<string, number> = new Map();
+  private systemPrompt: string = '';
+
+  /**
+   * @param fixturePath - 夹具文件路径
+   * @throws 夹具文件不存在时
+   */
+  constructor(readonly fixturePath: string) {
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`LLM fixture file not found: ${fixturePath}`);
+    }
+    this.fixtures = loadLLMFixtures(fixturePath);
+  }
+
+  async chat(message: string): Promise<string> {
+    return this.next('chat', message, {}).text;
+  }
+
+  async generate(prompt: string, config?: Partial<LLMConfig>): Promise<string> {
+    return this.next('generate', prompt, config).text;
+  }
+
+  async *generateStream(prompt: string, config?: Partial<LLMConfig>): AsyncIterable<string> {
+    yield* replayChunks(this.next('generate', prompt, config));
+  }
+
+  async *chatStream(message: string): AsyncIterable<string> {
+    yield* replayChunks(this.next('chat', message, {}));
+  }
+
+  setSystemPrompt(prompt: string): void {
+    this.systemPrompt = prompt;
+  }
+
+  getSystemPrompt(): string {
+    return this.systemPrompt;
+  }
+
+  getName(): string {
+    return this.fixtures.provider;
+  }
+
+  getModel(): string {
+    return this.fixtures.model;
+  }
+
+  /**
+   * 取出下一条录制的响应
+   * @throws {LLMFixtureMissError} 未命中时
+   */
+  private next(kind: LLMFixtureKind, prompt: string, config: Partial<LLMConfig> = {}): LLMFixtureResponse {
+    const key = fixtureKey(kind, prompt, this.systemPrompt, config);
+    const index = this.cursors.get(key) || 0;
+    const response = this.fixtures.entries[key]?.responses[index];
+    if (!response) {
+      throw new LLMFixtureMissError(key, normalizePrompt(prompt), this.fixturePath, index);
+    }
+    this.cursors.set(key, index + 1);
+    return response;
+  }
+}
+
+/**
+ * 根据 `LLM_FIXTURE_MODE` 环境变量创建录制或回放提供商，默认回放
+ * @param fixturePath - 夹具文件路径
+ * @param createInner - 录制模式下创建真实提供商
+ * @param mode - 模式，默认读取环境变量
+ * @returns 提供商
+ */
+export function createFixtureLLMProvider(
+  fixturePath: string,
+  createInner: () => LLMProvider,
+  mode = process.env.LLM_FIXTURE_MODE || 'replay'
+): LLMProvider {
+  if (mode === 'record') {
+    return new RecordingLLMProvider(createInner(), fixturePath);
+  }
+  return new ReplayLLMProvider(fixturePath);
+}
+
+async function* toStream(response: Promise<string>): AsyncIterable<string> {
+  yield await response;
+}
+
+async function* replayChunks(response: LLMFixtureResponse): AsyncIterable<string> {
+  yield* response.chunks || [response.text];
+}
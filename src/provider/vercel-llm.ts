@@ -41,12 +41,24 @@
  * ```
  */
 
-import { generateText, streamText } from 'ai';
+import { generateObject, generateText, jsonSchema, NoObjectGeneratedError, streamText, tool, zodSchema } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import type { LLMConfig, LLMProvider } from '../types/llm';
+import { DEFAULT_MAX_TOOL_STEPS } from '../types/llm';
+import type {
+  LLMConfig,
+  LLMProvider,
+  LLMToolDefinition,
+  StructuredOutputOptions,
+  ToolCallingOptions,
+  ToolCallingResult,
+  ToolInvocation,
+} from '../types/llm';
 import { createRetryMiddleware } from './vercel-retry-middleware';
 import type { RetryMiddlewareOptions } from './vercel-retry-middleware';
+import type { CostManager } from '../utils/cost-manager';
+import { StructuredOutputError } from '../utils/errors';
+import { DEFAULT_MAX_REPAIRS, buildRepairPrompt, validateStructuredOutput } from '../utils/structured-output';
 import winston from 'winston';
 
 // 设置记录器
@@ -112,6 +124,7 @@ export class VercelLLMProvider implements LLMProvider {
     custom: null,
   };
   private retryMiddleware: ReturnType<typeof createRetryMiddleware>;
+  private costManager?: CostManager;
   
   /**
    * 构造函数
@@ -344,15 +357,196 @@ export class VercelLLMProvider implements LLMProvider {
         generateOptions.system = this.systemPrompt;
       }
       
+      // 预算耗尽时拒绝调用
+      this.costManager?.checkBudget();
+      
       // 调用AI SDK生成文本
       const result = await generateText(generateOptions);
       
+      // 记录token用量
+      this.recordUsage(result.usage, config?.model);
+      
       return result.text;
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * 生成符合 zod schema 的结构化对象
+   * 校验失败时把错误反馈给模型重新生成，直到通过校验或用完修复次数
+   * @param prompt 提示词
+   * @param schema 对象需要满足的 zod schema
+   * @param options 结构化输出选项
+   * @returns 校验通过的对象
+   */
+  async generateObject<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const config = options.config;
+    const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+    
+    try {
+      logger.debug(`Generating object with ${this.config.providerType}/${config?.model || this.getDefaultModel()}`);
+      
+      // 确保提供商模块已加载完成
+      if (this.config.providerType !== 'openai' && !this.providerFunctions[this.config.providerType]) {
+        await new Promise(resolve => setTimeout(resolve, 1000)); // 等待动态导入完成
+      }
+      
+      // 获取模型函数
+      const model = this.getModelFunction(config?.model);
+      let currentPrompt = prompt;
+      
+      for (let attempt = 1; ; attempt++) {
+        // 准备配置选项
+        const objectOptions: any = {
+          model,
+          prompt: currentPrompt,
+          schema,
+          temperature: config?.temperature,
+          maxTokens: config?.maxTokens,
+          topP: config?.topP,
+          frequencyPenalty: config?.frequencyPenalty,
+          presencePenalty: config?.presencePenalty,
+          headers: this.config.extraConfig?.headers || {},
+          middleware: [this.retryMiddleware],
+          ...this.config.extraConfig?.generateOptions,
+        };
+        
+        // 如果有系统提示，添加到配置中
+        if (this.systemPrompt && !objectOptions.system) {
+          objectOptions.system = this.systemPrompt;
+        }
+        
+        // 预算耗尽时拒绝调用
+        this.costManager?.checkBudget();
+        
+        try {
+          const result = await generateObject(objectOptions);
+          this.recordUsage(result.usage, config?.model);
+          return result.object as T;
+        } catch (error) {
+          if (!NoObjectGeneratedError.isInstance(error)) {
+            throw error;
+          }
+          
+          // 失败的生成同样消耗token
+          this.recordUsage(error.usage, config?.model);
+          
+          // 重新校验原始输出，得到可以反馈给模型的错误列表
+          const text = error.text ?? '';
+          const validation = validateStructuredOutput(text, schema);
+          const issues = validation.success ? [error.message] : validation.issues;
+          if (attempt > maxRepairs) {
+            throw new StructuredOutputError(issues, text, attempt);
+          }
+          
+          logger.warn(`Object generation attempt ${attempt} did not match the schema, repairing: ${issues.join('; ')}`);
+          currentPrompt = buildRepairPrompt(prompt, schema, text, issues);
+        }
+      }
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * 让模型调用工具：执行每次调用并把结果反馈给模型，直到模型给出回答或达到最大步数
+   * @param prompt 提示词
+   * @param tools 模型可以调用的工具
+   * @param options 工具调用选项
+   * @returns 最终回答和所有工具调用
+   */
+  async generateWithTools(
+    prompt: string,
+    tools: LLMToolDefinition[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    const config = options.config;
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_TOOL_STEPS;
+    
+    try {
+      logger.debug(`Generating with ${tools.length} tools on ${this.config.providerType}/${config?.model || this.getDefaultModel()}`);
+      
+      // 确保提供商模块已加载完成
+      if (this.config.providerType !== 'openai' && !this.providerFunctions[this.config.providerType]) {
+        await new Promise(resolve => setTimeout(resolve, 1000)); // 等待动态导入完成
+      }
+      
+      // 获取模型函数
+      const model = this.getModelFunction(config?.model);
+      
+      // 参数由工具自己校验，校验失败的结果会反馈给模型，因此这里只提供 JSON Schema
+      const sdkTools = Object.fromEntries(tools.map(definition => [
+        definition.name,
+        tool({
+          description: definition.description,
+          parameters: jsonSchema<Record<string, any>>(zodSchema(definition.parameters).jsonSchema),
+          execute: async (args: Record<string, any>) => definition.execute(args),
+        }),
+      ]));
+      
+      // 准备配置选项
+      const generateOptions: any = {
+        model,
+        prompt,
+        tools: sdkTools,
+        maxSteps,
+        temperature: config?.temperature,
+        maxTokens: config?.maxTokens,
+        topP: config?.topP,
+        frequencyPenalty: config?.frequencyPenalty,
+        presencePenalty: config?.presencePenalty,
+        headers: this.config.extraConfig?.headers || {},
+        middleware: [this.retryMiddleware],
+        // 每一步结束时记录用量，还有后续步骤时检查预算
+        onStepFinish: (step: { usage: { promptTokens: number; completionTokens: number }; finishReason: string }) => {
+          this.recordUsage(step.usage, config?.model);
+          if (step.finishReason === 'tool-calls') {
+            this.costManager?.checkBudget();
+          }
+        },
+        ...this.config.extraConfig?.generateOptions,
+      };
+      
+      // 如果有系统提示，添加到配置中
+      if (this.systemPrompt && !generateOptions.system) {
+        generateOptions.system = this.systemPrompt;
+      }
+      
+      // 预算耗尽时拒绝调用
+      this.costManager?.checkBudget();
+      
+      const result = await generateText(generateOptions);
+      
+      const toolCalls: ToolInvocation[] = result.steps.flatMap((step: any, index: number) =>
+        step.toolResults.map((toolResult: any) => ({
+          id: toolResult.toolCallId,
+          name: toolResult.toolName,
+          args: toolResult.args,
+          result: toolResult.result,
+          step: index + 1,
+        }))
+      );
+      
+      if (result.finishReason === 'tool-calls') {
+        logger.warn(`Tool calling stopped after ${result.steps.length} steps without a final answer`);
+      }
+      
+      return {
+        text: result.text,
+        toolCalls,
+        steps: result.steps.length,
+        finishReason: result.finishReason,
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
   /**
    * 生成文本流
    * @param prompt 提示词
@@ -390,6 +584,9 @@ export class VercelLLMProvider implements LLMProvider {
         streamOptions.system = this.systemPrompt;
       }
       
+      // 预算耗尽时拒绝调用
+      this.costManager?.checkBudget();
+      
       // 创建流式响应并支持错误处理
       let streamResult;
       try {
@@ -407,6 +604,9 @@ export class VercelLLMProvider implements LLMProvider {
           throw part.error;
         } else if (part.type === 'text-delta') {
           yield part.textDelta;
+        } else if (part.type === 'finish') {
+          // 流结束时记录token用量
+          this.recordUsage(part.usage, config?.model);
         }
       }
     } catch (error) {
@@ -479,6 +679,23 @@ export class VercelLLMProvider implements LLMProvider {
     }
   }
 
+  /**
+   * 记录一次调用的token用量
+   * @param usage AI SDK返回的用量
+   * @param modelName 本次调用使用的模型
+   */
+  private recordUsage(usage: { promptTokens: number; completionTokens: number } | undefined, modelName?: string): void {
+    if (!this.costManager || !usage) {
+      return;
+    }
+    
+    this.costManager.updateCost({
+      model: modelName || this.getModel(),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+  }
+
   /**
    * 处理错误
    * @param error 错误对象
@@ -529,6 +746,22 @@ export class VercelLLMProvider implements LLMProvider {
     return this.systemPrompt;
   }
 
+  /**
+   * 设置成本管理器，用于记录每次调用的token用量和预算控制
+   * @param costManager 成本管理器
+   */
+  setCostManager(costManager: CostManager): void {
+    this.costManager = costManager;
+  }
+
+  /**
+   * 获取成本管理器
+   * @returns 成本管理器
+   */
+  getCostManager(): CostManager | undefined {
+    return this.costManager;
+  }
+
   /**
    * 获取提供商名称
    * @returns 提供商名称
@@ -325,13 +325,14 @@ export class BaseRAG implements RAGSystem {
       
       const points = [];
       
-      // 为每个块生成嵌入向量
+      // 为缺少嵌入向量的块批量生成嵌入向量
+      const pending = chunks.filter(chunk => !chunk.embedding || chunk.embedding.length === 0);
+      const embeddings = await this.generateEmbeddings(pending.map(chunk => chunk.content));
+      pending.forEach((chunk, index) => {
+        chunk.embedding = embeddings[index];
+      });
+      
       for (const chunk of chunks) {
-        // 生成嵌入向量
-        if (!chunk.embedding || chunk.embedding.length === 0) {
-          chunk.embedding = await this.generateEmbedding(chunk.content);
-        }
-        
         points.push({
           id: chunk.id,
           vector: chunk.embedding,
@@ -360,6 +361,10 @@ export class BaseRAG implements RAGSystem {
    * @returns 嵌入向量
    */
   protected async generateEmbedding(text: string): Promise<number[]> {
+    if (this.config.embeddings) {
+      return await this.config.embeddings.embed(text);
+    }
+    
     if (!this.llm.embed) {
       throw new Error('LLM provider does not support embedding generation');
     }
@@ -367,6 +372,27 @@ export class BaseRAG implements RAGSystem {
     return await this.llm.embed(text);
   }
   
+  /**
+   * 批量生成文本嵌入向量
+   * @param texts 输入文本列表
+   * @returns 嵌入向量列表
+   */
+  protected async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    
+    if (this.config.embeddings) {
+      return await this.config.embeddings.embedBatch(texts);
+    }
+    
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      embeddings.push(await this.generateEmbedding(text));
+    }
+    return embeddings;
+  }
+  
   /**
    * 构建提示词
    * @param query 查询文本
@@ -0,0 +1,204 @@
+/**
+ * BM25 Keyword Index
+ *
+ * Inverted index ranking documents with Okapi BM25. Documents are added and
+ * removed incrementally; term statistics are kept up to date so no rebuild is
+ * needed between searches.
+ *
+ * @module rag/bm25
+ * @category RAG
+ */
+
+import { z } from 'zod';
+import type { VectorSearchResult } from './vector-store';
+import type { MetadataFilter } from './metadata-filter';
+import { matchesFilter } from './metadata-filter';
+
+/**
+ * BM25 configuration schema
+ */
+export const BM25ConfigSchema = z.object({
+  /** Term frequency saturation */
+  k1: z.number().min(0).default(1.2),
+  /** Document length normalization (0-1) */
+  b: z.number().min(0).max(1).default(0.75),
+});
+
+export type BM25Config = z.infer<typeof BM25ConfigSchema>;
+
+/**
+ * Words ignored when indexing and querying
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'with', 'by',
+  'about', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
+  'do', 'does', 'did', 'of', 'from', 'that', 'this', 'these', 'those', 'it', 'its',
+]);
+
+/**
+ * Split text into lowercase index terms, dropping stop words
+ * @param text Input text
+ * @returns Terms in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter(term => !STOP_WORDS.has(term));
+}
+
+/**
+ * Document stored in the index
+ */
+interface IndexedDocument {
+  length: number;
+  terms: Map<string, number>;
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Incremental BM25 index
+ */
+export class BM25Index {
+  private config: BM25Config;
+  private documents = new Map<string, IndexedDocument>();
+  /** Term -> document IDs containing it */
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  constructor(config?: Partial<BM25Config>) {
+    this.config = BM25ConfigSchema.parse(config || {});
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Check whether a document is indexed
+   */
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Index a document, replacing any document with the same ID
+   * @param id Document ID
+   * @param content Document text
+   * @param metadata Metadata returned with search results
+   */
+  add(id: string, content: string, metadata?: Record<string, any>): void {
+    this.remove([id]);
+
+    const terms = new Map<string, number>();
+    const tokens = tokenize(content);
+    for (const term of tokens) {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+
+    this.documents.set(id, { length: tokens.length, terms, content, metadata });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Index several documents
+   */
+  addBatch(items: Array<{ id: string; content: string; metadata?: Record<string, any> }>): void {
+    for (const item of items) {
+      this.add(item.id, item.content, item.metadata);
+    }
+  }
+
+  /**
+   * Remove documents from the index; unknown IDs are ignored
+   */
+  remove(ids: string[]): void {
+    for (const id of ids) {
+      const document = this.documents.get(id);
+      if (!document) {
+        continue;
+      }
+      for (const term of document.terms.keys()) {
+        const postingIds = this.postings.get(term)!;
+        postingIds.delete(id);
+        if (postingIds.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.documents.delete(id);
+      this.totalLength -= document.length;
+    }
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank the documents containing any query term
+   * @param query Query text
+   * @param limit Maximum number of results
+   * @param filter Only rank documents whose metadata matches
+   * @returns Results by descending BM25 score; scores are unbounded
+   */
+  search(query: string, limit = 10, filter?: MetadataFilter): VectorSearchResult[] {
+    const queryTerms = new Set(tokenize(query));
+    if (queryTerms.size === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.config;
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const ids = this.postings.get(term);
+      if (!ids) {
+        continue;
+      }
+      const idf = Math.log(1 + (this.documents.size - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        const document = this.documents.get(id)!;
+        if (filter && !matchesFilter(document.metadata, filter)) {
+          continue;
+        }
+        const frequency = document.terms.get(term)!;
+        const termScore = idf * (frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + b * document.length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((x, y) => y[1] - x[1])
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const document = this.documents.get(id)!;
+        return { id, score, content: document.content, metadata: document.metadata };
+      });
+  }
+
+  /**
+   * Update the BM25 parameters; they apply from the next search
+   */
+  updateConfig(config: Partial<BM25Config>): void {
+    this.config = BM25ConfigSchema.parse({
+      ...this.config,
+      ...config,
+    });
+  }
+}
@@ -9,6 +9,8 @@
  */
 
 import { z } from 'zod';
+import { chunkCode, chunkHtml, chunkMarkdown, detectLanguage } from './structured-chunker';
+import type { CodeLanguage } from './structured-chunker';
 
 /**
  * Chunking strategy options
@@ -24,6 +26,12 @@ export enum ChunkingStrategy {
   FIXED = 'fixed',
   /** Split by semantic units */
   SEMANTIC = 'semantic',
+  /** Split Markdown by heading hierarchy */
+  MARKDOWN = 'markdown',
+  /** Split source code on function and class boundaries */
+  CODE = 'code',
+  /** Split HTML by DOM sections */
+  HTML = 'html',
 }
 
 /**
@@ -42,10 +50,29 @@ export const ChunkerConfigSchema = z.object({
   respectSemanticBoundaries: z.boolean().default(true),
   /** Minimum size of semantic chunks */
   minSemanticChunkSize: z.number().default(200),
+  /**
+   * Source language for code chunking; detected from the `path`, `source` or
+   * `fileName` metadata when unset, TypeScript otherwise
+   */
+  language: z.enum(['typescript', 'javascript', 'python']).optional(),
 });
 
 export type ChunkerConfig = z.infer<typeof ChunkerConfigSchema>;
 
+/**
+ * Chunk with the metadata describing where it was taken from
+ */
+export interface TextChunk {
+  /** Chunk text */
+  content: string;
+  /**
+   * Chunk metadata: `startLine` and `endLine` (1-based, inclusive) when the
+   * chunk could be located in the document, plus strategy-specific fields
+   * such as `headerPath` or `symbol`
+   */
+  metadata: Record<string, any>;
+}
+
 /**
  * Interface for document chunks
  */
@@ -58,6 +85,14 @@ export interface Chunker {
    */
   chunk(text: string, metadata?: Record<string, any>): string[];
   
+  /**
+   * Split a document into chunks with their line ranges and structure
+   * @param text Document text to split
+   * @param metadata Optional document metadata
+   * @returns Array of chunks with metadata
+   */
+  chunkWithMetadata?(text: string, metadata?: Record<string, any>): TextChunk[] | Promise<TextChunk[]>;
+  
   /**
    * Update the chunker configuration
    * @param config New configuration
@@ -84,6 +119,8 @@ export class BaseChunker implements Chunker {
    * @param text Document text
    * @param metadata Optional metadata
    * @returns Array of text chunks
+   * @throws With the code strategy, whose parser is loaded asynchronously;
+   * code is split through `chunkWithMetadata`
    */
   chunk(text: string, metadata?: Record<string, any>): string[] {
     switch (this.config.strategy) {
@@ -97,11 +134,74 @@ export class BaseChunker implements Chunker {
         return this.chunkByFixed(text);
       case ChunkingStrategy.SEMANTIC:
         return this.chunkBySemantic(text);
+      case ChunkingStrategy.MARKDOWN:
+        return chunkMarkdown(text, this.config.maxSize).map(chunk => chunk.content);
+      case ChunkingStrategy.HTML:
+        return chunkHtml(text, this.config.maxSize).map(chunk => chunk.content);
+      case ChunkingStrategy.CODE:
+        throw new Error('Code is split asynchronously; use chunkWithMetadata');
       default:
         return this.chunkByParagraph(text);
     }
   }
   
+  /**
+   * Split document into chunks with their line ranges and structure
+   * @param text Document text
+   * @param metadata Optional metadata; used to detect the language of code
+   * @returns Array of chunks with metadata
+   */
+  async chunkWithMetadata(text: string, metadata?: Record<string, any>): Promise<TextChunk[]> {
+    switch (this.config.strategy) {
+      case ChunkingStrategy.MARKDOWN:
+        return chunkMarkdown(text, this.config.maxSize);
+      case ChunkingStrategy.CODE:
+        return chunkCode(text, this.detectLanguage(metadata), this.config.maxSize);
+      case ChunkingStrategy.HTML:
+        return chunkHtml(text, this.config.maxSize);
+      default:
+        return this.locateChunks(text, this.chunk(text, metadata));
+    }
+  }
+  
+  /**
+   * Find the line ranges of prose chunks in the document
+   * @param text Document text
+   * @param chunks Chunks in document order
+   * @returns Chunks with line ranges where they could be found
+   */
+  protected locateChunks(text: string, chunks: string[]): TextChunk[] {
+    let from = 0;
+    return chunks.map(content => {
+      // Paragraph chunks are rejoined, so fall back to the first line
+      let index = text.indexOf(content, from);
+      if (index < 0) {
+        index = text.indexOf(content.split('\n')[0], from);
+      }
+      if (index < 0) {
+        return { content, metadata: {} };
+      }
+      
+      // Overlapping chunks start before the end of the previous one
+      from = index + 1;
+      const startLine = countLines(text, 0, index) + 1;
+      const endLine = startLine + countLines(content, 0, content.length);
+      return { content, metadata: { startLine, endLine } };
+    });
+  }
+  
+  /**
+   * Language of a code document
+   */
+  private detectLanguage(metadata?: Record<string, any>): CodeLanguage {
+    if (this.config.language) {
+      return this.config.language;
+    }
+    const fileName = [metadata?.path, metadata?.source, metadata?.fileName]
+      .find((value): value is string => typeof value === 'string');
+    return (fileName && detectLanguage(fileName)) || 'typescript';
+  }
+  
   /**
    * Update the chunker configuration
    * @param config New configuration
@@ -369,4 +469,15 @@ export class BaseChunker implements Chunker {
   protected chunkByFixed(text: string): string[] {
     return this.chunkByToken(text); // Simplified implementation
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Count the line breaks in part of a text
+ */
+function countLines(text: string, start: number, end: number): number {
+  let count = 0;
+  for (let i = start; i < end; i++) {
+    if (text[i] === '\n') count++;
+  }
+  return count;
+}
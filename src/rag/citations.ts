@@ -0,0 +1,431 @@
+/**
+ * Citation-grounded answers
+ *
+ * Answers are generated with inline `[n]` markers pointing at the retrieved
+ * passages. Each sentence is then attributed to the chunks it cites, down to
+ * the character span supporting it, and a faithfulness pass flags or removes
+ * sentences the passages do not support.
+ *
+ * @module rag/citations
+ * @category RAG
+ */
+
+import { z } from 'zod';
+import type { LLMProvider } from '../types/llm';
+import type { SearchResult } from '../types/rag';
+import { tokenize } from './bm25';
+import { generateObjectWith } from '../utils/structured-output';
+
+/**
+ * How sentences are checked against their sources
+ */
+export enum FaithfulnessCheck {
+  /** An LLM judges each sentence and quotes its support */
+  LLM = 'llm',
+  /** Term overlap between each sentence and its cited passages */
+  LEXICAL = 'lexical',
+  /** Sentences with valid citations are trusted */
+  NONE = 'none',
+}
+
+/**
+ * Citation options schema
+ */
+export const CitationOptionsSchema = z.object({
+  /** Faithfulness check run after generation */
+  check: z.nativeEnum(FaithfulnessCheck).default(FaithfulnessCheck.LLM),
+  /** Drop unsupported sentences from the answer instead of only flagging them */
+  removeUnsupported: z.boolean().default(false),
+  /** Share of sentence terms a passage must contain for the lexical check (0-1) */
+  minOverlap: z.number().min(0).max(1).default(0.5),
+  /** Characters of each passage shown to the LLM */
+  maxPassageLength: z.number().int().positive().default(2000),
+});
+
+export type CitationOptions = z.infer<typeof CitationOptionsSchema>;
+
+/**
+ * Span of a chunk supporting a sentence
+ */
+export interface CitationSpan {
+  /** Marker number, the 1-based position of the chunk in the retrieved list */
+  marker: number;
+  /** ID of the cited chunk */
+  chunkId: string;
+  /** Source of the chunk, when it was ingested with one */
+  source?: string;
+  /** Start offset of the supporting text in the chunk content */
+  start: number;
+  /** End offset (exclusive) of the supporting text in the chunk content */
+  end: number;
+  /** Supporting text */
+  quote: string;
+}
+
+/**
+ * Answer sentence with its attribution
+ */
+export interface AttributedSentence {
+  /** Sentence text, including its citation markers */
+  text: string;
+  /** Start offset in the answer */
+  start: number;
+  /** End offset (exclusive) in the answer */
+  end: number;
+  /** Passages supporting the sentence */
+  citations: CitationSpan[];
+  /** Whether the faithfulness check found support; always true for the abstention */
+  supported: boolean;
+}
+
+/**
+ * Answer with sentence-level attribution
+ */
+export interface CitedAnswer {
+  /** Answer text with inline citation markers */
+  answer: string;
+  /** Sentences of the answer, in order */
+  sentences: AttributedSentence[];
+  /** Unsupported sentences dropped from the answer */
+  removed: AttributedSentence[];
+  /** Retrieved chunks; marker n refers to citations[n - 1] */
+  citations: SearchResult[];
+}
+
+/**
+ * Sentence the model answers with when the passages do not answer the
+ * question. It cites nothing, so it is exempt from the faithfulness check.
+ */
+export const ABSTENTION = 'The passages do not contain enough information to answer the question.';
+
+/**
+ * Citation markers such as [1] or [1, 3]
+ */
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Sentence terminators, together with the markers following them
+ */
+const SENTENCE_END = /[.!?]+(?:\s*\[\d+(?:\s*,\s*\d+)*\])*(?=\s|$)|\n+/g;
+
+/**
+ * Build a prompt asking for an answer with a citation after every sentence
+ * @param query User question
+ * @param results Retrieved chunks, numbered from 1
+ * @param maxPassageLength Characters of each passage shown to the model
+ */
+export function buildCitationPrompt(query: string, results: SearchResult[], maxPassageLength = 2000): string {
+  return `
+You are a helpful assistant that provides accurate answers based on the given reference passages.
+Please answer the question and cite the relevant passages using [1], [2], etc.
+
+Question: ${query}
+
+Reference passages:
+${formatPassages(results, maxPassageLength)}
+
+Instructions:
+1. Use only information from the reference passages to answer the question
+2. End every sentence with the numbers of the passages supporting it, e.g. [1] or [1, 3]
+3. If the passages don't contain enough information, answer with exactly this sentence: ${ABSTENTION}
+4. Keep the answer concise and relevant
+
+Answer:`.trim();
+}
+
+/**
+ * Split text into sentences with their offsets
+ * @param text Input text
+ * @returns Trimmed sentences; citation markers stay with the sentence before them
+ */
+export function splitSentences(text: string): Array<{ text: string; start: number; end: number }> {
+  const sentences: Array<{ text: string; start: number; end: number }> = [];
+  const push = (from: number, to: number) => {
+    const raw = text.slice(from, to);
+    const start = from + (raw.length - raw.trimStart().length);
+    const end = to - (raw.length - raw.trimEnd().length);
+    if (end > start) {
+      sentences.push({ text: text.slice(start, end), start, end });
+    }
+  };
+
+  let from = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const to = match.index! + match[0].length;
+    push(from, to);
+    from = to;
+  }
+  push(from, text.length);
+  return sentences;
+}
+
+/**
+ * Consecutive passage sentences considered together as one supporting span
+ */
+const MAX_SPAN_SENTENCES = 3;
+
+/**
+ * Find the span of a passage that best supports a claim: the run of up to
+ * three consecutive sentences containing the most claim terms, the shortest
+ * run winning ties
+ * @param claim Claim, without citation markers
+ * @param content Passage content
+ * @returns Supporting span and the share of claim terms it contains
+ */
+export function locateSupport(
+  claim: string,
+  content: string
+): { start: number; end: number; quote: string; overlap: number } {
+  const terms = new Set(tokenize(claim));
+  const sentences = splitSentences(content).map(sentence => ({ ...sentence, terms: new Set(tokenize(sentence.text)) }));
+  let best = { start: 0, end: content.length, quote: content, overlap: 0 };
+  for (let size = 1; size <= MAX_SPAN_SENTENCES; size++) {
+    for (let first = 0; first + size <= sentences.length; first++) {
+      const run = sentences.slice(first, first + size);
+      const matched = Array.from(terms).filter(term => run.some(sentence => sentence.terms.has(term))).length;
+      const overlap = terms.size === 0 ? 0 : matched / terms.size;
+      if (overlap > best.overlap) {
+        const { start } = run[0];
+        const { end } = run[run.length - 1];
+        best = { start, end, quote: content.slice(start, end), overlap };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Generate an answer with citations and attribute it
+ * @param llm LLM provider
+ * @param query User question
+ * @param results Retrieved chunks
+ * @param options Citation options
+ */
+export async function generateCitedAnswer(
+  llm: LLMProvider,
+  query: string,
+  results: SearchResult[],
+  options?: Partial<CitationOptions>
+): Promise<CitedAnswer> {
+  const config = CitationOptionsSchema.parse(options || {});
+  const answer = await llm.generate(buildCitationPrompt(query, results, config.maxPassageLength));
+  return attributeAnswer(llm, answer, results, config);
+}
+
+/**
+ * Attribute the sentences of an answer to the passages they cite and check
+ * that the passages support them
+ * @param llm LLM provider, used by the LLM faithfulness check
+ * @param answer Answer with inline citation markers
+ * @param results Chunks the markers refer to
+ * @param options Citation options
+ */
+export async function attributeAnswer(
+  llm: LLMProvider,
+  answer: string,
+  results: SearchResult[],
+  options?: Partial<CitationOptions>
+): Promise<CitedAnswer> {
+  const config = CitationOptionsSchema.parse(options || {});
+  const sentences = splitSentences(answer).map(sentence => {
+    const claim = stripMarkers(sentence.text);
+    if (isAbstention(claim)) {
+      return { ...sentence, claim, citations: [], abstention: true };
+    }
+    const citations: Array<CitationSpan & { overlap: number }> = [];
+    for (const marker of parseMarkers(sentence.text)) {
+      const result = results[marker - 1];
+      if (result && !citations.some(citation => citation.marker === marker)) {
+        citations.push(span(marker, result, locateSupport(claim, result.chunk.content)));
+      }
+    }
+    return { ...sentence, claim, citations, abstention: false };
+  });
+
+  // The abstention is kept as it is; only claims are checked
+  const claims = sentences.filter(sentence => !sentence.abstention);
+  let verdicts: Array<{ supported: boolean; citations: CitationSpan[] }>;
+  switch (config.check) {
+    case FaithfulnessCheck.LLM:
+      verdicts = await checkWithLLM(llm, claims, results, config);
+      break;
+    case FaithfulnessCheck.LEXICAL:
+      verdicts = claims.map(sentence => lexicalVerdict(sentence.citations, config.minOverlap));
+      break;
+    case FaithfulnessCheck.NONE:
+      verdicts = claims.map(sentence => ({
+        supported: sentence.citations.length > 0,
+        citations: sentence.citations.map(withoutOverlap),
+      }));
+      break;
+  }
+
+  let next = 0;
+  const attributed: AttributedSentence[] = sentences.map(sentence => ({
+    text: sentence.text,
+    start: sentence.start,
+    end: sentence.end,
+    ...(sentence.abstention ? { supported: true, citations: [] } : verdicts[next++]),
+  }));
+
+  if (!config.removeUnsupported) {
+    return { answer, sentences: attributed, removed: [], citations: results };
+  }
+  return { ...dropUnsupported(answer, attributed), citations: results };
+}
+
+/**
+ * Faithfulness verdicts the model returns
+ */
+const VerdictSchema = z.object({
+  verdicts: z.array(z.object({
+    /** Sentence number */
+    sentence: z.number().int(),
+    /** Whether a passage states the sentence */
+    supported: z.boolean(),
+    /** Number of the supporting passage */
+    passage: z.number().int().optional(),
+    /** Supporting text copied from the passage */
+    quote: z.string().optional(),
+  })),
+});
+
+/**
+ * Ask the LLM which sentences the passages support. The model may attribute
+ * uncited sentences; its quotes become the citation spans when they can be
+ * found in the passage. Sentences it skips get the lexical verdict.
+ */
+async function checkWithLLM(
+  llm: LLMProvider,
+  sentences: Array<{ claim: string; citations: Array<CitationSpan & { overlap: number }> }>,
+  results: SearchResult[],
+  config: CitationOptions
+): Promise<Array<{ supported: boolean; citations: CitationSpan[] }>> {
+  if (sentences.length === 0) {
+    return [];
+  }
+
+  const prompt = `Check whether each sentence of an answer is supported by the reference passages.
+
+Reference passages:
+${formatPassages(results, config.maxPassageLength)}
+
+Sentences:
+${sentences.map((sentence, index) => {
+    const cited = sentence.citations.map(citation => `[${citation.marker}]`).join(', ') || 'none';
+    return `${index + 1}. ${sentence.claim} (cites ${cited})`;
+  }).join('\n')}
+
+For every sentence return its number in "sentence" and whether a passage states it in "supported".
+For supported sentences also return the passage number in "passage" and the supporting text,
+copied exactly from that passage, in "quote".`;
+
+  const { verdicts } = await generateObjectWith(llm, prompt, VerdictSchema);
+
+  return sentences.map((sentence, index) => {
+    const verdict = verdicts.find(v => v.sentence === index + 1);
+    if (!verdict) {
+      return lexicalVerdict(sentence.citations, config.minOverlap);
+    }
+
+    const citations = sentence.citations.map(withoutOverlap);
+    const result = verdict.passage !== undefined ? results[verdict.passage - 1] : undefined;
+    if (verdict.supported && result) {
+      const offset = verdict.quote ? result.chunk.content.indexOf(verdict.quote) : -1;
+      const support = offset >= 0
+        ? { start: offset, end: offset + verdict.quote!.length, quote: verdict.quote! }
+        : locateSupport(sentence.claim, result.chunk.content);
+      const cited = span(verdict.passage!, result, support);
+      const existing = citations.findIndex(citation => citation.marker === verdict.passage);
+      if (existing >= 0) {
+        citations[existing] = cited;
+      } else {
+        citations.push(cited);
+      }
+    }
+    return { supported: verdict.supported && citations.length > 0, citations };
+  });
+}
+
+function lexicalVerdict(
+  citations: Array<CitationSpan & { overlap: number }>,
+  minOverlap: number
+): { supported: boolean; citations: CitationSpan[] } {
+  return {
+    supported: citations.some(citation => citation.overlap >= minOverlap),
+    citations: citations.map(withoutOverlap),
+  };
+}
+
+/**
+ * Rebuild the answer from its supported sentences
+ */
+function dropUnsupported(
+  answer: string,
+  sentences: AttributedSentence[]
+): { answer: string; sentences: AttributedSentence[]; removed: AttributedSentence[] } {
+  let text = '';
+  let previousEnd = 0;
+  let separators: string[] = [];
+  const kept: AttributedSentence[] = [];
+  const removed: AttributedSentence[] = [];
+  for (const sentence of sentences) {
+    separators.push(answer.slice(previousEnd, sentence.start));
+    previousEnd = sentence.end;
+    if (!sentence.supported) {
+      removed.push(sentence);
+      continue;
+    }
+    // Join with the separator holding the most line breaks since the last
+    // kept sentence, so paragraph breaks survive removals
+    if (text) {
+      text += separators.reduce((a, b) => (lineBreaks(b) > lineBreaks(a) ? b : a));
+    }
+    separators = [];
+    kept.push({ ...sentence, start: text.length, end: text.length + sentence.text.length });
+    text += sentence.text;
+  }
+  return { answer: text, sentences: kept, removed };
+}
+
+function lineBreaks(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+function span(
+  marker: number,
+  result: SearchResult,
+  support: { start: number; end: number; quote: string; overlap?: number }
+): CitationSpan & { overlap: number } {
+  const metadata = result.chunk.metadata;
+  return {
+    marker,
+    chunkId: result.chunk.id,
+    source: metadata.source ?? metadata.path,
+    start: support.start,
+    end: support.end,
+    quote: support.quote,
+    overlap: support.overlap ?? 1,
+  };
+}
+
+function withoutOverlap({ overlap: _overlap, ...citation }: CitationSpan & { overlap?: number }): CitationSpan {
+  return citation;
+}
+
+function parseMarkers(text: string): number[] {
+  return Array.from(text.matchAll(MARKER)).flatMap(match => match[1].split(',').map(n => parseInt(n, 10)));
+}
+
+function isAbstention(claim: string): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+  return normalize(claim) === normalize(ABSTENTION);
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(MARKER, '').replace(/\s+([.!?])/g, '$1').trim();
+}
+
+function formatPassages(results: SearchResult[], maxPassageLength: number): string {
+  return results.map((r, i) => `[${i + 1}] ${r.chunk.content.slice(0, maxPassageLength)}`).join('\n\n');
+}
@@ -1,5 +1,7 @@
 import { BaseRAG } from './base-rag';
 import type { RAGConfig, SearchResult } from '../types/rag';
+import type { CitationOptions, CitedAnswer } from './citations';
+import { buildCitationPrompt, attributeAnswer } from './citations';
 
 /**
  * 文档问答系统
@@ -12,16 +14,21 @@ export class DocumentQA extends BaseRAG {
 
   /**
    * 生成带引用的回答
+   * 每个句子归属到所引用的文档块及其字符区间，并经过忠实度检查
    * @param query 查询文本
+   * @param options 引用选项
    */
   public async generateWithCitations(
-    query: string
-  ): Promise<{ answer: string; citations: SearchResult[] }> {
+    query: string,
+    options?: Partial<CitationOptions>
+  ): Promise<CitedAnswer> {
     // 搜索相关文档
     const results = await this.search(query);
     if (results.length === 0) {
       return {
         answer: 'No relevant information found.',
+        sentences: [],
+        removed: [],
         citations: [],
       };
     }
@@ -32,10 +39,8 @@ export class DocumentQA extends BaseRAG {
     // 生成回答
     const answer = await this.llm.generate(prompt);
 
-    return {
-      answer,
-      citations: results,
-    };
+    // 句子归属与忠实度检查
+    return attributeAnswer(this.llm, answer, results, options);
   }
 
   /**
@@ -82,21 +87,6 @@ export class DocumentQA extends BaseRAG {
    * @param results 搜索结果
    */
   protected buildPrompt(query: string, results: SearchResult[]): string {
-    return `
-You are a helpful assistant that provides accurate answers based on the given reference passages.
-Please answer the question and cite the relevant passages using [1], [2], etc.
-
-Question: ${query}
-
-Reference passages:
-${results.map((r, i) => `[${i + 1}] ${r.chunk.content}`).join('\n\n')}
-
-Instructions:
-1. Use information from the reference passages to answer the question
-2. Cite sources using [1], [2], etc.
-3. If the passages don't contain enough information, say so
-4. Keep the answer concise and relevant
-
-Answer:`.trim();
+    return buildCitationPrompt(query, results);
   }
 } 
\ No newline at end of file
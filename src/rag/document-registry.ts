@@ -0,0 +1,143 @@
+/**
+ * Document Registry
+ *
+ * Tracks which chunks were created from which source, together with a hash
+ * of the source content, so ingestion can skip unchanged sources and replace
+ * or purge the chunks of changed and deleted ones. Sources are tracked per
+ * namespace, so tenants may ingest the same path independently.
+ *
+ * @module rag/document-registry
+ * @category RAG
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Registry entry schema
+ */
+export const RegistryEntrySchema = z.object({
+  /** SHA-256 of the source content */
+  hash: z.string(),
+  /** IDs of the chunks created from the source */
+  chunkIds: z.array(z.string()),
+  /** Time of the last ingestion, in milliseconds */
+  updatedAt: z.number(),
+});
+
+export type RegistryEntry = z.infer<typeof RegistryEntrySchema>;
+
+const RegistryFileSchema = z.object({
+  version: z.literal(1),
+  /** Sources outside any namespace */
+  sources: z.record(RegistryEntrySchema),
+  /** Sources by namespace */
+  namespaces: z.record(z.record(RegistryEntrySchema)).optional(),
+});
+
+/**
+ * Hash document content
+ * @param content Document content
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Registry of ingested sources, optionally persisted to a JSON file
+ */
+export class DocumentRegistry {
+  /** Namespace ('' for none) -> source -> entry */
+  private entries = new Map<string, Map<string, RegistryEntry>>();
+  private filePath?: string;
+  private loaded?: Promise<void>;
+
+  /**
+   * @param filePath File keeping the registry across restarts; in memory only when omitted
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Number of registered sources
+   */
+  get size(): number {
+    let size = 0;
+    for (const sources of this.entries.values()) {
+      size += sources.size;
+    }
+    return size;
+  }
+
+  /**
+   * Read the registry file once; a missing file means an empty registry
+   */
+  load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+        return;
+      }
+      const file = RegistryFileSchema.parse(JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')));
+      this.entries = new Map(
+        [['', file.sources] as const, ...Object.entries(file.namespaces ?? {})]
+          .map(([namespace, sources]) => [namespace, new Map(Object.entries(sources))])
+      );
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Write the registry file, if there is one
+   */
+  async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    const namespaces = Array.from(this.entries)
+      .filter(([namespace, sources]) => namespace !== '' && sources.size > 0)
+      .map(([namespace, sources]) => [namespace, Object.fromEntries(sources)]);
+    const file = {
+      version: 1,
+      sources: Object.fromEntries(this.entries.get('') ?? []),
+      ...(namespaces.length > 0 ? { namespaces: Object.fromEntries(namespaces) } : {}),
+    };
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(`${this.filePath}.tmp`, JSON.stringify(file, null, 2), 'utf8');
+    await fs.promises.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+
+  get(source: string, namespace?: string): RegistryEntry | undefined {
+    return this.entries.get(namespace ?? '')?.get(source);
+  }
+
+  set(source: string, entry: RegistryEntry, namespace?: string): void {
+    let sources = this.entries.get(namespace ?? '');
+    if (!sources) {
+      sources = new Map();
+      this.entries.set(namespace ?? '', sources);
+    }
+    sources.set(source, entry);
+  }
+
+  delete(source: string, namespace?: string): boolean {
+    return this.entries.get(namespace ?? '')?.delete(source) ?? false;
+  }
+
+  /**
+   * Registered sources of a namespace, optionally only those inside a directory
+   * @param directory Directory prefix, with forward slashes
+   * @param namespace Namespace; sources outside any namespace when omitted
+   */
+  sources(directory?: string, namespace?: string): string[] {
+    const sources = Array.from(this.entries.get(namespace ?? '')?.keys() ?? []);
+    if (directory === undefined) {
+      return sources;
+    }
+    const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+    return sources.filter(source => source.startsWith(prefix));
+  }
+}
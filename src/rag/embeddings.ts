@@ -45,6 +45,10 @@ export const EmbeddingConfigSchema = z.object({
   maxRetries: z.number().default(3),
   /** Timeout in milliseconds */
   timeout: z.number().default(30000),
+  /** Vector dimension, when known before the first call */
+  dimension: z.number().optional(),
+  /** Directory holding local model files, for offline use; remote downloads are disabled when set */
+  modelPath: z.string().optional(),
 });
 
 export type EmbeddingConfig = z.infer<typeof EmbeddingConfigSchema>;
@@ -72,6 +76,11 @@ export interface EmbeddingGenerator {
    * @param config New configuration
    */
   updateConfig(config: Partial<EmbeddingConfig>): void;
+
+  /**
+   * Length of the generated vectors, when known before the first call
+   */
+  readonly dimension?: number;
 }
 
 /**
@@ -166,6 +175,295 @@ export class OpenAIEmbedding implements EmbeddingGenerator {
   }
 }
 
+/**
+ * Model name selecting the hashing embeddings of the local provider
+ */
+export const HASHING_MODEL = 'hashing';
+
+/**
+ * Sentence embedding model used by local embeddings when none is configured
+ */
+export const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Vector dimension of the default local model
+ */
+const DEFAULT_LOCAL_DIMENSION = 384;
+
+/**
+ * Base class of embedding generators that compute whole batches at once.
+ *
+ * Cached texts are skipped, the remaining texts are embedded `batchSize` at
+ * a time, and the results are cached when caching is enabled.
+ */
+export abstract class BatchEmbedding implements EmbeddingGenerator {
+  protected config: EmbeddingConfig;
+  private cache: Map<string, number[]> = new Map();
+
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
+  }
+
+  get dimension(): number | undefined {
+    return this.config.dimension;
+  }
+
+  /**
+   * Generate embedding for a single text
+   * @param text Input text
+   * @returns Embedding vector
+   */
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  /**
+   * Generate embeddings for multiple texts
+   * @param texts Input texts
+   * @returns Array of embedding vectors, in input order
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const results = new Map<string, number[]>();
+    const pending: string[] = [];
+    for (const text of texts) {
+      const cached = this.config.cache ? this.cache.get(text) : undefined;
+      if (cached) {
+        results.set(text, cached);
+      } else if (!results.has(text) && !pending.includes(text)) {
+        pending.push(text);
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += this.config.batchSize) {
+      const batch = pending.slice(i, i + this.config.batchSize);
+      const embeddings = await this.embedTexts(batch);
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Failed to generate embedding: expected ${batch.length} vectors, got ${embeddings.length}`);
+      }
+      batch.forEach((text, index) => {
+        const embedding = embeddings[index];
+        if (this.config.dimension !== undefined && embedding.length !== this.config.dimension) {
+          throw new Error(`Embedding dimension mismatch: expected ${this.config.dimension}, got ${embedding.length}`);
+        }
+        results.set(text, embedding);
+        if (this.config.cache) {
+          this.cache.set(text, embedding);
+        }
+      });
+    }
+
+    return texts.map(text => results.get(text)!);
+  }
+
+  /**
+   * Update the embedding generator configuration
+   * @param config New configuration
+   */
+  updateConfig(config: Partial<EmbeddingConfig>): void {
+    this.config = EmbeddingConfigSchema.parse({
+      ...this.config,
+      ...config,
+    });
+  }
+
+  /**
+   * Clear the embedding cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Embed one batch of uncached texts
+   * @param texts At most `batchSize` distinct texts
+   * @returns One vector per text
+   */
+  protected abstract embedTexts(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Function computing pooled, normalized sentence embeddings with a local model
+ */
+export type FeatureExtractor = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Function loading the feature extractor of a model
+ */
+export type FeatureExtractorLoader = (model: string, config: EmbeddingConfig) => Promise<FeatureExtractor>;
+
+/**
+ * Local Embedding Generator implementation
+ *
+ * Runs an ONNX sentence embedding model on the CPU. By default models are
+ * loaded with the optional `@huggingface/transformers` package, which fetches
+ * them from the Hugging Face hub on first use, or, offline, reads them from
+ * `modelPath`.
+ */
+export class LocalEmbedding extends BatchEmbedding {
+  private loader: FeatureExtractorLoader;
+  private extractor?: Promise<FeatureExtractor>;
+
+  /**
+   * Create a new local embedding generator
+   * @param config Embedding configuration; `model` is a Hugging Face model ID
+   * @param loader Loads the model, instead of `@huggingface/transformers`
+   */
+  constructor(config?: Partial<EmbeddingConfig>, loader: FeatureExtractorLoader = loadTransformersExtractor) {
+    super(EmbeddingConfigSchema.parse({
+      provider: EmbeddingProvider.LOCAL,
+      ...(config?.model ? {} : { model: DEFAULT_LOCAL_MODEL, dimension: DEFAULT_LOCAL_DIMENSION }),
+      ...(config || {}),
+    }));
+    this.loader = loader;
+  }
+
+  /**
+   * Update the embedding generator configuration; changing the model or its
+   * location reloads the model and clears the cache
+   * @param config New configuration
+   */
+  override updateConfig(config: Partial<EmbeddingConfig>): void {
+    const { model, modelPath } = this.config;
+    super.updateConfig(config);
+    if (this.config.model !== model || this.config.modelPath !== modelPath) {
+      this.extractor = undefined;
+      this.clearCache();
+    }
+  }
+
+  protected async embedTexts(texts: string[]): Promise<number[][]> {
+    this.extractor ??= this.loader(this.config.model, this.config).catch(error => {
+      this.extractor = undefined;
+      throw error;
+    });
+    try {
+      return await (await this.extractor)(texts);
+    } catch (error) {
+      throw new Error(`Failed to generate embedding: ${error}`);
+    }
+  }
+}
+
+/** Loads queued behind each other, as the transformers `env` settings are global */
+let transformersLoads: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load a model with the optional `@huggingface/transformers` package
+ *
+ * With `modelPath`, models are read from that directory and never downloaded,
+ * so it is the way to run offline. The package settings for this are only in
+ * effect while `load` runs and are restored afterwards.
+ * @param modelPath Directory holding local model files
+ * @param load Loads the model with the package module
+ * @returns The loaded model
+ * @throws If the package is not installed
+ */
+export async function loadWithTransformers<T>(
+  modelPath: string | undefined,
+  load: (transformers: any) => Promise<T>
+): Promise<T> {
+  // Optional peer dependency, resolved at runtime so it is only needed for local models
+  const moduleName = '@huggingface/transformers';
+  let transformers: any;
+  try {
+    transformers = await import(moduleName);
+  } catch (error) {
+    throw new Error(`Local models need the optional ${moduleName} package: ${error}`);
+  }
+
+  const run = async () => {
+    const { env } = transformers;
+    const { localModelPath, allowRemoteModels } = env;
+    if (modelPath) {
+      env.localModelPath = modelPath;
+      env.allowRemoteModels = false;
+    }
+    try {
+      return await load(transformers);
+    } finally {
+      env.localModelPath = localModelPath;
+      env.allowRemoteModels = allowRemoteModels;
+    }
+  };
+  const loaded = transformersLoads.then(run, run);
+  transformersLoads = loaded.catch(() => undefined);
+  return loaded;
+}
+
+/**
+ * Load a feature extractor with `@huggingface/transformers`
+ */
+async function loadTransformersExtractor(model: string, config: EmbeddingConfig): Promise<FeatureExtractor> {
+  const pipeline = await loadWithTransformers<any>(
+    config.modelPath,
+    transformers => transformers.pipeline('feature-extraction', model)
+  );
+  return async texts => (await pipeline(texts, { pooling: 'mean', normalize: true })).tolist();
+}
+
+/**
+ * Hashing Embedding Generator implementation
+ *
+ * Deterministic embeddings built by hashing words and their character
+ * trigrams into a fixed number of buckets. Texts sharing words get similar
+ * vectors, which is enough for tests and offline demos but carries no
+ * semantics beyond lexical overlap.
+ */
+export class HashingEmbedding extends BatchEmbedding {
+  /**
+   * Create a new hashing embedding generator
+   * @param config Embedding configuration; `dimension` defaults to 384
+   */
+  constructor(config?: Partial<EmbeddingConfig>) {
+    super(EmbeddingConfigSchema.parse({
+      provider: EmbeddingProvider.LOCAL,
+      model: HASHING_MODEL,
+      dimension: DEFAULT_LOCAL_DIMENSION,
+      ...(config || {}),
+    }));
+  }
+
+  protected async embedTexts(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashText(text, this.config.dimension!));
+  }
+}
+
+/**
+ * Hash the features of a text into a normalized vector
+ */
+function hashText(text: string, dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const word of words) {
+    const features = [word];
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`#3:${padded.slice(i, i + 3)}`);
+    }
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from only ever adding up
+      vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
  * Factory function to create an appropriate embedding generator
  * @param llmProvider LLM provider to use
@@ -183,11 +481,13 @@ export function createEmbeddingGenerator(
     case EmbeddingProvider.AZURE:
       return new OpenAIEmbedding(llmProvider, fullConfig);
     case EmbeddingProvider.HUGGINGFACE:
-      // Implement Hugging Face embeddings when needed
-      throw new Error('Hugging Face embeddings not implemented yet');
+      // Hugging Face models are run locally
+      return new LocalEmbedding(config);
     case EmbeddingProvider.LOCAL:
-      // Implement local embeddings when needed
-      throw new Error('Local embeddings not implemented yet');
+      if (config?.model === HASHING_MODEL) {
+        return new HashingEmbedding(config);
+      }
+      return new LocalEmbedding(config);
     default:
       return new OpenAIEmbedding(llmProvider, fullConfig);
   }
@@ -0,0 +1,394 @@
+/**
+ * RAG Evaluation
+ *
+ * Runs a dataset of questions through a `RAGSystem` and scores retrieval
+ * (recall@k, MRR, nDCG@k against the expected sources) and, when a judge LLM
+ * is given, answer quality (faithfulness to the retrieved context and
+ * relevance to the question). Reports are plain JSON and render as Markdown,
+ * so runs with different configurations can be compared offline, e.g. with
+ * `ReplayLLMProvider` standing in for the models.
+ *
+ * @module rag/evaluation
+ * @category RAG
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import type { LLMProvider } from '../types/llm';
+import type { SearchResult } from '../types/rag';
+import type { RAGSystem } from './rag-system';
+import { MetadataFilterSchema } from './metadata-filter';
+import { generateObjectWith } from '../utils/structured-output';
+import { readJsonFile, writeJsonFile } from '../utils/file';
+
+/**
+ * Evaluation case schema
+ */
+export const EvalCaseSchema = z.object({
+  /** Case ID; the position in the dataset when unset */
+  id: z.string().optional(),
+  /** Question asked */
+  question: z.string(),
+  /** Chunk IDs or document sources that answer the question */
+  expectedSources: z.array(z.string()).default([]),
+  /** Reference answer shown to the judge */
+  referenceAnswer: z.string().optional(),
+  /** Namespace searched */
+  namespace: z.string().optional(),
+  /** Metadata filter applied to the search */
+  filter: MetadataFilterSchema.optional(),
+});
+
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+/**
+ * Evaluation dataset schema
+ */
+export const EvalDatasetSchema = z.object({
+  /** Dataset name */
+  name: z.string().default('dataset'),
+  /** Questions */
+  cases: z.array(EvalCaseSchema),
+});
+
+export type EvalDataset = z.infer<typeof EvalDatasetSchema>;
+
+/**
+ * Evaluator configuration schema
+ */
+export const EvalConfigSchema = z.object({
+  /** Retrieval cutoff of the metrics */
+  k: z.number().int().positive().default(5),
+  /** Label of the run, e.g. the configuration being tried */
+  label: z.string().default('run'),
+});
+
+export type EvalConfig = z.infer<typeof EvalConfigSchema>;
+
+/**
+ * Retrieval metrics of one case, or their means over a dataset
+ */
+export interface RetrievalMetrics {
+  /** Share of the expected sources among the top k results */
+  recall: number;
+  /** Reciprocal rank of the first relevant result */
+  mrr: number;
+  /** Normalized discounted cumulative gain of the top k results */
+  ndcg: number;
+}
+
+/**
+ * Judge scores of one answer, from 0 to 1
+ */
+export interface AnswerMetrics {
+  /** Whether the answer is supported by the retrieved context */
+  faithfulness: number;
+  /** Whether the answer addresses the question */
+  relevance: number;
+}
+
+/**
+ * Result of one case
+ */
+export interface EvalCaseResult extends RetrievalMetrics, Partial<AnswerMetrics> {
+  id: string;
+  question: string;
+  /** Sources of the top k results, best first */
+  retrieved: string[];
+  /** Expected sources missing from the top k results */
+  missed: string[];
+  answer?: string;
+  /** Judge's explanation */
+  reasoning?: string;
+  /** Error that stopped the case; it scores 0 */
+  error?: string;
+}
+
+/**
+ * Evaluation report
+ */
+export interface EvalReport {
+  label: string;
+  dataset: string;
+  k: number;
+  /** Settings of the evaluated system */
+  config: Record<string, unknown>;
+  /** Means over all cases; answer metrics only when a judge ran */
+  summary: RetrievalMetrics & Partial<AnswerMetrics> & { cases: number; errors: number };
+  cases: EvalCaseResult[];
+  createdAt: string;
+}
+
+/**
+ * Scores the judge returns, on a 1-5 scale
+ */
+const JudgmentSchema = z.object({
+  faithfulness: z.number().min(1).max(5),
+  relevance: z.number().min(1).max(5),
+  reasoning: z.string().default(''),
+});
+
+/**
+ * Load an evaluation dataset from a JSON file
+ * @param filePath Dataset file
+ */
+export function loadEvalDataset(filePath: string): EvalDataset {
+  return EvalDatasetSchema.parse(readJsonFile(filePath));
+}
+
+/**
+ * Source identifying a search result: its document source, else its chunk ID
+ */
+function sourceOf(result: SearchResult): string {
+  return result.chunk.metadata.source ?? result.chunk.id;
+}
+
+/**
+ * Score a ranked list of results against the expected sources. A result is
+ * relevant when its chunk ID or source is expected; each expected source
+ * counts once, at its best rank.
+ * @param results Results, best first
+ * @param expected Expected chunk IDs or sources
+ * @param k Cutoff
+ */
+export function scoreRetrieval(results: SearchResult[], expected: string[], k: number): RetrievalMetrics {
+  const wanted = new Set(expected);
+  if (wanted.size === 0) {
+    return { recall: 1, mrr: 1, ndcg: 1 };
+  }
+
+  const found = new Set<string>();
+  let mrr = 0;
+  let dcg = 0;
+  results.slice(0, k).forEach((result, rank) => {
+    const hit = [result.chunk.id, sourceOf(result)].find(id => wanted.has(id) && !found.has(id));
+    if (hit === undefined) {
+      return;
+    }
+    found.add(hit);
+    mrr ||= 1 / (rank + 1);
+    dcg += 1 / Math.log2(rank + 2);
+  });
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(wanted.size, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+  return { recall: found.size / wanted.size, mrr, ndcg: dcg / idealDcg };
+}
+
+/**
+ * Evaluates a RAG system on a dataset
+ */
+export class RAGEvaluator {
+  private rag: RAGSystem;
+  private judge?: LLMProvider;
+  private config: EvalConfig;
+
+  /**
+   * @param rag System under evaluation
+   * @param judge LLM scoring the answers; answers are not generated without one
+   * @param config Evaluator configuration
+   */
+  constructor(rag: RAGSystem, judge?: LLMProvider, config?: Partial<EvalConfig>) {
+    this.rag = rag;
+    this.judge = judge;
+    this.config = EvalConfigSchema.parse(config || {});
+  }
+
+  /**
+   * Run every case of a dataset. Cases run one after another, so recorded
+   * LLM responses replay in order.
+   * @param dataset Dataset, validated before running
+   * @returns Evaluation report
+   */
+  async evaluate(dataset: z.input<typeof EvalDatasetSchema>): Promise<EvalReport> {
+    const { name, cases } = EvalDatasetSchema.parse(dataset);
+    const results: EvalCaseResult[] = [];
+    for (const [index, evalCase] of cases.entries()) {
+      results.push(await this.evaluateCase(evalCase, evalCase.id ?? String(index + 1)));
+    }
+
+    const { embedding, systemPromptTemplate: _template, ...settings } = this.rag.getConfig();
+    return {
+      label: this.config.label,
+      dataset: name,
+      k: this.config.k,
+      config: { ...settings, embeddingModel: embedding?.model },
+      summary: summarize(results, Boolean(this.judge)),
+      cases: results,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private async evaluateCase(evalCase: EvalCase, id: string): Promise<EvalCaseResult> {
+    const { k } = this.config;
+    const scope = { namespace: evalCase.namespace, filter: evalCase.filter };
+    const result: EvalCaseResult = {
+      id,
+      question: evalCase.question,
+      retrieved: [],
+      missed: evalCase.expectedSources,
+      recall: 0,
+      mrr: 0,
+      ndcg: 0,
+    };
+
+    try {
+      const searchResults = await this.rag.search(evalCase.question, k, undefined, scope);
+      const retrieved = searchResults.map(sourceOf);
+      Object.assign(result, scoreRetrieval(searchResults, evalCase.expectedSources, k), {
+        retrieved,
+        missed: evalCase.expectedSources.filter(
+          source => !retrieved.includes(source) && !searchResults.some(r => r.chunk.id === source)
+        ),
+      });
+
+      if (this.judge) {
+        const { response, searchResults: context } = await this.rag.generateWithResults(evalCase.question, scope);
+        const judgment = await this.judgeAnswer(evalCase, response, context);
+        Object.assign(result, {
+          answer: response,
+          faithfulness: (judgment.faithfulness - 1) / 4,
+          relevance: (judgment.relevance - 1) / 4,
+          reasoning: judgment.reasoning,
+        });
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      if (this.judge) {
+        Object.assign(result, { faithfulness: 0, relevance: 0 });
+      }
+    }
+    return result;
+  }
+
+  private async judgeAnswer(
+    evalCase: EvalCase,
+    answer: string,
+    context: SearchResult[]
+  ): Promise<z.infer<typeof JudgmentSchema>> {
+    const reference = evalCase.referenceAnswer ? `\nReference answer: ${evalCase.referenceAnswer}\n` : '';
+    const prompt = `Grade an answer produced from retrieved context.
+
+Question: ${evalCase.question}
+${reference}
+Retrieved context:
+${context.map((r, i) => `[${i + 1}] ${r.chunk.content}`).join('\n\n') || '(none)'}
+
+Answer: ${answer}
+
+Score from 1 (worst) to 5 (best):
+- "faithfulness": every claim of the answer is supported by the retrieved context
+- "relevance": the answer addresses the question${evalCase.referenceAnswer ? ' and agrees with the reference answer' : ''}
+Explain the scores briefly in "reasoning".`;
+
+    return generateObjectWith(this.judge!, prompt, JudgmentSchema);
+  }
+}
+
+function summarize(results: EvalCaseResult[], judged: boolean): EvalReport['summary'] {
+  const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length);
+  return {
+    cases: results.length,
+    errors: results.filter(result => result.error).length,
+    recall: mean(results.map(result => result.recall)),
+    mrr: mean(results.map(result => result.mrr)),
+    ndcg: mean(results.map(result => result.ndcg)),
+    ...(judged
+      ? {
+        faithfulness: mean(results.map(result => result.faithfulness ?? 0)),
+        relevance: mean(results.map(result => result.relevance ?? 0)),
+      }
+      : {}),
+  };
+}
+
+const METRICS = ['recall', 'mrr', 'ndcg', 'faithfulness', 'relevance'] as const;
+
+function metricName(metric: (typeof METRICS)[number], k: number): string {
+  return metric === 'recall' || metric === 'ndcg' ? `${metric}@${k}` : metric;
+}
+
+function formatScore(value: number | undefined): string {
+  return value === undefined ? '-' : value.toFixed(3);
+}
+
+/**
+ * Render a report as Markdown: the summary, then one row per case
+ * @param report Evaluation report
+ * @returns Markdown report
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const metrics = METRICS.filter(metric => report.summary[metric] !== undefined);
+  const lines = [
+    `# RAG evaluation: ${report.label}`,
+    '',
+    `Dataset ${report.dataset}, ${report.summary.cases} cases (${report.summary.errors} errors), k = ${report.k}`,
+    '',
+    '| Metric | Score |',
+    '|---|---|',
+    ...metrics.map(metric => `| ${metricName(metric, report.k)} | ${formatScore(report.summary[metric])} |`),
+    '',
+    `| Case | ${metrics.map(metric => metricName(metric, report.k)).join(' | ')} | Missed |`,
+    `|---|${metrics.map(() => '---|').join('')}---|`,
+  ];
+  for (const result of report.cases) {
+    const missed = result.error ? `error: ${result.error}` : result.missed.join(', ');
+    lines.push(`| ${result.id} | ${metrics.map(metric => formatScore(result[metric])).join(' | ')} | ${escapeCell(missed)} |`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render the summaries of several runs side by side, with the change of each
+ * metric relative to the first run
+ * @param reports Reports of the same dataset, baseline first
+ * @returns Markdown table
+ */
+export function formatEvalComparison(reports: EvalReport[]): string {
+  if (reports.length === 0) {
+    return '';
+  }
+  const [baseline] = reports;
+  const metrics = METRICS.filter(metric => reports.some(report => report.summary[metric] !== undefined));
+  const lines = [
+    `| Run | ${metrics.map(metric => metricName(metric, baseline.k)).join(' | ')} |`,
+    `|---|${metrics.map(() => '---|').join('')}`,
+  ];
+  for (const report of reports) {
+    const cells = metrics.map(metric => {
+      const value = report.summary[metric];
+      const base = baseline.summary[metric];
+      if (report === baseline || value === undefined || base === undefined) {
+        return formatScore(value);
+      }
+      const delta = value - base;
+      return `${formatScore(value)} (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`;
+    });
+    lines.push(`| ${escapeCell(report.label)} | ${cells.join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Write a report as `<basePath>.json` and `<basePath>.md`
+ * @param report Evaluation report
+ * @param basePath Output path without extension
+ */
+export function writeEvalReport(report: EvalReport, basePath: string): void {
+  writeJsonFile(`${basePath}.json`, report);
+  fs.writeFileSync(`${basePath}.md`, `${formatEvalReport(report)}\n`, 'utf8');
+}
+
+/**
+ * Read a report written by `writeEvalReport`
+ * @param filePath JSON report file
+ */
+export function readEvalReport(filePath: string): EvalReport {
+  return readJsonFile<EvalReport>(filePath);
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,294 @@
+/**
+ * File Vector Store
+ *
+ * Durable vector store keeping each collection in its own directory:
+ *
+ * ```
+ * <directory>/<collection>/vectors.vec    last checkpoint, in the vector file format
+ * <directory>/<collection>/wal.jsonl      changes since the checkpoint
+ * <directory>/<collection>/snapshots/     named snapshots
+ * ```
+ *
+ * The checkpoint is memory-mapped on open and the write-ahead log replayed
+ * on top of it; every change is appended to the log before it is applied,
+ * and the log is folded into a new checkpoint once it grows long enough.
+ *
+ * @module rag/file-vector-store
+ * @category RAG
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { InMemoryVectorStore, VectorStoreConfigSchema } from './vector-store';
+import type { StoredDocument, VectorSearchResult, VectorStore, VectorStoreConfig } from './vector-store';
+import type { MetadataFilter } from './metadata-filter';
+import { logger } from '../utils/logger';
+
+/**
+ * Options of a file vector store
+ */
+export interface FileVectorStoreOptions {
+  /** Number of logged changes after which a new checkpoint is written */
+  compactAfter?: number;
+  /** Memory-map the checkpoint when the runtime supports it */
+  mmap?: boolean;
+}
+
+/**
+ * Change recorded in the write-ahead log
+ */
+type WalEntry =
+  | { op: 'put'; id: string; vector: number[]; metadata?: Record<string, any>; content?: string }
+  | { op: 'delete'; ids: string[] }
+  | { op: 'clear' };
+
+const CHECKPOINT_FILE = 'vectors.vec';
+const WAL_FILE = 'wal.jsonl';
+const SNAPSHOT_DIR = 'snapshots';
+
+/**
+ * Vector store persisted to a local directory
+ */
+export class FileVectorStore implements VectorStore {
+  readonly config: VectorStoreConfig;
+  private collectionDir: string;
+  private compactAfter: number;
+  private mmap: boolean;
+  private opened?: Promise<InMemoryVectorStore>;
+  private walEntries = 0;
+  // Changes are applied one at a time so the log matches the store
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param config Vector store configuration; `directory` is required and
+   * `collection` selects the namespace within it
+   * @param options Persistence options
+   * @throws If no directory is configured or the collection name is not a plain name
+   */
+  constructor(config: Partial<VectorStoreConfig>, options: FileVectorStoreOptions = {}) {
+    this.config = VectorStoreConfigSchema.parse(config);
+    if (!this.config.directory) {
+      throw new Error('A file vector store needs a directory');
+    }
+    if (!isCollectionName(this.config.collection)) {
+      throw new Error(`Invalid collection name: ${this.config.collection}`);
+    }
+    this.collectionDir = path.join(this.config.directory, this.config.collection);
+    this.compactAfter = options.compactAfter ?? 1000;
+    this.mmap = options.mmap ?? true;
+  }
+
+  /**
+   * List the collections stored in a directory
+   * @param directory Store directory
+   * @returns Collection names
+   */
+  static async listCollections(directory: string): Promise<string[]> {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory() && isCollectionName(entry.name)).map(entry => entry.name);
+  }
+
+  async add(id: string, vector: number[], metadata?: Record<string, any>, content?: string): Promise<void> {
+    await this.addBatch([{ id, vector, metadata, content }]);
+  }
+
+  async addBatch(items: Array<{
+    id: string;
+    vector: number[];
+    metadata?: Record<string, any>;
+    content?: string;
+  }>): Promise<void> {
+    for (const item of items) {
+      if (item.vector.length !== this.config.dimension) {
+        throw new Error(`Vector dimension mismatch: expected ${this.config.dimension}, got ${item.vector.length}`);
+      }
+    }
+    await this.write(
+      items.map(item => ({ op: 'put', id: item.id, vector: item.vector, metadata: item.metadata, content: item.content })),
+      store => store.addBatch(items)
+    );
+  }
+
+  async search(vector: number[], limit?: number, minScore?: number, filter?: MetadataFilter): Promise<VectorSearchResult[]> {
+    return (await this.open()).search(vector, limit, minScore, filter);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.write([{ op: 'delete', ids }], store => store.delete(ids));
+  }
+
+  async get(ids: string[]): Promise<Map<string, { vector: number[]; metadata?: Record<string, any>; content?: string }>> {
+    return (await this.open()).get(ids);
+  }
+
+  async clear(): Promise<void> {
+    await this.write([{ op: 'clear' }], store => store.clear());
+  }
+
+  async list(): Promise<StoredDocument[]> {
+    return (await this.open()).list();
+  }
+
+  /**
+   * Number of stored vectors
+   */
+  async count(): Promise<number> {
+    return (await this.open()).size;
+  }
+
+  /**
+   * Fold the write-ahead log into a new checkpoint
+   */
+  async checkpoint(): Promise<void> {
+    await this.enqueue(async () => {
+      const store = await this.open();
+      await store.save(this.checkpointPath);
+      await fs.promises.writeFile(this.walPath, '', 'utf8');
+      this.walEntries = 0;
+    });
+  }
+
+  /**
+   * Save a named snapshot of the collection
+   * @param name Snapshot name; a timestamp when omitted
+   * @returns Snapshot file path
+   */
+  async snapshot(name: string = new Date().toISOString().replace(/[:.]/g, '-')): Promise<string> {
+    if (!isCollectionName(name)) {
+      throw new Error(`Invalid snapshot name: ${name}`);
+    }
+    const snapshotPath = path.join(this.collectionDir, SNAPSHOT_DIR, `${name}.vec`);
+    await this.enqueue(async () => (await this.open()).save(snapshotPath));
+    return snapshotPath;
+  }
+
+  /**
+   * List the snapshots of the collection
+   * @returns Snapshot names, oldest first
+   */
+  async listSnapshots(): Promise<string[]> {
+    const snapshotDir = path.join(this.collectionDir, SNAPSHOT_DIR);
+    if (!fs.existsSync(snapshotDir)) {
+      return [];
+    }
+    return (await fs.promises.readdir(snapshotDir))
+      .filter(file => file.endsWith('.vec'))
+      .map(file => file.slice(0, -'.vec'.length))
+      .sort();
+  }
+
+  /**
+   * Replace the collection with a snapshot
+   * @param name Snapshot name
+   * @throws If the snapshot does not exist
+   */
+  async restoreSnapshot(name: string): Promise<void> {
+    const snapshotPath = path.join(this.collectionDir, SNAPSHOT_DIR, `${name}.vec`);
+    if (!isCollectionName(name) || !fs.existsSync(snapshotPath)) {
+      throw new Error(`Snapshot not found: ${name}`);
+    }
+    await this.enqueue(async () => {
+      await fs.promises.copyFile(snapshotPath, `${this.checkpointPath}.tmp`);
+      await fs.promises.rename(`${this.checkpointPath}.tmp`, this.checkpointPath);
+      await fs.promises.writeFile(this.walPath, '', 'utf8');
+      this.walEntries = 0;
+      this.opened = InMemoryVectorStore.load(this.checkpointPath, this.mmap);
+      await this.opened;
+    });
+  }
+
+  private get checkpointPath(): string {
+    return path.join(this.collectionDir, CHECKPOINT_FILE);
+  }
+
+  private get walPath(): string {
+    return path.join(this.collectionDir, WAL_FILE);
+  }
+
+  /**
+   * Log changes, apply them, and write a checkpoint when the log is long
+   */
+  private async write(entries: WalEntry[], apply: (store: InMemoryVectorStore) => Promise<void>): Promise<void> {
+    await this.enqueue(async () => {
+      const store = await this.open();
+      await fs.promises.appendFile(this.walPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+      await apply(store);
+      this.walEntries += entries.length;
+    });
+    if (this.walEntries >= this.compactAfter) {
+      await this.checkpoint();
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Load the checkpoint and replay the log on first use
+   */
+  private open(): Promise<InMemoryVectorStore> {
+    this.opened ??= (async () => {
+      await fs.promises.mkdir(this.collectionDir, { recursive: true });
+      const store = fs.existsSync(this.checkpointPath)
+        ? await InMemoryVectorStore.load(this.checkpointPath, this.mmap)
+        : new InMemoryVectorStore(this.config);
+
+      let malformed = false;
+      if (fs.existsSync(this.walPath)) {
+        const lines = (await fs.promises.readFile(this.walPath, 'utf8')).split('\n').filter(line => line.trim());
+        for (const [index, line] of lines.entries()) {
+          let entry: WalEntry;
+          try {
+            entry = JSON.parse(line);
+          } catch {
+            // A crash while appending can leave a truncated last line behind
+            logger.warn(`[FileVectorStore] Skipping malformed line ${index + 1} of ${this.walPath}`);
+            malformed = true;
+            continue;
+          }
+          await replay(store, entry);
+          this.walEntries++;
+        }
+      }
+
+      // Start a clean log so new entries are not appended to a truncated line
+      if (malformed) {
+        await store.save(this.checkpointPath);
+        await fs.promises.writeFile(this.walPath, '', 'utf8');
+        this.walEntries = 0;
+      }
+      return store;
+    })();
+    return this.opened;
+  }
+}
+
+/**
+ * Apply a logged change
+ */
+async function replay(store: InMemoryVectorStore, entry: WalEntry): Promise<void> {
+  switch (entry.op) {
+    case 'put':
+      await store.add(entry.id, entry.vector, entry.metadata, entry.content);
+      break;
+    case 'delete':
+      await store.delete(entry.ids);
+      break;
+    case 'clear':
+      await store.clear();
+      break;
+  }
+}
+
+/**
+ * Collection and snapshot names are used as file names
+ */
+function isCollectionName(name: string): boolean {
+  return /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(name);
+}
@@ -0,0 +1,460 @@
+/**
+ * HNSW Index
+ *
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour
+ * search. Vectors are linked to their closest neighbours on a stack of
+ * layers; a search descends greedily from the sparse top layer and explores
+ * the dense bottom layer with a bounded candidate list.
+ *
+ * @module rag/hnsw
+ * @category RAG
+ */
+
+import { z } from 'zod';
+
+/**
+ * HNSW index parameters
+ */
+export const HnswConfigSchema = z.object({
+  /** Neighbours per node on the upper layers (twice as many on the bottom layer) */
+  m: z.number().int().min(2).default(16),
+  /** Candidate list size while inserting; higher builds a better graph, slower */
+  efConstruction: z.number().int().positive().default(200),
+  /** Candidate list size while searching; higher raises recall, slower */
+  efSearch: z.number().int().positive().default(64),
+  /** Seed of the level generator, for reproducible graphs */
+  seed: z.number().int().default(42),
+});
+
+export type HnswConfig = z.infer<typeof HnswConfigSchema>;
+
+/**
+ * Similarity of two vectors; higher is closer
+ */
+export type SimilarityFunction = (a: ArrayLike<number>, b: ArrayLike<number>) => number;
+
+/**
+ * Graph structure of an index, as persisted
+ */
+export interface HnswGraph {
+  config: HnswConfig;
+  /** IDs by node slot; `null` for free slots */
+  ids: Array<string | null>;
+  /** Top layer of each node */
+  levels: number[];
+  /** Neighbour slots of each node, per layer */
+  links: number[][][];
+  entryPoint: number;
+  maxLevel: number;
+  /** State of the level generator */
+  rngState: number;
+}
+
+/**
+ * Node of a search: slot and similarity to the query
+ */
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+/**
+ * Binary heap ordered by a comparator (top is the element sorting first)
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Approximate nearest-neighbour index over a similarity function
+ */
+export class HnswIndex {
+  readonly config: HnswConfig;
+  private similarity: SimilarityFunction;
+  private ids: Array<string | null> = [];
+  private vectors: Array<ArrayLike<number> | null> = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private slots: Map<string, number> = new Map();
+  private freeSlots: number[] = [];
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private rngState: number;
+
+  /**
+   * Create an empty index
+   * @param similarity Similarity of two vectors; higher is closer
+   * @param config Index parameters
+   */
+  constructor(similarity: SimilarityFunction, config?: Partial<HnswConfig>) {
+    this.similarity = similarity;
+    this.config = HnswConfigSchema.parse(config || {});
+    this.rngState = this.config.seed >>> 0;
+  }
+
+  /**
+   * Number of indexed vectors
+   */
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /**
+   * Check whether an ID is indexed
+   */
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  /**
+   * Insert a vector, replacing any vector indexed under the same ID
+   * @param id Vector ID
+   * @param vector Vector to index
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.slots.has(id)) {
+      this.delete(id);
+    }
+
+    const node = this.freeSlots.pop() ?? this.ids.length;
+    const level = this.randomLevel();
+    this.ids[node] = id;
+    this.vectors[node] = vector;
+    this.levels[node] = level;
+    this.links[node] = Array.from({ length: level + 1 }, () => []);
+    this.slots.set(id, node);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.greedyDescend(vector, this.entryPoint, this.maxLevel, level);
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entry, this.config.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, this.maxLinks(layer));
+      this.links[node][layer] = neighbours.map(candidate => candidate.node);
+      for (const neighbour of neighbours) {
+        this.connect(neighbour.node, node, layer);
+      }
+      entry = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Remove a vector and reconnect its neighbours
+   * @param id Vector ID
+   * @returns Whether the ID was indexed
+   */
+  delete(id: string): boolean {
+    const node = this.slots.get(id);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.slots.delete(id);
+    const level = this.levels[node];
+    for (let layer = 0; layer <= level; layer++) {
+      const orphans = this.links[node][layer].filter(other => other !== node && this.vectors[other]);
+      for (const neighbour of orphans) {
+        const links = this.links[neighbour][layer];
+        const position = links?.indexOf(node) ?? -1;
+        if (position < 0) continue;
+        links.splice(position, 1);
+        // Offer the neighbours of the removed node as replacement links
+        const vector = this.vectors[neighbour]!;
+        const candidates = [...links, ...orphans.filter(other => other !== neighbour && !links.includes(other))]
+          .filter(other => this.vectors[other])
+          .map(other => ({ node: other, similarity: this.similarity(vector, this.vectors[other]!) }));
+        this.links[neighbour][layer] = this.selectNeighbours(candidates, this.maxLinks(layer))
+          .map(candidate => candidate.node);
+      }
+    }
+
+    // Links are not always mutual: nodes still linking to the freed slot skip
+    // it while it is empty and simply gain an extra link once it is reused
+    this.ids[node] = null;
+    this.vectors[node] = null;
+    this.links[node] = [];
+    this.levels[node] = -1;
+    this.freeSlots.push(node);
+
+    if (node === this.entryPoint) {
+      this.entryPoint = -1;
+      this.maxLevel = -1;
+      for (const slot of this.slots.values()) {
+        if (this.levels[slot] > this.maxLevel) {
+          this.entryPoint = slot;
+          this.maxLevel = this.levels[slot];
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Find the vectors most similar to a query
+   * @param vector Query vector
+   * @param limit Maximum number of results
+   * @param ef Candidate list size; `efSearch` when omitted, never below `limit`
+   * @param accept Only return vectors whose ID passes; rejected vectors are
+   * still traversed, so the graph stays connected
+   * @returns IDs with their similarity, most similar first
+   */
+  search(
+    vector: ArrayLike<number>,
+    limit: number,
+    ef?: number,
+    accept?: (id: string) => boolean
+  ): Array<{ id: string; score: number }> {
+    if (this.entryPoint < 0 || limit <= 0) {
+      return [];
+    }
+
+    const entry = this.greedyDescend(vector, this.entryPoint, this.maxLevel, 0);
+    const candidates = this.searchLayer(
+      vector,
+      entry,
+      Math.max(ef ?? this.config.efSearch, limit),
+      0,
+      accept && (node => accept(this.ids[node]!))
+    );
+    return candidates
+      .slice(0, limit)
+      .map(candidate => ({ id: this.ids[candidate.node]!, score: candidate.similarity }));
+  }
+
+  /**
+   * Remove every vector
+   */
+  clear(): void {
+    this.ids = [];
+    this.vectors = [];
+    this.levels = [];
+    this.links = [];
+    this.slots.clear();
+    this.freeSlots = [];
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Export the graph structure; vectors are persisted by the caller
+   */
+  toGraph(): HnswGraph {
+    return {
+      config: this.config,
+      ids: [...this.ids],
+      levels: [...this.levels],
+      links: this.links.map(layers => layers.map(links => [...links])),
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      rngState: this.rngState,
+    };
+  }
+
+  /**
+   * Restore an index from its graph structure
+   * @param graph Exported graph
+   * @param vectors Vector of each indexed ID
+   * @param similarity Similarity function the graph was built with
+   * @throws If a vector of the graph is missing
+   */
+  static fromGraph(graph: HnswGraph, vectors: Map<string, ArrayLike<number>>, similarity: SimilarityFunction): HnswIndex {
+    const index = new HnswIndex(similarity, graph.config);
+    index.ids = [...graph.ids];
+    index.levels = [...graph.levels];
+    index.links = graph.links;
+    index.entryPoint = graph.entryPoint;
+    index.maxLevel = graph.maxLevel;
+    index.rngState = graph.rngState;
+    index.vectors = graph.ids.map((id, node) => {
+      if (id === null) {
+        index.freeSlots.push(node);
+        return null;
+      }
+      const vector = vectors.get(id);
+      if (!vector) {
+        throw new Error(`Missing vector for indexed ID ${id}`);
+      }
+      index.slots.set(id, node);
+      return vector;
+    });
+    return index;
+  }
+
+  /**
+   * Walk down from the top layer to `targetLevel + 1`, keeping the closest node
+   */
+  private greedyDescend(vector: ArrayLike<number>, entryPoint: number, fromLevel: number, targetLevel: number): Candidate[] {
+    let current: Candidate = { node: entryPoint, similarity: this.similarity(vector, this.vectors[entryPoint]!) };
+    for (let layer = fromLevel; layer > targetLevel; layer--) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (const neighbour of this.links[current.node][layer] ?? []) {
+          if (!this.vectors[neighbour]) continue;
+          const similarity = this.similarity(vector, this.vectors[neighbour]!);
+          if (similarity > current.similarity) {
+            current = { node: neighbour, similarity };
+            improved = true;
+          }
+        }
+      }
+    }
+    return [current];
+  }
+
+  /**
+   * Best-first search of one layer. With `accept`, only accepted nodes are
+   * found, and the search expands until `ef` of them are.
+   * @returns Up to `ef` closest nodes, most similar first
+   */
+  private searchLayer(
+    vector: ArrayLike<number>,
+    entry: Candidate[],
+    ef: number,
+    layer: number,
+    accept?: (node: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entry.map(candidate => candidate.node));
+    // Nodes to expand, most similar first
+    const frontier = new Heap<Candidate>((a, b) => a.similarity > b.similarity);
+    // Best nodes found, least similar on top so it can be evicted
+    const found = new Heap<Candidate>((a, b) => a.similarity < b.similarity);
+    for (const candidate of entry) {
+      frontier.push(candidate);
+      if (!accept || accept(candidate.node)) found.push(candidate);
+    }
+
+    while (frontier.size > 0) {
+      const nearest = frontier.pop()!;
+      if (found.size >= ef && nearest.similarity < found.peek()!.similarity) {
+        break;
+      }
+      for (const neighbour of this.links[nearest.node][layer] ?? []) {
+        if (visited.has(neighbour) || !this.vectors[neighbour]) continue;
+        visited.add(neighbour);
+        const similarity = this.similarity(vector, this.vectors[neighbour]!);
+        if (found.size < ef || similarity > found.peek()!.similarity) {
+          const candidate = { node: neighbour, similarity };
+          frontier.push(candidate);
+          if (accept && !accept(neighbour)) continue;
+          found.push(candidate);
+          if (found.size > ef) found.pop();
+        }
+      }
+    }
+
+    return found.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Choose diverse neighbours: a candidate is skipped when it is closer to an
+   * already chosen neighbour than to the base node; skipped candidates fill
+   * any remaining places.
+   */
+  private selectNeighbours(candidates: Candidate[], max: number): Candidate[] {
+    const sorted = [...candidates].sort((a, b) => b.similarity - a.similarity);
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const vector = this.vectors[candidate.node]!;
+      const dominated = selected.some(chosen => this.similarity(vector, this.vectors[chosen.node]!) > candidate.similarity);
+      (dominated ? skipped : selected).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Link `from` to `to` on a layer, pruning `from`'s links when over capacity
+   */
+  private connect(from: number, to: number, layer: number): void {
+    const links = this.links[from][layer];
+    links.push(to);
+    const max = this.maxLinks(layer);
+    if (links.length > max) {
+      const vector = this.vectors[from]!;
+      const candidates = links
+        .filter(node => this.vectors[node])
+        .map(node => ({ node, similarity: this.similarity(vector, this.vectors[node]!) }));
+      this.links[from][layer] = this.selectNeighbours(candidates, max).map(candidate => candidate.node);
+    }
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.config.m * 2 : this.config.m;
+  }
+
+  /**
+   * Draw a node level with probability decaying by 1/m per layer
+   */
+  private randomLevel(): number {
+    // mulberry32
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return Math.floor(-Math.log(1 - random) / Math.log(this.config.m));
+  }
+}
@@ -11,6 +11,19 @@
 import { z } from 'zod';
 import type { VectorStore, VectorSearchResult } from './vector-store';
 import type { EmbeddingGenerator } from './embeddings';
+import { BM25ConfigSchema, BM25Index } from './bm25';
+import type { SearchScope } from './metadata-filter';
+import { scopeFilter } from './metadata-filter';
+
+/**
+ * How semantic and keyword rankings are combined
+ */
+export enum FusionMethod {
+  /** Weighted sum of the semantic score and the normalized BM25 score */
+  WEIGHTED_SUM = 'weighted_sum',
+  /** Weighted reciprocal-rank fusion */
+  RRF = 'rrf',
+}
 
 /**
  * Hybrid search configuration schema
@@ -31,8 +44,14 @@ export const HybridSearchConfigSchema = z.object({
   /** Whether to apply reranking to results */
   applyReranking: z.boolean().default(true),
   
-  /** Maximum distance between query terms for keyword matching */
-  maxKeywordDistance: z.number().default(3),
+  /** How semantic and keyword rankings are combined */
+  fusion: z.nativeEnum(FusionMethod).default(FusionMethod.WEIGHTED_SUM),
+  
+  /** Rank offset of reciprocal-rank fusion; larger values flatten the ranking */
+  rrfK: z.number().min(0).default(60),
+  
+  /** BM25 parameters of the keyword index */
+  bm25: BM25ConfigSchema.default({}),
 });
 
 export type HybridSearchConfig = z.infer<typeof HybridSearchConfigSchema>;
@@ -58,12 +77,18 @@ export interface HybridSearchResult extends VectorSearchResult {
 }
 
 /**
- * Hybrid search implementation combining vector and keyword search
+ * Hybrid search implementation combining vector and keyword search.
+ *
+ * Keyword search runs against a BM25 index of its own, which must be kept in
+ * sync with the vector store through `addDocuments` and `removeDocuments`.
+ * Documents already held by a durable store are added through `loadKeywordIndex`.
  */
 export class HybridSearch {
   private config: HybridSearchConfig;
   private vectorStore: VectorStore;
   private embeddingGenerator: EmbeddingGenerator;
+  private keywordIndex: BM25Index;
+  private keywordIndexLoaded?: Promise<void>;
   
   /**
    * Create a new hybrid search instance
@@ -76,138 +101,176 @@ export class HybridSearch {
     this.vectorStore = vectorStore;
     this.embeddingGenerator = embeddingGenerator;
     this.config = HybridSearchConfigSchema.parse(config || {});
+    this.keywordIndex = new BM25Index(this.config.bm25);
+  }
+  
+  /**
+   * Add documents to the keyword index, replacing documents with the same ID
+   */
+  addDocuments(items: Array<{ id: string; content: string; metadata?: Record<string, any> }>): void {
+    this.keywordIndex.addBatch(items);
+  }
+  
+  /**
+   * Remove documents from the keyword index
+   */
+  removeDocuments(ids: string[]): void {
+    this.keywordIndex.remove(ids);
+  }
+  
+  /**
+   * Add the documents held by the vector store to the keyword index, once;
+   * stores that cannot list their documents are left out
+   */
+  loadKeywordIndex(): Promise<void> {
+    this.keywordIndexLoaded ??= (async () => {
+      const documents = (await this.vectorStore.list?.()) ?? [];
+      this.keywordIndex.addBatch(documents
+        .filter(document => document.content !== undefined)
+        .map(document => ({ id: document.id, content: document.content!, metadata: document.metadata })));
+    })().catch(error => {
+      this.keywordIndexLoaded = undefined;
+      throw error;
+    });
+    return this.keywordIndexLoaded;
+  }
+  
+  /**
+   * Remove all documents from the keyword index
+   */
+  clearKeywordIndex(): void {
+    this.keywordIndex.clear();
+  }
+  
+  /**
+   * Search the keyword index only
+   * @param query Search query
+   * @param limit Maximum number of results
+   * @param scope Metadata filter and namespace; unscoped when omitted
+   * @returns Results by descending BM25 score
+   */
+  keywordSearch(query: string, limit = this.config.maxResults, scope?: SearchScope): VectorSearchResult[] {
+    return this.keywordIndex.search(query, limit, scope && scopeFilter(scope));
   }
   
   /**
    * Search for documents using hybrid approach
+   * @param query Search query
+   * @param limit Maximum number of results
+   * @param minScore Minimum combined score
+   * @param scope Metadata filter and namespace, applied by both retrievers;
+   * unscoped when omitted
    */
-  async search(query: string, limit?: number, minScore?: number): Promise<HybridSearchResult[]> {
+  async search(query: string, limit?: number, minScore?: number, scope?: SearchScope): Promise<HybridSearchResult[]> {
     // Apply defaults
     limit = limit || this.config.maxResults;
     minScore = minScore || this.config.minScore;
+    // Get more results than needed for fusion and reranking
+    const candidates = Math.max(limit * 2, 20);
+    const filter = scope && scopeFilter(scope);
+    await this.loadKeywordIndex();
     
-    // 1. Generate query embedding
+    // 1. Generate query embedding and perform semantic search
     const queryEmbedding = await this.embeddingGenerator.embed(query);
-    
-    // 2. Perform semantic search
     const semanticResults = await this.vectorStore.search(
       queryEmbedding,
-      // Get more results than needed for hybrid reranking
-      Math.max(limit * 2, 20),
-      0 // No minimum score for initial semantic results
+      candidates,
+      0, // No minimum score for initial semantic results
+      filter
     );
     
-    // 3. Perform keyword search - process all results with content
-    const resultsWithContent = semanticResults.filter(r => r.content);
-    const keywordScores = new Map<string, number>();
+    // 2. Perform keyword search, independently of the semantic results
+    const keywordResults = this.keywordIndex.search(query, candidates, filter);
     
-    // Extract keywords from query (basic implementation)
-    const keywords = this.extractKeywords(query);
+    // 3. Combine scores
+    let hybridResults = this.config.fusion === FusionMethod.RRF
+      ? this.fuseByRank(semanticResults, keywordResults)
+      : this.fuseByScore(semanticResults, keywordResults);
     
-    // Calculate keyword scores
-    for (const result of resultsWithContent) {
-      const keywordScore = this.calculateKeywordScore(result.content!, keywords);
-      keywordScores.set(result.id, keywordScore);
-    }
-    
-    // 4. Combine scores
-    const hybridResults: HybridSearchResult[] = semanticResults.map(result => {
-      const semanticScore = result.score;
-      const keywordScore = keywordScores.get(result.id) || 0;
-      
-      // Weighted combination of scores
-      const combinedScore = 
-        (semanticScore * this.config.semanticWeight) + 
-        (keywordScore * this.config.keywordWeight);
-      
-      return {
-        ...result,
-        combinedScore,
-        scores: {
-          semantic: semanticScore,
-          keyword: keywordScore
-        }
-      };
-    });
-    
-    // 5. Apply reranking if enabled
-    let finalResults = hybridResults;
+    // 4. Apply reranking if enabled
     if (this.config.applyReranking) {
-      finalResults = this.rerank(finalResults, query);
+      hybridResults = this.rerank(hybridResults, query);
     }
     
-    // 6. Sort by combined score, filter by minimum score, and limit
-    return finalResults
+    // 5. Sort by combined score, filter by minimum score, and limit
+    return hybridResults
       .sort((a, b) => b.combinedScore - a.combinedScore)
       .filter(result => result.combinedScore >= minScore)
       .slice(0, limit);
   }
   
   /**
-   * Extract keywords from a query string
-   * @param query The search query
-   * @returns Array of keywords
+   * Weighted sum of semantic scores and BM25 scores scaled to 0-1 by the best
+   * keyword match; a document missing from one ranking scores 0 in it
    */
-  private extractKeywords(query: string): string[] {
-    // Basic keyword extraction - remove stop words and split by whitespace
-    const stopWords = new Set([
-      'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'with', 'by',
-      'about', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
-      'do', 'does', 'did', 'of', 'from', 'that', 'this', 'these', 'those', 'it', 'its'
-    ]);
+  private fuseByScore(
+    semanticResults: VectorSearchResult[],
+    keywordResults: VectorSearchResult[]
+  ): HybridSearchResult[] {
+    const maxKeywordScore = keywordResults[0]?.score || 1;
     
-    return query
-      .toLowerCase()
-      .split(/\W+/)
-      .filter(word => word.length > 2 && !stopWords.has(word));
+    return this.merge(semanticResults, keywordResults, (semantic, keyword) => {
+      const semanticScore = semantic?.score ?? 0;
+      const keywordScore = keyword ? keyword.score / maxKeywordScore : 0;
+      return {
+        combinedScore: semanticScore * this.config.semanticWeight + keywordScore * this.config.keywordWeight,
+        scores: { semantic: semanticScore, keyword: keywordScore },
+      };
+    });
   }
   
   /**
-   * Calculate keyword-based score for a document
-   * @param content Document content
-   * @param keywords Query keywords
-   * @returns Normalized score between 0-1
+   * Weighted reciprocal-rank fusion, scaled so that a document ranked first
+   * by both searches scores 1
    */
-  private calculateKeywordScore(content: string, keywords: string[]): number {
-    if (!keywords.length) return 0;
-    
-    const contentLower = content.toLowerCase();
-    let matches = 0;
-    const matchPositions: number[] = [];
-    
-    // Count matches and their positions
-    for (const keyword of keywords) {
-      let pos = -1;
-      while ((pos = contentLower.indexOf(keyword, pos + 1)) >= 0) {
-        matches++;
-        matchPositions.push(pos);
-      }
-    }
-    
-    // No matches at all
-    if (matches === 0) return 0;
+  private fuseByRank(
+    semanticResults: VectorSearchResult[],
+    keywordResults: VectorSearchResult[]
+  ): HybridSearchResult[] {
+    const { semanticWeight, keywordWeight, rrfK } = this.config;
+    const maxScore = (semanticWeight + keywordWeight) / (rrfK + 1) || 1;
+    const semanticRanks = new Map(semanticResults.map((result, index) => [result.id, index + 1]));
+    const keywordRanks = new Map(keywordResults.map((result, index) => [result.id, index + 1]));
     
-    // Calculate proximity bonus for nearby matches
-    let proximityBonus = 0;
-    if (matchPositions.length > 1) {
-      // Sort positions
-      matchPositions.sort((a, b) => a - b);
-      
-      // Check for nearby matches
-      for (let i = 0; i < matchPositions.length - 1; i++) {
-        const distance = matchPositions[i + 1] - matchPositions[i];
-        if (distance <= this.config.maxKeywordDistance) {
-          proximityBonus += (this.config.maxKeywordDistance - distance) / this.config.maxKeywordDistance;
-        }
-      }
-    }
-    
-    // Calculate final score: normalized by document length to avoid bias towards longer documents
-    const baseScore = matches / Math.max(1, Math.log2(contentLower.length / 100));
-    // Add proximity bonus
-    const finalScore = Math.min(1, baseScore + (proximityBonus * 0.3));
+    return this.merge(semanticResults, keywordResults, (semantic, keyword) => {
+      const semanticRank = semantic && semanticRanks.get(semantic.id);
+      const keywordRank = keyword && keywordRanks.get(keyword.id);
+      const fused =
+        (semanticRank ? semanticWeight / (rrfK + semanticRank) : 0) +
+        (keywordRank ? keywordWeight / (rrfK + keywordRank) : 0);
+      return {
+        combinedScore: fused / maxScore,
+        scores: { semantic: semantic?.score ?? 0, keyword: keyword?.score ?? 0 },
+      };
+    });
+  }
+  
+  /**
+   * Join both rankings by document ID and score each document
+   */
+  private merge(
+    semanticResults: VectorSearchResult[],
+    keywordResults: VectorSearchResult[],
+    score: (
+      semantic: VectorSearchResult | undefined,
+      keyword: VectorSearchResult | undefined
+    ) => Pick<HybridSearchResult, 'combinedScore' | 'scores'>
+  ): HybridSearchResult[] {
+    const semanticById = new Map(semanticResults.map(result => [result.id, result]));
+    const keywordById = new Map(keywordResults.map(result => [result.id, result]));
+    const ids = new Set([...semanticById.keys(), ...keywordById.keys()]);
     
-    return finalScore;
+    return Array.from(ids, id => {
+      const semantic = semanticById.get(id);
+      const keyword = keywordById.get(id);
+      const base = semantic ?? keyword!;
+      return {
+        ...base,
+        content: base.content ?? keyword?.content,
+        metadata: base.metadata ?? keyword?.metadata,
+        ...score(semantic, keyword),
+      };
+    });
   }
   
   /**
@@ -272,5 +335,6 @@ export class HybridSearch {
       ...this.config,
       ...config
     });
+    this.keywordIndex.updateConfig(this.config.bm25);
   }
 } 
\ No newline at end of file
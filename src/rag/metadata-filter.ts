@@ -0,0 +1,270 @@
+/**
+ * Metadata Filters
+ *
+ * Filter expressions over chunk metadata, evaluated inside the vector stores
+ * and the keyword index, and the namespaces isolating the chunks of different
+ * tenants. Filters map metadata fields (dot paths reach nested fields) to a
+ * value or to operators:
+ *
+ * ```ts
+ * {
+ *   project: 'apollo',
+ *   type: { $in: ['pdf', 'markdown'] },
+ *   date: { $gte: '2024-01-01', $lt: '2025-01-01' },
+ *   reviewer: { $exists: true },
+ *   $or: [{ team: 'search' }, { priority: { $gte: 2 } }],
+ * }
+ * ```
+ *
+ * Conditions on array fields match when any element matches.
+ *
+ * @module rag/metadata-filter
+ * @category RAG
+ */
+
+import { z } from 'zod';
+
+/**
+ * Value compared by equality
+ */
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Operators applicable to one field
+ */
+export interface FieldOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  /** Whether the field holds a value other than null or an empty array */
+  $exists?: boolean;
+}
+
+/**
+ * Condition on one field: a value to equal or operators
+ */
+export type FieldCondition = FilterValue | FieldOperators;
+
+/**
+ * Filter over chunk metadata; all conditions must hold
+ */
+export interface MetadataFilter {
+  /** Filters that must all match */
+  $and?: MetadataFilter[];
+  /** Filters of which at least one must match */
+  $or?: MetadataFilter[];
+  [field: string]: FieldCondition | MetadataFilter[] | undefined;
+}
+
+/**
+ * Scope of a search: a metadata filter and the namespace to search in
+ */
+export interface SearchScope {
+  /** Metadata filter */
+  filter?: MetadataFilter;
+  /** Namespace; chunks stored without one when unset */
+  namespace?: string;
+}
+
+/**
+ * Metadata field holding the namespace of a chunk
+ */
+export const NAMESPACE_KEY = 'namespace';
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const BoundSchema = z.union([z.number(), z.string()]);
+
+const FieldOperatorsSchema = z.object({
+  $eq: FilterValueSchema.optional(),
+  $ne: FilterValueSchema.optional(),
+  $in: z.array(FilterValueSchema).optional(),
+  $nin: z.array(FilterValueSchema).optional(),
+  $gt: BoundSchema.optional(),
+  $gte: BoundSchema.optional(),
+  $lt: BoundSchema.optional(),
+  $lte: BoundSchema.optional(),
+  $exists: z.boolean().optional(),
+}).strict();
+
+/**
+ * Metadata filter schema
+ */
+export const MetadataFilterSchema: z.ZodType<MetadataFilter> = z.lazy(() =>
+  z.record(z.union([FilterValueSchema, FieldOperatorsSchema, z.array(MetadataFilterSchema)]))
+    .superRefine((filter, ctx) => {
+      for (const [key, condition] of Object.entries(filter)) {
+        const logical = key === '$and' || key === '$or';
+        if (!logical && key.startsWith('$')) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown operator ${key}` });
+        } else if (logical !== Array.isArray(condition)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: logical ? `${key} takes an array of filters` : `Field ${key} cannot take an array; use $in`,
+          });
+        }
+      }
+    })
+);
+
+/**
+ * Restrict a filter to a namespace. The namespace condition replaces any
+ * condition on the namespace field, so a filter cannot reach other tenants.
+ * @param scope Search scope
+ * @returns Filter matching the scope
+ */
+export function scopeFilter(scope: SearchScope): MetadataFilter {
+  return {
+    ...scope.filter,
+    [NAMESPACE_KEY]: scope.namespace ?? { $exists: false },
+  };
+}
+
+/**
+ * Check whether metadata matches a filter
+ * @param metadata Chunk metadata
+ * @param filter Metadata filter
+ */
+export function matchesFilter(metadata: Record<string, any> | undefined, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(sub => matchesFilter(metadata, sub));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(sub => matchesFilter(metadata, sub));
+    }
+    return matchesCondition(fieldValues(metadata, key), condition as FieldCondition);
+  });
+}
+
+function matchesCondition(values: unknown[], condition: FieldCondition): boolean {
+  if (!isOperators(condition)) {
+    return equals(values, condition);
+  }
+
+  const { $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists } = condition;
+  if ($exists !== undefined && $exists !== values.length > 0) {
+    return false;
+  }
+  if ($eq !== undefined && !equals(values, $eq)) {
+    return false;
+  }
+  if ($ne !== undefined && equals(values, $ne)) {
+    return false;
+  }
+  if ($in && !$in.some(value => equals(values, value))) {
+    return false;
+  }
+  if ($nin && $nin.some(value => equals(values, value))) {
+    return false;
+  }
+  if ($gt === undefined && $gte === undefined && $lt === undefined && $lte === undefined) {
+    return true;
+  }
+  // Bounds compare with values of the same type: numbers, or strings such as ISO dates
+  return values.some(value =>
+    ($gt === undefined || (comparable(value, $gt) && value > $gt)) &&
+    ($gte === undefined || (comparable(value, $gte) && value >= $gte)) &&
+    ($lt === undefined || (comparable(value, $lt) && value < $lt)) &&
+    ($lte === undefined || (comparable(value, $lte) && value <= $lte))
+  );
+}
+
+function isOperators(condition: FieldCondition): condition is FieldOperators {
+  return typeof condition === 'object' && condition !== null;
+}
+
+function equals(values: unknown[], expected: FilterValue): boolean {
+  return expected === null ? values.length === 0 : values.some(value => value === expected);
+}
+
+function comparable(value: unknown, bound: number | string): value is number | string {
+  return typeof value === typeof bound;
+}
+
+/**
+ * Values of a field as a flat list; null and missing fields have none, and
+ * dates become ISO strings
+ */
+function fieldValues(metadata: Record<string, any> | undefined, path: string): unknown[] {
+  let value: any = metadata;
+  for (const part of path.split('.')) {
+    value = value?.[part];
+  }
+  return (Array.isArray(value) ? value : [value])
+    .filter(item => item !== undefined && item !== null)
+    .map(item => (item instanceof Date ? item.toISOString() : item));
+}
+
+/**
+ * Qdrant filter clause
+ */
+export interface QdrantFilter {
+  must?: unknown[];
+  must_not?: unknown[];
+  should?: unknown[];
+}
+
+/**
+ * Translate a metadata filter to a Qdrant payload filter
+ * @param filter Metadata filter
+ * @param prefix Payload path of the metadata object
+ * @returns Qdrant filter
+ */
+export function toQdrantFilter(filter: MetadataFilter, prefix = 'metadata.'): QdrantFilter {
+  const must: unknown[] = [];
+  const mustNot: unknown[] = [];
+
+  for (const [field, condition] of Object.entries(filter)) {
+    if (condition === undefined) {
+      continue;
+    }
+    if (field === '$and') {
+      must.push(...(condition as MetadataFilter[]).map(sub => toQdrantFilter(sub, prefix)));
+      continue;
+    }
+    if (field === '$or') {
+      must.push({ should: (condition as MetadataFilter[]).map(sub => toQdrantFilter(sub, prefix)) });
+      continue;
+    }
+
+    const key = `${prefix}${field}`;
+    const match = (value: FilterValue) => (value === null ? { is_empty: { key } } : { key, match: { value } });
+    const operators: FieldOperators = isOperators(condition as FieldCondition)
+      ? condition as FieldOperators
+      : { $eq: condition as FilterValue };
+    const { $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists } = operators;
+
+    if ($eq !== undefined) {
+      must.push(match($eq));
+    }
+    if ($ne !== undefined) {
+      mustNot.push(match($ne));
+    }
+    if ($in) {
+      must.push({ should: $in.map(match) });
+    }
+    if ($nin) {
+      mustNot.push(...$nin.map(match));
+    }
+    if ($gt !== undefined || $gte !== undefined || $lt !== undefined || $lte !== undefined) {
+      must.push({ key, range: { gt: $gt, gte: $gte, lt: $lt, lte: $lte } });
+    }
+    if ($exists !== undefined) {
+      ($exists ? mustNot : must).push({ is_empty: { key } });
+    }
+  }
+
+  return {
+    ...(must.length > 0 ? { must } : {}),
+    ...(mustNot.length > 0 ? { must_not: mustNot } : {}),
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Qdrant Vector Store
+ *
+ * Adapter storing vectors in a Qdrant-compatible server over its REST API.
+ * The collection is created on first use with the configured dimension and
+ * distance metric.
+ *
+ * @module rag/qdrant-vector-store
+ * @category RAG
+ */
+
+import { QdrantClient } from '@qdrant/js-client-rest';
+import type { Schemas } from '@qdrant/js-client-rest';
+import { v5 as uuidv5, validate as isUuid } from 'uuid';
+import { DistanceMetric, VectorStoreConfigSchema } from './vector-store';
+import type { StoredDocument, VectorSearchResult, VectorStore, VectorStoreConfig } from './vector-store';
+import type { MetadataFilter } from './metadata-filter';
+import { toQdrantFilter } from './metadata-filter';
+
+/**
+ * Namespace of the UUIDs derived from IDs that Qdrant does not accept
+ */
+const POINT_ID_NAMESPACE = '6f1c52d5-8c3e-4f0a-9d4b-2a7e5b1c9e30';
+
+/**
+ * Payload stored with every point
+ */
+interface PointPayload {
+  /** Original document ID */
+  id: string;
+  metadata?: Record<string, any>;
+  content?: string;
+}
+
+/**
+ * Vector store backed by a Qdrant-compatible server
+ */
+export class QdrantVectorStore implements VectorStore {
+  readonly config: VectorStoreConfig;
+  private client: QdrantClient;
+  private ready?: Promise<void>;
+
+  /**
+   * @param config Vector store configuration; `url` is required
+   * @param client Preconfigured client, used instead of one built from `url`
+   * @throws If neither a URL nor a client is given
+   */
+  constructor(config: Partial<VectorStoreConfig>, client?: QdrantClient) {
+    this.config = VectorStoreConfigSchema.parse(config);
+    if (!client && !this.config.url) {
+      throw new Error('An external vector store needs a url');
+    }
+    this.client = client ?? new QdrantClient({
+      url: this.config.url,
+      apiKey: this.config.apiKey,
+      // Compatible servers need not report a Qdrant version
+      checkCompatibility: false,
+    });
+  }
+
+  async add(id: string, vector: number[], metadata?: Record<string, any>, content?: string): Promise<void> {
+    await this.addBatch([{ id, vector, metadata, content }]);
+  }
+
+  async addBatch(items: Array<{
+    id: string;
+    vector: number[];
+    metadata?: Record<string, any>;
+    content?: string;
+  }>): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+    for (const item of items) {
+      if (item.vector.length !== this.config.dimension) {
+        throw new Error(`Vector dimension mismatch: expected ${this.config.dimension}, got ${item.vector.length}`);
+      }
+    }
+
+    await this.ensureCollection();
+    await this.client.upsert(this.config.collection, {
+      wait: true,
+      points: items.map(item => ({
+        id: toPointId(item.id),
+        vector: item.vector,
+        payload: { id: item.id, metadata: item.metadata, content: item.content } satisfies PointPayload,
+      })),
+    });
+  }
+
+  /**
+   * Search for similar vectors
+   *
+   * Scores are those of the server: similarities for cosine and dot product,
+   * distances for euclidean. Filters are translated to Qdrant payload filters
+   * on the stored metadata.
+   */
+  async search(vector: number[], limit = 10, minScore?: number, filter?: MetadataFilter): Promise<VectorSearchResult[]> {
+    await this.ensureCollection();
+    const points = await this.client.search(this.config.collection, {
+      vector,
+      limit,
+      score_threshold: minScore,
+      filter: filter ? toQdrantFilter(filter) as Schemas['Filter'] : undefined,
+      with_payload: true,
+    });
+
+    return points.map(point => {
+      const payload = (point.payload ?? {}) as Partial<PointPayload>;
+      return {
+        id: payload.id ?? String(point.id),
+        score: point.score,
+        metadata: payload.metadata,
+        content: payload.content,
+      };
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.ensureCollection();
+    await this.client.delete(this.config.collection, { wait: true, points: ids.map(toPointId) });
+  }
+
+  async get(ids: string[]): Promise<Map<string, { vector: number[]; metadata?: Record<string, any>; content?: string }>> {
+    const result = new Map<string, { vector: number[]; metadata?: Record<string, any>; content?: string }>();
+    if (ids.length === 0) {
+      return result;
+    }
+
+    await this.ensureCollection();
+    const points = await this.client.retrieve(this.config.collection, {
+      ids: ids.map(toPointId),
+      with_payload: true,
+      with_vector: true,
+    });
+    for (const point of points) {
+      const payload = (point.payload ?? {}) as Partial<PointPayload>;
+      result.set(payload.id ?? String(point.id), {
+        vector: point.vector as number[],
+        metadata: payload.metadata,
+        content: payload.content,
+      });
+    }
+    return result;
+  }
+
+  async list(): Promise<StoredDocument[]> {
+    await this.ensureCollection();
+    const documents: StoredDocument[] = [];
+    let offset: Schemas['ExtendedPointId'] | null | undefined;
+    do {
+      const page = await this.client.scroll(this.config.collection, {
+        limit: 256,
+        offset: offset ?? undefined,
+        with_payload: true,
+        with_vector: false,
+      });
+      for (const point of page.points) {
+        const payload = (point.payload ?? {}) as Partial<PointPayload>;
+        documents.push({ id: payload.id ?? String(point.id), metadata: payload.metadata, content: payload.content });
+      }
+      offset = page.next_page_offset as Schemas['ExtendedPointId'] | null | undefined;
+    } while (offset !== null && offset !== undefined);
+    return documents;
+  }
+
+  /**
+   * Drop the collection; it is created again on next use
+   */
+  async clear(): Promise<void> {
+    await this.ensureCollection();
+    await this.client.deleteCollection(this.config.collection);
+    this.ready = undefined;
+  }
+
+  /**
+   * Create the collection unless it exists
+   */
+  private ensureCollection(): Promise<void> {
+    this.ready ??= (async () => {
+      const { exists } = await this.client.collectionExists(this.config.collection);
+      if (!exists) {
+        await this.client.createCollection(this.config.collection, {
+          vectors: { size: this.config.dimension, distance: toQdrantDistance(this.config.metric) },
+        });
+      }
+    })().catch(error => {
+      this.ready = undefined;
+      throw error;
+    });
+    return this.ready;
+  }
+}
+
+/**
+ * Qdrant accepts UUIDs and unsigned integers as point IDs; other IDs are
+ * mapped to a stable UUID and kept in the payload
+ */
+function toPointId(id: string): string | number {
+  if (isUuid(id)) {
+    return id;
+  }
+  if (/^(0|[1-9]\d*)$/.test(id) && Number.isSafeInteger(Number(id))) {
+    return Number(id);
+  }
+  return uuidv5(id, POINT_ID_NAMESPACE);
+}
+
+function toQdrantDistance(metric: DistanceMetric): 'Cosine' | 'Euclid' | 'Dot' {
+  switch (metric) {
+    case DistanceMetric.EUCLIDEAN:
+      return 'Euclid';
+    case DistanceMetric.DOT:
+      return 'Dot';
+    default:
+      return 'Cosine';
+  }
+}
@@ -8,6 +8,8 @@
  * @category RAG
  */
 
+import path from 'path';
+import { cloneDeep } from 'lodash';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 
@@ -15,12 +17,22 @@ import type { LLMProvider } from '../types/llm';
 import type { Chunker } from './chunker';
 import { BaseChunker, ChunkingStrategy } from './chunker';
 import type { EmbeddingGenerator } from './embeddings';
-import { createEmbeddingGenerator } from './embeddings';
+import { createEmbeddingGenerator, EmbeddingConfigSchema } from './embeddings';
 import type { VectorStore } from './vector-store';
 import { createVectorStore } from './vector-store';
 import type { Chunk, SearchResult } from '../types/rag';
 import type { HybridSearchResult } from './hybrid-search';
 import { HybridSearch, HybridSearchConfigSchema } from './hybrid-search';
+import type { Reranker } from './reranker';
+import { createReranker, RerankConfigSchema } from './reranker';
+import { estimateTokens } from '../memory/consolidation';
+import { DocumentRegistry, hashContent } from './document-registry';
+import type { CitationOptions, CitedAnswer } from './citations';
+import { generateCitedAnswer } from './citations';
+import type { SearchScope } from './metadata-filter';
+import { MetadataFilterSchema, NAMESPACE_KEY, scopeFilter } from './metadata-filter';
+import type { DocumentStore } from '../document/document-store';
+import { BasicDocumentStore, DocumentStoreConfigSchema } from '../document/document-store';
 
 /**
  * Search mode for RAG system
@@ -69,10 +81,27 @@ export const RAGSystemConfigSchema = z.object({
   
   /** Chunking strategy to use */
   chunkingStrategy: z.nativeEnum(ChunkingStrategy).default(ChunkingStrategy.PARAGRAPH),
+
+  /** Embedding configuration used by `RAGSystem.create` */
+  embedding: EmbeddingConfigSchema.partial().optional(),
+  
+  /** Second-stage reranking of retrieved chunks; disabled when unset */
+  rerank: RerankConfigSchema.optional(),
+  
+  /** File keeping the document registry across restarts; in memory only when unset */
+  registryPath: z.string().optional(),
+  
+  /** Namespace of documents and searches that name none */
+  namespace: z.string().optional(),
 });
 
 export type RAGSystemConfig = z.infer<typeof RAGSystemConfigSchema>;
 
+/**
+ * RAG system options, with nested defaults left optional
+ */
+export type RAGSystemOptions = z.input<typeof RAGSystemConfigSchema>;
+
 /**
  * Document to be added to the RAG system
  */
@@ -81,6 +110,30 @@ export interface Document {
   content: string;
   /** Document metadata */
   metadata?: Record<string, any>;
+  /**
+   * Source path or ID. Documents with a source are tracked by the registry:
+   * unchanged content is skipped and changed content replaces the old chunks.
+   */
+  source?: string;
+  /** Namespace isolating the document's chunks; the configured namespace when unset */
+  namespace?: string;
+}
+
+/**
+ * Outcome of ingesting a document
+ */
+export type IngestStatus = 'added' | 'updated' | 'unchanged';
+
+/**
+ * Outcome of synchronizing a directory, as lists of source paths
+ */
+export interface SyncResult {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  removed: string[];
+  /** Files that could not be loaded; their chunks are kept */
+  failed: Array<{ source: string; error: string }>;
 }
 
 /**
@@ -92,7 +145,10 @@ export class RAGSystem {
   private embeddingGenerator: EmbeddingGenerator;
   private vectorStore: VectorStore;
   private hybridSearch: HybridSearch;
+  private reranker?: Reranker;
   private config: RAGSystemConfig;
+  /** Sources ingested so far, with their content hashes and chunk IDs */
+  readonly registry: DocumentRegistry;
   
   /**
    * Create a new RAG system
@@ -107,13 +163,14 @@ export class RAGSystem {
     chunker: Chunker,
     embeddingGenerator: EmbeddingGenerator,
     vectorStore: VectorStore,
-    config?: Partial<RAGSystemConfig>
+    config?: RAGSystemOptions
   ) {
     this.llmProvider = llmProvider;
     this.chunker = chunker;
     this.embeddingGenerator = embeddingGenerator;
     this.vectorStore = vectorStore;
     this.config = RAGSystemConfigSchema.parse(config || {});
+    this.registry = new DocumentRegistry(this.config.registryPath);
     
     // Initialize hybrid search
     this.hybridSearch = new HybridSearch(
@@ -121,6 +178,18 @@ export class RAGSystem {
       this.embeddingGenerator,
       this.config.hybridSearch
     );
+    
+    if (this.config.rerank) {
+      this.reranker = createReranker(this.config.rerank, this.llmProvider, this.embeddingGenerator);
+    }
+  }
+  
+  /**
+   * Set the reranker applied after retrieval, replacing the configured one
+   * @param reranker Reranker, or undefined to disable reranking
+   */
+  setReranker(reranker?: Reranker): void {
+    this.reranker = reranker;
   }
   
   /**
@@ -129,7 +198,7 @@ export class RAGSystem {
    * @param config RAG system configuration
    * @returns RAG system instance
    */
-  static create(llmProvider: LLMProvider, config?: Partial<RAGSystemConfig>): RAGSystem {
+  static create(llmProvider: LLMProvider, config?: RAGSystemOptions): RAGSystem {
     const parsedConfig = RAGSystemConfigSchema.parse(config || {});
     
     // Create chunker with specified strategy
@@ -139,8 +208,11 @@ export class RAGSystem {
       // that would be added in the future
     });
     
-    const embeddingGenerator = createEmbeddingGenerator(llmProvider);
-    const vectorStore = createVectorStore('memory');
+    const embeddingGenerator = createEmbeddingGenerator(llmProvider, parsedConfig.embedding);
+    const vectorStore = createVectorStore(
+      'memory',
+      embeddingGenerator.dimension ? { dimension: embeddingGenerator.dimension } : undefined
+    );
     
     return new RAGSystem(
       llmProvider,
@@ -154,31 +226,165 @@ export class RAGSystem {
   /**
    * Add a document to the RAG system
    * @param document Document to add
-   * @returns Array of added chunks
+   * @returns Array of added chunks; empty when the source is unchanged
    */
   async addDocument(document: Document): Promise<Chunk[]> {
-    // 1. Split document into chunks
-    const chunks = this.chunker.chunk(document.content, document.metadata);
+    const { chunks } = await this.ingest(document);
+    if (document.source) {
+      await this.registry.save();
+    }
+    return chunks;
+  }
+  
+  /**
+   * Remove all chunks of a source
+   * @param source Source path or ID
+   * @param namespace Namespace of the source
+   * @returns Whether the source was registered
+   */
+  async removeDocument(source: string, namespace = this.config.namespace): Promise<boolean> {
+    await this.registry.load();
+    const entry = this.registry.get(source, namespace);
+    if (!entry) {
+      return false;
+    }
+    
+    await this.removeChunks(entry.chunkIds);
+    this.registry.delete(source, namespace);
+    await this.registry.save();
+    return true;
+  }
+  
+  /**
+   * Bring the chunks of a directory in step with its files: new files are
+   * added, changed files replace their chunks, unchanged files are skipped
+   * and the chunks of deleted files are purged
+   * @param dirPath Directory to synchronize, searched recursively
+   * @param options Document store to load with, file extensions to load and
+   * the namespace to sync into
+   * @returns Source paths by outcome
+   */
+  async syncDirectory(
+    dirPath: string,
+    options: { store?: DocumentStore; extensions?: string[]; namespace?: string } = {}
+  ): Promise<SyncResult> {
+    await this.registry.load();
+    const namespace = options.namespace ?? this.config.namespace;
+    const directory = path.resolve(dirPath).replace(/\\/g, '/');
+    const store = options.store ?? new BasicDocumentStore();
+    const parsingOptions = DocumentStoreConfigSchema.shape.parsingOptions.parse({
+      recursive: true,
+      supportedExtensions: options.extensions,
+    });
+    const results = await store.loadDocuments(directory, { parsingOptions });
+    
+    // Never purge everything because the directory itself could not be read
+    if (results.length === 1 && !results[0].success && results[0].document.path === directory) {
+      throw new Error(results[0].error ?? `Failed to load documents from ${directory}`);
+    }
+    
+    const sync: SyncResult = { added: [], updated: [], unchanged: [], removed: [], failed: [] };
+    const seen = new Set<string>();
+    for (const result of results) {
+      const source = result.document.path!;
+      seen.add(source);
+      if (!result.success) {
+        sync.failed.push({ source, error: result.error ?? 'Unknown error' });
+        continue;
+      }
+      
+      const { status } = await this.ingest({
+        source,
+        namespace,
+        content: result.document.content,
+        metadata: { path: path.relative(directory, source).replace(/\\/g, '/'), name: result.document.name },
+      });
+      sync[status].push(source);
+    }
+    
+    for (const source of this.registry.sources(directory, namespace)) {
+      if (!seen.has(source)) {
+        await this.removeChunks(this.registry.get(source, namespace)!.chunkIds);
+        this.registry.delete(source, namespace);
+        sync.removed.push(source);
+      }
+    }
+    
+    await this.registry.save();
+    return sync;
+  }
+  
+  /**
+   * Index a document, consulting the registry when it has a source; the
+   * old chunks of a changed source are removed once the new ones are stored
+   */
+  private async ingest(document: Document): Promise<{ status: IngestStatus; chunks: Chunk[] }> {
+    if (!document.source) {
+      return { status: 'added', chunks: await this.indexDocument(document) };
+    }
+    
+    await this.registry.load();
+    const namespace = document.namespace ?? this.config.namespace;
+    const hash = hashContent(document.content);
+    const existing = this.registry.get(document.source, namespace);
+    // The registry may outlive the store, e.g. an in-memory store after a restart
+    if (existing?.hash === hash && (await this.vectorStore.get(existing.chunkIds)).size === existing.chunkIds.length) {
+      return { status: 'unchanged', chunks: [] };
+    }
+    
+    const chunks = await this.indexDocument({
+      ...document,
+      metadata: { ...document.metadata, source: document.source },
+    });
+    if (existing) {
+      await this.removeChunks(existing.chunkIds);
+    }
+    this.registry.set(
+      document.source,
+      { hash, chunkIds: chunks.map(chunk => chunk.id), updatedAt: Date.now() },
+      namespace
+    );
+    return { status: existing ? 'updated' : 'added', chunks };
+  }
+  
+  /**
+   * Chunk, embed and store a document
+   */
+  private async indexDocument(document: Document): Promise<Chunk[]> {
+    // 1. Split document into chunks, with line ranges and structure when the
+    //    chunker provides them
+    const chunks = this.chunker.chunkWithMetadata
+      ? await this.chunker.chunkWithMetadata(document.content, document.metadata)
+      : this.chunker.chunk(document.content, document.metadata).map(content => ({ content, metadata: {} }));
     
     // 2. Generate embeddings for chunks
-    const embeddings = await this.embeddingGenerator.embedBatch(chunks);
+    const embeddings = await this.embeddingGenerator.embedBatch(chunks.map(chunk => chunk.content));
     
     // 3. Store chunks in vector store
     const addedChunks: Chunk[] = [];
+    const namespace = document.namespace ?? this.config.namespace;
     
     for (let i = 0; i < chunks.length; i++) {
       const id = uuidv4();
-      const metadata = {
+      const content = chunks[i].content;
+      const metadata: Record<string, any> = {
         ...document.metadata,
+        ...chunks[i].metadata,
         chunkIndex: i,
         totalChunks: chunks.length,
       };
+      // The namespace field is reserved, so documents cannot claim another tenant's
+      delete metadata[NAMESPACE_KEY];
+      if (namespace !== undefined) {
+        metadata[NAMESPACE_KEY] = namespace;
+      }
       
-      await this.vectorStore.add(id, embeddings[i], metadata, chunks[i]);
+      await this.vectorStore.add(id, embeddings[i], metadata, content);
+      this.hybridSearch.addDocuments([{ id, content, metadata }]);
       
       addedChunks.push({
         id,
-        content: chunks[i],
+        content,
         embedding: embeddings[i],
         metadata,
       });
@@ -209,16 +415,49 @@ export class RAGSystem {
    */
   async removeChunks(ids: string[]): Promise<void> {
     await this.vectorStore.delete(ids);
+    this.hybridSearch.removeDocuments(ids);
   }
   
   /**
    * Search for relevant documents
+   * 
+   * With a reranker, `rerank.candidates` chunks are retrieved first and the
+   * reranker picks the best `topK` of them. Only chunks of one namespace are
+   * searched: the one in `scope`, else the configured one, else chunks stored
+   * without a namespace.
    * @param query Search query
    * @param topK Maximum number of results
    * @param minScore Minimum similarity score
+   * @param scope Metadata filter and namespace
    * @returns Array of search results
    */
-  async search(query: string, topK = this.config.topK, minScore = this.config.minScore): Promise<SearchResult[]> {
+  async search(
+    query: string,
+    topK = this.config.topK,
+    minScore = this.config.minScore,
+    scope: SearchScope = {}
+  ): Promise<SearchResult[]> {
+    const resolvedScope: SearchScope = {
+      filter: scope.filter && MetadataFilterSchema.parse(scope.filter),
+      namespace: scope.namespace ?? this.config.namespace,
+    };
+    if (!this.reranker) {
+      return this.retrieve(query, topK, minScore, resolvedScope);
+    }
+    
+    const candidates = await this.retrieve(
+      query,
+      Math.max(topK, this.config.rerank?.candidates ?? topK),
+      this.config.rerank?.minScore ?? minScore,
+      resolvedScope
+    );
+    return this.reranker.rerank(query, candidates, topK);
+  }
+  
+  /**
+   * First-stage retrieval using the configured search mode
+   */
+  private async retrieve(query: string, topK: number, minScore: number, scope: SearchScope): Promise<SearchResult[]> {
     try {
       let searchResults: SearchResult[] = [];
       
@@ -226,24 +465,23 @@ export class RAGSystem {
       switch (this.config.searchMode) {
         case SearchMode.HYBRID:
           // Use hybrid search
-          const hybridResults = await this.hybridSearch.search(query, topK, minScore);
+          const hybridResults = await this.hybridSearch.search(query, topK, minScore, scope);
           searchResults = this.convertHybridResults(hybridResults);
           break;
           
         case SearchMode.KEYWORD:
-          // TODO: Implement pure keyword search
-          // For now, fall back to semantic search
-          console.warn('Pure keyword search not fully implemented, falling back to semantic search');
-          const embedding = await this.embeddingGenerator.embed(query);
-          const vectorResults = await this.vectorStore.search(embedding, topK, minScore);
-          searchResults = vectorResults.map(result => this.convertToSearchResult(result));
+          // BM25 scores are unbounded, so minScore does not apply
+          await this.hybridSearch.loadKeywordIndex();
+          searchResults = this.hybridSearch
+            .keywordSearch(query, topK, scope)
+            .map(result => this.convertToSearchResult(result));
           break;
           
         case SearchMode.SEMANTIC:
         default:
           // Use standard vector search
           const queryEmbedding = await this.embeddingGenerator.embed(query);
-          const semanticResults = await this.vectorStore.search(queryEmbedding, topK, minScore);
+          const semanticResults = await this.vectorStore.search(queryEmbedding, topK, minScore, scopeFilter(scope));
           searchResults = semanticResults.map(result => this.convertToSearchResult(result));
       }
       
@@ -302,11 +540,12 @@ export class RAGSystem {
   /**
    * Generate a response using RAG
    * @param query User query
+   * @param scope Metadata filter and namespace of the search
    * @returns Generated response
    */
-  async generate(query: string): Promise<string> {
+  async generate(query: string, scope?: SearchScope): Promise<string> {
     // 1. Search for relevant chunks
-    const searchResults = await this.search(query);
+    const searchResults = await this.search(query, undefined, undefined, scope);
     
     // 2. Prepare context for LLM
     const context = this.prepareContext(searchResults, query);
@@ -318,14 +557,15 @@ export class RAGSystem {
   /**
    * Generate a response with search results for debugging/transparency
    * @param query User query
+   * @param scope Metadata filter and namespace of the search
    * @returns Generated response and search results
    */
-  async generateWithResults(query: string): Promise<{
+  async generateWithResults(query: string, scope?: SearchScope): Promise<{
     response: string;
     searchResults: SearchResult[];
   }> {
     // 1. Search for relevant chunks
-    const searchResults = await this.search(query);
+    const searchResults = await this.search(query, undefined, undefined, scope);
     
     // 2. Prepare context for LLM
     const context = this.prepareContext(searchResults, query);
@@ -339,6 +579,31 @@ export class RAGSystem {
     };
   }
   
+  /**
+   * Generate a response whose sentences cite the retrieved chunks, with each
+   * citation resolved to a chunk ID and character span and unsupported
+   * sentences flagged or removed
+   * @param query User query
+   * @param options Citation options
+   * @param scope Metadata filter and namespace of the search
+   * @returns Attributed answer and the retrieved chunks
+   */
+  async generateWithCitations(
+    query: string,
+    options?: Partial<CitationOptions>,
+    scope?: SearchScope
+  ): Promise<CitedAnswer> {
+    const searchResults = await this.search(query, undefined, undefined, scope);
+    return generateCitedAnswer(this.llmProvider, query, searchResults, options);
+  }
+  
+  /**
+   * Get a copy of the current configuration
+   */
+  getConfig(): RAGSystemConfig {
+    return cloneDeep(this.config);
+  }
+  
   /**
    * Update the RAG system configuration
    * @param config New configuration
@@ -356,6 +621,13 @@ export class RAGSystem {
       this.hybridSearch.updateConfig(config.hybridSearch);
     }
     
+    // Rebuild the reranker if reranking was reconfigured
+    if ('rerank' in config) {
+      this.reranker = newConfig.rerank
+        ? createReranker(newConfig.rerank, this.llmProvider, this.embeddingGenerator)
+        : undefined;
+    }
+    
     // Update chunker config if chunking strategy was changed
     if (config.chunkingStrategy || config.useSemanticChunking !== undefined) {
       this.chunker.updateConfig({
@@ -369,16 +641,24 @@ export class RAGSystem {
    * Prepare context from search results
    */
   private prepareContext(searchResults: SearchResult[], query: string): string {
-    // Format search results into a context string
-    const documents = searchResults.map((result, index) => {
+    // Format search results into a context string, best first, until the
+    // token budget is spent
+    const entries: string[] = [];
+    let tokens = 0;
+    for (const [index, result] of searchResults.entries()) {
       let text = `[${index + 1}] [Score: ${result.score.toFixed(2)}]`;
       
       if (this.config.includeContent) {
         text += `\n${result.chunk.content}`;
       }
       
-      return text;
-    }).join('\n\n');
+      tokens += estimateTokens(text);
+      if (entries.length > 0 && tokens > this.config.maxContextTokens) {
+        break;
+      }
+      entries.push(text);
+    }
+    const documents = entries.join('\n\n');
     
     // Replace placeholders in template
     return this.config.systemPromptTemplate
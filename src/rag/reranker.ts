@@ -0,0 +1,301 @@
+/**
+ * Rerankers
+ *
+ * Second-stage ranking of retrieved chunks: first-stage retrieval fetches a
+ * generous candidate set cheaply, and a reranker orders it more carefully
+ * before the top results are handed to the LLM.
+ *
+ * @module rag/reranker
+ * @category RAG
+ */
+
+import { z } from 'zod';
+import type { LLMProvider } from '../types/llm';
+import type { SearchResult } from '../types/rag';
+import type { EmbeddingGenerator } from './embeddings';
+import { loadWithTransformers } from './embeddings';
+import { generateObjectWith } from '../utils/structured-output';
+
+/**
+ * Reranker implementations
+ */
+export enum RerankerType {
+  /** Listwise ranking by an LLM */
+  LLM = 'llm',
+  /** Local cross-encoder scoring each query-passage pair */
+  CROSS_ENCODER = 'cross_encoder',
+  /** Maximal marginal relevance diversification */
+  MMR = 'mmr',
+}
+
+/**
+ * Cross-encoder model used when none is configured
+ */
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/**
+ * Reranking configuration schema
+ */
+export const RerankConfigSchema = z.object({
+  /** Reranker to use */
+  type: z.nativeEnum(RerankerType),
+  /** Number of candidates retrieved for reranking */
+  candidates: z.number().int().positive().default(20),
+  /** Minimum first-stage score of candidates; the system minScore when unset */
+  minScore: z.number().optional(),
+  /** Cross-encoder model, a Hugging Face model ID */
+  model: z.string().default(DEFAULT_CROSS_ENCODER_MODEL),
+  /** Directory holding local cross-encoder files, for offline use; remote downloads are disabled when set */
+  modelPath: z.string().optional(),
+  /** MMR trade-off between relevance (1) and diversity (0) */
+  lambda: z.number().min(0).max(1).default(0.5),
+  /** Characters of each passage shown to the LLM */
+  maxPassageLength: z.number().int().positive().default(1000),
+});
+
+export type RerankConfig = z.infer<typeof RerankConfigSchema>;
+
+/**
+ * Interface for rerankers
+ */
+export interface Reranker {
+  /**
+   * Order search results by relevance to a query
+   * @param query Search query
+   * @param results First-stage results
+   * @param topK Maximum number of results to return
+   * @returns Reranked results, best first
+   */
+  rerank(query: string, results: SearchResult[], topK: number): Promise<SearchResult[]>;
+}
+
+/**
+ * Replace the score of a result, keeping the first-stage score in metadata
+ */
+function withScore(result: SearchResult, score: number): SearchResult {
+  return {
+    ...result,
+    score,
+    metadata: { ...result.metadata, retrievalScore: result.score },
+  };
+}
+
+/**
+ * Ranking the model returns
+ */
+const RankingSchema = z.object({
+  /** Passage numbers, most relevant first */
+  ranking: z.array(z.number().int()),
+});
+
+/**
+ * Listwise reranker asking an LLM to order all candidates at once.
+ *
+ * Passages the model leaves out keep their first-stage order after the ranked
+ * ones. Scores fall linearly from 1 with the rank.
+ */
+export class LLMReranker implements Reranker {
+  private llm: LLMProvider;
+  private maxPassageLength: number;
+
+  /**
+   * @param llm LLM provider
+   * @param maxPassageLength Characters of each passage shown to the model
+   */
+  constructor(llm: LLMProvider, maxPassageLength = 1000) {
+    this.llm = llm;
+    this.maxPassageLength = maxPassageLength;
+  }
+
+  async rerank(query: string, results: SearchResult[], topK: number): Promise<SearchResult[]> {
+    if (results.length <= 1) {
+      return results.slice(0, topK);
+    }
+
+    const passages = results
+      .map((result, index) => `[${index + 1}] ${result.chunk.content.slice(0, this.maxPassageLength)}`)
+      .join('\n\n');
+    const prompt = `Rank the passages below by how well they answer the query.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Return the passage numbers in "ranking", most relevant first.`;
+
+    const { ranking } = await generateObjectWith(this.llm, prompt, RankingSchema);
+
+    const order: number[] = [];
+    for (const position of [...ranking.map(n => n - 1), ...results.keys()]) {
+      if (position >= 0 && position < results.length && !order.includes(position)) {
+        order.push(position);
+      }
+    }
+    return order
+      .slice(0, topK)
+      .map((position, rank) => withScore(results[position], 1 - rank / results.length));
+  }
+}
+
+/**
+ * Function scoring query-passage pairs with a cross-encoder
+ */
+export type PairScorer = (query: string, passages: string[]) => Promise<number[]>;
+
+/**
+ * Function loading the pair scorer of a model
+ */
+export type PairScorerLoader = (model: string, modelPath?: string) => Promise<PairScorer>;
+
+/**
+ * Reranker scoring every candidate against the query with a local
+ * cross-encoder. By default models are loaded with the optional
+ * `@huggingface/transformers` package; scores are relevance probabilities.
+ */
+export class CrossEncoderReranker implements Reranker {
+  private model: string;
+  private modelPath?: string;
+  private loader: PairScorerLoader;
+  private scorer?: Promise<PairScorer>;
+
+  /**
+   * @param model Cross-encoder model, a Hugging Face model ID
+   * @param modelPath Directory holding local model files; the model is never downloaded when set
+   * @param loader Loads the model, instead of `@huggingface/transformers`
+   */
+  constructor(
+    model = DEFAULT_CROSS_ENCODER_MODEL,
+    modelPath?: string,
+    loader: PairScorerLoader = loadTransformersScorer
+  ) {
+    this.model = model;
+    this.modelPath = modelPath;
+    this.loader = loader;
+  }
+
+  async rerank(query: string, results: SearchResult[], topK: number): Promise<SearchResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    this.scorer ??= this.loader(this.model, this.modelPath).catch(error => {
+      this.scorer = undefined;
+      throw error;
+    });
+    const scores = await (await this.scorer)(query, results.map(result => result.chunk.content));
+
+    return results
+      .map((result, index) => withScore(result, scores[index]))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * Load a cross-encoder with `@huggingface/transformers`
+ */
+async function loadTransformersScorer(model: string, modelPath?: string): Promise<PairScorer> {
+  const [tokenizer, classifier] = await loadWithTransformers(modelPath, transformers => Promise.all([
+    transformers.AutoTokenizer.from_pretrained(model),
+    transformers.AutoModelForSequenceClassification.from_pretrained(model),
+  ]));
+
+  return async (query, passages) => {
+    const inputs = tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await classifier(inputs);
+    return (logits.tolist() as number[][]).map(([logit]) => 1 / (1 + Math.exp(-logit)));
+  };
+}
+
+/**
+ * Maximal marginal relevance reranker.
+ *
+ * Picks candidates one at a time, trading relevance to the query against
+ * similarity to the candidates already picked, so near-duplicate chunks do
+ * not crowd out other information. Results keep their first-stage scores.
+ */
+export class MMRReranker implements Reranker {
+  private embeddings: EmbeddingGenerator;
+  private lambda: number;
+
+  /**
+   * @param embeddings Embedding generator used for the query and the passages
+   * @param lambda Trade-off between relevance (1) and diversity (0)
+   */
+  constructor(embeddings: EmbeddingGenerator, lambda = 0.5) {
+    this.embeddings = embeddings;
+    this.lambda = lambda;
+  }
+
+  async rerank(query: string, results: SearchResult[], topK: number): Promise<SearchResult[]> {
+    if (results.length <= 1) {
+      return results.slice(0, topK);
+    }
+
+    const [queryVector, ...vectors] = await this.embeddings.embedBatch([
+      query,
+      ...results.map(result => result.chunk.content),
+    ]);
+    const relevance = vectors.map(vector => cosine(queryVector, vector));
+    const remaining = new Set(results.keys());
+    const selected: number[] = [];
+
+    while (selected.length < topK && remaining.size > 0) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (const index of remaining) {
+        const redundancy = selected.length === 0
+          ? 0
+          : Math.max(...selected.map(other => cosine(vectors[index], vectors[other])));
+        const score = this.lambda * relevance[index] - (1 - this.lambda) * redundancy;
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+        }
+      }
+      selected.push(best);
+      remaining.delete(best);
+    }
+
+    return selected.map(index => results[index]);
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Create the reranker selected by a configuration
+ * @param config Reranking configuration
+ * @param llm LLM provider, used by the LLM reranker
+ * @param embeddings Embedding generator, used by the MMR reranker
+ * @returns Reranker instance
+ */
+export function createReranker(
+  config: RerankConfig,
+  llm: LLMProvider,
+  embeddings: EmbeddingGenerator
+): Reranker {
+  switch (config.type) {
+    case RerankerType.LLM:
+      return new LLMReranker(llm, config.maxPassageLength);
+    case RerankerType.CROSS_ENCODER:
+      return new CrossEncoderReranker(config.model, config.modelPath);
+    case RerankerType.MMR:
+      return new MMRReranker(embeddings, config.lambda);
+  }
+}
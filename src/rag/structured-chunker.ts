@@ -0,0 +1,584 @@
+/**
+ * Structure-aware Chunking
+ *
+ * Splitters following the structure of Markdown, source code and HTML
+ * instead of treating the input as prose. Every chunk records the 1-based,
+ * inclusive line range it was taken from, so answers can cite exact file
+ * locations.
+ *
+ * @module rag/structured-chunker
+ * @category RAG
+ */
+
+import type TypeScript from 'typescript';
+import type { TextChunk } from './chunker';
+
+/**
+ * Source languages understood by the code splitter
+ */
+export type CodeLanguage = 'typescript' | 'javascript' | 'python';
+
+/**
+ * Range of lines, as 0-based inclusive indexes
+ */
+interface LineSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Named unit of source code spanning whole lines
+ */
+interface CodeSegment extends LineSpan {
+  kind: string;
+  name?: string;
+}
+
+/**
+ * Detect the language of a source file from its name
+ * @param fileName File name or path
+ * @returns Language, or undefined for unknown extensions
+ */
+export function detectLanguage(fileName: string): CodeLanguage | undefined {
+  const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  switch (extension) {
+    case 'ts':
+    case 'tsx':
+    case 'mts':
+    case 'cts':
+      return 'typescript';
+    case 'js':
+    case 'jsx':
+    case 'mjs':
+    case 'cjs':
+      return 'javascript';
+    case 'py':
+    case 'pyi':
+      return 'python';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Split Markdown into one chunk per heading section.
+ *
+ * Each chunk carries `headerPath`, the titles of the enclosing headings from
+ * the top level down to its own heading. Headings inside fenced code blocks
+ * are ignored.
+ * @param text Markdown text
+ * @param maxSize Maximum chunk size in characters; longer sections are split
+ * @returns Chunks in document order
+ */
+export function chunkMarkdown(text: string, maxSize: number): TextChunk[] {
+  const lines = text.split(/\r?\n/);
+  const chunks: TextChunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let sectionStart = 0;
+  let fence: string | undefined;
+
+  const closeSection = (end: number): void => {
+    const current = headings[headings.length - 1];
+    chunks.push(...spanChunks(lines, { start: sectionStart, end }, maxSize, {
+      headerPath: headings.map(heading => heading.title),
+      heading: current?.title,
+      level: current?.level ?? 0,
+    }));
+  };
+
+  lines.forEach((line, index) => {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+    if (marker) {
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+      return;
+    }
+
+    const heading = fence ? null : line.match(/^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      closeSection(index - 1);
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, title: heading[2] });
+      sectionStart = index;
+    }
+  });
+  closeSection(lines.length - 1);
+
+  return chunks;
+}
+
+/** The `typescript` package, once loaded */
+let typescript: Promise<typeof TypeScript> | undefined;
+
+/**
+ * Load the `typescript` package, a peer dependency only needed for code chunks
+ */
+function loadTypeScript(): Promise<typeof TypeScript> {
+  typescript ??= import('typescript').then(
+    module => module.default,
+    error => {
+      typescript = undefined;
+      throw new Error(`Splitting TypeScript and JavaScript needs the typescript package: ${error}`);
+    }
+  );
+  return typescript;
+}
+
+/**
+ * Split source code on function and class boundaries.
+ *
+ * Top-level declarations become chunks of their own, with their leading
+ * comments; consecutive other statements such as imports are grouped. Classes
+ * longer than `maxSize` are split between members. Each chunk carries `kind`
+ * and, for declarations, `symbol`. TypeScript and JavaScript are parsed with
+ * the `typescript` package, which is only loaded on first use.
+ * @param text Source code
+ * @param language Source language
+ * @param maxSize Maximum chunk size in characters
+ * @returns Chunks in source order
+ * @throws If TypeScript or JavaScript is split and the package is not installed
+ */
+export async function chunkCode(text: string, language: CodeLanguage, maxSize: number): Promise<TextChunk[]> {
+  const lines = text.split(/\r?\n/);
+  const chunks: TextChunk[] = [];
+
+  if (language === 'python') {
+    for (const segment of scanPython(lines, 0, lines.length - 1, 0)) {
+      const members = segment.kind === 'class' ? pythonMembers(lines, segment) : [];
+      chunks.push(...segmentChunks(lines, segment, members, maxSize, language));
+    }
+    return chunks;
+  }
+
+  const ts = await loadTypeScript();
+  const sourceFile = ts.createSourceFile(
+    language === 'javascript' ? 'source.js' : 'source.ts',
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS
+  );
+  const segments: Array<CodeSegment & { node: TypeScript.Statement }> = [];
+  for (const statement of sourceFile.statements) {
+    const last = segments[segments.length - 1];
+    const span = nodeSpan(ts, sourceFile, statement, last);
+    const kind = statementKind(ts, statement);
+    if (kind === 'statement' && last?.kind === 'statement') {
+      last.end = span.end;
+    } else {
+      segments.push({ ...span, kind, name: declarationName(ts, sourceFile, statement), node: statement });
+    }
+  }
+
+  for (const segment of segments) {
+    const members: CodeSegment[] = [];
+    if (ts.isClassDeclaration(segment.node)) {
+      for (const member of segment.node.members) {
+        members.push({
+          ...nodeSpan(ts, sourceFile, member, members[members.length - 1] ?? { start: segment.start, end: segment.start }),
+          kind: 'member',
+          name: ts.isConstructorDeclaration(member) ? 'constructor' : member.name?.getText(sourceFile),
+        });
+      }
+    }
+    chunks.push(...segmentChunks(lines, segment, members, maxSize, language));
+  }
+  return chunks;
+}
+
+/**
+ * Turn a code segment into chunks, splitting oversized classes between members
+ */
+function segmentChunks(
+  lines: string[],
+  segment: CodeSegment,
+  members: CodeSegment[],
+  maxSize: number,
+  language: CodeLanguage
+): TextChunk[] {
+  const metadata = { language, kind: segment.kind, ...(segment.name ? { symbol: segment.name } : {}) };
+  if (spanSize(lines, segment) <= maxSize || members.length === 0) {
+    return spanChunks(lines, segment, maxSize, metadata);
+  }
+
+  // Members are packed into groups; the class header goes with the first
+  // group and the closing lines with the last
+  const chunks: TextChunk[] = [];
+  let group: CodeSegment[] = [];
+  let groupStart = segment.start;
+  const flush = (end: number): void => {
+    chunks.push(...spanChunks(lines, { start: groupStart, end }, maxSize, {
+      ...metadata,
+      members: group.map(member => member.name).filter(Boolean),
+    }));
+    group = [];
+    groupStart = end + 1;
+  };
+
+  members.forEach((member, index) => {
+    const memberEnd = index + 1 < members.length ? members[index + 1].start - 1 : segment.end;
+    if (group.length > 0 && spanSize(lines, { start: groupStart, end: memberEnd }) > maxSize) {
+      flush(member.start - 1);
+    }
+    group.push(member);
+  });
+  flush(segment.end);
+  return chunks;
+}
+
+/**
+ * Line span of a node including its leading comments; a comment trailing
+ * the previous node on its last line is left to that node
+ */
+function nodeSpan(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile,
+  node: TypeScript.Node,
+  previous?: LineSpan
+): LineSpan {
+  const comments = ts.getLeadingCommentRanges(sourceFile.text, node.pos);
+  const start = comments?.length ? comments[0].pos : node.getStart(sourceFile);
+  return {
+    start: Math.max(sourceFile.getLineAndCharacterOfPosition(start).line, previous ? previous.end + 1 : 0),
+    end: sourceFile.getLineAndCharacterOfPosition(node.end).line,
+  };
+}
+
+function statementKind(ts: typeof TypeScript, statement: TypeScript.Statement): string {
+  if (ts.isFunctionDeclaration(statement)) return 'function';
+  if (ts.isClassDeclaration(statement)) return 'class';
+  if (ts.isInterfaceDeclaration(statement)) return 'interface';
+  if (ts.isTypeAliasDeclaration(statement)) return 'type';
+  if (ts.isEnumDeclaration(statement)) return 'enum';
+  if (ts.isModuleDeclaration(statement)) return 'namespace';
+  if (ts.isVariableStatement(statement)) return 'variable';
+  if (ts.isExportAssignment(statement)) return 'export';
+  return 'statement';
+}
+
+function declarationName(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile,
+  statement: TypeScript.Statement
+): string | undefined {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.map(declaration => declaration.name.getText(sourceFile)).join(', ');
+  }
+  if (ts.isExportAssignment(statement)) {
+    return 'default';
+  }
+  const name = (statement as TypeScript.Statement & { name?: TypeScript.Node }).name;
+  if (name) {
+    return name.getText(sourceFile);
+  }
+  return ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) ? 'default' : undefined;
+}
+
+/**
+ * Split the Python statements between two lines at one indentation level.
+ *
+ * Decorators and comments are attached to the statement that follows them,
+ * and consecutive plain statements are grouped. Brackets and triple-quoted
+ * strings spanning several lines are tracked so their inner lines are never
+ * taken for statements.
+ */
+function scanPython(lines: string[], from: number, to: number, indent: number): CodeSegment[] {
+  const segments: CodeSegment[] = [];
+  const starts: CodeSegment[] = [];
+  let depth = 0;
+  let triple: string | undefined;
+
+  for (let index = from; index <= to; index++) {
+    const line = lines[index];
+    const body = line.trimStart();
+    if (depth === 0 && !triple && body !== '' && line.length - body.length <= indent) {
+      const definition = body.match(/^(?:async\s+)?def\s+(\w+)|^class\s+(\w+)/);
+      if (body.startsWith('@') || body.startsWith('#')) {
+        starts.push({ kind: 'prefix', start: index, end: index });
+      } else if (definition) {
+        starts.push({ kind: definition[1] ? 'function' : 'class', name: definition[1] ?? definition[2], start: index, end: index });
+      } else {
+        starts.push({ kind: 'statement', start: index, end: index });
+      }
+    }
+    ({ depth, triple } = scanPythonLine(line, depth, triple));
+  }
+
+  let prefixStart: number | undefined;
+  starts.forEach((start, position) => {
+    const end = position + 1 < starts.length ? starts[position + 1].start - 1 : to;
+    const segmentStart = prefixStart ?? start.start;
+    if (start.kind === 'prefix' && position + 1 < starts.length) {
+      prefixStart = segmentStart;
+      return;
+    }
+    prefixStart = undefined;
+
+    // Comments at the very end are kept as a plain statement
+    const kind = start.kind === 'prefix' ? 'statement' : start.kind;
+    const last = segments[segments.length - 1];
+    if (kind === 'statement' && last?.kind === 'statement') {
+      last.end = end;
+    } else {
+      segments.push({ kind, name: start.name, start: segmentStart, end });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Track bracket depth and open triple-quoted strings across a Python line
+ */
+function scanPythonLine(line: string, depth: number, triple?: string): { depth: number; triple?: string } {
+  for (let i = 0; i < line.length; i++) {
+    if (triple) {
+      if (line.startsWith(triple, i)) {
+        i += 2;
+        triple = undefined;
+      }
+      continue;
+    }
+    const char = line[i];
+    if (char === '#') {
+      break;
+    }
+    if (char === '"' || char === '\'') {
+      if (line.startsWith(char.repeat(3), i)) {
+        triple = char.repeat(3);
+        i += 2;
+        continue;
+      }
+      // Skip a single-line string
+      for (i++; i < line.length && line[i] !== char; i++) {
+        if (line[i] === '\\') i++;
+      }
+      continue;
+    }
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+  }
+  return { depth, triple };
+}
+
+/**
+ * Members of a Python class: the statements of its indented body
+ */
+function pythonMembers(lines: string[], segment: CodeSegment): CodeSegment[] {
+  const header = lines.findIndex((line, index) => index >= segment.start && /^\s*class\s/.test(line));
+  const body = lines.findIndex((line, index) => index > header && index <= segment.end && line.trim() !== '');
+  if (header < 0 || body < 0) {
+    return [];
+  }
+  const indent = lines[body].length - lines[body].trimStart().length;
+  return scanPython(lines, body, segment.end, indent);
+}
+
+/**
+ * Block-level elements whose boundaries separate text
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'ol', 'p', 'pre', 'table', 'td', 'th', 'tr', 'ul',
+]);
+
+/**
+ * Elements starting a chunk of their own
+ */
+const SECTION_TAGS = new Set(['article', 'aside', 'footer', 'header', 'main', 'nav', 'section']);
+
+/**
+ * Split HTML into one chunk per DOM section.
+ *
+ * Sectioning elements (`section`, `article`, `main`, ...) and headings start
+ * new chunks. Each chunk holds the text of its part of the page and carries
+ * `sectionPath`, the enclosing sectioning elements with their IDs, and
+ * `headerPath`, the enclosing headings. Scripts, styles and the document head
+ * are skipped; the page title is kept as `title`.
+ * @param text HTML source
+ * @param maxSize Maximum chunk size in characters; longer sections are split
+ * @returns Chunks in document order
+ */
+export function chunkHtml(text: string, maxSize: number): TextChunk[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineOf = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid; else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const title = text.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const chunks: TextChunk[] = [];
+  const sections: Array<{ label: string; headingDepth: number }> = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let parts: string[] = [];
+  let firstOffset = -1;
+  let lastOffset = -1;
+  let heading: { level: number; parts: string[] } | undefined;
+
+  const flush = (): void => {
+    const content = parts.join('').replace(/[ \t]+/g, ' ').replace(/ ?\n[\n ]*/g, '\n').trim();
+    if (content) {
+      const metadata = {
+        ...(title ? { title: decodeEntities(title).trim() } : {}),
+        sectionPath: sections.map(section => section.label),
+        headerPath: headings.map(entry => entry.title),
+        startLine: lineOf(firstOffset),
+        endLine: lineOf(lastOffset),
+      };
+      const pieces = splitText(content, maxSize);
+      pieces.forEach((piece, index) => {
+        chunks.push({ content: piece, metadata: pieces.length > 1 ? { ...metadata, part: index + 1 } : metadata });
+      });
+    }
+    parts = [];
+    firstOffset = -1;
+  };
+
+  const tokens = /<!--[\s\S]*?-->|<(script|style|head)\b[^>]*>[\s\S]*?<\/\1\s*>|<(\/?)([a-zA-Z][\w-]*)([^>]*)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(text)) !== null) {
+    const [token, , closing, rawTag, attributes] = match;
+    if (!rawTag) {
+      // Text, or a skipped comment, script, style or head
+      if (token.startsWith('<') && token.length > 1) continue;
+      const decoded = decodeEntities(token);
+      if (decoded.trim()) {
+        if (firstOffset < 0) firstOffset = match.index;
+        lastOffset = match.index + token.length - 1;
+      }
+      parts.push(decoded.replace(/\s+/g, ' '));
+      heading?.parts.push(decoded);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const level = /^h[1-6]$/.test(tag) ? Number(tag[1]) : 0;
+    if (SECTION_TAGS.has(tag)) {
+      flush();
+      if (closing) {
+        const section = sections.pop();
+        headings.length = Math.min(headings.length, section?.headingDepth ?? 0);
+      } else {
+        const id = attributes.match(/\bid\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+        sections.push({ label: id ? `${tag}#${id}` : tag, headingDepth: headings.length });
+      }
+    } else if (level && !closing) {
+      flush();
+      heading = { level, parts: [] };
+    } else if (level && closing && heading) {
+      const headingTitle = heading.parts.join('').replace(/\s+/g, ' ').trim();
+      const floor = sections[sections.length - 1]?.headingDepth ?? 0;
+      while (headings.length > floor && headings[headings.length - 1].level >= heading.level) {
+        headings.pop();
+      }
+      if (headingTitle) {
+        headings.push({ level: heading.level, title: headingTitle });
+      }
+      heading = undefined;
+    }
+    if (BLOCK_TAGS.has(tag)) {
+      parts.push('\n');
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Split text between lines into pieces of at most `maxSize` characters
+ */
+function splitText(text: string, maxSize: number): string[] {
+  const lines = text.split('\n');
+  return splitSpan(lines, { start: 0, end: lines.length - 1 }, maxSize)
+    .map(span => lines.slice(span.start, span.end + 1).join('\n'));
+}
+
+/**
+ * Turn a line span into chunks with line ranges, splitting it when it is
+ * longer than `maxSize`; leading and trailing blank lines are dropped
+ */
+function spanChunks(
+  lines: string[],
+  span: LineSpan,
+  maxSize: number,
+  metadata: Record<string, any>
+): TextChunk[] {
+  const trimmed = trimSpan(lines, span);
+  if (!trimmed) {
+    return [];
+  }
+  const pieces = splitSpan(lines, trimmed, maxSize);
+  return pieces.map((piece, index) => ({
+    content: lines.slice(piece.start, piece.end + 1).join('\n'),
+    metadata: {
+      ...metadata,
+      startLine: piece.start + 1,
+      endLine: piece.end + 1,
+      ...(pieces.length > 1 ? { part: index + 1 } : {}),
+    },
+  }));
+}
+
+function trimSpan(lines: string[], span: LineSpan): LineSpan | undefined {
+  let { start, end } = span;
+  while (start <= end && lines[start].trim() === '') start++;
+  while (end >= start && lines[end].trim() === '') end--;
+  return start <= end ? { start, end } : undefined;
+}
+
+function spanSize(lines: string[], span: LineSpan): number {
+  let size = 0;
+  for (let i = span.start; i <= span.end; i++) {
+    size += lines[i].length + 1;
+  }
+  return size - 1;
+}
+
+/**
+ * Split a span into pieces of at most `maxSize` characters, breaking at the
+ * last blank line where possible. A single longer line stays whole.
+ */
+function splitSpan(lines: string[], span: LineSpan, maxSize: number): LineSpan[] {
+  const pieces: LineSpan[] = [];
+  let start = span.start;
+  let lastBlank = -1;
+
+  for (let i = span.start; i <= span.end; i++) {
+    while (i > start && spanSize(lines, { start, end: i }) > maxSize) {
+      const cut = lastBlank > start ? lastBlank : i - 1;
+      const piece = trimSpan(lines, { start, end: cut });
+      if (piece) pieces.push(piece);
+      start = cut + 1;
+      lastBlank = -1;
+    }
+    if (lines[i].trim() === '') lastBlank = i;
+  }
+  const piece = trimSpan(lines, { start, end: span.end });
+  if (piece) pieces.push(piece);
+  return pieces;
+}
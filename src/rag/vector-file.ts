@@ -0,0 +1,160 @@
+/**
+ * Vector File
+ *
+ * Binary format persisting a vector collection: a small fixed header, a JSON
+ * section with IDs, metadata and index structure, then every vector as
+ * little-endian float32, in the order of the IDs.
+ *
+ * ```
+ * "MGXV" | version u32 | dimension u32 | count u32 | json length u32 | json | padding | vectors
+ * ```
+ *
+ * @module rag/vector-file
+ * @category RAG
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Magic bytes opening a vector file
+ */
+const MAGIC = 'MGXV';
+
+/**
+ * Current format version
+ */
+export const VECTOR_FILE_VERSION = 1;
+
+/**
+ * Size of the fixed header in bytes
+ */
+const FIXED_HEADER_SIZE = 20;
+
+/**
+ * JSON section of a vector file
+ */
+export interface VectorFileHeader {
+  /** Vector IDs, in the order of the vectors */
+  ids: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Decoded vector file
+ */
+export interface VectorFile<H extends VectorFileHeader = VectorFileHeader> {
+  dimension: number;
+  header: H;
+  /** All vectors, back to back */
+  vectors: Float32Array;
+}
+
+/**
+ * Encode a vector collection
+ * @param header JSON section; `ids` gives the vector order
+ * @param dimension Vector dimension
+ * @param vectorOf Vector of an ID
+ * @returns File contents
+ */
+export function encodeVectorFile(
+  header: VectorFileHeader,
+  dimension: number,
+  vectorOf: (id: string) => ArrayLike<number>
+): Buffer {
+  const json = Buffer.from(JSON.stringify(header), 'utf8');
+  // Align the vectors to 4 bytes so they can be viewed in place
+  const vectorOffset = alignTo4(FIXED_HEADER_SIZE + json.length);
+  const buffer = Buffer.alloc(vectorOffset + header.ids.length * dimension * 4);
+
+  buffer.write(MAGIC, 0, 'ascii');
+  buffer.writeUInt32LE(VECTOR_FILE_VERSION, 4);
+  buffer.writeUInt32LE(dimension, 8);
+  buffer.writeUInt32LE(header.ids.length, 12);
+  buffer.writeUInt32LE(json.length, 16);
+  json.copy(buffer, FIXED_HEADER_SIZE);
+
+  header.ids.forEach((id, index) => {
+    const vector = vectorOf(id);
+    if (vector.length !== dimension) {
+      throw new Error(`Vector dimension mismatch for ${id}: expected ${dimension}, got ${vector.length}`);
+    }
+    const offset = vectorOffset + index * dimension * 4;
+    for (let i = 0; i < dimension; i++) {
+      buffer.writeFloatLE(vector[i], offset + i * 4);
+    }
+  });
+
+  return buffer;
+}
+
+/**
+ * Decode a vector collection
+ * @param buffer File contents
+ * @returns Header and vectors; the vectors share the buffer's memory when it is aligned
+ * @throws If the buffer is not a vector file of a supported version
+ */
+export function decodeVectorFile<H extends VectorFileHeader = VectorFileHeader>(buffer: Buffer): VectorFile<H> {
+  if (buffer.length < FIXED_HEADER_SIZE || buffer.toString('ascii', 0, 4) !== MAGIC) {
+    throw new Error('Not a vector file');
+  }
+  const version = buffer.readUInt32LE(4);
+  if (version !== VECTOR_FILE_VERSION) {
+    throw new Error(`Unsupported vector file version: ${version}`);
+  }
+
+  const dimension = buffer.readUInt32LE(8);
+  const count = buffer.readUInt32LE(12);
+  const jsonLength = buffer.readUInt32LE(16);
+  const header = JSON.parse(buffer.toString('utf8', FIXED_HEADER_SIZE, FIXED_HEADER_SIZE + jsonLength)) as H;
+  const vectorOffset = alignTo4(FIXED_HEADER_SIZE + jsonLength);
+  const length = count * dimension;
+
+  if (buffer.length < vectorOffset + length * 4) {
+    throw new Error('Vector file is truncated');
+  }
+  if (header.ids.length !== count) {
+    throw new Error(`Vector file lists ${header.ids.length} IDs for ${count} vectors`);
+  }
+
+  const byteOffset = buffer.byteOffset + vectorOffset;
+  const vectors = byteOffset % 4 === 0
+    ? new Float32Array(buffer.buffer, byteOffset, length)
+    : new Float32Array(buffer.buffer.slice(byteOffset, byteOffset + length * 4));
+  return { dimension, header, vectors };
+}
+
+/**
+ * Read a vector file, memory-mapping it when the runtime can (Bun).
+ *
+ * A mapped file is paged in by the OS as vectors are touched, so opening a
+ * large collection costs little more than parsing its JSON section. Mapped
+ * files must be replaced, never rewritten in place (see `writeVectorFile`).
+ * @param filePath Path of the vector file
+ * @param mmap Map the file instead of reading it
+ * @returns File contents
+ */
+export async function readVectorFile(filePath: string, mmap = true): Promise<Buffer> {
+  const bun = (globalThis as { Bun?: { mmap(path: string): Uint8Array } }).Bun;
+  if (mmap && bun) {
+    const mapped = bun.mmap(filePath);
+    return Buffer.from(mapped.buffer, mapped.byteOffset, mapped.byteLength);
+  }
+  return fs.promises.readFile(filePath);
+}
+
+/**
+ * Write a vector file atomically, through a temporary file and a rename
+ * @param filePath Destination path
+ * @param contents Encoded file
+ */
+export async function writeVectorFile(filePath: string, contents: Buffer): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, contents);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+function alignTo4(offset: number): number {
+  return Math.ceil(offset / 4) * 4;
+}
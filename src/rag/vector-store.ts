@@ -9,6 +9,13 @@
  */
 
 import { z } from 'zod';
+import { HnswIndex, HnswConfigSchema } from './hnsw';
+import type { HnswGraph, SimilarityFunction } from './hnsw';
+import { decodeVectorFile, encodeVectorFile, readVectorFile, writeVectorFile } from './vector-file';
+import { FileVectorStore } from './file-vector-store';
+import { QdrantVectorStore } from './qdrant-vector-store';
+import type { MetadataFilter } from './metadata-filter';
+import { matchesFilter } from './metadata-filter';
 
 /**
  * Distance metric options for similarity search
@@ -22,6 +29,16 @@ export enum DistanceMetric {
   DOT = 'dot',
 }
 
+/**
+ * Index used by the in-memory vector store
+ */
+export enum VectorIndexType {
+  /** Exact search comparing the query with every vector */
+  FLAT = 'flat',
+  /** Approximate search over an HNSW graph */
+  HNSW = 'hnsw',
+}
+
 /**
  * Vector store configuration schema
  */
@@ -36,6 +53,12 @@ export const VectorStoreConfigSchema = z.object({
   apiKey: z.string().optional(),
   /** Collection/index name */
   collection: z.string().default('default'),
+  /** Directory of file-backed stores */
+  directory: z.string().optional(),
+  /** Search index of the in-memory store */
+  index: z.nativeEnum(VectorIndexType).default(VectorIndexType.FLAT),
+  /** HNSW parameters, when `index` is `hnsw` */
+  hnsw: HnswConfigSchema.partial().optional(),
 });
 
 export type VectorStoreConfig = z.infer<typeof VectorStoreConfigSchema>;
@@ -83,9 +106,10 @@ export interface VectorStore {
    * @param vector Query vector
    * @param limit Maximum number of results
    * @param minScore Minimum similarity score
+   * @param filter Only return vectors whose metadata matches
    * @returns Array of search results
    */
-  search(vector: number[], limit?: number, minScore?: number): Promise<VectorSearchResult[]>;
+  search(vector: number[], limit?: number, minScore?: number, filter?: MetadataFilter): Promise<VectorSearchResult[]>;
   
   /**
    * Delete vectors by ID
@@ -104,19 +128,53 @@ export interface VectorStore {
    * Clear the entire vector store
    */
   clear(): Promise<void>;
+  
+  /**
+   * List the stored documents without their vectors
+   * @returns Stored documents, in no particular order
+   */
+  list?(): Promise<StoredDocument[]>;
+}
+
+/**
+ * Document held by a vector store, without its vector
+ */
+export interface StoredDocument {
+  id: string;
+  metadata?: Record<string, any>;
+  content?: string;
+}
+
+/**
+ * JSON section of a saved in-memory vector store
+ */
+interface VectorStoreFileHeader {
+  ids: string[];
+  config: VectorStoreConfig;
+  metadata: Array<Record<string, any> | null>;
+  content: Array<string | null>;
+  graph?: HnswGraph;
+  [key: string]: unknown;
 }
 
 /**
  * In-memory implementation of the VectorStore interface
- * Suitable for testing and small-scale use
+ *
+ * Searches are exact by default. With the `hnsw` index, an HNSW graph is
+ * maintained on every add and delete and searches are approximate, trading
+ * a little recall (tunable through `efSearch`) for sub-linear latency on
+ * large collections. Filters are applied while traversing the graph, so
+ * filtered searches use the index too.
  */
 export class InMemoryVectorStore implements VectorStore {
   private config: VectorStoreConfig;
   private vectors: Map<string, {
-    vector: number[];
+    /** Float32 views of a mapped vector file until the vector is replaced */
+    vector: number[] | Float32Array;
     metadata?: Record<string, any>;
     content?: string;
   }> = new Map();
+  private index?: HnswIndex;
   
   /**
    * Create a new in-memory vector store
@@ -124,6 +182,16 @@ export class InMemoryVectorStore implements VectorStore {
    */
   constructor(config?: Partial<VectorStoreConfig>) {
     this.config = VectorStoreConfigSchema.parse(config || {});
+    if (this.config.index === VectorIndexType.HNSW) {
+      this.index = new HnswIndex(this.indexSimilarity(), this.config.hnsw);
+    }
+  }
+
+  /**
+   * Number of stored vectors
+   */
+  get size(): number {
+    return this.vectors.size;
   }
   
   /**
@@ -140,6 +208,7 @@ export class InMemoryVectorStore implements VectorStore {
     }
     
     this.vectors.set(id, { vector, metadata, content });
+    this.index?.add(id, this.toIndexVector(vector));
   }
   
   /**
@@ -162,18 +231,32 @@ export class InMemoryVectorStore implements VectorStore {
    * @param vector Query vector
    * @param limit Maximum number of results
    * @param minScore Minimum similarity score
+   * @param filter Only return vectors whose metadata matches
    * @returns Array of search results
    */
-  async search(vector: number[], limit = 10, minScore = 0): Promise<VectorSearchResult[]> {
+  async search(vector: number[], limit = 10, minScore = 0, filter?: MetadataFilter): Promise<VectorSearchResult[]> {
     // Validate vector dimension
     if (vector.length !== this.config.dimension) {
       throw new Error(`Vector dimension mismatch: expected ${this.config.dimension}, got ${vector.length}`);
     }
     
+    if (this.index) {
+      const accept = filter && ((id: string) => matchesFilter(this.vectors.get(id)!.metadata, filter));
+      return this.index.search(this.toIndexVector(vector), limit, undefined, accept)
+        .filter(result => result.score >= minScore)
+        .map(({ id, score }) => {
+          const item = this.vectors.get(id)!;
+          return { id, score, metadata: item.metadata, content: item.content };
+        });
+    }
+
     // Calculate similarity for all vectors
     const results: VectorSearchResult[] = [];
     
     for (const [id, item] of this.vectors.entries()) {
+      if (filter && !matchesFilter(item.metadata, filter)) {
+        continue;
+      }
       const score = this.calculateSimilarity(vector, item.vector);
       
       if (score >= minScore) {
@@ -200,6 +283,7 @@ export class InMemoryVectorStore implements VectorStore {
   async delete(ids: string[]): Promise<void> {
     for (const id of ids) {
       this.vectors.delete(id);
+      this.index?.delete(id);
     }
   }
   
@@ -214,7 +298,7 @@ export class InMemoryVectorStore implements VectorStore {
     for (const id of ids) {
       const item = this.vectors.get(id);
       if (item) {
-        result.set(id, item);
+        result.set(id, item.vector instanceof Float32Array ? { ...item, vector: Array.from(item.vector) } : item);
       }
     }
     
@@ -226,15 +310,96 @@ export class InMemoryVectorStore implements VectorStore {
    */
   async clear(): Promise<void> {
     this.vectors.clear();
+    this.index?.clear();
+  }
+  
+  /**
+   * List the stored documents without their vectors
+   * @returns Stored documents, in insertion order
+   */
+  async list(): Promise<StoredDocument[]> {
+    return Array.from(this.vectors, ([id, { metadata, content }]) => ({ id, metadata, content }));
+  }
+
+  /**
+   * Save the store, including its HNSW graph, to a vector file.
+   * Vectors are stored as float32.
+   * @param filePath Destination path
+   */
+  async save(filePath: string): Promise<void> {
+    const ids = Array.from(this.vectors.keys());
+    const header: VectorStoreFileHeader = {
+      ids,
+      config: this.config,
+      metadata: ids.map(id => this.vectors.get(id)!.metadata ?? null),
+      content: ids.map(id => this.vectors.get(id)!.content ?? null),
+      graph: this.index?.toGraph(),
+    };
+    await writeVectorFile(filePath, encodeVectorFile(header, this.config.dimension, id => this.vectors.get(id)!.vector));
+  }
+
+  /**
+   * Load a store saved with `save`, without rebuilding its HNSW graph.
+   * Vectors stay views of the file contents, which are memory-mapped on Bun.
+   * @param filePath Path of the vector file
+   * @param mmap Memory-map the file when the runtime supports it
+   * @returns Loaded store
+   */
+  static async load(filePath: string, mmap = true): Promise<InMemoryVectorStore> {
+    const { dimension, header, vectors } = decodeVectorFile<VectorStoreFileHeader>(await readVectorFile(filePath, mmap));
+    const store = new InMemoryVectorStore({ ...header.config, dimension, index: VectorIndexType.FLAT });
+    header.ids.forEach((id, index) => {
+      store.vectors.set(id, {
+        vector: vectors.subarray(index * dimension, (index + 1) * dimension),
+        metadata: header.metadata[index] ?? undefined,
+        content: header.content[index] ?? undefined,
+      });
+    });
+
+    store.config = VectorStoreConfigSchema.parse({ ...header.config, dimension });
+    if (store.config.index === VectorIndexType.HNSW) {
+      const similarity = store.indexSimilarity();
+      if (header.graph) {
+        const byId = new Map(Array.from(store.vectors, ([id, item]) => [id, store.toIndexVector(item.vector)]));
+        store.index = HnswIndex.fromGraph(header.graph, byId, similarity);
+      } else {
+        store.index = new HnswIndex(similarity, store.config.hnsw);
+        for (const [id, item] of store.vectors) {
+          store.index.add(id, store.toIndexVector(item.vector));
+        }
+      }
+    }
+    return store;
   }
   
+  /**
+   * Similarity used inside the HNSW graph: for cosine, the graph holds unit
+   * vectors so the dot product gives the same score with a third of the work
+   */
+  private indexSimilarity(): SimilarityFunction {
+    return this.config.metric === DistanceMetric.COSINE
+      ? (a, b) => this.dotProduct(a, b)
+      : (a, b) => this.calculateSimilarity(a, b);
+  }
+
+  /**
+   * Vector as held by the HNSW graph
+   */
+  private toIndexVector(vector: ArrayLike<number>): ArrayLike<number> {
+    if (this.config.metric !== DistanceMetric.COSINE) {
+      return vector;
+    }
+    const norm = Math.sqrt(this.dotProduct(vector, vector));
+    return norm === 0 ? vector : Array.from(vector, value => value / norm);
+  }
+
   /**
    * Calculate similarity between two vectors
    * @param a First vector
    * @param b Second vector
    * @returns Similarity score
    */
-  private calculateSimilarity(a: number[], b: number[]): number {
+  private calculateSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
     switch (this.config.metric) {
       case DistanceMetric.COSINE:
         return this.cosineSimilarity(a, b);
@@ -253,7 +418,7 @@ export class InMemoryVectorStore implements VectorStore {
    * @param b Second vector
    * @returns Cosine similarity (0-1)
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
+  private cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
     let dotProduct = 0;
     let normA = 0;
     let normB = 0;
@@ -275,7 +440,7 @@ export class InMemoryVectorStore implements VectorStore {
    * @param b Second vector
    * @returns Euclidean similarity (0-1)
    */
-  private euclideanSimilarity(a: number[], b: number[]): number {
+  private euclideanSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
     let sum = 0;
     
     for (let i = 0; i < a.length; i++) {
@@ -294,7 +459,7 @@ export class InMemoryVectorStore implements VectorStore {
    * @param b Second vector
    * @returns Dot product
    */
-  private dotProduct(a: number[], b: number[]): number {
+  private dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
     let result = 0;
     
     for (let i = 0; i < a.length; i++) {
@@ -307,21 +472,23 @@ export class InMemoryVectorStore implements VectorStore {
 
 /**
  * Factory function to create an appropriate vector store
- * @param type Type of vector store to create
+ * @param type Type of vector store to create: `memory`, `file` (persisted
+ * under `config.directory`) or `external` (a Qdrant-compatible server at `config.url`)
  * @param config Vector store configuration
  * @returns VectorStore instance
  */
 export function createVectorStore(
-  type: 'memory' | 'external',
+  type: 'memory' | 'file' | 'external',
   config?: Partial<VectorStoreConfig>
 ): VectorStore {
   switch (type) {
     case 'memory':
       return new InMemoryVectorStore(config);
+    case 'file':
+      return new FileVectorStore(config || {});
     case 'external':
-      // Add external vector store implementation when needed
-      throw new Error('External vector store not implemented yet');
+      return new QdrantVectorStore(config || {});
     default:
       return new InMemoryVectorStore(config);
   }
-} 
\ No newline at end of file
+}
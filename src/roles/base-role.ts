@@ -21,17 +21,27 @@ import type {
   RoleEvent,
   RoleMachine,
   RoleState,
-  RoleReactMode
+  RoleReactMode,
+  Plan,
+  PlanTask
 } from '../types/role';
 import { 
   createRoleStateMachine,
   createDefaultRoleContext
 } from '../types/role';
 import type { Message } from '../types/message';
+import { ROLE_NOTICE_TAG } from '../types/message';
 import type { Action, ActionOutput } from '../types/action';
+import type { LLMProvider } from '../types/llm';
+import type { Environment } from '../environment/environment';
 import { logger } from '../utils/logger';
 import { generateId } from '../utils/common';
 import { MemoryManagerImpl } from '../memory/manager';
+import type { LongTermMemory, RecalledMemory } from '../memory/types';
+import type { MemoryConsolidator } from '../memory/consolidation';
+import { NoMoneyError, ReplayMissError } from '../utils/errors';
+import { withCostAttribution } from '../utils/cost-manager';
+import { createPlan, revisePlan, DEFAULT_MAX_REPLANS } from './planner';
 
 /**
  * Enhanced Role Base Class
@@ -46,6 +56,8 @@ export abstract class BaseRole implements Role {
   readonly context: RoleContext;
   readonly desc: string = '';
   states: string[] = [];
+  // Plan revisions allowed after failed tasks in plan_and_act mode
+  maxReplans: number = DEFAULT_MAX_REPLANS;
 
   // Message stream
   private messageSubject = new Subject<Message>();
@@ -55,6 +67,9 @@ export abstract class BaseRole implements Role {
   private machine: RoleMachine;
   private actor!: ActorRefFrom<RoleMachine>;
 
+  // Environment the role receives deliveries from and publishes to
+  protected environment?: Environment;
+
   /**
    * Add a single action to the role
    * @param action Action to add
@@ -210,6 +225,25 @@ export abstract class BaseRole implements Role {
     // Override in subclasses if needed
   }
 
+  /**
+   * Attach the role to an environment.
+   * Called by `Environment.addRoles`.
+   * @param env Environment to attach to
+   */
+  public setEnvironment(env: Environment): void {
+    this.environment = env;
+  }
+
+  /**
+   * Watch messages caused by the given action types
+   * @param actionNames Action names to watch
+   */
+  public watch(actionNames: string[]): void {
+    for (const actionName of actionNames) {
+      this.context.watch.add(actionName);
+    }
+  }
+
   /**
    * Observe environment for messages
    * @returns True if messages were observed
@@ -217,6 +251,15 @@ export abstract class BaseRole implements Role {
   async observe(): Promise<boolean> {
     logger.debug(`[${this.name}] Observing...`);
     
+    // Only read what the environment delivered since the last observation
+    if (this.environment) {
+      const delivered = await this.environment.popMessages(this.name);
+      for (const message of delivered) {
+        await this.addToMemory(message);
+      }
+      return delivered.length > 0;
+    }
+    
     // Check if there are any messages in memory
     const workingMemories = await this.context.memory.working.search({});
     const hasMessages = workingMemories.length > 0;
@@ -245,16 +288,27 @@ export abstract class BaseRole implements Role {
    * @returns Message with action result
    */
   async act(): Promise<Message> {
+    return (await this.runTodo()).message;
+  }
+
+  /**
+   * Execute the current todo action and report whether it succeeded
+   * @returns Message with action result and success flag
+   */
+  private async runTodo(): Promise<{ message: Message; success: boolean }> {
     logger.debug(`[${this.name}] Acting...`);
     
     if (!this.context.todo) {
-      return this.createMessage("No action to perform");
+      return { message: this.createNotice("No action to perform"), success: false };
     }
     
     try {
       // Execute the action
       const action = this.context.todo;
-      const result = await action.run();
+      const result = await withCostAttribution(
+        { role: this.name, action: action.name },
+        () => action.run()
+      );
       
       // Create message from result
       const message = this.createMessage(result.content);
@@ -262,17 +316,22 @@ export abstract class BaseRole implements Role {
       // Add to working memory
       await this.addToWorkingMemory(message);
       
-      return message;
+      return { message, success: result.status !== 'failed' };
     } catch (error) {
+      // Running out of budget or replay fixtures must stop the whole run, not just this action
+      if (error instanceof NoMoneyError || error instanceof ReplayMissError) {
+        throw error;
+      }
       logger.error(`[${this.name}] Action error:`, error);
-      return this.createMessage(`Error executing action: ${error}`);
+      return { message: this.createNotice(`Error executing action: ${error}`), success: false };
     }
   }
 
   /**
-   * React to a message by observing, thinking, and acting
+   * React to a message by observing, then thinking and acting
+   * until no action is left or `maxReactLoop` actions were taken
    * @param message Optional message to react to
-   * @returns Message with reaction result
+   * @returns Message with the result of the last action
    */
   async react(message?: Message): Promise<Message> {
     logger.debug(`[${this.name}] Reacting...`);
@@ -285,15 +344,83 @@ export abstract class BaseRole implements Role {
     // Observe
     await this.observe();
     
-    // Think
-    const canAct = await this.think();
+    let response: Message | null = null;
+    for (let loop = 0; loop < Math.max(1, this.context.maxReactLoop); loop++) {
+      // Think
+      const canAct = await this.think();
+      if (!canAct) {
+        break;
+      }
+      
+      // Act
+      response = await this.act();
+    }
+    
+    return response ?? this.createNotice("Cannot determine next action");
+  }
+
+  /**
+   * Execute every action of the role once, in order
+   * @returns Message with the result of the last action
+   */
+  protected async actByOrder(): Promise<Message> {
+    await this.observe();
+    
+    let response: Message | null = null;
+    for (const [index, action] of this.actions.entries()) {
+      this.context.state = index;
+      this.setTodo(action);
+      response = await this.act();
+    }
+    this.setTodo(null);
     
-    if (!canAct) {
-      return this.createMessage("Cannot determine next action");
+    return response ?? this.createNotice("No action to perform");
+  }
+
+  /**
+   * Make a plan for the latest request and execute its tasks,
+   * revising the plan when a task fails
+   * @param message Optional message to plan from
+   * @returns Message with the result of the last task
+   */
+  protected async planAndAct(message?: Message): Promise<Message> {
+    await this.observe();
+    
+    let plan = await this.planActions(message);
+    this.context.plan = plan;
+    logger.debug(`[${this.name}] Planned ${plan.tasks.length} tasks`);
+    
+    let response: Message | null = null;
+    for (;;) {
+      const task = plan.tasks.find(candidate => candidate.status === 'pending');
+      if (!task) {
+        break;
+      }
+      
+      const action = this.actions.find(candidate => candidate.name === task.action);
+      task.status = 'in_progress';
+      this.setTodo(action ?? null);
+      await this.addToWorkingMemory(this.createMessage(`Task ${task.id}: ${task.instruction}`));
+      
+      const result = await this.runTodo();
+      response = result.message;
+      task.result = result.message.content;
+      task.status = result.success ? 'completed' : 'failed';
+      if (result.success) {
+        continue;
+      }
+      
+      if (plan.replans >= this.maxReplans) {
+        logger.warn(`[${this.name}] Task ${task.id} failed after ${plan.replans} plan revisions, giving up`);
+        break;
+      }
+      logger.debug(`[${this.name}] Task ${task.id} failed, revising plan`);
+      plan = await this.revisePlan(plan, task);
+      this.context.plan = plan;
     }
+    this.setTodo(null);
     
-    // Act
-    return await this.act();
+    return response ?? this.createMessage("No task to perform");
   }
 
   /**
@@ -316,34 +443,57 @@ export abstract class BaseRole implements Role {
     
     // Based on react mode, execute different patterns
     switch (this.context.reactMode) {
-      case 'react':
-        // Simple react pattern
-        return await this.react(message);
-        
       case 'by_order':
-        // Execute actions in order
-        await this.observe();
-        await this.think();
-        return await this.act();
+        return await this.actByOrder();
         
       case 'plan_and_act':
-        // Plan and execute actions
-        await this.observe();
-        await this.planActions(message);
-        return await this.act();
+        return await this.planAndAct(message);
         
+      case 'react':
       default:
         return await this.react(message);
     }
   }
 
   /**
-   * Plan a sequence of actions
+   * The current plan in plan_and_act mode
+   */
+  public get plan(): Plan | null {
+    return this.context.plan;
+  }
+
+  /**
+   * Plan tasks for the latest request
    * @param message Optional message to plan from
+   * @returns New plan
    */
-  protected async planActions(message?: Message): Promise<void> {
-    // Default implementation - override in subclasses
-    await this.think();
+  protected async planActions(message?: Message): Promise<Plan> {
+    const messages = await this.getMessages();
+    const goal = message?.content || messages[messages.length - 1]?.content || this.goal;
+    return withCostAttribution(
+      { role: this.name, action: 'Plan' },
+      () => createPlan(goal, this.actions, this.getPlanningLLM())
+    );
+  }
+
+  /**
+   * Revise the plan after a task failed
+   * @param plan Current plan
+   * @param failed Task that failed
+   * @returns Revised plan
+   */
+  protected async revisePlan(plan: Plan, failed: PlanTask): Promise<Plan> {
+    return withCostAttribution(
+      { role: this.name, action: 'Plan' },
+      () => revisePlan(plan, failed, this.actions, this.getPlanningLLM())
+    );
+  }
+
+  /**
+   * LLM used for planning: the role's own, else the first action's
+   */
+  protected getPlanningLLM(): LLMProvider | undefined {
+    return (this as { llm?: LLMProvider }).llm ?? this.actions.find(action => action.llm)?.llm;
   }
 
   /**
@@ -489,6 +639,56 @@ export abstract class BaseRole implements Role {
     };
   }
 
+  /**
+   * Create a notice about the role itself, e.g. a fallback or an action error,
+   * which the environment logs instead of publishing
+   * @param content Notice content
+   * @returns Created message tagged as a role notice
+   */
+  protected createNotice(content: string): Message {
+    const message = this.createMessage(content);
+    return {
+      ...message,
+      metadata: { ...message.metadata, tags: [...(message.metadata?.tags ?? []), ROLE_NOTICE_TAG] }
+    };
+  }
+
+  /**
+   * Give the role a long-term memory that outlives the run
+   * @param longTerm Long-term memory, e.g. backed by a file or SQLite store
+   */
+  public setLongTermMemory(longTerm: LongTermMemory): void {
+    this.context.memory.longTerm = longTerm;
+  }
+
+  /**
+   * Keep the role's working memory within a budget by summarizing older messages
+   * @param consolidator Consolidator with the entry and token budget
+   */
+  public setMemoryConsolidator(consolidator: MemoryConsolidator): void {
+    this.context.memory.consolidator = consolidator;
+  }
+
+  /**
+   * Store a lesson in long-term memory
+   * @param content Lesson to remember
+   * @param metadata Additional metadata, e.g. `importance`
+   */
+  public async remember(content: string, metadata: Record<string, any> = {}): Promise<void> {
+    await this.context.memory?.longTerm?.add(content, 'lesson', { ...metadata, role: this.name });
+  }
+
+  /**
+   * Recall the lessons of this role most relevant to a query
+   * @param query Query text
+   * @param limit Maximum number of lessons
+   * @returns Lessons, best first; empty without long-term memory
+   */
+  public async recall(query: string, limit = 5): Promise<RecalledMemory[]> {
+    const longTerm: LongTermMemory | undefined = this.context.memory?.longTerm;
+    return longTerm ? longTerm.recall(query, { limit, type: 'lesson', metadata: { role: this.name } }) : [];
+  }
+
   /**
    * Set the react mode
    * @param mode React mode to set
@@ -15,6 +15,7 @@ import { AIMessage } from '../types/message';
 import type { DependencyManager, DependencyManagerConfig } from '../actions/dependency-manager/dependency-manager';
 import { DependencyManagerFactory } from '../actions/dependency-manager/dependency-manager-factory';
 import type { SupportedLanguage } from '../actions/dependency-manager/dependency-manager-factory';
+import type { MemoryConsolidator } from '../memory/consolidation';
 
 /**
  * Run mode for data interpreter
@@ -88,6 +89,8 @@ export interface DataInterpreterConfig {
   tools?: any[];
   /** 依赖管理配置 */
   dependencyManagement?: DependencyManagementConfig;
+  /** 记忆整合器，工作记忆超出预算时汇总较早的消息 */
+  consolidator?: MemoryConsolidator;
 }
 
 /**
@@ -151,6 +154,10 @@ export class DataInterpreter extends BaseRole {
     
     // Initialize dependency manager if enabled
     this.initDependencyManager();
+
+    if (config.consolidator) {
+      this.setMemoryConsolidator(config.consolidator);
+    }
     
     // Initialize role
     this.initialize();
@@ -561,7 +568,7 @@ Please provide your response in the following JSON format:
         logger.error(`[${this.name}] Failed to add error to working memory: ${(memoryError as Error).message}`);
       }
       
-      return this.createMessage('Cannot determine next action. Please try again.');
+      return this.createNotice('Cannot determine next action. Please try again.');
     }
   }
 
@@ -643,7 +650,7 @@ Please provide your response in the following JSON format:
       this.llm.generate = originalGenerate;
       
       // Create error response message
-      const errorMessage = this.createMessage(
+      const errorMessage = this.createNotice(
         `Error occurred during streaming analysis: ${streamError.message}. Analysis time: ${((Date.now() - analysisStartTime) / 1000).toFixed(2)}s`
       );
       
@@ -720,7 +727,7 @@ Please provide your response in the following JSON format:
         'REACT_ERROR'
       ));
       
-      return this.createMessage(`Error during analysis: ${reactError.message}. Please try again.`);
+      return this.createNotice(`Error during analysis: ${reactError.message}. Please try again.`);
     }
   }
 
@@ -750,7 +757,7 @@ Please provide your response in the following JSON format:
         'REGULAR_RUN_ERROR'
       ));
       
-      return this.createMessage(`Error during analysis: ${runError.message}. Please try again.`);
+      return this.createNotice(`Error during analysis: ${runError.message}. Please try again.`);
     }
   }
 
@@ -0,0 +1,100 @@
+/**
+ * Human Role
+ *
+ * This role stands in for a person taking part in the team. Messages
+ * delivered to it are shown on a human channel (terminal, WebSocket client
+ * or a script), and the person's reply is published like any other role's
+ * output.
+ */
+
+import { BaseRole } from './base-role';
+import { MessageSchema } from '../types/message';
+import type { Message } from '../types/message';
+import type { HumanChannel } from '../environment/human-channel';
+import { logger } from '../utils/logger';
+
+/**
+ * Action type (`causedBy`) of messages written by a person
+ */
+export const HUMAN_INPUT = 'HumanInput';
+
+/**
+ * Configuration interface for the HumanRole
+ */
+export interface HumanRoleConfig {
+  channel: HumanChannel;
+  name?: string;
+  profile?: string;
+  goal?: string;
+  /** Action types whose output is delivered to the person */
+  watch?: string[];
+  /** Recipients of the person's replies; everyone when omitted */
+  sendTo?: string | string[];
+}
+
+/**
+ * Role whose responses are given by a person
+ */
+export class HumanRole extends BaseRole {
+  readonly channel: HumanChannel;
+  private sendTo?: string | string[];
+
+  constructor(config: HumanRoleConfig) {
+    super(
+      config.name || 'Human',
+      config.profile || 'Human',
+      config.goal || 'Review the team\'s work and give directions',
+      '',
+      []
+    );
+
+    this.channel = config.channel;
+    this.sendTo = config.sendTo;
+    this.watch(config.watch || []);
+  }
+
+  /**
+   * Show the delivered messages to the person and publish the reply
+   * @param message Optional message to respond to
+   * @returns The person's reply; empty if there was nothing to respond to or no reply
+   */
+  async run(message?: Message): Promise<Message> {
+    const news = message ? [message] : [];
+    if (this.environment) {
+      news.push(...await this.environment.popMessages(this.name));
+    }
+    for (const received of news) {
+      await this.addToMemory(received);
+    }
+
+    if (news.length === 0) {
+      return this.createMessage('');
+    }
+
+    const reply = (await this.channel.ask(this.formatPrompt(news))).trim();
+    if (!reply) {
+      logger.debug(`[${this.name}] No reply given`);
+      return this.createMessage('');
+    }
+
+    const response = MessageSchema.parse({
+      role: this.name,
+      content: reply,
+      causedBy: HUMAN_INPUT,
+      sentFrom: this.name,
+      sendTo: this.sendTo,
+    });
+    await this.addToWorkingMemory(response);
+    return response;
+  }
+
+  /**
+   * Build the prompt shown to the person
+   * @param messages Messages to respond to
+   */
+  protected formatPrompt(messages: Message[]): string {
+    return messages
+      .map(message => `[${message.sentFrom || message.role} / ${message.causedBy}]\n${message.content}`)
+      .join('\n\n');
+  }
+}
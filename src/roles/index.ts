@@ -15,4 +15,6 @@ export { Searcher } from './searcher';
 export { Teacher } from './teacher';
 export { Assistant } from './assistant';
 export { Sales } from './sales';
-export { CustomerService } from './customer-service'; 
\ No newline at end of file
+export { CustomerService } from './customer-service';
+export { ToolUsingRole } from './tool-using-role';
+export { HumanRole } from './human-role'; 
\ No newline at end of file
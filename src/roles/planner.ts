@@ -0,0 +1,134 @@
+/**
+ * Planner
+ *
+ * Plans used by roles in `plan_and_act` mode: the goal is split into tasks,
+ * each executed by one of the role's actions, and the remaining tasks are
+ * revised whenever a task fails.
+ */
+
+import { z } from 'zod';
+import type { Action } from '../types/action';
+import type { LLMProvider } from '../types/llm';
+import type { Plan, PlanTask } from '../types/role';
+import { PlanSchema, PlanTaskSchema } from '../types/role';
+import { generateObjectWith } from '../utils/structured-output';
+
+/**
+ * Default number of plan revisions after failed tasks
+ */
+export const DEFAULT_MAX_REPLANS = 2;
+
+/**
+ * Create the schema of the tasks the model proposes
+ * @param actions Actions the tasks may use
+ * @returns Zod schema
+ */
+function createTaskDraftSchema(actions: Action[]) {
+  const names = actions.map(action => action.name) as [string, ...string[]];
+  return z.object({
+    tasks: z.array(z.object({
+      instruction: z.string(),
+      action: z.enum(names),
+    })).min(1),
+  });
+}
+
+type TaskDrafts = z.infer<ReturnType<typeof createTaskDraftSchema>>;
+
+/**
+ * Ask the model for tasks matching the draft schema
+ */
+async function askForTasks(llm: LLMProvider, prompt: string, actions: Action[]): Promise<TaskDrafts> {
+  return generateObjectWith(llm, prompt, createTaskDraftSchema(actions));
+}
+
+/**
+ * Describe the available actions for planning prompts
+ */
+function describeActions(actions: Action[]): string {
+  return actions.map(action => `- ${action.name}: ${action.desc || action.context?.description || ''}`).join('\n');
+}
+
+/**
+ * Number the drafted tasks after the tasks that are kept
+ */
+function toTasks(drafts: TaskDrafts, offset: number): PlanTask[] {
+  return drafts.tasks.map((draft, index) => PlanTaskSchema.parse({
+    id: String(offset + index + 1),
+    instruction: draft.instruction,
+    action: draft.action,
+  }));
+}
+
+/**
+ * Create a plan for a goal
+ *
+ * Without an LLM the plan runs every action once, in order.
+ * @param goal Goal of the plan
+ * @param actions Actions the tasks may use
+ * @param llm LLM used for planning
+ * @returns New plan
+ */
+export async function createPlan(goal: string, actions: Action[], llm?: LLMProvider): Promise<Plan> {
+  if (!llm || actions.length === 0) {
+    return PlanSchema.parse({
+      goal,
+      tasks: actions.map((action, index) => ({
+        id: String(index + 1),
+        instruction: action.desc || action.name,
+        action: action.name,
+      })),
+    });
+  }
+
+  const drafts = await askForTasks(llm, `Break the following goal into a short sequence of tasks.
+Each task is executed by exactly one of these actions:
+${describeActions(actions)}
+
+Goal: ${goal}`, actions);
+
+  return PlanSchema.parse({ goal, tasks: toTasks(drafts, 0) });
+}
+
+/**
+ * Revise a plan after a task failed
+ *
+ * Completed tasks are kept; the failed task and the tasks after it are replaced.
+ * Without an LLM the failed task is retried as is.
+ * @param plan Current plan
+ * @param failed Task that failed
+ * @param actions Actions the tasks may use
+ * @param llm LLM used for planning
+ * @returns Revised plan
+ */
+export async function revisePlan(plan: Plan, failed: PlanTask, actions: Action[], llm?: LLMProvider): Promise<Plan> {
+  const completed = plan.tasks.filter(task => task.status === 'completed');
+
+  if (!llm) {
+    const remaining = plan.tasks
+      .filter(task => task.status !== 'completed')
+      .map(task => ({ ...task, status: 'pending' as const }));
+    return { ...plan, tasks: [...completed, ...remaining], replans: plan.replans + 1 };
+  }
+
+  const done = completed.length > 0
+    ? completed.map(task => `- ${task.instruction} (${task.action}): ${task.result ?? ''}`).join('\n')
+    : '- none';
+  const drafts = await askForTasks(llm, `A plan for the goal below failed. Propose the remaining tasks to reach the goal.
+Each task is executed by exactly one of these actions:
+${describeActions(actions)}
+
+Goal: ${plan.goal}
+
+Completed tasks:
+${done}
+
+Failed task: ${failed.instruction} (${failed.action})
+Error: ${failed.result ?? 'unknown'}`, actions);
+
+  return {
+    ...plan,
+    tasks: [...completed, ...toTasks(drafts, completed.length)],
+    replans: plan.replans + 1,
+  };
+}
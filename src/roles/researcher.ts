@@ -13,6 +13,7 @@ import type { LLMProvider } from '../types/llm';
 import type { Action, ActionOutput } from '../types/action';
 import { logger } from '../utils/logger';
 import { ResearchTopicType, ReliabilityRating } from '../actions/research';
+import type { MemoryConsolidator } from '../memory/consolidation';
 
 /**
  * Configuration interface for the Researcher role
@@ -24,6 +25,8 @@ export interface ResearcherConfig {
   maxSources?: number;
   react_mode?: 'plan_and_act' | 'react';
   max_react_loop?: number;
+  /** Summarizes older findings once working memory exceeds its budget */
+  consolidator?: MemoryConsolidator;
 }
 
 /**
@@ -87,6 +90,10 @@ export class Researcher extends BaseRole {
     
     // Set reaction mode
     this.setReactMode(reactMode, maxReactLoop);
+
+    if (config.consolidator) {
+      this.setMemoryConsolidator(config.consolidator);
+    }
   }
   
   /**
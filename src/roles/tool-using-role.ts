@@ -0,0 +1,67 @@
+/**
+ * Tool Using Role
+ *
+ * This role answers requests with the help of registered tools. The model
+ * calls the tools through the provider's native function calling loop, and
+ * every tool invocation is recorded in the role's working memory.
+ */
+
+import { BaseRole } from './base-role';
+import { UseTools } from '../actions/use-tools';
+import type { LLMProvider } from '../types/llm';
+import type { Tool } from '../types/tool';
+
+/**
+ * Configuration interface for the ToolUsingRole
+ */
+export interface ToolUsingRoleConfig {
+  llm: LLMProvider;
+  name?: string;
+  profile?: string;
+  goal?: string;
+  constraints?: string;
+  tools?: Tool[];
+  maxSteps?: number;
+}
+
+/**
+ * Role that calls tools to fulfil requests
+ */
+export class ToolUsingRole extends BaseRole {
+  llm: LLMProvider;
+  private useTools: UseTools;
+
+  constructor(config: ToolUsingRoleConfig) {
+    const useTools = new UseTools({
+      llm: config.llm,
+      tools: config.tools,
+      maxSteps: config.maxSteps,
+    });
+
+    super(
+      config.name || 'ToolUser',
+      config.profile || 'Tool Using Assistant',
+      config.goal || 'Fulfil requests by calling the available tools',
+      config.constraints || 'Only call tools that are needed for the request',
+      [useTools]
+    );
+
+    this.llm = config.llm;
+    this.useTools = useTools;
+  }
+
+  /**
+   * Register a tool the model may call
+   * @param tool Tool to register
+   */
+  public registerTool(tool: Tool): void {
+    this.useTools.registerTool(tool);
+  }
+
+  /**
+   * Get the registered tools
+   */
+  public get tools(): Tool[] {
+    return Array.from(this.useTools.tools.values());
+  }
+}
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import type { Tool, ToolConfig, ToolContext, ToolResult } from '../types/tool';
 import { ToolContextSchema, ToolResultSchema } from '../types/tool';
+import type { LLMToolDefinition } from '../types/llm';
+import { formatZodIssues } from '../utils/structured-output';
 
 /**
  * 工具基类
@@ -12,6 +14,7 @@ export abstract class BaseTool implements Tool {
   version: string;
   category: string;
   context: ToolContext;
+  parameters: z.ZodTypeAny;
 
   constructor(config: ToolConfig) {
     // 验证配置
@@ -22,12 +25,15 @@ export abstract class BaseTool implements Tool {
       category: z.string(),
       args: z.record(z.any()).optional(),
       metadata: z.record(z.any()).optional(),
+      parameters: z.custom<z.ZodTypeAny>(value => value instanceof z.ZodType).optional(),
     }).parse(config);
 
     this.name = validConfig.name;
     this.description = validConfig.description;
     this.version = validConfig.version;
     this.category = validConfig.category;
+    // 未声明参数 schema 的工具接受任意参数
+    this.parameters = validConfig.parameters || z.object({}).passthrough();
 
     // 构建上下文
     this.context = ToolContextSchema.parse({
@@ -152,4 +158,38 @@ ${this.formatArgs()}
       .map(([key, value]) => `- ${key}: ${typeof value}`)
       .join('\n');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * 把工具转换为模型可调用的函数定义
+ * 参数不合法或执行抛错时返回失败结果，让模型看到错误后自行修正
+ * @param tool 工具
+ * @returns 函数调用定义
+ */
+export function toToolDefinition(tool: Tool): LLMToolDefinition {
+  const parameters = tool.parameters || z.object({}).passthrough();
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters,
+    execute: async (args: Record<string, any>): Promise<ToolResult> => {
+      const parsed = parameters.safeParse(args);
+      if (!parsed.success) {
+        return ToolResultSchema.parse({
+          success: false,
+          message: `Invalid arguments: ${formatZodIssues(parsed.error).join('; ')}`,
+        });
+      }
+
+      try {
+        return await tool.execute(parsed.data);
+      } catch (error) {
+        await tool.handleError(error as Error);
+        return ToolResultSchema.parse({
+          success: false,
+          message: `Tool ${tool.name} failed: ${(error as Error).message}`,
+        });
+      }
+    },
+  };
+}
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { BaseTool } from './base-tool';
 import type { ToolConfig, ToolResult } from '../types/tool';
 import { promises as fs } from 'fs';
@@ -14,6 +15,11 @@ export class FileSystemTool extends BaseTool {
       description: 'Basic file system operations',
       version: '1.0.0',
       category: 'system',
+      parameters: z.object({
+        operation: z.enum(['read', 'write', 'delete', 'list']).describe('File system operation to perform'),
+        path: z.string().describe('Path of the file or directory'),
+        content: z.string().optional().describe('Content to write, required by the write operation'),
+      }),
       ...config,
     });
   }
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import type { CostManager } from '../utils/cost-manager';
 
 /**
  * LLM Configuration schema
@@ -22,6 +23,81 @@ export const LLMConfigSchema = z.object({
 
 export type LLMConfig = z.infer<typeof LLMConfigSchema>;
 
+/**
+ * Options for structured output generation
+ */
+export interface StructuredOutputOptions {
+  /**
+   * Number of times an invalid answer is sent back to the model for repair
+   * @default 2
+   */
+  maxRepairs?: number;
+
+  /**
+   * Generation configuration overrides
+   */
+  config?: Partial<LLMConfig>;
+}
+
+/**
+ * Default maximum number of model steps in a tool calling loop
+ */
+export const DEFAULT_MAX_TOOL_STEPS = 10;
+
+/**
+ * Tool exposed to the model as a callable function
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** Schema of the function arguments */
+  parameters: z.ZodTypeAny;
+  /** Execute the tool; the returned value is fed back to the model */
+  execute(args: Record<string, any>): Promise<unknown>;
+}
+
+/**
+ * A tool call made by the model and its result
+ */
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result: unknown;
+  /** Model step the call was made in, starting at 1 */
+  step: number;
+}
+
+/**
+ * Options for a tool calling loop
+ */
+export interface ToolCallingOptions {
+  /**
+   * Maximum number of model steps, including the final answer
+   * @default 10
+   */
+  maxSteps?: number;
+
+  /**
+   * Generation configuration overrides
+   */
+  config?: Partial<LLMConfig>;
+}
+
+/**
+ * Result of a tool calling loop
+ */
+export interface ToolCallingResult {
+  /** Final answer of the model */
+  text: string;
+  /** Tool calls in the order they were made */
+  toolCalls: ToolInvocation[];
+  /** Number of model steps taken */
+  steps: number;
+  /** Why the last step finished; `tool-calls` means the step limit stopped the loop */
+  finishReason: string;
+}
+
 /**
  * LLM Provider interface
  * Defines the contract for language model providers
@@ -81,6 +157,40 @@ export interface LLMProvider {
    */
   chatStream?(message: string): AsyncIterable<string>;
 
+  /**
+   * Generate an object matching a zod schema.
+   * Invalid answers are sent back to the model with the validation errors until they match.
+   * @param prompt - Input prompt
+   * @param schema - Schema the object must match
+   * @param options - Structured output options
+   * @returns Validated object
+   */
+  generateObject?<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: StructuredOutputOptions
+  ): Promise<T>;
+
+  /**
+   * Let the model call tools: every call is executed and its result fed back
+   * until the model answers or the step limit is reached
+   * @param prompt - Input prompt
+   * @param tools - Tools the model may call
+   * @param options - Tool calling options
+   * @returns Final answer and the tool calls made
+   */
+  generateWithTools?(
+    prompt: string,
+    tools: LLMToolDefinition[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResult>;
+
+  /**
+   * Set the cost manager that records token usage of every call
+   * @param costManager - Cost manager to record usage with
+   */
+  setCostManager?(costManager: CostManager): void;
+
   /**
    * Create text embeddings
    * @param text - Input text
@@ -22,6 +22,21 @@ export const MessageMetadataSchema = z.object({
 
 export type MessageMetadata = z.infer<typeof MessageMetadataSchema>;
 
+/**
+ * Tag of role notices, e.g. "No action to perform" or action errors,
+ * which report on the role itself and must not be delivered to other roles
+ */
+export const ROLE_NOTICE_TAG = 'role-notice';
+
+/**
+ * Check whether a message is a role notice
+ * @param msg - Message to check
+ * @returns True if the message carries the role notice tag
+ */
+export function isRoleNotice(msg: Message): boolean {
+  return msg.metadata?.tags?.includes(ROLE_NOTICE_TAG) ?? false;
+}
+
 /**
  * Simple message schema without routing information
  */
@@ -66,6 +81,35 @@ export const MessageSchema = z.object({
 export type SimpleMessage = z.infer<typeof SimpleMessageSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 
+/**
+ * Message with `sendTo` flattened to an array, safe for JSON storage
+ */
+export type SerializedMessage = Omit<Message, 'sendTo'> & { sendTo: string[] };
+
+/**
+ * Convert a message into a JSON-safe object
+ * @param msg - Message to serialize
+ * @returns Serialized message
+ */
+export function serializeMessage(msg: Message): SerializedMessage {
+  return {
+    ...msg,
+    sendTo: Array.from(msg.sendTo, String),
+  };
+}
+
+/**
+ * Restore a message produced by `serializeMessage`
+ * @param data - Serialized message
+ * @returns Message with `sendTo` as a Set
+ */
+export function deserializeMessage(data: SerializedMessage): Message {
+  return {
+    ...data,
+    sendTo: new Set(data.sendTo),
+  };
+}
+
 /**
  * Message queue interface for handling asynchronous message updates
  */
@@ -125,10 +169,7 @@ export class AsyncMessageQueue implements MessageQueue {
    */
   public async dump(): Promise<string> {
     return JSON.stringify({
-      messages: this.queue.map(msg => ({
-        ...msg,
-        sendTo: Array.from(msg.sendTo),
-      })),
+      messages: this.queue.map(serializeMessage),
     });
   }
 
@@ -142,10 +183,7 @@ export class AsyncMessageQueue implements MessageQueue {
     try {
       const parsed = JSON.parse(data);
       if (Array.isArray(parsed.messages)) {
-        queue.queue = parsed.messages.map((msg: any) => ({
-          ...msg,
-          sendTo: new Set(msg.sendTo),
-        }));
+        queue.queue = parsed.messages.map(deserializeMessage);
       }
     } catch (error) {
       console.error('Failed to load message queue:', error);
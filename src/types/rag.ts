@@ -35,6 +35,8 @@ export const RAGConfigSchema = z.object({
   topK: z.number().default(5),
   /** 最小相似度分数 */
   minScore: z.number().default(0.7),
+  /** 嵌入向量生成器，未设置时使用LLM的embed方法 */
+  embeddings: z.any().optional(), // EmbeddingGenerator
 });
 
 export type RAGConfig = z.infer<typeof RAGConfigSchema>;
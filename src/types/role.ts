@@ -6,6 +6,37 @@ import { createMachine } from 'xstate';
 export const RoleReactModeEnum = z.enum(['react', 'by_order', 'plan_and_act']);
 export type RoleReactMode = z.infer<typeof RoleReactModeEnum>;
 
+export const PlanTaskStatusEnum = z.enum(['pending', 'in_progress', 'completed', 'failed']);
+export type PlanTaskStatus = z.infer<typeof PlanTaskStatusEnum>;
+
+/**
+ * A task of a plan made in `plan_and_act` mode
+ */
+export const PlanTaskSchema = z.object({
+  id: z.string(),
+  /** What the task should achieve */
+  instruction: z.string(),
+  /** Name of the role action executing the task */
+  action: z.string(),
+  status: PlanTaskStatusEnum.default('pending'),
+  /** Output of the last attempt */
+  result: z.string().optional(),
+});
+
+export type PlanTask = z.infer<typeof PlanTaskSchema>;
+
+/**
+ * Plan made in `plan_and_act` mode
+ */
+export const PlanSchema = z.object({
+  goal: z.string(),
+  tasks: z.array(PlanTaskSchema).default([]),
+  /** Number of times the plan was revised after a failed task */
+  replans: z.number().default(0),
+});
+
+export type Plan = z.infer<typeof PlanSchema>;
+
 export const RoleContextSchema = z.object({
   memory: z.any(), // TODO: Define Memory type
   workingMemory: z.any(), // TODO: Define Memory type
@@ -14,6 +45,7 @@ export const RoleContextSchema = z.object({
   watch: z.set(z.string()),
   reactMode: RoleReactModeEnum,
   maxReactLoop: z.number().default(1),
+  plan: PlanSchema.nullable().default(null),
 });
 
 export type RoleContext = z.infer<typeof RoleContextSchema>;
@@ -106,7 +138,8 @@ export function createDefaultRoleContext(): RoleContext {
     todo: null,
     watch: new Set<string>(),
     reactMode: 'react',
-    maxReactLoop: 1
+    maxReactLoop: 1,
+    plan: null
   };
 }
 
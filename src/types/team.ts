@@ -1,8 +1,8 @@
 import { z } from 'zod';
-import { Role } from './role';
+import type { Role } from './role';
 import { Environment } from '../environment/environment';
-import { Context } from '../context/context';
-import { Message } from './message';
+import type { Context } from '../context/context';
+import type { Message } from './message';
 
 /**
  * Team configuration schema
@@ -15,14 +15,16 @@ export const TeamConfigSchema = z.object({
   /** Project idea or requirement */
   idea: z.string().default(''),
   /** Team context */
-  context: z.instanceof(Context).optional(),
+  context: z.custom<Context>().optional(),
   /** Team roles */
-  roles: z.array(z.instanceof(Role)).optional(),
+  roles: z.array(z.custom<Role>()).optional(),
   /** Environment description */
   envDesc: z.string().optional(),
+  /** Storage path for checkpoints and archives; checkpointing is off when unset */
+  storagePath: z.string().optional(),
 });
 
-export type TeamConfig = z.infer<typeof TeamConfigSchema>;
+export type TeamConfig = z.input<typeof TeamConfigSchema>;
 
 /**
  * Team state schema
@@ -30,12 +32,14 @@ export type TeamConfig = z.infer<typeof TeamConfigSchema>;
 export const TeamStateSchema = z.object({
   /** Current round number */
   currentRound: z.number().default(0),
+  /** Round the current run stops at */
+  maxRounds: z.number().default(0),
   /** Whether team is running */
   isRunning: z.boolean().default(false),
   /** Whether team is archived */
   isArchived: z.boolean().default(false),
   /** Team history */
-  history: z.array(z.instanceof(Message)).default([]),
+  history: z.array(z.custom<Message>()).default([]),
 });
 
 export type TeamState = z.infer<typeof TeamStateSchema>;
@@ -52,4 +56,19 @@ export const TeamStorageSchema = z.object({
   storagePath: z.string().optional(),
 });
 
-export type TeamStorage = z.infer<typeof TeamStorageSchema>; 
\ No newline at end of file
+export type TeamStorage = z.infer<typeof TeamStorageSchema>;
+
+/**
+ * Options for restoring a team from its checkpoints
+ */
+export interface TeamRestoreOptions {
+  /** Roles to hire; matched to checkpointed roles by name */
+  roles?: Role[];
+  /** Context to use instead of a fresh one */
+  context?: Context;
+  /**
+   * Restart from the first checkpoint and serve recorded LLM responses
+   * instead of calling the models, to reproduce a run deterministically
+   */
+  replay?: boolean;
+}
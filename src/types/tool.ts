@@ -10,6 +10,7 @@ export const ToolConfigSchema = z.object({
   category: z.string(),                // 工具类别
   args: z.record(z.any()).optional(), // 工具参数
   metadata: z.record(z.any()).optional(), // 元数据
+  parameters: z.custom<z.ZodTypeAny>(value => value instanceof z.ZodType).optional(), // 调用参数的 schema
 });
 
 export type ToolConfig = z.infer<typeof ToolConfigSchema>;
@@ -49,6 +50,7 @@ export interface Tool {
   version: string;                    // 工具版本
   category: string;                   // 工具类别
   context: ToolContext;              // 工具上下文
+  parameters?: z.ZodTypeAny;         // 调用参数的 schema，用于生成函数调用定义
 
   /**
    * 执行工具
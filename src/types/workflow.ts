@@ -12,7 +12,7 @@ export const WorkflowNodeSchema = z.object({
   /** 节点名称 */
   name: z.string(),
   /** 节点类型 */
-  type: z.enum(['action', 'role', 'condition', 'parallel', 'sequence']),
+  type: z.enum(['action', 'role', 'condition', 'parallel', 'sequence', 'loop', 'map']),
   /** 节点配置 */
   config: z.record(z.any()).optional(),
   /** 节点状态 */
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { NoMoneyError } from './errors';
+import { logger } from './logger';
+import { TOKEN_COSTS, calculateCost, getModelPrice } from './token-costs';
+import type { ModelPrice } from './token-costs';
+
+/**
+ * Attribution label used when a call happens outside any role or action
+ */
+export const UNATTRIBUTED = 'unknown';
+
+/**
+ * Aggregated usage of one role/action/model combination
+ */
+export const CostRecordSchema = z.object({
+  role: z.string(),
+  action: z.string(),
+  model: z.string(),
+  promptTokens: z.number().default(0),
+  completionTokens: z.number().default(0),
+  cost: z.number().default(0),
+  calls: z.number().default(0),
+});
+
+export type CostRecord = z.infer<typeof CostRecordSchema>;
+
+/**
+ * Snapshot of cost manager totals, used for checkpoints
+ */
+export const CostSnapshotSchema = z.object({
+  totalPromptTokens: z.number().default(0),
+  totalCompletionTokens: z.number().default(0),
+  totalCost: z.number().default(0),
+  maxBudget: z.number().default(10.0),
+  records: z.array(CostRecordSchema).default([]),
+});
+
+export type CostSnapshot = z.infer<typeof CostSnapshotSchema>;
+
+/**
+ * Who a call is made on behalf of
+ */
+export interface CostAttribution {
+  role?: string;
+  action?: string;
+}
+
+/**
+ * Token usage of a single LLM call
+ */
+export interface TokenUsage extends CostAttribution {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Usage summed over a group of calls
+ */
+export interface CostSummary {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  calls: number;
+}
+
+/**
+ * Cost breakdown of a run
+ */
+export interface CostReport {
+  totalCost: number;
+  totalPromptTokens: number;
+  totalCompletionTokens: number;
+  maxBudget: number;
+  byRole: Record<string, CostSummary>;
+  byAction: Record<string, CostSummary>;
+  byModel: Record<string, CostSummary>;
+}
+
+const attributionStorage = new AsyncLocalStorage<CostAttribution>();
+
+/**
+ * Run a function with LLM calls attributed to a role and/or action.
+ * Nested calls inherit the fields they don't set.
+ * @param attribution Role and action to attribute calls to
+ * @param fn Function to run
+ * @returns Result of the function
+ */
+export function withCostAttribution<T>(attribution: CostAttribution, fn: () => T): T {
+  const current = attributionStorage.getStore() || {};
+  return attributionStorage.run({
+    role: attribution.role ?? current.role,
+    action: attribution.action ?? current.action,
+  }, fn);
+}
+
+/**
+ * Iterate a stream with every step attributed to a role and/or action.
+ * Generators run in the context of whoever resumes them, so each step is resumed inside the attribution.
+ * @param attribution Role and action to attribute calls to
+ * @param stream Stream to iterate
+ */
+export async function* withStreamCostAttribution<T>(
+  attribution: CostAttribution,
+  stream: AsyncIterable<T>
+): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  while (true) {
+    const step = await withCostAttribution(attribution, () => iterator.next());
+    if (step.done) {
+      return;
+    }
+    yield step.value;
+  }
+}
+
+/**
+ * Get the role and action the current call is made on behalf of
+ */
+export function getCostAttribution(): CostAttribution {
+  return attributionStorage.getStore() || {};
+}
+
+/**
+ * Tracks token usage and spend for a run
+ */
+export class CostManager {
+  totalPromptTokens: number = 0;
+  totalCompletionTokens: number = 0;
+  totalCost: number = 0;
+  maxBudget: number = 10.0;
+
+  private prices: Record<string, ModelPrice>;
+  private records: Map<string, CostRecord> = new Map();
+  private unpricedModels: Set<string> = new Set();
+
+  /**
+   * @param prices Price overrides in USD per 1K tokens, merged over `TOKEN_COSTS`
+   */
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.prices = { ...TOKEN_COSTS, ...prices };
+  }
+
+  /**
+   * Set the price of a model
+   * @param model Model name or prefix
+   * @param price Price in USD per 1K tokens
+   */
+  setPrice(model: string, price: ModelPrice): void {
+    this.prices[model] = price;
+  }
+
+  /**
+   * Record the usage of an LLM call
+   * @param usage Token usage; role and action default to the current attribution
+   * @returns Cost of the call
+   */
+  updateCost(usage: TokenUsage): number {
+    const attribution = getCostAttribution();
+    const role = usage.role ?? attribution.role ?? UNATTRIBUTED;
+    const action = usage.action ?? attribution.action ?? UNATTRIBUTED;
+    const promptTokens = Number.isFinite(usage.promptTokens) ? usage.promptTokens : 0;
+    const completionTokens = Number.isFinite(usage.completionTokens) ? usage.completionTokens : 0;
+
+    const price = getModelPrice(usage.model, this.prices);
+    if (!price && !this.unpricedModels.has(usage.model)) {
+      this.unpricedModels.add(usage.model);
+      logger.warn(`[CostManager] No price for model ${usage.model}, its calls are counted as free`);
+    }
+    const cost = price ? calculateCost(price, promptTokens, completionTokens) : 0;
+
+    this.totalPromptTokens += promptTokens;
+    this.totalCompletionTokens += completionTokens;
+    this.totalCost += cost;
+
+    const key = recordKey(role, action, usage.model);
+    const record = this.records.get(key) || CostRecordSchema.parse({ role, action, model: usage.model });
+    record.promptTokens += promptTokens;
+    record.completionTokens += completionTokens;
+    record.cost += cost;
+    record.calls += 1;
+    this.records.set(key, record);
+
+    logger.debug(
+      `[CostManager] ${role}/${action} ${usage.model}: ${promptTokens}+${completionTokens} tokens, ` +
+      `$${cost.toFixed(4)} (total $${this.totalCost.toFixed(4)} / $${this.maxBudget})`
+    );
+    return cost;
+  }
+
+  /**
+   * Check that budget is left
+   * @throws {NoMoneyError} If the budget is spent
+   */
+  checkBudget(): void {
+    if (this.totalCost >= this.maxBudget) {
+      throw new NoMoneyError(this.totalCost, `Insufficient funds: ${this.maxBudget}`);
+    }
+  }
+
+  /**
+   * Build a cost breakdown per role, action and model
+   * @returns Cost report
+   */
+  getReport(): CostReport {
+    const report: CostReport = {
+      totalCost: this.totalCost,
+      totalPromptTokens: this.totalPromptTokens,
+      totalCompletionTokens: this.totalCompletionTokens,
+      maxBudget: this.maxBudget,
+      byRole: {},
+      byAction: {},
+      byModel: {},
+    };
+
+    for (const record of this.records.values()) {
+      addToSummary(report.byRole, record.role, record);
+      addToSummary(report.byAction, `${record.role}/${record.action}`, record);
+      addToSummary(report.byModel, record.model, record);
+    }
+    return report;
+  }
+
+  /**
+   * Render the cost breakdown as Markdown tables
+   * @returns Markdown report
+   */
+  formatReport(): string {
+    const report = this.getReport();
+    const lines = [
+      `Total cost: $${report.totalCost.toFixed(4)} of $${report.maxBudget} ` +
+      `(${report.totalPromptTokens} prompt + ${report.totalCompletionTokens} completion tokens)`,
+    ];
+
+    const sections: Array<[string, Record<string, CostSummary>]> = [
+      ['Role', report.byRole],
+      ['Action', report.byAction],
+      ['Model', report.byModel],
+    ];
+    for (const [title, summaries] of sections) {
+      lines.push('', `| ${title} | Calls | Prompt tokens | Completion tokens | Cost ($) |`, '|---|---|---|---|---|');
+      const rows = Object.entries(summaries).sort(([, a], [, b]) => b.cost - a.cost);
+      for (const [name, summary] of rows) {
+        lines.push(
+          `| ${name} | ${summary.calls} | ${summary.promptTokens} | ${summary.completionTokens} | ${summary.cost.toFixed(4)} |`
+        );
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Capture the current totals
+   * @returns Cost snapshot
+   */
+  snapshot(): CostSnapshot {
+    return {
+      totalPromptTokens: this.totalPromptTokens,
+      totalCompletionTokens: this.totalCompletionTokens,
+      totalCost: this.totalCost,
+      maxBudget: this.maxBudget,
+      records: Array.from(this.records.values()).map(record => ({ ...record })),
+    };
+  }
+
+  /**
+   * Restore totals from a snapshot
+   * @param snapshot Cost snapshot
+   */
+  restore(snapshot: Partial<CostSnapshot>): void {
+    const parsed = CostSnapshotSchema.parse(snapshot);
+    this.totalPromptTokens = parsed.totalPromptTokens;
+    this.totalCompletionTokens = parsed.totalCompletionTokens;
+    this.totalCost = parsed.totalCost;
+    this.maxBudget = parsed.maxBudget;
+    this.records = new Map(
+      parsed.records.map(record => [recordKey(record.role, record.action, record.model), record])
+    );
+  }
+}
+
+/**
+ * Key of the aggregated record for a role/action/model combination
+ */
+function recordKey(role: string, action: string, model: string): string {
+  return `${role}\u0000${action}\u0000${model}`;
+}
+
+/**
+ * Add a record's usage to a summary group
+ */
+function addToSummary(summaries: Record<string, CostSummary>, key: string, record: CostRecord): void {
+  const summary = summaries[key] || { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0 };
+  summary.promptTokens += record.promptTokens;
+  summary.completionTokens += record.completionTokens;
+  summary.cost += record.cost;
+  summary.calls += record.calls;
+  summaries[key] = summary;
+}
@@ -0,0 +1,101 @@
+/**
+ * Error types shared across the application
+ */
+
+/**
+ * Raised when a run has spent its budget
+ */
+export class NoMoneyError extends Error {
+  /** Amount spent when the error was raised */
+  readonly amount: number;
+
+  constructor(amount: number, message: string = 'Insufficient funds') {
+    super(message);
+    this.name = 'NoMoneyError';
+    this.amount = amount;
+  }
+}
+
+/**
+ * Raised when a replayed LLM call has no recorded response.
+ * Replays must stop on a miss rather than let the run diverge from the recording.
+ */
+export class ReplayMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Raised when an LLM fails to produce output matching a schema within its repair attempts
+ */
+export class StructuredOutputError extends Error {
+  /** Validation problems of the last attempt */
+  readonly issues: string[];
+  /** Raw text of the last attempt */
+  readonly text: string;
+  /** Number of attempts made */
+  readonly attempts: number;
+
+  constructor(issues: string[], text: string, attempts: number) {
+    super(`LLM output did not match the schema after ${attempts} attempt(s): ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.text = text;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Raised when a workflow expression fails to parse or evaluate
+ */
+export class ExpressionError extends Error {
+  /** Expression source */
+  readonly expression: string;
+  /** Offset of the offending token in the source */
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position}\n  ${expression}\n  ${' '.repeat(position)}^`);
+    this.name = 'ExpressionError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+/**
+ * Problem found in a workflow definition
+ */
+export interface WorkflowIssue {
+  /** Description of the problem */
+  message: string;
+  /** Path of the offending value in the definition */
+  path: (string | number)[];
+  /** 1-based line in the source file, when loaded from one */
+  line?: number;
+  /** 1-based column in the source file, when loaded from one */
+  column?: number;
+}
+
+/**
+ * Raised when a workflow definition is malformed, listing every problem found
+ */
+export class WorkflowValidationError extends Error {
+  /** Problems found */
+  readonly issues: WorkflowIssue[];
+  /** Source file, when loaded from one */
+  readonly file?: string;
+
+  constructor(issues: WorkflowIssue[], file?: string) {
+    const source = file ?? 'workflow';
+    const lines = issues.map(issue => {
+      const location = issue.line !== undefined ? `${source}:${issue.line}:${issue.column ?? 1}` : source;
+      return `  ${location} ${issue.message}`;
+    });
+    super(`Invalid workflow ${source}:\n${lines.join('\n')}`);
+    this.name = 'WorkflowValidationError';
+    this.issues = issues;
+    this.file = file;
+  }
+}
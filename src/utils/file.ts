@@ -0,0 +1,35 @@
+/**
+ * File utility functions
+ */
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Write data to a JSON file, creating parent directories as needed
+ * @param filePath - Target file path
+ * @param data - Data to write
+ */
+export function writeJsonFile(filePath: string, data: any): void {
+  const dirPath = path.dirname(filePath);
+  if (!fs.existsSync(dirPath)) {
+    fs.mkdirSync(dirPath, { recursive: true });
+  }
+
+  // Write to a temporary file first so a crash never leaves a truncated file behind
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Read and parse a JSON file
+ * @param filePath - File path
+ * @returns Parsed data
+ * @throws If the file does not exist or is not valid JSON
+ */
+export function readJsonFile<T = any>(filePath: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+}
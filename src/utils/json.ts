@@ -22,4 +22,39 @@ export function stringifyWithCircularRefs(obj: any, space: number = 0): string {
     }
     return value;
   }, space);
-} 
\ No newline at end of file
+} 
+/**
+ * Extracts and parses the JSON value embedded in an LLM response.
+ * Accepts bare JSON, JSON inside a Markdown code fence, or JSON surrounded by prose.
+ * 
+ * @param text The response text
+ * @returns Parsed JSON value
+ * @throws {SyntaxError} If no valid JSON value is found
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+
+  const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  // Fall back to the outermost object or array in the text
+  const start = trimmed.search(/[{[]/);
+  if (start !== -1) {
+    const end = trimmed.lastIndexOf(trimmed[start] === '{' ? '}' : ']');
+    if (end > start) {
+      candidates.push(trimmed.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new SyntaxError('No valid JSON found in response');
+}
@@ -0,0 +1,156 @@
+/**
+ * Structured output helpers
+ *
+ * Shared by providers without native structured output support: the prompt asks
+ * for JSON matching a zod schema, the response is validated, and validation
+ * errors are fed back to the model until it produces a valid object.
+ */
+import { z } from 'zod';
+import { zodSchema } from 'ai';
+import { StructuredOutputError } from './errors';
+import { extractJson } from './json';
+import { logger } from './logger';
+import type { LLMProvider, StructuredOutputOptions } from '../types/llm';
+
+/**
+ * Default number of repair attempts after the first answer
+ */
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Result of validating a response against a schema
+ */
+export type StructuredValidation<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Render a schema as JSON Schema for use in prompts
+ * @param schema - Zod schema
+ * @returns JSON Schema text
+ */
+export function describeSchema(schema: z.ZodTypeAny): string {
+  return JSON.stringify(zodSchema(schema).jsonSchema, null, 2);
+}
+
+/**
+ * Format zod issues as `path: message` lines
+ * @param error - Zod error
+ * @returns Issue descriptions
+ */
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Parse and validate a response
+ * @param text - Response text
+ * @param schema - Zod schema
+ * @returns Validated data or validation issues
+ */
+export function validateStructuredOutput<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): StructuredValidation<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { success: false, issues: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatZodIssues(result.error) };
+}
+
+/**
+ * Build the prompt for the first attempt
+ * @param prompt - Task prompt
+ * @param schema - Zod schema the answer must match
+ * @returns Prompt with output instructions
+ */
+export function buildStructuredPrompt(prompt: string, schema: z.ZodTypeAny): string {
+  return `${prompt}
+
+Respond with a single JSON value that matches this JSON Schema. Do not add any other text.
+
+${describeSchema(schema)}`;
+}
+
+/**
+ * Build the prompt for a repair attempt
+ * @param prompt - Task prompt
+ * @param schema - Zod schema the answer must match
+ * @param text - Previous invalid answer
+ * @param issues - Validation issues of the previous answer
+ * @returns Prompt asking the model to fix its answer
+ */
+export function buildRepairPrompt(prompt: string, schema: z.ZodTypeAny, text: string, issues: string[]): string {
+  return `${buildStructuredPrompt(prompt, schema)}
+
+Your previous answer was:
+
+${text}
+
+It is invalid:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the corrected JSON only.`;
+}
+
+/**
+ * Ask for a structured answer through a plain text completion function,
+ * repairing invalid answers until they match the schema
+ * @param complete - Function sending a prompt to the model
+ * @param prompt - Task prompt
+ * @param schema - Zod schema the answer must match
+ * @param options - Structured output options
+ * @returns Validated answer
+ * @throws {StructuredOutputError} If no valid answer is produced within the repair attempts
+ */
+export async function generateStructured<T>(
+  complete: (prompt: string) => Promise<string>,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOutputOptions = {}
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let currentPrompt = buildStructuredPrompt(prompt, schema);
+
+  for (let attempt = 1; ; attempt++) {
+    const text = await complete(currentPrompt);
+    const result = validateStructuredOutput(text, schema);
+    if (result.success) {
+      return result.data;
+    }
+
+    if (attempt > maxRepairs) {
+      throw new StructuredOutputError(result.issues, text, attempt);
+    }
+    logger.debug(`[StructuredOutput] Attempt ${attempt} invalid, repairing: ${result.issues.join('; ')}`);
+    currentPrompt = buildRepairPrompt(prompt, schema, text, result.issues);
+  }
+}
+
+/**
+ * Ask a provider for a structured answer, with its native structured output
+ * when available and through validated chat responses otherwise
+ * @param llm - LLM provider
+ * @param prompt - Task prompt
+ * @param schema - Zod schema the answer must match
+ * @param options - Structured output options
+ * @returns Validated answer
+ * @throws {StructuredOutputError} If no valid answer is produced within the repair attempts
+ */
+export function generateObjectWith<T>(
+  llm: LLMProvider,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options?: StructuredOutputOptions
+): Promise<T> {
+  return llm.generateObject
+    ? llm.generateObject(prompt, schema, options)
+    : generateStructured(p => llm.chat(p), prompt, schema, options);
+}
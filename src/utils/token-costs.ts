@@ -0,0 +1,79 @@
+/**
+ * Per-model token prices
+ */
+
+/**
+ * Price of a model in USD per 1K tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Default price table in USD per 1K tokens.
+ * Keys are matched exactly first, then as the longest prefix of the model name,
+ * so dated snapshots (e.g. `gpt-4o-2024-08-06`) use their family's price.
+ */
+export const TOKEN_COSTS: Record<string, ModelPrice> = {
+  // OpenAI
+  'gpt-3.5-turbo': { prompt: 0.0005, completion: 0.0015 },
+  'gpt-4': { prompt: 0.03, completion: 0.06 },
+  'gpt-4-32k': { prompt: 0.06, completion: 0.12 },
+  'gpt-4-turbo': { prompt: 0.01, completion: 0.03 },
+  'gpt-4o': { prompt: 0.0025, completion: 0.01 },
+  'gpt-4o-mini': { prompt: 0.00015, completion: 0.0006 },
+  'o1': { prompt: 0.015, completion: 0.06 },
+  'o1-mini': { prompt: 0.0011, completion: 0.0044 },
+  'o3-mini': { prompt: 0.0011, completion: 0.0044 },
+  // Anthropic
+  'claude-3-opus': { prompt: 0.015, completion: 0.075 },
+  'claude-3-sonnet': { prompt: 0.003, completion: 0.015 },
+  'claude-3-haiku': { prompt: 0.00025, completion: 0.00125 },
+  'claude-3-5-sonnet': { prompt: 0.003, completion: 0.015 },
+  'claude-3-5-haiku': { prompt: 0.0008, completion: 0.004 },
+  'claude-3-7-sonnet': { prompt: 0.003, completion: 0.015 },
+  // Mistral
+  'mistral-small-latest': { prompt: 0.0002, completion: 0.0006 },
+  'mistral-large-latest': { prompt: 0.002, completion: 0.006 },
+  // Google
+  'gemini-pro': { prompt: 0.0005, completion: 0.0015 },
+  'gemini-1.5-pro': { prompt: 0.00125, completion: 0.005 },
+  'gemini-1.5-flash': { prompt: 0.000075, completion: 0.0003 },
+  'gemini-2.0-flash': { prompt: 0.0001, completion: 0.0004 },
+  // Qwen (DashScope international pricing)
+  'qwen-turbo': { prompt: 0.00005, completion: 0.0002 },
+  'qwen-plus': { prompt: 0.0004, completion: 0.0012 },
+  'qwen-max': { prompt: 0.0016, completion: 0.0064 },
+};
+
+/**
+ * Look up the price of a model
+ * @param model - Model name
+ * @param prices - Price table to search
+ * @returns Model price, or undefined if the model is unknown
+ */
+export function getModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice> = TOKEN_COSTS
+): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Calculate the cost of a call
+ * @param price - Model price
+ * @param promptTokens - Prompt tokens used
+ * @param completionTokens - Completion tokens used
+ * @returns Cost in USD
+ */
+export function calculateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1000;
+}
@@ -17,6 +17,10 @@ export enum WebSocketMessageType {
   STREAM = 'stream',
   /** End of stream */
   STREAM_END = 'stream_end',
+  /** Request for input from a person */
+  HUMAN_INPUT_REQUEST = 'human_input_request',
+  /** Input from a person */
+  HUMAN_INPUT = 'human_input',
 }
 
 /**
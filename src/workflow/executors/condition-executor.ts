@@ -1,4 +1,6 @@
 import type { NodeExecutor, WorkflowNode } from '../../types/workflow';
+import type { CompiledExpression } from '../expression';
+import { compileExpression } from '../expression';
 
 /**
  * 条件节点配置
@@ -54,11 +56,20 @@ export class ConditionNodeExecutor implements NodeExecutor {
    */
   validate(node: WorkflowNode): boolean {
     const config = this.getConditionConfig(node);
-    return (
-      node.type === 'condition' &&
-      !!config &&
-      (!!config.expression || !!config.handler)
-    );
+    if (node.type !== 'condition' || !config || (!config.expression && !config.handler)) {
+      return false;
+    }
+    if (config.handler) {
+      return true;
+    }
+
+    // 表达式必须能通过语法和名称校验
+    try {
+      this.compile(config);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -98,21 +109,23 @@ export class ConditionNodeExecutor implements NodeExecutor {
         return await config.handler(config.params || {});
       }
 
-      // 否则使用表达式求值
-      const params = {
+      // 否则使用安全表达式求值，参数和上下文作为可引用的名称
+      return this.compile(config).test({
         ...config.params,
         context,
-      };
-      
-      // 使用 Function 构造函数创建表达式求值函数
-      const evaluator = new Function(
-        ...Object.keys(params),
-        `return ${config.expression};`
-      );
-      
-      return evaluator(...Object.values(params));
+      });
     } catch (error) {
       throw new Error(`Failed to evaluate condition: ${error}`);
     }
   }
+
+  /**
+   * 编译条件表达式
+   * @param config 条件配置
+   */
+  private compile(config: ConditionConfig): CompiledExpression {
+    return compileExpression(config.expression, {
+      identifiers: [...Object.keys(config.params || {}), 'context'],
+    });
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,171 @@
+import type { NodeExecutor, WorkflowNode } from '../../types/workflow';
+import type { CompiledExpression } from '../expression';
+import { compileExpression } from '../expression';
+
+/**
+ * 循环节点配置
+ */
+interface LoopConfig {
+  /** 继续循环的条件表达式，每轮结束后求值，可引用 iteration、result、context 和参数 */
+  condition: string;
+  /** 条件参数 */
+  params?: Record<string, any>;
+  /** 最大循环次数 */
+  maxIterations?: number;
+}
+
+/** 默认最大循环次数 */
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * 循环节点执行器
+ * 按顺序执行子节点，直到条件不再成立
+ */
+export class LoopNodeExecutor implements NodeExecutor {
+  private status: string = 'pending';
+  private result: any = null;
+
+  /**
+   * 执行循环节点
+   * @param node 工作流节点
+   * @param context 执行上下文
+   * @returns 每一轮子节点的执行结果
+   */
+  async execute(node: WorkflowNode, context: any): Promise<any[][]> {
+    try {
+      this.status = 'running';
+
+      // 获取循环配置
+      const config = this.getLoopConfig(node);
+      if (!config?.condition) {
+        throw new Error(`Loop config not found in node: ${node.id}`);
+      }
+
+      // 获取子节点执行器
+      const childExecutors = this.getChildExecutors(node, context);
+      if (childExecutors.length === 0) {
+        throw new Error(`No child nodes found in loop node: ${node.id}`);
+      }
+
+      // 执行循环
+      const results = await this.executeLoop(childExecutors, config, context);
+      this.result = results;
+      this.status = 'completed';
+
+      return results;
+    } catch (error) {
+      this.status = 'failed';
+      this.result = error;
+      throw error;
+    }
+  }
+
+  /**
+   * 验证节点配置
+   * @param node 工作流节点
+   */
+  validate(node: WorkflowNode): boolean {
+    const config = this.getLoopConfig(node);
+    if (node.type !== 'loop' || !config?.condition || node.childIds.length === 0) {
+      return false;
+    }
+
+    // 表达式必须能通过语法和名称校验
+    try {
+      this.compile(config);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取节点状态
+   */
+  getStatus(): string {
+    return this.status;
+  }
+
+  /**
+   * 获取执行结果
+   */
+  getResult(): any {
+    return this.result;
+  }
+
+  /**
+   * 从节点配置中获取循环配置
+   * @param node 工作流节点
+   */
+  private getLoopConfig(node: WorkflowNode): LoopConfig | undefined {
+    return node.config?.loop as LoopConfig;
+  }
+
+  /**
+   * 获取子节点执行器列表
+   * @param node 工作流节点
+   * @param context 执行上下文
+   */
+  private getChildExecutors(
+    node: WorkflowNode,
+    context: any
+  ): Array<(ctx: any) => Promise<any>> {
+    return node.childIds.map(childId => {
+      const childNode = context.workflow.nodes.find(
+        (n: WorkflowNode) => n.id === childId
+      );
+      if (!childNode) {
+        throw new Error(`Child node not found: ${childId}`);
+      }
+
+      const executor = context.workflow.nodeExecutors.get(childNode.type);
+      if (!executor) {
+        throw new Error(`No executor found for node type: ${childNode.type}`);
+      }
+
+      return (ctx: any) => executor.execute(childNode, ctx);
+    });
+  }
+
+  /**
+   * 循环执行子节点
+   * @param executors 执行器列表
+   * @param config 循环配置
+   * @param baseContext 基础上下文
+   */
+  private async executeLoop(
+    executors: Array<(ctx: any) => Promise<any>>,
+    config: LoopConfig,
+    baseContext: any
+  ): Promise<any[][]> {
+    const condition = this.compile(config);
+    const maxIterations = config.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const results: any[][] = [];
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      // 每一轮都能拿到轮次和上一轮的结果
+      const context = { ...baseContext, iteration, previousResult: results.at(-1) };
+      const result: any[] = [];
+      for (const executor of executors) {
+        result.push(await executor(context));
+      }
+      results.push(result);
+
+      if (!condition.test({ ...config.params, iteration, result, context: baseContext })) {
+        return results;
+      }
+    }
+
+    throw new Error(`Loop condition still holds after ${maxIterations} iterations`);
+  }
+
+  /**
+   * 编译循环条件
+   * @param config 循环配置
+   */
+  private compile(config: LoopConfig): CompiledExpression {
+    return compileExpression(config.condition, {
+      identifiers: [...Object.keys(config.params || {}), 'iteration', 'result', 'context'],
+    });
+  }
+}
@@ -0,0 +1,195 @@
+import type { NodeExecutor, WorkflowNode } from '../../types/workflow';
+import type { CompiledExpression } from '../expression';
+import { compileExpression } from '../expression';
+
+/**
+ * 映射节点配置
+ */
+interface MapConfig {
+  /** 元素数组，或求值为数组的表达式，可引用 context 和参数 */
+  items: any[] | string;
+  /** 表达式参数 */
+  params?: Record<string, any>;
+  /** 最大并发数 */
+  maxConcurrency?: number;
+}
+
+/**
+ * 映射节点执行器
+ * 对数组的每个元素按顺序执行子节点，元素之间并行
+ */
+export class MapNodeExecutor implements NodeExecutor {
+  private status: string = 'pending';
+  private result: any = null;
+
+  /**
+   * 执行映射节点
+   * @param node 工作流节点
+   * @param context 执行上下文
+   * @returns 每个元素的子节点执行结果，与元素顺序一致
+   */
+  async execute(node: WorkflowNode, context: any): Promise<any[][]> {
+    try {
+      this.status = 'running';
+
+      // 获取映射配置
+      const config = this.getMapConfig(node);
+      if (!config?.items) {
+        throw new Error(`Map config not found in node: ${node.id}`);
+      }
+
+      // 获取子节点执行器
+      const childExecutors = this.getChildExecutors(node, context);
+      if (childExecutors.length === 0) {
+        throw new Error(`No child nodes found in map node: ${node.id}`);
+      }
+
+      // 执行映射
+      const items = this.resolveItems(config, context);
+      const results = await this.executeMap(childExecutors, items, config, context);
+      this.result = results;
+      this.status = 'completed';
+
+      return results;
+    } catch (error) {
+      this.status = 'failed';
+      this.result = error;
+      throw error;
+    }
+  }
+
+  /**
+   * 验证节点配置
+   * @param node 工作流节点
+   */
+  validate(node: WorkflowNode): boolean {
+    const config = this.getMapConfig(node);
+    if (node.type !== 'map' || !config?.items || node.childIds.length === 0) {
+      return false;
+    }
+    if (Array.isArray(config.items)) {
+      return true;
+    }
+
+    // 表达式必须能通过语法和名称校验
+    try {
+      this.compile(config.items, config);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取节点状态
+   */
+  getStatus(): string {
+    return this.status;
+  }
+
+  /**
+   * 获取执行结果
+   */
+  getResult(): any {
+    return this.result;
+  }
+
+  /**
+   * 从节点配置中获取映射配置
+   * @param node 工作流节点
+   */
+  private getMapConfig(node: WorkflowNode): MapConfig | undefined {
+    return node.config?.map as MapConfig;
+  }
+
+  /**
+   * 获取子节点执行器列表
+   * @param node 工作流节点
+   * @param context 执行上下文
+   */
+  private getChildExecutors(
+    node: WorkflowNode,
+    context: any
+  ): Array<(ctx: any) => Promise<any>> {
+    return node.childIds.map(childId => {
+      const childNode = context.workflow.nodes.find(
+        (n: WorkflowNode) => n.id === childId
+      );
+      if (!childNode) {
+        throw new Error(`Child node not found: ${childId}`);
+      }
+
+      const executor = context.workflow.nodeExecutors.get(childNode.type);
+      if (!executor) {
+        throw new Error(`No executor found for node type: ${childNode.type}`);
+      }
+
+      return (ctx: any) => executor.execute(childNode, ctx);
+    });
+  }
+
+  /**
+   * 获取要映射的元素
+   * @param config 映射配置
+   * @param context 执行上下文
+   */
+  private resolveItems(config: MapConfig, context: any): any[] {
+    const items = Array.isArray(config.items)
+      ? config.items
+      : this.compile(config.items, config).evaluate({ ...config.params, context });
+    if (!Array.isArray(items)) {
+      throw new Error(`Map items must be an array, got ${typeof items}`);
+    }
+    return items;
+  }
+
+  /**
+   * 对每个元素执行子节点
+   * @param executors 执行器列表
+   * @param items 元素列表
+   * @param config 映射配置
+   * @param baseContext 基础上下文
+   */
+  private async executeMap(
+    executors: Array<(ctx: any) => Promise<any>>,
+    items: any[],
+    config: MapConfig,
+    baseContext: any
+  ): Promise<any[][]> {
+    const results: any[][] = new Array(items.length);
+    const maxConcurrency = config.maxConcurrency || items.length;
+    let next = 0;
+
+    // 每个工作者依次领取下一个元素，遇到第一个失败即停止
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        const context = { ...baseContext, item: items[index], index };
+        const result: any[] = [];
+        try {
+          for (const executor of executors) {
+            result.push(await executor(context));
+          }
+        } catch (error) {
+          next = items.length;
+          throw new Error(`Item ${index} failed: ${error instanceof Error ? error.message : error}`);
+        }
+        results[index] = result;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(maxConcurrency, items.length) }, worker));
+    return results;
+  }
+
+  /**
+   * 编译元素表达式
+   * @param expression 元素表达式
+   * @param config 映射配置
+   */
+  private compile(expression: string, config: MapConfig): CompiledExpression {
+    return compileExpression(expression, {
+      identifiers: [...Object.keys(config.params || {}), 'context'],
+    });
+  }
+}
@@ -0,0 +1,584 @@
+/**
+ * Workflow Expressions
+ *
+ * A small, side-effect free expression language for workflow conditions,
+ * replacing `new Function` so definitions loaded from files cannot run code.
+ * The syntax is a subset of JavaScript:
+ *
+ * - literals: numbers, 'strings', "strings", true, false, null, undefined, [lists]
+ * - paths: `variables.order.items[0].price`; missing paths yield undefined
+ * - operators: `! - * / % + < <= > >= in == != === !== && || ?:`
+ * - calls to whitelisted functions only, e.g. `len(variables.items) > 0`
+ *
+ * Equality is always strict. Only own properties are readable, and
+ * `__proto__`, `constructor` and `prototype` are rejected, so expressions
+ * cannot reach prototypes or functions.
+ *
+ * @module workflow/expression
+ * @category Core
+ */
+
+import { ExpressionError } from '../utils/errors';
+
+/**
+ * Function callable from expressions
+ */
+export type ExpressionFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Options for compiling an expression
+ */
+export interface ExpressionOptions {
+  /** Functions callable in addition to the built-in ones */
+  functions?: Record<string, ExpressionFunction>;
+  /** Root names the expression may refer to; any name when omitted */
+  identifiers?: string[];
+}
+
+/**
+ * Parsed expression node
+ */
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown; position: number }
+  | { type: 'list'; items: ExpressionNode[]; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode; position: number }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number };
+
+/**
+ * Longest expression accepted
+ */
+const MAX_LENGTH = 4096;
+
+/**
+ * Deepest nesting accepted
+ */
+const MAX_DEPTH = 64;
+
+/**
+ * Property names never readable from expressions
+ */
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Functions available to every expression
+ */
+export const BUILTIN_FUNCTIONS: Readonly<Record<string, ExpressionFunction>> = Object.freeze({
+  /** Length of a string or list, number of keys of an object */
+  len: (value: unknown) => (typeof value === 'string' || Array.isArray(value)
+    ? value.length
+    : isRecord(value) ? Object.keys(value).length : 0),
+  lower: (value: unknown) => String(value ?? '').toLowerCase(),
+  upper: (value: unknown) => String(value ?? '').toUpperCase(),
+  trim: (value: unknown) => String(value ?? '').trim(),
+  /** Whether a string contains a substring or a list contains an item */
+  contains: (container: unknown, item: unknown) => (Array.isArray(container)
+    ? container.includes(item)
+    : typeof container === 'string' && container.includes(String(item))),
+  startsWith: (value: unknown, prefix: unknown) => typeof value === 'string' && value.startsWith(String(prefix)),
+  endsWith: (value: unknown, suffix: unknown) => typeof value === 'string' && value.endsWith(String(suffix)),
+  /** Whether a value is neither undefined nor null */
+  exists: (value: unknown) => value !== undefined && value !== null,
+  /** Whether a value is missing, an empty string, an empty list or an empty object */
+  empty: (value: unknown) => value === undefined || value === null || BUILTIN_FUNCTIONS.len(value) === 0,
+  keys: (value: unknown) => (isRecord(value) ? Object.keys(value) : []),
+  number: (value: unknown) => Number(value),
+  string: (value: unknown) => (value === undefined || value === null ? '' : String(value)),
+  abs: (value: unknown) => Math.abs(Number(value)),
+  floor: (value: unknown) => Math.floor(Number(value)),
+  ceil: (value: unknown) => Math.ceil(Number(value)),
+  round: (value: unknown) => Math.round(Number(value)),
+  min: (...values: unknown[]) => Math.min(...values.flat().map(Number)),
+  max: (...values: unknown[]) => Math.max(...values.flat().map(Number)),
+});
+
+/**
+ * Compiled expression, validated and ready to evaluate against any scope
+ */
+export class CompiledExpression {
+  readonly source: string;
+  readonly ast: ExpressionNode;
+  private functions: Record<string, ExpressionFunction>;
+
+  constructor(source: string, ast: ExpressionNode, functions: Record<string, ExpressionFunction>) {
+    this.source = source;
+    this.ast = ast;
+    this.functions = functions;
+  }
+
+  /**
+   * Evaluate the expression
+   * @param scope Values of the root names
+   * @returns Expression value
+   * @throws {ExpressionError} On type errors such as arithmetic on non-numbers
+   */
+  evaluate(scope: Record<string, unknown> = {}): unknown {
+    return this.evaluateNode(this.ast, scope);
+  }
+
+  /**
+   * Evaluate the expression as a condition
+   * @param scope Values of the root names
+   * @returns Truthiness of the value
+   */
+  test(scope: Record<string, unknown> = {}): boolean {
+    return Boolean(this.evaluate(scope));
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'list':
+        return node.items.map(item => this.evaluateNode(item, scope));
+      case 'identifier':
+        return readProperty(scope, node.name);
+      case 'member': {
+        const object = this.evaluateNode(node.object, scope);
+        const property = this.evaluateNode(node.property, scope);
+        if (typeof property !== 'string' && typeof property !== 'number') {
+          throw this.error('Property names must be strings or numbers', node.property);
+        }
+        if (FORBIDDEN_PROPERTIES.has(String(property))) {
+          throw this.error(`Property ${property} is not accessible`, node.property);
+        }
+        return readProperty(object, String(property));
+      }
+      case 'call': {
+        const args = node.args.map(arg => this.evaluateNode(arg, scope));
+        return this.functions[node.name](...args);
+      }
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, scope);
+        if (node.operator === '!') {
+          return !operand;
+        }
+        if (typeof operand !== 'number') {
+          throw this.error('Operator - expects a number', node);
+        }
+        return -operand;
+      }
+      case 'conditional':
+        return this.evaluateNode(node.test, scope)
+          ? this.evaluateNode(node.consequent, scope)
+          : this.evaluateNode(node.alternate, scope);
+      case 'binary':
+        return this.evaluateBinary(node, scope);
+    }
+  }
+
+  private evaluateBinary(
+    node: Extract<ExpressionNode, { type: 'binary' }>,
+    scope: Record<string, unknown>
+  ): unknown {
+    const left = this.evaluateNode(node.left, scope);
+    // Logical operators short-circuit
+    if (node.operator === '&&') {
+      return left && this.evaluateNode(node.right, scope);
+    }
+    if (node.operator === '||') {
+      return left || this.evaluateNode(node.right, scope);
+    }
+
+    const right = this.evaluateNode(node.right, scope);
+    switch (node.operator) {
+      case '==':
+      case '===':
+        return left === right;
+      case '!=':
+      case '!==':
+        return left !== right;
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        // Only numbers with numbers and strings with strings are ordered
+        if (!((typeof left === 'number' && typeof right === 'number') ||
+          (typeof left === 'string' && typeof right === 'string'))) {
+          return false;
+        }
+        return node.operator === '<' ? left < right
+          : node.operator === '<=' ? left <= right
+            : node.operator === '>' ? left > right
+              : left >= right;
+      case 'in':
+        if (Array.isArray(right)) {
+          return right.includes(left);
+        }
+        if (typeof right === 'string') {
+          return typeof left === 'string' && right.includes(left);
+        }
+        return isRecord(right) && typeof left === 'string' && Object.prototype.hasOwnProperty.call(right, left);
+      case '+':
+        if (typeof left === 'number' && typeof right === 'number') {
+          return left + right;
+        }
+        if (typeof left === 'string' || typeof right === 'string') {
+          return `${left ?? ''}${right ?? ''}`;
+        }
+        throw this.error('Operator + expects numbers or strings', node);
+      default:
+        if (typeof left !== 'number' || typeof right !== 'number') {
+          throw this.error(`Operator ${node.operator} expects numbers`, node);
+        }
+        return node.operator === '-' ? left - right
+          : node.operator === '*' ? left * right
+            : node.operator === '/' ? left / right
+              : left % right;
+    }
+  }
+
+  private error(message: string, node: ExpressionNode): ExpressionError {
+    return new ExpressionError(message, this.source, node.position);
+  }
+}
+
+/**
+ * Parse and validate an expression
+ * @param source Expression source
+ * @param options Extra functions and the allowed root names
+ * @returns Compiled expression
+ * @throws {ExpressionError} On syntax errors, unknown functions or unknown names
+ */
+export function compileExpression(source: string, options: ExpressionOptions = {}): CompiledExpression {
+  const functions = { ...BUILTIN_FUNCTIONS, ...options.functions };
+  const parser = new Parser(source, new Set(Object.keys(functions)), options.identifiers && new Set(options.identifiers));
+  return new CompiledExpression(source, parser.parse(), functions);
+}
+
+/**
+ * Compile and evaluate an expression once
+ * @param source Expression source
+ * @param scope Values of the root names
+ * @param options Extra functions
+ * @returns Expression value
+ */
+export function evaluateExpression(
+  source: string,
+  scope: Record<string, unknown> = {},
+  options: Omit<ExpressionOptions, 'identifiers'> = {}
+): unknown {
+  return compileExpression(source, options).evaluate(scope);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an own property; anything else, including properties of primitives
+ * other than string length and characters, is undefined
+ */
+function readProperty(object: unknown, property: string): unknown {
+  if (typeof object === 'string') {
+    return property === 'length' ? object.length : /^\d+$/.test(property) ? object[Number(property)] : undefined;
+  }
+  if (typeof object !== 'object' || object === null || !Object.prototype.hasOwnProperty.call(object, property)) {
+    return undefined;
+  }
+  const value = (object as Record<string, unknown>)[property];
+  // Functions stored in the scope are not callable from expressions
+  return typeof value === 'function' ? undefined : value;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '!', '<', '>', '+', '-', '*', '/', '%', '?', ':', '.', ',', '(', ')', '[', ']'];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const char = source[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(position));
+    if (number && !(char === '.' && tokens.length > 0 && isOperand(tokens[tokens.length - 1]))) {
+      tokens.push({ type: 'number', value: number[0], position: start });
+      position += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: start });
+      position += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      position++;
+      while (source[position] !== char) {
+        if (position >= source.length) {
+          throw new ExpressionError('Unterminated string', source, start);
+        }
+        if (source[position] === '\\') {
+          const escaped = ESCAPES[source[position + 1]];
+          if (escaped === undefined) {
+            throw new ExpressionError('Unknown escape sequence', source, position);
+          }
+          value += escaped;
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      tokens.push({ type: 'string', value, position: start });
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, position));
+    if (!operator) {
+      const hint = char === '=' ? '; use == to compare' : char === '&' || char === '|' ? `; use ${char}${char}` : '';
+      throw new ExpressionError(`Unexpected character '${char}'${hint}`, source, start);
+    }
+    tokens.push({ type: 'operator', value: operator, position: start });
+    position += operator.length;
+  }
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Whether a token ends an operand, so a following `.` is member access
+ */
+function isOperand(token: Token): boolean {
+  return token.type === 'name' || (token.type === 'operator' && (token.value === ')' || token.value === ']'));
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, in: 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+/**
+ * Recursive descent parser with precedence climbing for binary operators
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private source: string,
+    private functions: Set<string>,
+    private identifiers?: Set<string>
+  ) {
+    if (source.length > MAX_LENGTH) {
+      throw new ExpressionError(`Expression is longer than ${MAX_LENGTH} characters`, source.slice(0, 40), 0);
+    }
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw this.error('Empty expression', this.peek());
+    }
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw this.error(`Unexpected ${describe(next)}`, next);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinary(1);
+    if (!this.accept('?')) {
+      this.depth--;
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    this.depth--;
+    return { type: 'conditional', test, consequent, alternate, position: test.position };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const isOperator = token.type === 'operator' || (token.type === 'name' && token.value === 'in');
+      const precedence = isOperator ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value, left, right, position: token.position };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.index++;
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: token.value, operand, position: token.position };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      const token = this.peek();
+      if (this.accept('.')) {
+        const name = this.next();
+        if (name.type !== 'name') {
+          throw this.error(`Expected a property name after '.' but found ${describe(name)}`, name);
+        }
+        node = { type: 'member', object: node, property: this.property(name.value, name), position: name.position };
+      } else if (this.accept('[')) {
+        const property = this.parseConditional();
+        if (property.type === 'literal') {
+          this.property(String(property.value), token);
+        }
+        this.expect(']');
+        node = { type: 'member', object: node, property, position: token.position };
+      } else if (token.type === 'operator' && token.value === '(') {
+        throw this.error('Only named functions can be called', token);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), position: token.position };
+      case 'string':
+        return { type: 'literal', value: token.value, position: token.position };
+      case 'name':
+        if (token.value === 'in') {
+          break;
+        }
+        return this.parseName(token);
+      case 'operator':
+        if (token.value === '(') {
+          this.enter();
+          const node = this.parseConditional();
+          this.expect(')');
+          this.depth--;
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'list', items: this.parseList(']'), position: token.position };
+        }
+    }
+    throw this.error(`Unexpected ${describe(token)}`, token);
+  }
+
+  private parseName(token: Token): ExpressionNode {
+    if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+      return { type: 'literal', value: KEYWORDS[token.value], position: token.position };
+    }
+    if (this.accept('(')) {
+      if (!this.functions.has(token.value)) {
+        throw this.error(`Unknown function ${token.value}; available: ${Array.from(this.functions).sort().join(', ')}`, token);
+      }
+      return { type: 'call', name: token.value, args: this.parseList(')'), position: token.position };
+    }
+    if (this.identifiers && !this.identifiers.has(token.value)) {
+      throw this.error(`Unknown name ${token.value}; available: ${Array.from(this.identifiers).join(', ')}`, token);
+    }
+    this.property(token.value, token);
+    return { type: 'identifier', name: token.value, position: token.position };
+  }
+
+  private parseList(close: ')' | ']'): ExpressionNode[] {
+    this.enter();
+    const items: ExpressionNode[] = [];
+    if (!this.accept(close)) {
+      do {
+        items.push(this.parseConditional());
+      } while (this.accept(','));
+      this.expect(close);
+    }
+    this.depth--;
+    return items;
+  }
+
+  private property(name: string, token: Token): ExpressionNode {
+    if (FORBIDDEN_PROPERTIES.has(name)) {
+      throw this.error(`Property ${name} is not accessible`, token);
+    }
+    return { type: 'literal', value: name, position: token.position };
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw this.error(`Expression is nested deeper than ${MAX_DEPTH} levels`, this.peek());
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    const token = this.peek();
+    if (!this.accept(operator)) {
+      throw this.error(`Expected '${operator}' but found ${describe(token)}`, token);
+    }
+  }
+
+  private error(message: string, token: Token): ExpressionError {
+    return new ExpressionError(message, this.source, token.position);
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of expression';
+    case 'string':
+      return `string '${token.value}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
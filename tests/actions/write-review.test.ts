@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { WriteReview, ReviewSeverity, ReviewCategory } from '../../src/actions/write-review';
+import { CodeReviewSchema, WriteReview, ReviewSeverity, ReviewCategory } from '../../src/actions/write-review';
 import { UserMessage } from '../../src/types/message';
 import { ContextImpl, ContextFactory, GlobalContext } from '../../src/context/context';
 import { MemoryManagerImpl } from '../../src/memory/manager';
@@ -42,6 +42,11 @@ describe('WriteReview', () => {
     expect(writeReview.name).toBe('WriteReview');
   });
 
+  it('should not invent comments for a review without any', () => {
+    const review = CodeReviewSchema.parse({ summary: 'Looks good', generalFeedback: 'No issues found' });
+    expect(review.comments).toEqual([]);
+  });
+
   it('should handle empty message list', async () => {
     const result = await writeReview.run();
     expect(result.status).toBe('failed');
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { InMemoryVectorStore, VectorIndexType } from '../../src/rag/vector-store';
+import type { VectorStore } from '../../src/rag/vector-store';
+import { logger } from '../../src/utils/logger';
+
+const DIMENSION = 64;
+const COLLECTION_SIZE = 5000;
+const QUERY_COUNT = 100;
+const TOP_K = 10;
+
+/**
+ * Clustered pseudo-random vectors, closer to real embeddings than uniform noise
+ */
+function createVectors(count: number, seed: number): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  const centroids = Array.from({ length: 50 }, () => Array.from({ length: DIMENSION }, random));
+  return Array.from({ length: count }, () => {
+    const centroid = centroids[Math.floor((random() + 0.5) * centroids.length)];
+    return centroid.map(value => value + random() * 0.5);
+  });
+}
+
+async function build(store: VectorStore, vectors: number[][]): Promise<number> {
+  const start = performance.now();
+  await store.addBatch(vectors.map((vector, i) => ({ id: String(i), vector })));
+  return performance.now() - start;
+}
+
+async function query(store: VectorStore, queries: number[][]): Promise<{ results: string[][]; mean: number }> {
+  const results: string[][] = [];
+  const start = performance.now();
+  for (const vector of queries) {
+    results.push((await store.search(vector, TOP_K, -1)).map(result => result.id));
+  }
+  return { results, mean: (performance.now() - start) / queries.length };
+}
+
+describe('Vector index benchmark', () => {
+  test('HNSW search against exact search', async () => {
+    const vectors = createVectors(COLLECTION_SIZE, 1);
+    const queries = createVectors(QUERY_COUNT, 2);
+    const exact = new InMemoryVectorStore({ dimension: DIMENSION });
+    const hnsw = new InMemoryVectorStore({
+      dimension: DIMENSION,
+      index: VectorIndexType.HNSW,
+      hnsw: { m: 16, efConstruction: 100, efSearch: 100 },
+    });
+
+    const exactBuild = await build(exact, vectors);
+    const hnswBuild = await build(hnsw, vectors);
+    const exactRun = await query(exact, queries);
+    const hnswRun = await query(hnsw, queries);
+
+    const hits = hnswRun.results.reduce(
+      (total, ids, i) => total + ids.filter(id => exactRun.results[i].includes(id)).length,
+      0
+    );
+    const recall = hits / (QUERY_COUNT * TOP_K);
+
+    logger.info('Benchmark: vector index', {
+      vectors: COLLECTION_SIZE,
+      dimension: DIMENSION,
+      exactBuildMs: exactBuild,
+      hnswBuildMs: hnswBuild,
+      exactQueryMs: exactRun.mean,
+      hnswQueryMs: hnswRun.mean,
+      recall,
+    });
+
+    // Timings are logged only; wall-clock comparisons are too noisy to assert on
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+  });
+});
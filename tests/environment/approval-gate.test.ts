@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'vitest';
+import { Environment } from '../../src/environment/environment';
+import { ApprovalGate, APPROVAL_REJECTED, parseApprovalReply } from '../../src/environment/approval-gate';
+import { ScriptedHumanChannel } from '../../src/environment/human-channel';
+import { MessageSchema } from '../../src/types/message';
+import { createDefaultRoleContext } from '../../src/types/role';
+import type { Role } from '../../src/types/role';
+
+function createRole(name: string, action: string, watch: string[] = []): Role & { received: string[] } {
+  const context = createDefaultRoleContext();
+  watch.forEach(watched => context.watch.add(watched));
+  let env: Environment;
+
+  const role = {
+    name,
+    profile: name,
+    goal: '',
+    constraints: '',
+    actions: [],
+    context,
+    received: [] as string[],
+    isIdle: true,
+    setEnvironment: (environment: Environment) => { env = environment; },
+    observe: async () => true,
+    think: async () => true,
+    act: async () => MessageSchema.parse({ content: '' }),
+    react: async () => MessageSchema.parse({ content: '' }),
+    run: async () => {
+      const messages = await env.popMessages(name);
+      role.received.push(...messages.map(message => message.content));
+      return MessageSchema.parse({ content: `${name} output`, role: name, sentFrom: name, causedBy: action });
+    },
+  };
+  return role;
+}
+
+describe('parseApprovalReply', () => {
+  test('should parse approve, edit and reject replies', () => {
+    expect(parseApprovalReply('')).toEqual({ decision: 'approve' });
+    expect(parseApprovalReply(' Yes ')).toEqual({ decision: 'approve' });
+    expect(parseApprovalReply('edit: New PRD')).toEqual({ decision: 'edit', content: 'New PRD' });
+    expect(parseApprovalReply('reject: add a budget')).toEqual({ decision: 'reject', feedback: 'add a budget' });
+    expect(parseApprovalReply('needs more detail')).toEqual({ decision: 'reject', feedback: 'needs more detail' });
+  });
+});
+
+describe('Environment approval gates', () => {
+  function setup(replies: string[]) {
+    const env = new Environment();
+    const pm = createRole('PM', 'WritePRD');
+    const engineer = createRole('Engineer', 'WriteCode', ['WritePRD']);
+    env.addRoles([pm, engineer]);
+    const channel = new ScriptedHumanChannel(replies);
+    const gate = new ApprovalGate({ actions: ['WritePRD'], channel });
+    env.addApprovalGate(gate);
+    env.publishMessage(MessageSchema.parse({ content: 'Build a todo app', sendTo: 'PM' }));
+    return { env, pm, engineer, channel, gate };
+  }
+
+  test('should publish approved output', async () => {
+    const { env, engineer, channel, gate } = setup(['y']);
+
+    await env.run();
+    await env.run();
+
+    expect(channel.prompts[0]).toContain('PM output');
+    expect(gate.records[0]).toMatchObject({ role: 'PM', action: 'WritePRD', decision: { decision: 'approve' } });
+    expect(engineer.received).toEqual(['PM output']);
+  });
+
+  test('should publish edited output', async () => {
+    const { env, engineer } = setup(['edit: A better PRD']);
+
+    await env.run();
+    await env.run();
+
+    expect(engineer.received).toEqual(['A better PRD']);
+    expect(env.history.map(message => message.content)).toContain('A better PRD');
+  });
+
+  test('should hold rejected output and send the feedback to its author', async () => {
+    const { env, pm, engineer } = setup(['reject: add acceptance criteria', 'y']);
+
+    await env.run();
+
+    expect(env.history.some(message => message.content === 'PM output')).toBe(false);
+    const feedback = env.history[env.history.length - 1];
+    expect(feedback.causedBy).toBe(APPROVAL_REJECTED);
+    expect(feedback.content).toContain('add acceptance criteria');
+
+    await env.run();
+    await env.run();
+
+    expect(pm.received[1]).toBe(feedback.content);
+    expect(engineer.received).toEqual(['PM output']);
+  });
+});
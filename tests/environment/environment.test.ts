@@ -0,0 +1,177 @@
+import { describe, expect, test, beforeEach } from 'vitest';
+import { Environment } from '../../src/environment/environment';
+import { MessageBus } from '../../src/environment/message-bus';
+import { MessageSchema, ROLE_NOTICE_TAG } from '../../src/types/message';
+import type { Message } from '../../src/types/message';
+import { createDefaultRoleContext } from '../../src/types/role';
+import type { Role } from '../../src/types/role';
+
+function createMessage(data: Partial<Omit<Message, 'sendTo'>> & { sendTo?: string | string[] }): Message {
+  return MessageSchema.parse({ content: 'test', ...data });
+}
+
+function createRole(name: string, watch: string[] = []): Role & { runs: number } {
+  const context = createDefaultRoleContext();
+  watch.forEach(action => context.watch.add(action));
+
+  const role = {
+    name,
+    profile: name,
+    goal: '',
+    constraints: '',
+    actions: [],
+    context,
+    runs: 0,
+    isIdle: true,
+    observe: async () => true,
+    think: async () => true,
+    act: async () => createMessage({ content: `${name} output`, sentFrom: name }),
+    react: async () => createMessage({ content: `${name} output`, sentFrom: name }),
+    run: async () => {
+      role.runs++;
+      return createMessage({ content: `${name} output`, sentFrom: name, causedBy: `${name}Action` });
+    },
+  };
+  return role;
+}
+
+describe('MessageBus', () => {
+  let bus: MessageBus;
+
+  beforeEach(() => {
+    bus = new MessageBus();
+  });
+
+  test('should deliver targeted messages only to the named subscriber', async () => {
+    bus.subscribe('Alice');
+    bus.subscribe('Bob');
+
+    bus.publish(createMessage({ sendTo: 'Bob' }));
+
+    expect(bus.hasPending('Alice')).toBe(false);
+    expect(await bus.popAll('Bob')).toHaveLength(1);
+  });
+
+  test('should route broadcasts by watched action type', async () => {
+    bus.subscribe('Engineer', { actions: ['WriteDesign'] });
+    bus.subscribe('QA', { actions: ['WriteCode'] });
+
+    bus.publish(createMessage({ causedBy: 'WriteDesign' }));
+
+    expect(bus.hasPending('Engineer')).toBe(true);
+    expect(bus.hasPending('QA')).toBe(false);
+  });
+
+  test('should route broadcasts by tag', () => {
+    bus.subscribe('Reviewer', { tags: ['review'] });
+
+    bus.publish(createMessage({ metadata: { tags: ['draft'] } }));
+    expect(bus.hasPending('Reviewer')).toBe(false);
+
+    bus.publish(createMessage({ metadata: { tags: ['review'] } }));
+    expect(bus.hasPending('Reviewer')).toBe(true);
+  });
+
+  test('should deliver every broadcast to subscribers without filters, except the sender', () => {
+    bus.subscribe('Alice');
+    bus.subscribe('Bob');
+
+    const delivered = bus.publish(createMessage({ sentFrom: 'Alice' }));
+
+    expect(delivered).toEqual(['Bob']);
+  });
+
+  test('should treat the legacy ALL address as a broadcast', () => {
+    bus.subscribe('Alice');
+    bus.publish(createMessage({ sendTo: 'ALL' }));
+    expect(bus.hasPending('Alice')).toBe(true);
+  });
+
+  test('should follow later changes to a watched action set', () => {
+    const watch = new Set<string>();
+    bus.watchActions('Engineer', watch);
+
+    watch.add('WriteDesign');
+    bus.publish(createMessage({ causedBy: 'WriteCode' }));
+    bus.publish(createMessage({ causedBy: 'WriteDesign' }));
+
+    expect(bus.getQueue('Engineer')?.empty()).toBe(false);
+    expect(bus.getSubscription('Engineer')?.actions.has('WriteDesign')).toBe(true);
+  });
+});
+
+describe('Environment', () => {
+  let env: Environment;
+
+  beforeEach(() => {
+    env = new Environment();
+  });
+
+  test('should filter history by the sendTo set', () => {
+    env.publishMessage(createMessage({ content: 'to all' }));
+    env.publishMessage(createMessage({ content: 'to bob', sendTo: 'Bob' }));
+    env.publishMessage(createMessage({ content: 'to carol', sendTo: ['Carol'] }));
+
+    expect(env.getMessages('Bob').map(m => m.content)).toEqual(['to all', 'to bob']);
+    expect(env.getMessages('Carol', 1).map(m => m.content)).toEqual(['to carol']);
+  });
+
+  test('should subscribe roles by name and RoleContext.watch', async () => {
+    const architect = createRole('Architect', ['WritePRD']);
+    const engineer = createRole('Engineer', ['WriteDesign']);
+    env.addRoles([architect, engineer]);
+
+    env.publishMessage(createMessage({ causedBy: 'WritePRD' }));
+    env.publishMessage(createMessage({ causedBy: 'UserRequirement', sendTo: 'Engineer' }));
+
+    expect((await env.popMessages('Architect')).map(m => m.causedBy)).toEqual(['WritePRD']);
+    expect((await env.popMessages('Engineer')).map(m => m.causedBy)).toEqual(['UserRequirement']);
+    expect(await env.popMessages('Engineer')).toEqual([]);
+  });
+
+  test('should only run roles with pending deliveries and publish their output', async () => {
+    const architect = createRole('Architect', ['UserRequirement']);
+    const engineer = createRole('Engineer', ['ArchitectAction']);
+    env.addRoles([architect, engineer]);
+
+    env.publishMessage(createMessage({ causedBy: 'UserRequirement' }));
+    expect(env.isIdle).toBe(false);
+
+    await env.run();
+    expect(architect.runs).toBe(1);
+    expect(engineer.runs).toBe(0);
+    expect(env.hasPendingMessages('Engineer')).toBe(true);
+
+    await env.popMessages('Architect');
+    await env.run();
+    expect(engineer.runs).toBe(1);
+    expect(env.history.map(m => m.content)).toEqual(['test', 'Architect output', 'Engineer output']);
+  });
+
+  test('should not publish role notices', async () => {
+    const architect = createRole('Architect', ['UserRequirement']);
+    const engineer = createRole('Engineer', ['ArchitectAction']);
+    architect.run = async () => createMessage({
+      content: 'Cannot determine next action',
+      sentFrom: 'Architect',
+      causedBy: 'ArchitectAction',
+      metadata: { tags: [ROLE_NOTICE_TAG] },
+    });
+    env.addRoles([architect, engineer]);
+
+    env.publishMessage(createMessage({ causedBy: 'UserRequirement' }));
+    await env.run();
+
+    expect(env.history.map(m => m.content)).toEqual(['test']);
+    expect(env.hasPendingMessages('Engineer')).toBe(false);
+  });
+
+  test('should support extra tag subscriptions', () => {
+    env.addRoles([createRole('Reviewer', ['WriteCode'])]);
+    env.subscribe('Reviewer', { tags: ['urgent'] });
+
+    env.publishMessage(createMessage({ causedBy: 'Other', metadata: { tags: ['urgent'] } }));
+
+    expect(env.hasPendingMessages('Reviewer')).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test, vi } from 'vitest';
+import { WebSocketHumanChannel } from '../../src/environment/websocket-human-channel';
+import type { HumanInputRequest } from '../../src/environment/websocket-human-channel';
+import { WebSocketMessageType } from '../../src/websocket/types';
+import type { WebSocketMessage, WebSocketServerOptions } from '../../src/websocket/types';
+
+vi.mock('../../src/websocket/server', () => ({
+  /**
+   * Server that keeps broadcasts in memory instead of opening a port
+   */
+  WebSocketServerImpl: class {
+    running = false;
+    broadcasts: WebSocketMessage[] = [];
+
+    constructor(readonly options: WebSocketServerOptions) {}
+
+    async start() {
+      this.running = true;
+    }
+
+    async stop() {
+      this.running = false;
+    }
+
+    async broadcast(message: WebSocketMessage) {
+      this.broadcasts.push(message);
+    }
+
+    isRunning() {
+      return this.running;
+    }
+  },
+}));
+
+type FakeServer = { options: WebSocketServerOptions; broadcasts: WebSocketMessage[] };
+
+function requests(channel: WebSocketHumanChannel): HumanInputRequest[] {
+  return (channel.server as unknown as FakeServer).broadcasts.map(m => m.payload as HumanInputRequest);
+}
+
+function reply(channel: WebSocketHumanChannel, payload: { requestId?: string; content: string }): void {
+  (channel.server as unknown as FakeServer).options.onMessage?.(
+    { type: WebSocketMessageType.HUMAN_INPUT, payload, timestamp: Date.now(), id: 'reply' },
+    {} as WebSocket
+  );
+}
+
+describe('WebSocketHumanChannel', () => {
+  test('should route replies to the request they name', async () => {
+    const channel = new WebSocketHumanChannel({ port: 0 });
+    const design = channel.ask('Approve the design?');
+    const code = channel.ask('Approve the code?');
+    await vi.waitFor(() => expect(requests(channel)).toHaveLength(2));
+
+    const [designRequest, codeRequest] = requests(channel);
+    expect(designRequest.prompt).toBe('Approve the design?');
+
+    reply(channel, { requestId: 'unknown', content: 'ignored' });
+    reply(channel, { requestId: codeRequest.requestId, content: 'Ship it' });
+    reply(channel, { requestId: designRequest.requestId, content: 'Needs a cache' });
+
+    expect(await code).toBe('Ship it');
+    expect(await design).toBe('Needs a cache');
+    await channel.close();
+  });
+
+  test('should answer the oldest request when a reply has no requestId', async () => {
+    const channel = new WebSocketHumanChannel({ port: 0 });
+    const first = channel.ask('First?');
+    const second = channel.ask('Second?');
+    await vi.waitFor(() => expect(requests(channel)).toHaveLength(2));
+
+    reply(channel, { content: 'yes' });
+    reply(channel, { content: 'no' });
+
+    expect(await first).toBe('yes');
+    expect(await second).toBe('no');
+    await channel.close();
+  });
+
+  test('should reject open requests when closed', async () => {
+    const channel = new WebSocketHumanChannel({ port: 0 });
+    const answer = channel.ask('Approve the design?');
+    await vi.waitFor(() => expect(requests(channel)).toHaveLength(1));
+
+    await channel.close();
+
+    await expect(answer).rejects.toThrow('Human channel closed');
+  });
+});
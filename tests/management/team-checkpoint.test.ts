@@ -0,0 +1,157 @@
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Team } from '../../src/management/team';
+import { CheckpointStore } from '../../src/management/checkpoint';
+import { LLMReplayMissError } from '../../src/management/llm-journal';
+import { BaseRole } from '../../src/roles/base-role';
+import { BaseAction } from '../../src/actions/base-action';
+import type { ActionOutput } from '../../src/types/action';
+import type { LLMProvider } from '../../src/types/llm';
+import type { Message } from '../../src/types/message';
+
+/**
+ * LLM that answers with a numbered response, or refuses to be called
+ */
+function createLLM(prefix: string, enabled = true): LLMProvider & { calls: number } {
+  const llm = {
+    calls: 0,
+    chat: async (prompt: string) => {
+      if (!enabled) {
+        throw new Error('LLM must not be called');
+      }
+      llm.calls++;
+      return `${prefix}-${llm.calls}: ${prompt.slice(0, 20)}`;
+    },
+    generate: async (prompt: string) => llm.chat(prompt),
+    getName: () => 'test',
+    getModel: () => 'test-model',
+  };
+  return llm;
+}
+
+class AskAction extends BaseAction {
+  async run(): Promise<ActionOutput> {
+    return this.createOutput(await this.ask(`${this.name} task`));
+  }
+}
+
+class TestRole extends BaseRole {
+  crash = false;
+
+  constructor(name: string, actionName: string, watch: string, llm: LLMProvider) {
+    super(name, name, `Run ${actionName}`, '', [new AskAction({ name: actionName, llm })]);
+    this.watch([watch]);
+  }
+
+  async run(message?: Message): Promise<Message> {
+    if (this.crash) {
+      throw new Error(`${this.name} crashed`);
+    }
+    return super.run(message);
+  }
+}
+
+function createRoles(enabled = true): { writer: TestRole; reviewer: TestRole } {
+  return {
+    writer: new TestRole('Writer', 'WriteDraft', 'UserRequirement', createLLM('draft', enabled)),
+    reviewer: new TestRole('Reviewer', 'Review', 'WriteDraft', createLLM('review', enabled)),
+  };
+}
+
+describe('Team checkpoints', () => {
+  let storagePath: string;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'team-checkpoint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  test('should write a checkpoint before the first round and after every round', async () => {
+    const { writer, reviewer } = createRoles();
+    const team = new Team({ storagePath, roles: [writer, reviewer] });
+
+    const history = await team.run(5, 'Write a poem');
+
+    expect(history.map(m => m.causedBy)).toEqual(['UserRequirement', 'WriteDraft', 'Review']);
+
+    const store = new CheckpointStore(storagePath);
+    expect(store.list()).toEqual([0, 1, 2]);
+
+    const latest = store.loadLatest()!;
+    expect(latest.round).toBe(2);
+    expect(latest.maxRounds).toBe(5);
+    expect(latest.environment.messages).toHaveLength(3);
+    expect(latest.roles.map(r => r.name)).toEqual(['Writer', 'Reviewer']);
+    expect(latest.roles[1].watch).toEqual(['WriteDraft']);
+    expect(latest.journalLength).toBe(2);
+    expect(store.loadJournal(latest.journalLength)['Writer/WriteDraft']).toHaveLength(1);
+    expect(store.load(1).journalLength).toBe(1);
+    expect(latest.cost.maxBudget).toBe(10);
+  });
+
+  test('should resume a crashed run from the last completed round', async () => {
+    const { writer, reviewer } = createRoles();
+    reviewer.crash = true;
+    const team = new Team({ storagePath, roles: [writer, reviewer] });
+    team.costManager.totalCost = 1.5;
+
+    await expect(team.run(5, 'Write a poem')).rejects.toThrow('Reviewer crashed');
+
+    const resumedRoles = createRoles();
+    const resumed = await Team.resume(storagePath, {
+      roles: [resumedRoles.writer, resumedRoles.reviewer],
+    });
+
+    expect(resumed.history.map(m => m.causedBy)).toEqual(['UserRequirement', 'WriteDraft', 'Review']);
+    expect((resumedRoles.writer.actions[0].llm as any).inner.calls).toBe(0);
+    expect((resumedRoles.reviewer.actions[0].llm as any).inner.calls).toBe(1);
+    expect(resumed.costManager.totalCost).toBe(1.5);
+
+    expect(new CheckpointStore(storagePath).loadJournal()).toEqual({
+      'Writer/WriteDraft': [expect.stringContaining('draft-1')],
+      'Reviewer/Review': [expect.stringContaining('review-1')],
+    });
+
+    const writerMemory = await resumedRoles.writer.context.memory.get();
+    expect(writerMemory.map((m: Message) => m.content)).toEqual(['Write a poem', expect.stringContaining('draft-1')]);
+  });
+
+  test('should replay a run from recorded LLM responses', async () => {
+    const { writer, reviewer } = createRoles();
+    const team = new Team({ storagePath, roles: [writer, reviewer] });
+    const original = await team.run(5, 'Write a poem');
+
+    const replayRoles = createRoles(false);
+    const replay = await Team.restore(storagePath, {
+      roles: [replayRoles.writer, replayRoles.reviewer],
+      replay: true,
+    });
+    const replayed = await replay.run(replay.remainingRounds);
+
+    expect(replayed.map(m => m.content)).toEqual(original.map(m => m.content));
+    expect(new CheckpointStore(storagePath).loadLatest()!.timestamp)
+      .toBe(new CheckpointStore(storagePath).load(2).timestamp);
+  });
+
+  test('should fail loudly when a replay runs out of recorded responses', async () => {
+    const { writer, reviewer } = createRoles();
+    const team = new Team({ storagePath, roles: [writer, reviewer] });
+    await team.run(5, 'Write a poem');
+
+    fs.writeFileSync(path.join(storagePath, 'team', 'checkpoints', 'llm-journal.jsonl'), '');
+
+    const replayRoles = createRoles(false);
+    const replay = await Team.restore(storagePath, {
+      roles: [replayRoles.writer, replayRoles.reviewer],
+      replay: true,
+    });
+    const journaled = replayRoles.writer.actions[0].llm;
+
+    await expect(journaled.chat('anything')).rejects.toThrow(LLMReplayMissError);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest';
+import { Team } from '../../src/management/team';
+import { BaseRole } from '../../src/roles/base-role';
+import { BaseAction } from '../../src/actions/base-action';
+import type { ActionOutput } from '../../src/types/action';
+import type { LLMProvider } from '../../src/types/llm';
+import type { CostManager } from '../../src/utils/cost-manager';
+import { NoMoneyError } from '../../src/utils/errors';
+
+/**
+ * LLM that bills every call to the cost manager it is attached to
+ */
+function createBillingLLM(): LLMProvider & { calls: number } {
+  let costManager: CostManager | undefined;
+  const llm = {
+    calls: 0,
+    chat: async (prompt: string) => {
+      costManager?.checkBudget();
+      llm.calls++;
+      costManager?.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 1000 });
+      return `answer to ${prompt}`;
+    },
+    generate: async (prompt: string) => llm.chat(prompt),
+    setCostManager: (manager: CostManager) => {
+      costManager = manager;
+    },
+    getName: () => 'test',
+    getModel: () => 'test-model',
+  };
+  return llm;
+}
+
+class AskAction extends BaseAction {
+  async run(): Promise<ActionOutput> {
+    return this.createOutput(await this.ask(`${this.name} task`));
+  }
+}
+
+class DraftAndReviseAction extends BaseAction {
+  async run(): Promise<ActionOutput> {
+    const draft = await this.ask('Draft');
+    return this.createOutput(await this.ask(`Revise ${draft}`));
+  }
+}
+
+class TestRole extends BaseRole {
+  constructor(name: string, actionName: string, watch: string, llm: LLMProvider, action = AskAction) {
+    super(name, name, `Run ${actionName}`, '', [new action({ name: actionName, llm })]);
+    this.watch([watch]);
+  }
+}
+
+describe('Team cost accounting', () => {
+  test('should attribute usage to roles and actions', async () => {
+    const team = new Team({
+      roles: [
+        new TestRole('Writer', 'WriteDraft', 'UserRequirement', createBillingLLM()),
+        new TestRole('Reviewer', 'Review', 'WriteDraft', createBillingLLM()),
+      ],
+    });
+    team.costManager.setPrice('test-model', { prompt: 0.001, completion: 0.002 });
+
+    await team.run(5, 'Write a poem', '', false);
+
+    const report = team.getCostReport();
+    expect(report.totalCost).toBeCloseTo(0.006);
+    expect(Object.keys(report.byRole).sort()).toEqual(['Reviewer', 'Writer']);
+    expect(report.byAction['Writer/WriteDraft'].calls).toBe(1);
+    expect(report.byAction['Reviewer/Review'].cost).toBeCloseTo(0.003);
+    expect(report.byModel['test-model'].calls).toBe(2);
+  });
+
+  test('should stop the run mid-round once the investment is spent', async () => {
+    const llm = createBillingLLM();
+    const team = new Team({
+      investment: 0.002,
+      roles: [new TestRole('Writer', 'WriteDraft', 'UserRequirement', llm, DraftAndReviseAction)],
+    });
+    team.costManager.setPrice('test-model', { prompt: 0.001, completion: 0.002 });
+
+    await expect(team.run(5, 'Write a poem', '', false)).rejects.toThrow(NoMoneyError);
+    expect(llm.calls).toBe(1);
+    expect(team.history).toHaveLength(1);
+  });
+});
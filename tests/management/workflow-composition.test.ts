@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import { TaskState } from '../../src/management/team-collaboration';
+import { validateWorkflowGraph } from '../../src/management/workflow-loader';
+import {
+  WorkflowDefinitionSchema,
+  WorkflowInstanceState,
+  WorkflowOrchestration,
+} from '../../src/management/workflow-orchestration';
+import { createMockTeam } from '../mocks/mock-team';
+
+/**
+ * Workflow running the given nodes in a line between START and END
+ */
+function pipeline(id: string, nodes: object[]) {
+  const ids = ['start', ...nodes.map(node => (node as { id: string }).id), 'end'];
+  return WorkflowDefinitionSchema.parse({
+    id,
+    name: id,
+    nodes: [
+      { id: 'start', type: 'start', name: 'Start' },
+      ...nodes,
+      { id: 'end', type: 'end', name: 'End' },
+    ],
+    edges: ids.slice(1).map((target, index) => ({ id: `${ids[index]}->${target}`, source: ids[index], target })),
+  });
+}
+
+function createOrchestration(...workflows: ReturnType<typeof pipeline>[]) {
+  const team = createMockTeam();
+  const orchestration = new WorkflowOrchestration({
+    teamCollaboration: team,
+    maxParallelTasks: 10,
+    enableAutoRecovery: false,
+    executionTimeout: 0,
+    maxNestingDepth: 1,
+  });
+  workflows.forEach(workflow => orchestration.registerWorkflow(workflow));
+  return { team, orchestration };
+}
+
+describe('workflow composition nodes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should loop over a sub-workflow until its tests pass', async () => {
+    const { team, orchestration } = createOrchestration(
+      pipeline('fix-cycle', [
+        { id: 'code', type: 'task', name: 'Code', taskId: 'code' },
+        { id: 'test', type: 'task', name: 'Test', taskId: 'test' },
+      ]),
+      pipeline('tdd', [{
+        id: 'fix',
+        type: 'loop',
+        name: 'Fix until green',
+        workflowId: 'fix-cycle',
+        condition: '!variables.passed',
+        maxIterations: 3,
+        inputMapping: { attempt: 'iteration + 1', feature: 'variables.feature' },
+        outputMapping: { passed: 'result.nodeResults.test.result.passed' },
+      }])
+    );
+    const { id } = orchestration.createWorkflowInstance('tdd', { feature: 'login', passed: false });
+    orchestration.startWorkflowInstance(id);
+    await vi.advanceTimersByTimeAsync(0);
+
+    for (const passed of [false, true]) {
+      const [code] = team.pending();
+      team.finish(code, TaskState.COMPLETED);
+      await vi.advanceTimersByTimeAsync(1000);
+      const [test] = team.pending();
+      team.finish(test, TaskState.COMPLETED, { result: { passed } });
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    const instance = orchestration.getWorkflowInstance(id)!;
+    expect(instance).toMatchObject({
+      state: WorkflowInstanceState.COMPLETED,
+      variables: { passed: true },
+      nodeResults: { fix: { iterations: 2 } },
+    });
+
+    // Each iteration ran in a child instance with task IDs of its own
+    const children = instance.childRuns.fix.map(run => orchestration.getWorkflowInstance(run.childId)!);
+    expect(children.map(child => [child.state, child.variables, child.parent?.index])).toEqual([
+      [WorkflowInstanceState.COMPLETED, { attempt: 1, feature: 'login' }, 0],
+      [WorkflowInstanceState.COMPLETED, { attempt: 2, feature: 'login' }, 1],
+    ]);
+    expect(team.tasks.has(`${children[1].id}/test`)).toBe(true);
+  });
+
+  test('should fail a loop whose condition still holds after maxIterations', async () => {
+    const { team, orchestration } = createOrchestration(pipeline('retry-forever', [
+      { id: 'poll', type: 'loop', name: 'Poll', taskId: 'poll', condition: 'iteration < 10', maxIterations: 2 },
+    ]));
+    const { id } = orchestration.createWorkflowInstance('retry-forever');
+    orchestration.startWorkflowInstance(id);
+
+    for (const taskId of ['poll[0]', 'poll[1]']) {
+      team.finish(taskId, TaskState.COMPLETED);
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(team.createTask).toHaveBeenCalledTimes(2);
+    expect(orchestration.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node poll: Loop condition still holds after 2 iterations',
+    });
+  });
+
+  test('should map a task over an array with a concurrency limit', async () => {
+    const { team, orchestration } = createOrchestration(pipeline('review', [{
+      id: 'reviews',
+      type: 'map',
+      name: 'Review file',
+      taskId: 'review',
+      items: 'variables.files',
+      concurrency: 2,
+      inputMapping: { description: '"Review " + item' },
+      outputMapping: { comments: 'result' },
+    }]));
+    const { id } = orchestration.createWorkflowInstance('review', { files: ['a.ts', 'b.ts', 'c.ts'] });
+    orchestration.startWorkflowInstance(id);
+
+    expect(team.pending()).toEqual(['review[0]', 'review[1]']);
+    expect(team.createTask).toHaveBeenCalledWith(expect.objectContaining({ description: 'Review a.ts' }));
+
+    team.finish('review[1]', TaskState.COMPLETED, { result: 'b: ok' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(team.pending()).toEqual(['review[0]', 'review[2]']);
+
+    team.finish('review[2]', TaskState.COMPLETED, { result: 'c: ok' });
+    team.finish('review[0]', TaskState.COMPLETED, { result: 'a: rename x' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(orchestration.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.COMPLETED,
+      variables: { comments: ['a: rename x', 'b: ok', 'c: ok'] },
+      nodeResults: { reviews: { result: ['a: rename x', 'b: ok', 'c: ok'] } },
+    });
+  });
+
+  test('should map a sub-workflow and stop at the first failed item', async () => {
+    const { team, orchestration } = createOrchestration(
+      pipeline('deploy-one', [{ id: 'deploy', type: 'task', name: 'Deploy', taskId: 'deploy' }]),
+      pipeline('deploy-all', [{
+        id: 'regions',
+        type: 'map',
+        name: 'Deploy region',
+        workflowId: 'deploy-one',
+        items: 'variables.regions',
+        inputMapping: { region: 'item' },
+      }])
+    );
+    const { id } = orchestration.createWorkflowInstance('deploy-all', { regions: ['eu', 'us'] });
+    orchestration.startWorkflowInstance(id);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [eu, us] = orchestration.getWorkflowInstance(id)!.childRuns.regions.map(run => run.childId);
+    team.finish(`${us}/deploy`, TaskState.FAILED, { error: 'quota exceeded' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(orchestration.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node regions: Item 1 failed: Error in node deploy: quota exceeded',
+    });
+    expect(orchestration.getWorkflowInstance(eu)?.state).toBe(WorkflowInstanceState.CANCELED);
+  });
+
+  test('should reject workflows that run themselves or unregistered workflows', () => {
+    const { orchestration } = createOrchestration(pipeline('leaf', []));
+    const sub = (workflowId: string) => ({ id: 'sub', type: 'subworkflow', name: 'Sub', workflowId });
+
+    expect(() => orchestration.registerWorkflow(pipeline('self', [sub('self')]))).toThrow('Workflow self runs itself: self -> self');
+    expect(() => orchestration.registerWorkflow(pipeline('lost', [sub('missing')])))
+      .toThrow('Node sub of workflow lost runs unregistered workflow missing');
+
+    // Registering a workflow again cannot close a cycle either
+    orchestration.registerWorkflow(pipeline('branch', [sub('leaf')]));
+    expect(() => orchestration.registerWorkflow(pipeline('leaf', [sub('branch')])))
+      .toThrow('Workflow leaf runs itself: leaf -> branch -> leaf');
+  });
+
+  test('should fail child workflows nested deeper than maxNestingDepth', async () => {
+    const { orchestration } = createOrchestration(
+      pipeline('inner', []),
+      pipeline('middle', [{ id: 'inner', type: 'subworkflow', name: 'Inner', workflowId: 'inner' }]),
+      pipeline('outer', [{ id: 'middle', type: 'subworkflow', name: 'Middle', workflowId: 'middle' }])
+    );
+    const { id } = orchestration.createWorkflowInstance('outer');
+    orchestration.startWorkflowInstance(id);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(orchestration.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node middle: Error in node inner: Nesting depth limit of 1 reached',
+    });
+  });
+
+  test('should validate loop, map and sub-workflow nodes', () => {
+    const issues = validateWorkflowGraph(pipeline('broken', [
+      { id: 'loop', type: 'loop', name: 'Loop', taskId: 'loop', items: 'variables.list' },
+      { id: 'map', type: 'map', name: 'Map', inputMapping: { path: 'item.path', bad: 'iteration' } },
+      { id: 'sub', type: 'subworkflow', name: 'Sub', taskId: 'sub', outputMapping: { out: 'item' } },
+    ]));
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Only map nodes can have items',
+      'Loop node loop has no condition',
+      'Map node map has no taskId or workflowId',
+      'Map node map has no items',
+      expect.stringMatching(/^Invalid input mapping bad: Unknown name iteration/),
+      'Subworkflow node sub runs a workflow and cannot have a taskId',
+      expect.stringMatching(/^Invalid output mapping out: Unknown name item/),
+    ]);
+  });
+});
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorkflowLoader, WorkflowRegistry } from '../../src/management/workflow-loader';
+import { TaskState } from '../../src/management/team-collaboration';
+import { WorkflowInstanceState, WorkflowOrchestration } from '../../src/management/workflow-orchestration';
+import type { Action } from '../../src/types/action';
+import type { Role } from '../../src/types/role';
+import { WorkflowValidationError } from '../../src/utils/errors';
+import { createMockTeam } from '../mocks/mock-team';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'workflow-loader-'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Action writing a PRD for the product named in its options
+ */
+function writePrd(options: Record<string, any>): Action {
+  return {
+    name: 'WritePRD',
+    context: {},
+    run: vi.fn(async () => ({ content: `PRD for ${options.product}`, status: 'completed' })),
+  } as unknown as Action;
+}
+
+const registry = new WorkflowRegistry()
+  .registerAction('WritePRD', writePrd)
+  .registerRole('ProductManager', () => ({ name: 'ProductManager' }) as unknown as Role)
+  .registerRole('Engineer', () => ({ name: 'Engineer' }) as unknown as Role);
+
+const loader = new WorkflowLoader({ registry });
+
+async function loadError(file: string, content: string): Promise<WorkflowValidationError> {
+  const filePath = path.join(dir, file);
+  await fs.promises.writeFile(filePath, content);
+  try {
+    await loader.loadFile(filePath);
+  } catch (error) {
+    expect(error).toBeInstanceOf(WorkflowValidationError);
+    return error as WorkflowValidationError;
+  }
+  throw new Error('Expected the workflow to be rejected');
+}
+
+describe('WorkflowLoader', () => {
+  test('should load YAML and JSON workflows and resolve references', async () => {
+    await fs.promises.writeFile(path.join(dir, 'prd.yaml'), `# Product pipeline
+id: prd-pipeline
+name: PRD pipeline
+inputs:
+  approved: false
+nodes:
+  - { id: start, type: start }
+  - id: write-prd
+    type: task
+    action: WritePRD
+    role: ProductManager
+  - { id: fork, type: fork }
+  - { id: design, type: task, role: Engineer }
+  - { id: estimate, type: task, role: Engineer }
+  - { id: join, type: join }
+  - { id: review, type: condition, condition: variables.approved == true }
+  - { id: end, type: end }
+edges:
+  - { source: start, target: write-prd }
+  - { source: write-prd, target: fork }
+  - { source: fork, target: design }
+  - { source: fork, target: estimate }
+  - { source: design, target: join }
+  - { source: estimate, target: join }
+  - { source: join, target: review }
+  - { source: review, target: end, condition: 'true' }
+  - { source: review, target: write-prd, condition: 'false' }
+`);
+    await fs.promises.writeFile(path.join(dir, 'minimal.json'), JSON.stringify({
+      id: 'minimal',
+      name: 'Minimal',
+      nodes: [{ id: 'start', type: 'start' }, { id: 'end', type: 'end' }],
+      edges: [{ source: 'start', target: 'end' }],
+    }, null, 2));
+    await fs.promises.writeFile(path.join(dir, 'notes.txt'), 'not a workflow');
+
+    const [minimal, prd] = await loader.loadDirectory(dir);
+
+    expect(minimal.edges[0].id).toBe('start->end');
+    const writePrdNode = prd.nodes.find(node => node.id === 'write-prd')!;
+    expect(writePrdNode).toMatchObject({
+      name: 'write-prd',
+      taskId: 'write-prd',
+      action: { name: 'WritePRD' },
+      role: { name: 'ProductManager' },
+    });
+    expect(prd.nodes.find(node => node.id === 'design')!.action).toBeUndefined();
+
+    const orchestration = new WorkflowOrchestration({
+      teamCollaboration: {},
+      maxParallelTasks: 1,
+      enableAutoRecovery: false,
+      executionTimeout: 0,
+    });
+    expect(orchestration.registerWorkflow(prd).nodes).toHaveLength(8);
+  });
+
+  test('should run the referenced action when the task is dispatched', async () => {
+    vi.useFakeTimers();
+    try {
+      const prd = loader.parse(`id: prd
+name: PRD
+nodes:
+  - { id: start, type: start }
+  - { id: write-prd, type: task, action: WritePRD, role: ProductManager, inputs: { product: Search } }
+  - { id: end, type: end }
+edges:
+  - { source: start, target: write-prd }
+  - { source: write-prd, target: end }
+`);
+      const team = createMockTeam();
+      const orchestration = new WorkflowOrchestration({
+        teamCollaboration: team,
+        maxParallelTasks: 1,
+        enableAutoRecovery: false,
+        executionTimeout: 0,
+      });
+      orchestration.registerWorkflow(prd);
+      const { id } = orchestration.createWorkflowInstance('prd');
+      orchestration.startWorkflowInstance(id);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const action = prd.nodes[1].action!;
+      expect(action.run).toHaveBeenCalledTimes(1);
+      expect(action.context.role).toBe(prd.nodes[1].role);
+      expect(team.tasks.get('write-prd')).toMatchObject({
+        assignee: 'ProductManager',
+        state: TaskState.COMPLETED,
+        result: 'PRD for Search',
+      });
+      expect(orchestration.getWorkflowInstance(id)).toMatchObject({
+        state: WorkflowInstanceState.COMPLETED,
+        nodeResults: { 'write-prd': { result: 'PRD for Search' } },
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('should report factories that throw', () => {
+    const failing = new WorkflowLoader({
+      registry: new WorkflowRegistry().registerAction('Deploy', () => {
+        throw new Error('no credentials');
+      }),
+    });
+
+    expect(() => failing.parse(`id: deploy
+name: Deploy
+nodes:
+  - { id: start, type: start }
+  - { id: deploy, type: task, action: Deploy }
+  - { id: end, type: end }
+edges:
+  - { source: start, target: deploy }
+  - { source: deploy, target: end }
+`)).toThrow('Cannot create action Deploy: no credentials');
+  });
+
+  test('should order child workflows first and reject cycles between files', async () => {
+    const write = (id: string, workflowId?: string) => fs.promises.writeFile(path.join(dir, `${id}.yaml`), `id: ${id}
+name: ${id}
+nodes:
+  - { id: start, type: start }
+${workflowId ? `  - { id: sub, type: subworkflow, workflowId: ${workflowId} }\n` : ''}  - { id: end, type: end }
+edges:
+${workflowId ? '  - { source: start, target: sub }\n  - { source: sub, target: end }' : '  - { source: start, target: end }'}
+`);
+    await write('a-release', 'b-build');
+    await write('b-build');
+    expect((await loader.loadDirectory(dir)).map(workflow => workflow.id)).toEqual(['b-build', 'a-release']);
+
+    await write('b-build', 'a-release');
+    await expect(loader.loadDirectory(dir)).rejects.toThrow('Workflow runs itself: a-release -> b-build -> a-release');
+
+    const self = await loadError('self.yaml', 'id: self\nname: Self\nnodes:\n  - { id: start, type: start }\n' +
+      '  - { id: sub, type: subworkflow, workflowId: self }\n  - { id: end, type: end }\n' +
+      'edges:\n  - { source: start, target: sub }\n  - { source: sub, target: end }\n');
+    expect(self.issues.map(issue => [issue.line, issue.message])).toEqual([[5, 'Subworkflow node sub runs its own workflow']]);
+  });
+
+  test('should report graph problems with line numbers', async () => {
+    const error = await loadError('broken.yaml', `id: broken
+name: Broken
+nodes:
+  - id: start
+    type: start
+  - id: draft
+    type: task
+    action: WritePrd
+  - id: orphan
+    type: task
+    role: Designer
+  - id: join
+    type: join
+  - id: done
+    type: task
+edges:
+  - source: start
+    target: draft
+  - source: draft
+    target: join
+  - source: join
+    target: done
+  - source: done
+    target: archive
+`);
+
+    expect(error.issues.map(issue => [issue.line, issue.message])).toEqual([
+      [4, 'Workflow has no END node'],
+      [4, 'Node start cannot reach an END node'],
+      [6, 'Node draft cannot reach an END node'],
+      [8, 'Unknown action WritePrd; did you mean WritePRD?'],
+      [9, 'Node orphan is unreachable from the START node'],
+      [11, 'Unknown role Designer; registered roles: ProductManager, Engineer'],
+      [12, 'Node join cannot reach an END node'],
+      [12, 'Join node join has no FORK node before it'],
+      [14, 'Node done cannot reach an END node'],
+      [24, 'Edge target archive is not a node'],
+    ]);
+    expect(error.message).toContain(`${path.join(dir, 'broken.yaml')}:8:13 Unknown action WritePrd`);
+  });
+
+  test('should report schema and syntax errors with line numbers', async () => {
+    const schema = await loadError('schema.json', `{
+  "id": "schema",
+  "name": "Schema",
+  "nodes": [
+    { "id": "start", "type": "begin" },
+    { "id": "end", "type": "end", "conditon": "variables.done" }
+  ]
+}`);
+    expect(schema.issues.map(issue => [issue.line, issue.column])).toEqual([[5, 30], [6, 47]]);
+    expect(schema.issues[1].message).toContain('conditon');
+
+    const syntax = await loadError('syntax.yaml', 'id: syntax\nnodes:\n  - id: start\n   type: start\n');
+    expect(syntax.issues[0].line).toBe(4);
+
+    const condition = await loadError('condition.yaml', `id: condition
+name: Condition
+nodes:
+  - { id: start, type: start }
+  - { id: check, type: condition, condition: variables.count = 3 }
+  - { id: end, type: end }
+edges:
+  - { source: start, target: check }
+  - { source: check, target: end, condition: maybe }
+`);
+    expect(condition.issues.map(issue => issue.line)).toEqual([5, 9]);
+    expect(condition.issues[0].message).toContain('use == to compare');
+  });
+});
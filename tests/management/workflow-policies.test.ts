@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import { TaskState } from '../../src/management/team-collaboration';
+import { validateWorkflowGraph } from '../../src/management/workflow-loader';
+import {
+  WorkflowDefinitionSchema,
+  WorkflowInstanceState,
+  WorkflowOrchestration,
+} from '../../src/management/workflow-orchestration';
+import { createMockTeam } from '../mocks/mock-team';
+
+/**
+ * Payment workflow: start -> charge -> end, with the given charge policies and extra nodes and edges
+ */
+function paymentWorkflow(charge: Record<string, unknown>, nodes: object[] = [], edges: object[] = []) {
+  return WorkflowDefinitionSchema.parse({
+    id: 'payment',
+    name: 'Payment',
+    nodes: [
+      { id: 'start', type: 'start', name: 'Start' },
+      { id: 'charge', type: 'task', name: 'Charge', taskId: 'charge', ...charge },
+      { id: 'end', type: 'end', name: 'End' },
+      ...nodes,
+    ],
+    edges: [
+      { id: 'start-charge', source: 'start', target: 'charge' },
+      { id: 'charge-end', source: 'charge', target: 'end' },
+      ...edges,
+    ],
+  });
+}
+
+async function run(workflow: ReturnType<typeof paymentWorkflow>) {
+  const team = createMockTeam();
+  const orchestration = new WorkflowOrchestration({
+    teamCollaboration: team,
+    maxParallelTasks: 1,
+    enableAutoRecovery: false,
+    executionTimeout: 0,
+  });
+  orchestration.registerWorkflow(workflow);
+  const { id } = orchestration.createWorkflowInstance('payment');
+  orchestration.startWorkflowInstance(id);
+  // Tasks are created once their dispatch is saved
+  await vi.advanceTimersByTimeAsync(0);
+  return { team, instance: () => orchestration.getWorkflowInstance(id)! };
+}
+
+describe('workflow node policies', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should retry a failed task with exponential backoff', async () => {
+    const { team, instance } = await run(paymentWorkflow({
+      retry: { maxAttempts: 3, initialDelay: 500, backoffMultiplier: 2 },
+    }));
+
+    team.finish('charge', TaskState.FAILED, { error: 'card declined' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(instance().nodeAttempts.charge).toMatchObject({ attempt: 1, retryAt: new Date(1500 + instance().startTime!.getTime()) });
+
+    await vi.advanceTimersByTimeAsync(500);
+    team.finish('charge#2', TaskState.FAILED, { error: 'card declined' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(team.createTask).toHaveBeenCalledTimes(2);
+
+    // Second backoff doubles the delay
+    await vi.advanceTimersByTimeAsync(999);
+    expect(team.createTask).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    team.finish('charge#3', TaskState.COMPLETED, { result: 'paid' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(instance()).toMatchObject({
+      state: WorkflowInstanceState.COMPLETED,
+      nodeResults: { charge: { result: 'paid' } },
+    });
+    expect(instance().history.filter(entry => entry.nodeId === 'charge').map(entry => [entry.type, entry.attempt])).toEqual([
+      ['node_activated', undefined],
+      ['attempt_started', 1],
+      ['task_dispatched', undefined],
+      ['attempt_failed', 1],
+      ['attempt_started', 2],
+      ['task_dispatched', undefined],
+      ['attempt_failed', 2],
+      ['attempt_started', 3],
+      ['task_dispatched', undefined],
+      ['node_completed', undefined],
+    ]);
+  });
+
+  test('should time out an attempt and run the compensation node', async () => {
+    const { team, instance } = await run(paymentWorkflow(
+      { timeout: 2000, compensation: 'refund' },
+      [{ id: 'refund', type: 'task', name: 'Refund', taskId: 'refund' }]
+    ));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(instance()).toMatchObject({
+      state: WorkflowInstanceState.RUNNING,
+      activeNodes: ['refund'],
+      failedNodes: ['charge'],
+      compensations: { refund: 'charge' },
+    });
+    expect(instance().history.at(-3)).toMatchObject({ type: 'compensation_started', compensationNodeId: 'refund' });
+
+    // The instance fails once the compensation is done, as charge has no error edge
+    team.finish('refund', TaskState.COMPLETED);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(instance()).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node charge: Attempt 1 timed out after 2000ms',
+    });
+  });
+
+  test('should route a permanent failure along error edges', async () => {
+    const { team, instance } = await run(paymentWorkflow(
+      { retry: { maxAttempts: 2, initialDelay: 100 } },
+      [{ id: 'notify', type: 'task', name: 'Notify', taskId: 'notify' }],
+      [
+        { id: 'charge-notify', source: 'charge', target: 'notify', onError: true },
+        { id: 'notify-end', source: 'notify', target: 'end' },
+      ]
+    ));
+
+    team.finish('charge', TaskState.FAILED, { error: 'gateway down' });
+    await vi.advanceTimersByTimeAsync(1100);
+    team.finish('charge#2', TaskState.FAILED, { error: 'gateway down' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(team.createTask.mock.calls.map(([task]) => task.id)).toEqual(['charge', 'charge#2', 'notify']);
+
+    team.finish('notify', TaskState.COMPLETED);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(instance()).toMatchObject({
+      state: WorkflowInstanceState.COMPLETED,
+      failedNodes: ['charge'],
+      nodeResults: { charge: { error: 'gateway down' } },
+    });
+  });
+
+  test('should validate policies in the graph', () => {
+    const issues = validateWorkflowGraph(paymentWorkflow(
+      { compensation: 'charge' },
+      [{ id: 'check', type: 'condition', name: 'Check', condition: 'true', retry: {} }],
+      [
+        { id: 'start-check', source: 'start', target: 'check' },
+        { id: 'check-end', source: 'check', target: 'end', onError: true },
+      ]
+    ));
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Condition node check cannot have error edges',
+      'Node charge cannot compensate itself',
+      'Only task nodes can have a retry',
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { openSqliteDatabase } from '../../src/memory/store';
+import { TaskState, type Task } from '../../src/management/team-collaboration';
+import {
+  WorkflowInstanceState,
+  WorkflowNodeType,
+  WorkflowOrchestration,
+  type WorkflowDefinition,
+} from '../../src/management/workflow-orchestration';
+import {
+  FileWorkflowInstanceStore,
+  SqliteWorkflowInstanceStore,
+  type WorkflowInstanceEvent,
+  type WorkflowInstanceStore,
+} from '../../src/management/workflow-store';
+import { createMockTeam } from '../mocks/mock-team';
+
+const workflow: WorkflowDefinition = {
+  id: 'review',
+  name: 'Review',
+  description: '',
+  inputs: { reviewer: 'kim' },
+  outputs: {},
+  metadata: {},
+  nodes: [
+    { id: 'start', type: WorkflowNodeType.START, name: 'Start', description: '', inputs: {}, outputs: {}, metadata: {} },
+    { id: 'draft', type: WorkflowNodeType.TASK, name: 'Draft', description: '', taskId: 'draft', inputs: {}, outputs: {}, metadata: {} },
+    { id: 'end', type: WorkflowNodeType.END, name: 'End', description: '', inputs: {}, outputs: {}, metadata: {} },
+  ],
+  edges: [
+    { id: 'start-draft', source: 'start', target: 'draft', label: '', metadata: {} },
+    { id: 'draft-end', source: 'draft', target: 'end', label: '', metadata: {} },
+  ],
+};
+
+function createOrchestration(store: WorkflowInstanceStore, team = createMockTeam(), recoveredTaskTimeout?: number) {
+  const orchestration = new WorkflowOrchestration({
+    teamCollaboration: team,
+    maxParallelTasks: 1,
+    enableAutoRecovery: true,
+    executionTimeout: 0,
+    instanceStore: store,
+    recoveredTaskTimeout,
+  });
+  orchestration.registerWorkflow(workflow);
+  return orchestration;
+}
+
+async function isSqliteAvailable(): Promise<boolean> {
+  try {
+    await openSqliteDatabase(':memory:');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('durable workflow instances', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-store-'));
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function runAcrossRestart(createStore: () => WorkflowInstanceStore): Promise<void> {
+    // First process: dispatches the task, then stops
+    const firstTeam = createMockTeam();
+    const first = createOrchestration(createStore(), firstTeam);
+    const { id } = first.createWorkflowInstance('review', { topic: 'search' });
+    first.startWorkflowInstance(id);
+    first.updateVariables(id, { draftCount: 1 });
+    await first.flush();
+    expect(firstTeam.createTask).toHaveBeenCalledTimes(1);
+
+    // Second process: recovers without dispatching the task again
+    const secondTeam = createMockTeam();
+    const second = createOrchestration(createStore(), secondTeam);
+    const [resumed] = await second.recover();
+    expect(resumed).toMatchObject({
+      id,
+      state: WorkflowInstanceState.RUNNING,
+      activeNodes: ['draft'],
+      completedNodes: ['start'],
+      variables: { reviewer: 'kim', topic: 'search', draftCount: 1 },
+      dispatchedTasks: { draft: `${id}:draft` },
+    });
+    expect(secondTeam.createTask).not.toHaveBeenCalled();
+
+    // The task is reported under its ID and the instance carries on
+    secondTeam.tasks.set('draft', { id: 'draft', state: TaskState.COMPLETED, result: 'PRD v1' } as Task);
+    await vi.advanceTimersByTimeAsync(1000);
+    await second.flush();
+    expect(second.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.COMPLETED,
+      nodeResults: { draft: { result: 'PRD v1' } },
+    });
+
+    // Third process: finished instances are restored but not resumed
+    const third = createOrchestration(createStore());
+    expect(await third.recover()).toEqual([]);
+    expect(third.getWorkflowInstance(id)?.state).toBe(WorkflowInstanceState.COMPLETED);
+  }
+
+  test('should resume running instances from a file store', async () => {
+    const filePath = path.join(dir, 'instances.jsonl');
+    await runAcrossRestart(() => new FileWorkflowInstanceStore(filePath));
+
+    const types = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line).type);
+    expect(types).toEqual([
+      'created', 'started', 'node_completed', 'node_activated', 'attempt_started', 'task_dispatched',
+      'variables_updated',
+      'node_completed', 'node_activated', 'node_completed', 'completed',
+    ]);
+  });
+
+  test('should create a task only once its dispatch is saved', async () => {
+    const events: WorkflowInstanceEvent[] = [];
+    let saveDispatch: (error?: Error) => void = () => {};
+    const store: WorkflowInstanceStore = {
+      append: async event => {
+        if (event.type === 'task_dispatched') {
+          await new Promise<void>((resolve, reject) => {
+            saveDispatch = error => (error ? reject(error) : resolve());
+          });
+        }
+        events.push(event);
+      },
+      load: async () => events,
+    };
+
+    const team = createMockTeam();
+    const orchestration = createOrchestration(store, team);
+    const saved = orchestration.createWorkflowInstance('review');
+    orchestration.startWorkflowInstance(saved.id);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(team.createTask).not.toHaveBeenCalled();
+
+    saveDispatch();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(team.createTask).toHaveBeenCalledTimes(1);
+
+    // A dispatch that cannot be saved fails the attempt instead of creating the task
+    const otherTeam = createMockTeam();
+    const other = createOrchestration(store, otherTeam);
+    const failed = other.createWorkflowInstance('review');
+    other.startWorkflowInstance(failed.id);
+    await vi.advanceTimersByTimeAsync(0);
+    saveDispatch(new Error('disk full'));
+    await other.flush();
+    expect(otherTeam.createTask).not.toHaveBeenCalled();
+    expect(other.getWorkflowInstance(failed.id)).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node draft: Failed to save the dispatch of task draft: Error: disk full',
+    });
+  });
+
+  test('should fail a recovered attempt whose task never reappears', async () => {
+    const filePath = path.join(dir, 'instances.jsonl');
+    const first = createOrchestration(new FileWorkflowInstanceStore(filePath));
+    const { id } = first.createWorkflowInstance('review');
+    first.startWorkflowInstance(id);
+    await first.flush();
+
+    const team = createMockTeam();
+    const second = createOrchestration(new FileWorkflowInstanceStore(filePath), team, 5000);
+    await second.recover();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(second.getWorkflowInstance(id)?.state).toBe(WorkflowInstanceState.RUNNING);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(team.createTask).not.toHaveBeenCalled();
+    expect(second.getWorkflowInstance(id)).toMatchObject({
+      state: WorkflowInstanceState.FAILED,
+      error: 'Error in node draft: Task draft dispatched before a restart did not reappear within 5000ms',
+    });
+  });
+
+  test('should skip a truncated last line', async () => {
+    const filePath = path.join(dir, 'instances.jsonl');
+    const store = new FileWorkflowInstanceStore(filePath);
+    const orchestration = createOrchestration(store);
+    const { id } = orchestration.createWorkflowInstance('review');
+    orchestration.cancelWorkflowInstance(id);
+    await orchestration.flush();
+    fs.appendFileSync(filePath, '{"type":"star');
+
+    expect(await store.load()).toHaveLength(1);
+    expect(await createOrchestration(store).recover()).toEqual([]);
+  });
+
+  test('should resume running instances from an SQLite store', async (context) => {
+    // SQLite needs Bun or Node.js 22.5+
+    if (!(await isSqliteAvailable())) {
+      context.skip();
+    }
+    const filePath = path.join(dir, 'instances.db');
+    const stores: SqliteWorkflowInstanceStore[] = [];
+    await runAcrossRestart(() => {
+      const store = new SqliteWorkflowInstanceStore(filePath);
+      stores.push(store);
+      return store;
+    });
+    await Promise.all(stores.map(store => store.close()));
+  });
+});
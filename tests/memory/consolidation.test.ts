@@ -0,0 +1,188 @@
+import { describe, test, expect, vi } from 'vitest';
+import { MemoryConsolidator, estimateTokens } from '../../src/memory/consolidation';
+import { LongTermMemoryImpl } from '../../src/memory/longterm';
+import { MemoryManagerImpl, MEMORY_SUMMARY } from '../../src/memory/manager';
+import { WorkingMemoryImpl } from '../../src/memory/working';
+import { MessageSchema } from '../../src/types/message';
+import type { LLMProvider } from '../../src/types/llm';
+
+function createSummarizingLLM() {
+  const generateObject = vi.fn(async (prompt: string) => ({
+    summary: `summary of ${prompt.match(/^\[\d+\]/gm)?.length ?? 0} entries`,
+    importance: 0.7,
+  }));
+  const llm = {
+    chat: vi.fn(),
+    generate: vi.fn(),
+    generateObject,
+  } as unknown as LLMProvider;
+  return { llm, generateObject };
+}
+
+function item(id: string, content: string, timestamp: number) {
+  return { id, content, timestamp };
+}
+
+describe('MemoryConsolidator', () => {
+  test('should trigger on the entry or token budget', () => {
+    const consolidator = new MemoryConsolidator({ config: { maxEntries: 2, maxTokens: 10 } });
+
+    expect(consolidator.isOverBudget([item('1', 'a', 1), item('2', 'b', 2)])).toBe(false);
+    expect(consolidator.isOverBudget([item('1', 'a', 1), item('2', 'b', 2), item('3', 'c', 3)])).toBe(true);
+    expect(consolidator.isOverBudget([item('1', 'x'.repeat(44), 1)])).toBe(true);
+    expect(estimateTokens('x'.repeat(44))).toBe(11);
+  });
+
+  test('should cluster related entries and keep the most recent ones', async () => {
+    const { llm, generateObject } = createSummarizingLLM();
+    const consolidator = new MemoryConsolidator({ llm, config: { maxEntries: 3, keepRecent: 1 } });
+
+    const summaries = await consolidator.consolidate([
+      item('a', 'database index speeds up the query', 1),
+      item('b', 'button color in the css layout', 2),
+      item('c', 'the database query uses an index', 3),
+      item('d', 'latest note', 4),
+    ]);
+
+    expect(summaries).toEqual([
+      { content: 'summary of 2 entries', importance: 0.7, sources: ['a', 'c'] },
+    ]);
+    expect(generateObject).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not consolidate within the budget unless forced', async () => {
+    const consolidator = new MemoryConsolidator({ config: { keepRecent: 0 } });
+    const items = [item('a', 'first step', 1), item('b', 'second step', 2)];
+
+    expect(await consolidator.consolidate(items)).toEqual([]);
+    expect(await consolidator.consolidate(items, true)).toEqual([
+      { content: 'first step\nsecond step', importance: 0.5, sources: ['a', 'b'] },
+    ]);
+  });
+
+  test('should leave earlier summaries out of the selection', () => {
+    const consolidator = new MemoryConsolidator({ config: { keepRecent: 1 } });
+
+    const selected = consolidator.select([
+      { ...item('s', 'summary of earlier steps', 1), summary: true },
+      item('a', 'first step', 2),
+      item('b', 'second step', 3),
+    ]);
+
+    expect(selected.map(entry => entry.id)).toEqual(['a']);
+  });
+});
+
+describe('MemoryManagerImpl consolidation', () => {
+  test('should replace older messages with summaries linked to their sources', async () => {
+    const { llm } = createSummarizingLLM();
+    const longTerm = new LongTermMemoryImpl();
+    const memory = new MemoryManagerImpl(longTerm, new MemoryConsolidator({
+      llm,
+      config: { maxEntries: 3, keepRecent: 1, similarityThreshold: 0 },
+    }));
+
+    const messages = ['first step', 'second step', 'third step', 'fourth step'].map((content, index) =>
+      MessageSchema.parse({ content, timestamp: new Date(1000 * (index + 1)).toISOString() })
+    );
+    for (const message of messages) {
+      await memory.add(message);
+    }
+
+    const working = await memory.get();
+    expect(working.map(message => message.content)).toEqual(['summary of 3 entries', 'fourth step']);
+    expect(working[0].causedBy).toBe(MEMORY_SUMMARY);
+    expect(working[0].metadata?.context?.sources).toEqual(messages.slice(0, 3).map(message => message.id));
+
+    const stored = await longTerm.search({ type: 'summary' });
+    expect(stored).toHaveLength(1);
+    expect(stored[0].metadata.sources).toEqual(messages.slice(0, 3).map(message => message.id));
+    expect(working[0].metadata?.context?.longTermId).toBe(stored[0].id);
+  });
+
+  test('should not summarize summaries again while memory stays over budget', async () => {
+    const { llm, generateObject } = createSummarizingLLM();
+    const longTerm = new LongTermMemoryImpl();
+    const consolidator = new MemoryConsolidator({
+      llm,
+      config: { maxEntries: 3, keepRecent: 1, similarityThreshold: 0 },
+    });
+    const memory = new MemoryManagerImpl(longTerm, consolidator);
+
+    const messages = Array.from({ length: 8 }, (_, index) =>
+      MessageSchema.parse({ content: `step ${index + 1}`, timestamp: new Date(1000 * (index + 1)).toISOString() })
+    );
+    for (const message of messages) {
+      await memory.add(message);
+    }
+
+    const working = await memory.get();
+    expect(working.map(message => message.content)).toEqual([
+      'summary of 3 entries',
+      'summary of 2 entries',
+      'summary of 2 entries',
+      'step 8',
+    ]);
+    expect(generateObject).toHaveBeenCalledTimes(3);
+
+    const ids = new Set(messages.map(message => message.id));
+    const stored = await longTerm.search({ type: 'summary' });
+    expect(stored).toHaveLength(3);
+    expect(stored.every(entry => entry.metadata.sources.every((id: string) => ids.has(id)))).toBe(true);
+
+    const cluster = vi.spyOn(consolidator, 'cluster');
+    await memory.consolidate();
+    expect(cluster).not.toHaveBeenCalled();
+  });
+});
+
+describe('LongTermMemoryImpl consolidation and forgetting', () => {
+  test('should summarize working memory through the consolidator', async () => {
+    const { llm } = createSummarizingLLM();
+    const longTerm = new LongTermMemoryImpl({
+      consolidator: new MemoryConsolidator({ llm, config: { maxEntries: 2, keepRecent: 1, similarityThreshold: 0 } }),
+    });
+    const working = new WorkingMemoryImpl();
+    const first = await working.add('first observation', 'observation');
+    const second = await working.add('second observation', 'observation');
+    await working.add('third observation', 'observation');
+    await working.update(first.id, { timestamp: Date.now() - 2000 });
+    await working.update(second.id, { timestamp: Date.now() - 1000 });
+
+    await longTerm.consolidate(working);
+
+    const summaries = await longTerm.search({ type: 'summary' });
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].metadata.sources).toEqual([first.id, second.id]);
+    expect((await working.search({})).map(entry => entry.content)).toEqual(['third observation']);
+  });
+
+  test('should forget by policy', async () => {
+    const longTerm = new LongTermMemoryImpl();
+    const old = await longTerm.add('old fact', 'fact', { importance: 0.9 });
+    await longTerm.update(old.id, { timestamp: Date.now() - 60_000 });
+    await longTerm.add('trivial fact', 'fact', { importance: 0.1 });
+    const used = await longTerm.add('useful fact', 'fact', { importance: 0.6 });
+
+    await longTerm.forget({ policy: 'low_importance', minImportance: 0.2 });
+    expect((await longTerm.search({})).map(memory => memory.content).sort()).toEqual(['old fact', 'useful fact']);
+
+    await longTerm.forget({ policy: 'age', maxAge: 30_000 });
+    expect((await longTerm.search({})).map(memory => memory.id)).toEqual([used.id]);
+  });
+
+  test('should forget the least recently recalled memories', async () => {
+    const longTerm = new LongTermMemoryImpl();
+    const now = Date.now();
+    const recalled = await longTerm.add('sql index tuning', 'fact');
+    await longTerm.update(recalled.id, { timestamp: now - 3000 });
+    const newest = await longTerm.add('css layout', 'fact');
+    const stale = await longTerm.add('button color', 'fact');
+    await longTerm.update(stale.id, { timestamp: now - 2000 });
+
+    await longTerm.recall('sql index', { limit: 1 });
+    await longTerm.forget({ policy: 'lru', maxEntries: 2 });
+
+    expect((await longTerm.search({})).map(memory => memory.id).sort()).toEqual([recalled.id, newest.id].sort());
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LongTermMemoryImpl } from '../../src/memory/longterm';
+import { JsonlMemoryStore, SqliteMemoryStore, openSqliteDatabase } from '../../src/memory/store';
+import type { EmbeddingGenerator } from '../../src/rag/embeddings';
+import { BaseRole } from '../../src/roles/base-role';
+
+const VOCABULARY = ['database', 'sql', 'index', 'query', 'css', 'layout', 'button', 'color'];
+
+/**
+ * Embeds texts as word counts over a small vocabulary, so texts sharing words are similar
+ */
+class VocabularyEmbedding implements EmbeddingGenerator {
+  calls = 0;
+
+  async embed(text: string): Promise<number[]> {
+    this.calls++;
+    const words = text.toLowerCase().split(/\W+/);
+    return VOCABULARY.map(term => words.filter(word => word === term).length + 0.01);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+
+  updateConfig(): void {}
+}
+
+class TestRole extends BaseRole {
+  constructor() {
+    super('Engineer', 'Engineer', 'Write code');
+  }
+}
+
+async function isSqliteAvailable(): Promise<boolean> {
+  try {
+    await openSqliteDatabase(':memory:');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('LongTermMemoryImpl persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'longterm-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should reload memories written by an earlier instance', async () => {
+    const filePath = path.join(dir, 'memory.jsonl');
+    const first = new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath) });
+    const kept = await first.add('Use an index for frequent queries', 'lesson', { importance: 0.9 });
+    const dropped = await first.add('Temporary note', 'note');
+    await first.update(kept.id, { importance: 1 });
+    await first.delete(dropped.id);
+
+    const second = new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath) });
+
+    const memories = await second.search({});
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({ id: kept.id, content: 'Use an index for frequent queries', importance: 1 });
+  });
+
+  test('should compact the log when it grows', async () => {
+    const filePath = path.join(dir, 'memory.jsonl');
+    const memory = new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath) });
+    const entry = await memory.add('Lesson', 'lesson');
+    for (let i = 0; i < 5; i++) {
+      await memory.update(entry.id, { importance: i / 10 });
+    }
+
+    await new JsonlMemoryStore(filePath).load();
+
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  test('should embed memories stored without an embedding when loaded', async () => {
+    const filePath = path.join(dir, 'memory.jsonl');
+    await new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath) }).add('sql index', 'lesson');
+
+    const embeddings = new VocabularyEmbedding();
+    const memory = new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath), embeddings });
+    const [recalled] = await memory.recall('database index');
+
+    expect(recalled.similarity).toBeGreaterThan(0.5);
+    expect((await new JsonlMemoryStore(filePath).load())[0].embedding).toHaveLength(VOCABULARY.length);
+  });
+
+  test('should persist memories in SQLite', async (context) => {
+    // SQLite needs Bun or Node.js 22.5+
+    if (!(await isSqliteAvailable())) {
+      context.skip();
+    }
+    const filePath = path.join(dir, 'memory.db');
+    const first = new SqliteMemoryStore(filePath);
+    const memory = new LongTermMemoryImpl({ store: first });
+    await memory.add('Prefer flex layout', 'lesson', { importance: 0.7, tags: ['css'] });
+    await first.close();
+
+    const second = new SqliteMemoryStore(filePath);
+    const memories = await new LongTermMemoryImpl({ store: second }).search({});
+    await second.close();
+
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({ content: 'Prefer flex layout', importance: 0.7, metadata: { tags: ['css'] } });
+  });
+});
+
+describe('LongTermMemoryImpl recall', () => {
+  test('should rank memories by meaning rather than substring', async () => {
+    const memory = new LongTermMemoryImpl({ embeddings: new VocabularyEmbedding() });
+    await memory.add('Add an index before the SQL query gets slow', 'lesson');
+    await memory.add('Pick the button color from the palette', 'lesson');
+
+    const recalled = await memory.recall('database query');
+
+    expect(recalled[0].content).toContain('SQL query');
+    expect(recalled[0].similarity).toBeGreaterThan(recalled[1].similarity);
+    const found = await memory.search({ content: 'which index speeds up an sql query' });
+    expect(found.map(entry => entry.content)).toEqual(['Add an index before the SQL query gets slow']);
+  });
+
+  test('should combine similarity with importance and recency', async () => {
+    const memory = new LongTermMemoryImpl({ recall: { recencyHalfLife: 1000 } });
+    const old = await memory.add('css layout tip', 'lesson', { importance: 0.5 });
+    await memory.update(old.id, { timestamp: Date.now() - 10_000 });
+    await memory.add('css layout tip', 'lesson', { importance: 0.5 });
+    await memory.add('css layout tip', 'lesson', { importance: 0.1 });
+
+    const recalled = await memory.recall('css layout');
+
+    expect(recalled.map(entry => [entry.importance, entry.id === old.id])).toEqual([
+      [0.5, false],
+      [0.1, false],
+      [0.5, true],
+    ]);
+  });
+
+  test('should let roles recall lessons across runs', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lessons-'));
+    const filePath = path.join(dir, 'lessons.jsonl');
+    try {
+      const firstRun = new TestRole();
+      firstRun.setLongTermMemory(new LongTermMemoryImpl({ store: new JsonlMemoryStore(filePath) }));
+      await firstRun.remember('Run the SQL migration before deploying', { importance: 0.9 });
+
+      const secondRun = new TestRole();
+      secondRun.setLongTermMemory(new LongTermMemoryImpl({
+        store: new JsonlMemoryStore(filePath),
+        embeddings: new VocabularyEmbedding(),
+      }));
+      const lessons = await secondRun.recall('database sql changes');
+
+      expect(lessons.map(lesson => lesson.content)).toEqual(['Run the SQL migration before deploying']);
+      expect(lessons[0].metadata.role).toBe('Engineer');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,29 @@
+import { vi } from 'vitest';
+import { TaskState, type Task } from '../../src/management/team-collaboration';
+
+/**
+ * Stand-in for TeamCollaboration in workflow tests: tasks are kept in a map
+ * and stay pending until the test changes their state
+ */
+export function createMockTeam() {
+  const tasks = new Map<string, Task>();
+  return {
+    tasks,
+    getTask: (id: string) => tasks.get(id),
+    createTask: vi.fn((data: Partial<Task>) => {
+      const task = { ...data, state: TaskState.PENDING } as Task;
+      tasks.set(task.id, task);
+      return task;
+    }),
+    updateTask: vi.fn((id: string, updates: Partial<Task>) => {
+      const task = tasks.get(id);
+      return task && Object.assign(task, updates);
+    }),
+    /** Settle a task as its agent would */
+    finish(id: string, state: TaskState, outcome: Partial<Task> = {}) {
+      Object.assign(tasks.get(id)!, { state, ...outcome });
+    },
+    /** IDs of the tasks still pending, in creation order */
+    pending: () => [...tasks.values()].filter(task => task.state === TaskState.PENDING).map(task => task.id),
+  };
+}
@@ -0,0 +1,186 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { URL } from 'url';
+
+interface StoredPoint {
+  id: string | number;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+interface Collection {
+  size: number;
+  distance: 'Cosine' | 'Euclid' | 'Dot';
+  points: Map<string, StoredPoint>;
+}
+
+/**
+ * Stand-in for a Qdrant server, implementing the REST endpoints used by
+ * `QdrantVectorStore` over an in-memory collection map
+ */
+export class QdrantStandInServer {
+  readonly collections = new Map<string, Collection>();
+  /** Requests received, as `METHOD path` */
+  readonly requests: string[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    this.requests.push(`${req.method} ${url.pathname}`);
+
+    const match = url.pathname.match(/^\/collections\/([^/]+)(\/.*)?$/);
+    if (!match) {
+      return this.reply(res, 404, { status: { error: 'Not found' } });
+    }
+    const name = decodeURIComponent(match[1]);
+    const route = `${req.method} ${match[2] ?? ''}`;
+    const collection = this.collections.get(name);
+
+    if (route === 'GET /exists') {
+      return this.reply(res, 200, { result: { exists: Boolean(collection) } });
+    }
+    if (route === 'PUT ') {
+      this.collections.set(name, { size: body.vectors.size, distance: body.vectors.distance, points: new Map() });
+      return this.reply(res, 200, { result: true });
+    }
+    if (!collection) {
+      return this.reply(res, 404, { status: { error: `Collection ${name} not found` } });
+    }
+
+    switch (route) {
+      case 'DELETE ':
+        this.collections.delete(name);
+        return this.reply(res, 200, { result: true });
+      case 'PUT /points':
+        for (const point of body.points as StoredPoint[]) {
+          if (point.vector.length !== collection.size) {
+            return this.reply(res, 400, { status: { error: 'Wrong vector dimension' } });
+          }
+          collection.points.set(String(point.id), point);
+        }
+        return this.reply(res, 200, { result: { operation_id: 0, status: 'completed' } });
+      case 'POST /points/delete':
+        for (const id of body.points as Array<string | number>) {
+          collection.points.delete(String(id));
+        }
+        return this.reply(res, 200, { result: { operation_id: 0, status: 'completed' } });
+      case 'POST /points':
+        return this.reply(res, 200, {
+          result: (body.ids as Array<string | number>)
+            .map(id => collection.points.get(String(id)))
+            .filter(point => point !== undefined)
+            .map(point => ({ id: point.id, payload: point.payload, vector: point.vector })),
+        });
+      case 'POST /points/scroll': {
+        const points = Array.from(collection.points.values());
+        const start = body.offset === undefined ? 0 : points.findIndex(point => point.id === body.offset);
+        const end = start + (body.limit ?? 10);
+        return this.reply(res, 200, {
+          result: {
+            points: points.slice(start, end).map(point => ({ id: point.id, payload: point.payload })),
+            next_page_offset: points[end]?.id ?? null,
+          },
+        });
+      }
+      case 'POST /points/search': {
+        // Euclidean scores are distances: smaller is closer
+        const sign = collection.distance === 'Euclid' ? -1 : 1;
+        const threshold = body.score_threshold ?? undefined;
+        const scored = Array.from(collection.points.values())
+          .filter(point => !body.filter || matches(body.filter, point.payload))
+          .map(point => ({ point, score: score(collection.distance, body.vector, point.vector) }))
+          .filter(({ score }) => threshold === undefined || sign * score >= sign * threshold)
+          .sort((a, b) => sign * (b.score - a.score))
+          .slice(0, body.limit ?? 10);
+        return this.reply(res, 200, {
+          result: scored.map(({ point, score }) => ({ id: point.id, version: 0, score, payload: point.payload })),
+        });
+      }
+      default:
+        return this.reply(res, 404, { status: { error: `Unsupported route ${route}` } });
+    }
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: Record<string, unknown>): void {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ time: 0, status: 'ok', ...body }));
+  }
+}
+
+interface Filter {
+  must?: Condition[];
+  must_not?: Condition[];
+  should?: Condition[];
+}
+
+type Condition = Filter & {
+  key?: string;
+  match?: { value?: unknown; any?: unknown[] };
+  range?: { gt?: number | string; gte?: number | string; lt?: number | string; lte?: number | string };
+  is_empty?: { key: string };
+};
+
+/**
+ * Evaluate the subset of Qdrant payload filters produced by `toQdrantFilter`
+ */
+function matches(filter: Filter, payload: Record<string, unknown>): boolean {
+  return (filter.must ?? []).every(condition => holds(condition, payload)) &&
+    !(filter.must_not ?? []).some(condition => holds(condition, payload)) &&
+    (!filter.should || filter.should.some(condition => holds(condition, payload)));
+}
+
+function holds(condition: Condition, payload: Record<string, unknown>): boolean {
+  if (condition.is_empty) {
+    return values(payload, condition.is_empty.key).length === 0;
+  }
+  if (condition.key === undefined) {
+    return matches(condition, payload);
+  }
+  const found = values(payload, condition.key);
+  if (condition.match) {
+    const { value, any } = condition.match;
+    return found.some(item => (any ? any.includes(item) : item === value));
+  }
+  const { gt, gte, lt, lte } = condition.range ?? {};
+  return found.some(item => {
+    const value = item as number | string;
+    return (gt === undefined || value > gt) &&
+      (gte === undefined || value >= gte) &&
+      (lt === undefined || value < lt) &&
+      (lte === undefined || value <= lte);
+  });
+}
+
+function values(payload: Record<string, unknown>, key: string): unknown[] {
+  let value: any = payload;
+  for (const part of key.split('.')) {
+    value = value?.[part];
+  }
+  return (Array.isArray(value) ? value : [value]).filter(item => item !== undefined && item !== null);
+}
+
+function score(distance: Collection['distance'], a: number[], b: number[]): number {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  if (distance === 'Dot') {
+    return dot;
+  }
+  if (distance === 'Euclid') {
+    return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+  }
+  const norm = Math.sqrt(a.reduce((sum, value) => sum + value * value, 0) * b.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? 0 : dot / norm;
+}
@@ -0,0 +1,173 @@
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  LLMFixtureMissError,
+  createFixtureLLMProvider,
+  fixtureKey,
+  normalizePrompt,
+} from '../../src/provider/replay-llm';
+import { Team } from '../../src/management/team';
+import { BaseRole } from '../../src/roles/base-role';
+import { BaseAction } from '../../src/actions/base-action';
+import type { ActionOutput } from '../../src/types/action';
+import type { LLMProvider } from '../../src/types/llm';
+
+/**
+ * LLM that numbers its answers and streams them word by word
+ */
+function createLLM(): LLMProvider & { calls: number } {
+  let systemPrompt = '';
+  const llm = {
+    calls: 0,
+    chat: async (message: string) => {
+      llm.calls++;
+      return `answer ${llm.calls} to ${message.trim()}${systemPrompt ? ` as ${systemPrompt}` : ''}`;
+    },
+    generate: async (prompt: string) => llm.chat(prompt),
+    generateStream: async function* (prompt: string) {
+      const answer = await llm.chat(prompt);
+      for (const word of answer.split(' ')) {
+        yield `${word} `;
+      }
+    },
+    setSystemPrompt: (prompt: string) => {
+      systemPrompt = prompt;
+    },
+    getSystemPrompt: () => systemPrompt,
+    getName: () => 'test',
+    getModel: () => 'test-model',
+  };
+  return llm;
+}
+
+class AskAction extends BaseAction {
+  async run(): Promise<ActionOutput> {
+    return this.createOutput(await this.ask(`${this.name} task`));
+  }
+}
+
+class TestRole extends BaseRole {
+  constructor(name: string, actionName: string, watch: string, llm: LLMProvider) {
+    super(name, name, `Run ${actionName}`, '', [new AskAction({ name: actionName, llm })]);
+    this.watch([watch]);
+  }
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('Record/replay LLM providers', () => {
+  let dir: string;
+  let fixturePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+    fixturePath = path.join(dir, 'fixtures.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should normalize whitespace and volatile values before hashing', () => {
+    expect(normalizePrompt('  hello  \r\nworld \n')).toBe('hello\nworld');
+    expect(normalizePrompt('id 123e4567-e89b-12d3-a456-426614174000 at 2024-05-01T10:00:00.000Z'))
+      .toBe('id <uuid> at <timestamp>');
+    expect(fixtureKey('chat', 'hi ')).toBe(fixtureKey('chat', 'hi'));
+    expect(fixtureKey('chat', 'hi')).not.toBe(fixtureKey('generate', 'hi'));
+    expect(fixtureKey('generate', 'hi', '', { temperature: 0, maxTokens: 10 }))
+      .toBe(fixtureKey('generate', 'hi', '', { maxTokens: 10, temperature: 0 }));
+  });
+
+  test('should replay recorded responses in order without calling the model', async () => {
+    const recorder = new RecordingLLMProvider(createLLM(), fixturePath);
+    const first = await recorder.chat('hello');
+    const second = await recorder.chat('hello');
+    const generated = await recorder.generate('write', { temperature: 0 });
+
+    const replay = new ReplayLLMProvider(fixturePath);
+    expect(replay.getName()).toBe('test');
+    expect(replay.getModel()).toBe('test-model');
+    expect(await replay.chat('hello  ')).toBe(first);
+    expect(await replay.chat('hello')).toBe(second);
+    expect(await replay.generate('write', { temperature: 0 })).toBe(generated);
+  });
+
+  test('should replay streaming chunks', async () => {
+    const recorder = new RecordingLLMProvider(createLLM(), fixturePath);
+    const recorded = await collect(recorder.generateStream('stream me'));
+    await recorder.chat('plain');
+
+    const replay = new ReplayLLMProvider(fixturePath);
+    expect(await collect(replay.generateStream('stream me'))).toEqual(recorded);
+    expect(await collect(replay.chatStream('plain'))).toEqual(['answer 2 to plain']);
+  });
+
+  test('should key responses by system prompt', async () => {
+    const recorder = new RecordingLLMProvider(createLLM(), fixturePath);
+    recorder.setSystemPrompt('Engineer');
+    const answer = await recorder.chat('hello');
+
+    const replay = new ReplayLLMProvider(fixturePath);
+    await expect(replay.chat('hello')).rejects.toThrow(LLMFixtureMissError);
+    replay.setSystemPrompt('Engineer');
+    expect(await replay.chat('hello')).toBe(answer);
+  });
+
+  test('should fail loudly on a cache miss', async () => {
+    const recorder = new RecordingLLMProvider(createLLM(), fixturePath);
+    await recorder.chat('hello');
+
+    const replay = new ReplayLLMProvider(fixturePath);
+    await expect(replay.chat('goodbye')).rejects.toThrow(/No recorded LLM response #1.*\n.*goodbye/);
+    await replay.chat('hello');
+    await expect(replay.chat('hello')).rejects.toThrow(/#2/);
+    await expect(collect(replay.chatStream('goodbye'))).rejects.toThrow(LLMFixtureMissError);
+    expect(() => new ReplayLLMProvider(path.join(dir, 'missing.json'))).toThrow('not found');
+  });
+
+  test('should overwrite stale responses when re-recording', async () => {
+    await new RecordingLLMProvider(createLLM(), fixturePath).chat('hello');
+    const llm = createLLM();
+    llm.calls = 10;
+    await new RecordingLLMProvider(llm, fixturePath).chat('hello');
+
+    const replay = new ReplayLLMProvider(fixturePath);
+    expect(await replay.chat('hello')).toBe('answer 11 to hello');
+    await expect(replay.chat('hello')).rejects.toThrow(LLMFixtureMissError);
+  });
+
+  test('should make a team run reproducible', async () => {
+    const runTeam = async (mode: string) => {
+      const llm = () => createFixtureLLMProvider(fixturePath, createLLM, mode);
+      const writer = new TestRole('Writer', 'WriteDraft', 'UserRequirement', llm());
+      const reviewer = new TestRole('Reviewer', 'Review', 'WriteDraft', llm());
+      const team = new Team({ roles: [writer, reviewer] });
+      const history = await team.run(5, 'Write a poem', '', false);
+      return history.map(m => m.content);
+    };
+
+    const recorded = await runTeam('record');
+    const replayed = await runTeam('replay');
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed).toHaveLength(3);
+  });
+
+  test('should stop a team run on a cache miss', async () => {
+    await new RecordingLLMProvider(createLLM(), fixturePath).chat('unrelated');
+    const writer = new TestRole('Writer', 'WriteDraft', 'UserRequirement', new ReplayLLMProvider(fixturePath));
+    const team = new Team({ roles: [writer] });
+
+    await expect(team.run(5, 'Write a poem', '', false)).rejects.toThrow(LLMFixtureMissError);
+  });
+});
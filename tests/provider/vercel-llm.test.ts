@@ -0,0 +1,160 @@
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { generateObject, generateText, NoObjectGeneratedError, streamText } from 'ai';
+import { VercelLLMProvider } from '../../src/provider/vercel-llm';
+import { CostManager, withCostAttribution } from '../../src/utils/cost-manager';
+import { NoMoneyError, StructuredOutputError } from '../../src/utils/errors';
+
+vi.mock('ai', async (importOriginal) => ({
+  ...await importOriginal<typeof import('ai')>(),
+  generateObject: vi.fn(),
+  generateText: vi.fn(),
+  streamText: vi.fn(),
+}));
+
+const usage = { promptTokens: 100, completionTokens: 50, totalTokens: 150 };
+
+function noObject(text: string): NoObjectGeneratedError {
+  return new NoObjectGeneratedError({
+    text,
+    response: { id: 'response', timestamp: new Date(), modelId: 'gpt-4' },
+    usage,
+    finishReason: 'stop',
+  });
+}
+
+describe('VercelLLMProvider cost accounting', () => {
+  let provider: VercelLLMProvider;
+  let costManager: CostManager;
+
+  beforeEach(() => {
+    vi.mocked(generateText).mockResolvedValue({
+      text: 'hello',
+      usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+    } as any);
+    vi.mocked(streamText).mockReturnValue({
+      fullStream: (async function* () {
+        yield { type: 'text-delta', textDelta: 'hel' };
+        yield { type: 'text-delta', textDelta: 'lo' };
+        yield { type: 'finish', usage: { promptTokens: 200, completionTokens: 100, totalTokens: 300 } };
+      })(),
+    } as any);
+
+    provider = new VercelLLMProvider({ providerType: 'openai', apiKey: 'test-key', model: 'gpt-4' });
+    costManager = new CostManager();
+    provider.setCostManager(costManager);
+  });
+
+  test('should record usage of generate and chat calls', async () => {
+    await withCostAttribution({ role: 'Architect', action: 'WriteDesign' }, () => provider.generate('design'));
+    await provider.chat('hi');
+
+    expect(costManager.totalPromptTokens).toBe(2000);
+    expect(costManager.totalCost).toBeCloseTo(0.12);
+    const report = costManager.getReport();
+    expect(report.byAction['Architect/WriteDesign'].cost).toBeCloseTo(0.06);
+    expect(report.byModel['gpt-4'].calls).toBe(2);
+  });
+
+  test('should record usage when a stream finishes', async () => {
+    let text = '';
+    for await (const chunk of provider.generateStream('stream')) {
+      text += chunk;
+    }
+
+    expect(text).toBe('hello');
+    expect(costManager.totalPromptTokens).toBe(200);
+    expect(costManager.totalCompletionTokens).toBe(100);
+  });
+
+  test('should refuse calls once the budget is spent', async () => {
+    costManager.maxBudget = 0.05;
+    await provider.generate('first');
+
+    await expect(provider.generate('second')).rejects.toThrow(NoMoneyError);
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VercelLLMProvider.generateObject', () => {
+  const ReviewSchema = z.object({
+    verdict: z.enum(['approve', 'reject']),
+    comments: z.array(z.string()),
+  });
+
+  let provider: VercelLLMProvider;
+  let costManager: CostManager;
+
+  beforeEach(() => {
+    provider = new VercelLLMProvider({ providerType: 'openai', apiKey: 'test-key', model: 'gpt-4' });
+    costManager = new CostManager();
+    provider.setCostManager(costManager);
+  });
+
+  test('should repair answers that do not match the schema', async () => {
+    vi.mocked(generateObject)
+      .mockRejectedValueOnce(noObject('{"verdict": "maybe", "comments": []}'))
+      .mockResolvedValueOnce({ object: { verdict: 'approve', comments: ['LGTM'] }, usage } as any);
+
+    const review = await provider.generateObject('Review the PR', ReviewSchema);
+
+    expect(review).toEqual({ verdict: 'approve', comments: ['LGTM'] });
+    expect(generateObject).toHaveBeenCalledTimes(2);
+    const repairPrompt = vi.mocked(generateObject).mock.calls[1][0].prompt as string;
+    expect(repairPrompt).toContain('"verdict": "maybe"');
+    expect(repairPrompt).toContain('verdict: Invalid enum value');
+    expect(costManager.totalPromptTokens).toBe(200);
+  });
+
+  test('should throw StructuredOutputError once the repairs are used up', async () => {
+    vi.mocked(generateObject).mockRejectedValue(noObject('not json'));
+
+    await expect(provider.generateObject('Review the PR', ReviewSchema, { maxRepairs: 1 }))
+      .rejects.toThrow(StructuredOutputError);
+    expect(generateObject).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('VercelLLMProvider.generateWithTools', () => {
+  let provider: VercelLLMProvider;
+  let costManager: CostManager;
+
+  beforeEach(() => {
+    provider = new VercelLLMProvider({ providerType: 'openai', apiKey: 'test-key', model: 'gpt-4' });
+    costManager = new CostManager();
+    provider.setCostManager(costManager);
+  });
+
+  test('should pass tools to the SDK and collect invocations of every step', async () => {
+    vi.mocked(generateText).mockImplementation(async (options: any) => {
+      const result = await options.tools.add.execute({ a: 1, b: 2 });
+      options.onStepFinish({ usage, finishReason: 'tool-calls' });
+      options.onStepFinish({ usage, finishReason: 'stop' });
+      return {
+        text: 'The sum is 3',
+        finishReason: 'stop',
+        steps: [
+          { toolResults: [{ toolCallId: 'call-1', toolName: 'add', args: { a: 1, b: 2 }, result }] },
+          { toolResults: [] },
+        ],
+      } as any;
+    });
+    const execute = vi.fn(async ({ a, b }: { a: number; b: number }) => a + b);
+
+    const result = await provider.generateWithTools('add 1 and 2', [{
+      name: 'add',
+      description: 'Add two numbers',
+      parameters: z.object({ a: z.number(), b: z.number() }),
+      execute,
+    }], { maxSteps: 3 });
+
+    expect(vi.mocked(generateText).mock.calls[0][0]).toMatchObject({ maxSteps: 3 });
+    expect(result).toEqual({
+      text: 'The sum is 3',
+      steps: 2,
+      finishReason: 'stop',
+      toolCalls: [{ id: 'call-1', name: 'add', args: { a: 1, b: 2 }, result: 3, step: 1 }],
+    });
+    expect(costManager.getReport().byModel['gpt-4'].calls).toBe(2);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect, vi } from 'vitest';
+import { ABSTENTION, attributeAnswer, buildCitationPrompt, FaithfulnessCheck, splitSentences } from '../../src/rag/citations';
+import type { LLMProvider } from '../../src/types/llm';
+import type { SearchResult } from '../../src/types/rag';
+
+function result(id: string, content: string, metadata: Record<string, any> = {}): SearchResult {
+  return { chunk: { id, content, embedding: [], metadata }, score: 1, metadata: {} };
+}
+
+const results = [
+  result('c1', 'The Eiffel Tower is in Paris. It was completed in 1889.', { source: 'docs/paris.md' }),
+  result('c2', 'Mount Fuji is the highest mountain in Japan.'),
+];
+
+function createJudge(verdicts: unknown[]) {
+  const generateObject = vi.fn(async (_prompt: string) => ({ verdicts }));
+  return { llm: { chat: vi.fn(), generate: vi.fn(), generateObject } as unknown as LLMProvider, generateObject };
+}
+
+describe('splitSentences', () => {
+  test('should keep citation markers with their sentence and track offsets', () => {
+    const text = 'Version 2.5 is out [1]. It is faster.[2] Done\nNext line';
+    const sentences = splitSentences(text);
+
+    expect(sentences.map(s => s.text)).toEqual(['Version 2.5 is out [1].', 'It is faster.[2]', 'Done', 'Next line']);
+    for (const sentence of sentences) {
+      expect(text.slice(sentence.start, sentence.end)).toBe(sentence.text);
+    }
+  });
+});
+
+describe('attributeAnswer', () => {
+  test('should map markers to chunk IDs and supporting spans with the lexical check', async () => {
+    const answer = 'It was completed in 1889 [1]. Fuji is the tallest volcano on Mars [2].';
+    const cited = await attributeAnswer({} as LLMProvider, answer, results, { check: FaithfulnessCheck.LEXICAL });
+
+    const [first, second] = cited.sentences;
+    expect(first.supported).toBe(true);
+    expect(first.citations).toEqual([{
+      marker: 1,
+      chunkId: 'c1',
+      source: 'docs/paris.md',
+      start: 30,
+      end: 55,
+      quote: 'It was completed in 1889.',
+    }]);
+    expect(results[0].chunk.content.slice(30, 55)).toBe(first.citations[0].quote);
+    expect(second.supported).toBe(false);
+    expect(cited.answer).toBe(answer);
+  });
+
+  test('should remove sentences the judge rejects and add attributions it finds', async () => {
+    const { llm, generateObject } = createJudge([
+      { sentence: 1, supported: true, passage: 1, quote: 'The Eiffel Tower is in Paris.' },
+      { sentence: 2, supported: false },
+      { sentence: 3, supported: true, passage: 2, quote: 'not a verbatim quote' },
+    ]);
+    const answer = 'The tower stands in Paris [1].\nIt is made of gold [1]. Fuji is the highest mountain in Japan.';
+
+    const cited = await attributeAnswer(llm, answer, results, { removeUnsupported: true });
+
+    expect(generateObject.mock.calls[0][0]).toContain('2. It is made of gold. (cites [1])');
+    expect(cited.answer).toBe('The tower stands in Paris [1].\nFuji is the highest mountain in Japan.');
+    expect(cited.removed.map(s => s.text)).toEqual(['It is made of gold [1].']);
+    expect(cited.sentences[1]).toMatchObject({ start: 31, end: 69 });
+    expect(cited.sentences[0].citations[0]).toMatchObject({ start: 0, end: 29 });
+    expect(cited.sentences[1].citations).toEqual([expect.objectContaining({
+      marker: 2,
+      chunkId: 'c2',
+      quote: 'Mount Fuji is the highest mountain in Japan.',
+    })]);
+  });
+
+  test('should keep the abstention without checking it', async () => {
+    const { llm, generateObject } = createJudge([{ sentence: 1, supported: true, passage: 1 }]);
+    expect(buildCitationPrompt('How tall is the tower?', results)).toContain(ABSTENTION);
+
+    const abstained = await attributeAnswer(llm, ABSTENTION, results, { removeUnsupported: true });
+    expect(abstained.answer).toBe(ABSTENTION);
+    expect(abstained.sentences).toEqual([{ text: ABSTENTION, start: 0, end: ABSTENTION.length, citations: [], supported: true }]);
+    expect(generateObject).not.toHaveBeenCalled();
+
+    const answer = `The tower stands in Paris [1]. ${ABSTENTION}`;
+    const partial = await attributeAnswer(llm, answer, results, { removeUnsupported: true });
+    expect(partial.answer).toBe(answer);
+    expect(generateObject.mock.calls[0][0]).not.toContain('enough information');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DocumentRegistry, hashContent } from '../../src/rag/document-registry';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore } from '../../src/rag/vector-store';
+import type { LLMProvider } from '../../src/types/llm';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rag-registry-'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+function createSystem(registryPath?: string, vectorStore = new InMemoryVectorStore({ dimension: 64 })) {
+  const llm = { chat: vi.fn(), generate: vi.fn() } as unknown as LLMProvider;
+  const chunker = { chunk: (text: string) => text.split('\n'), updateConfig: vi.fn() };
+  const rag = new RAGSystem(llm, chunker, new HashingEmbedding({ dimension: 64 }), vectorStore, {
+    searchMode: SearchMode.KEYWORD,
+    registryPath,
+  });
+  return { rag, vectorStore };
+}
+
+async function writeFile(relativePath: string, content: string) {
+  const filePath = path.join(dir, 'docs', relativePath);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, content, 'utf8');
+}
+
+describe('DocumentRegistry', () => {
+  test('should persist entries and filter sources by directory', async () => {
+    const filePath = path.join(dir, 'registry.json');
+    const registry = new DocumentRegistry(filePath);
+    await registry.load();
+    registry.set('/docs/a.md', { hash: hashContent('a'), chunkIds: ['1'], updatedAt: 1 });
+    registry.set('/docs-old/b.md', { hash: hashContent('b'), chunkIds: ['2'], updatedAt: 2 });
+    await registry.save();
+
+    const reloaded = new DocumentRegistry(filePath);
+    await reloaded.load();
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.get('/docs/a.md')?.chunkIds).toEqual(['1']);
+    expect(reloaded.sources('/docs')).toEqual(['/docs/a.md']);
+  });
+});
+
+describe('RAGSystem ingestion', () => {
+  test('should skip unchanged sources and replace the chunks of changed ones', async () => {
+    const { rag, vectorStore } = createSystem();
+
+    expect(await rag.addDocument({ source: 'notes', content: 'alpha\nbeta' })).toHaveLength(2);
+    expect(await rag.addDocument({ source: 'notes', content: 'alpha\nbeta' })).toHaveLength(0);
+    const chunks = await rag.addDocument({ source: 'notes', content: 'gamma' });
+
+    expect(chunks[0].metadata.source).toBe('notes');
+    expect(vectorStore.size).toBe(1);
+    expect((await rag.search('alpha')).length).toBe(0);
+    expect((await rag.search('gamma')).map(r => r.chunk.id)).toEqual([chunks[0].id]);
+
+    expect(await rag.removeDocument('notes')).toBe(true);
+    expect(await rag.removeDocument('notes')).toBe(false);
+    expect(vectorStore.size).toBe(0);
+  });
+
+  test('should sync a directory tree and resume from the registry file', async () => {
+    const registryPath = path.join(dir, 'registry.json');
+    const docs = path.join(dir, 'docs');
+    await writeFile('a.md', 'alpha');
+    await writeFile('nested/b.txt', 'beta');
+    await writeFile('c.txt', 'gamma');
+
+    const first = createSystem(registryPath);
+    const initial = await first.rag.syncDirectory(docs);
+    expect(initial.added.map(source => path.relative(docs, source)).sort()).toEqual(['a.md', 'c.txt', 'nested/b.txt']);
+
+    const { rag, vectorStore } = createSystem(registryPath, first.vectorStore);
+    await rag.addDocument({ content: 'alpha untracked' });
+    await writeFile('a.md', 'alpha changed');
+    await fs.promises.rm(path.join(docs, 'c.txt'));
+
+    const sync = await rag.syncDirectory(docs);
+    expect(sync.updated).toEqual([path.join(docs, 'a.md')]);
+    expect(sync.unchanged).toEqual([path.join(docs, 'nested/b.txt')]);
+    expect(sync.removed).toEqual([path.join(docs, 'c.txt')]);
+    expect(sync.failed).toEqual([]);
+
+    const results = await rag.search('alpha');
+    expect(results.map(r => r.chunk.content).sort()).toEqual(['alpha changed', 'alpha untracked']);
+    expect(results.find(r => r.chunk.metadata.source)?.chunk.metadata.path).toBe('a.md');
+    expect(rag.registry.sources().sort()).toEqual([path.join(docs, 'a.md'), path.join(docs, 'nested/b.txt')]);
+    expect(vectorStore.size).toBe(3);
+  });
+
+  test('should index registered sources again when their chunks are missing from the store', async () => {
+    const registryPath = path.join(dir, 'registry.json');
+    const docs = path.join(dir, 'docs');
+    await writeFile('a.md', 'alpha');
+
+    await createSystem(registryPath).rag.syncDirectory(docs);
+
+    const { rag, vectorStore } = createSystem(registryPath);
+    const sync = await rag.syncDirectory(docs);
+    expect(sync.updated).toEqual([path.join(docs, 'a.md')]);
+    expect(vectorStore.size).toBe(1);
+    expect((await rag.search('alpha')).map(r => r.chunk.content)).toEqual(['alpha']);
+
+    expect((await rag.syncDirectory(docs)).unchanged).toEqual([path.join(docs, 'a.md')]);
+  });
+
+  test('should refuse to purge when the directory cannot be read', async () => {
+    const { rag } = createSystem();
+    await rag.addDocument({ source: path.join(dir, 'missing', 'a.md'), content: 'alpha' });
+
+    await expect(rag.syncDirectory(path.join(dir, 'missing'))).rejects.toThrow();
+    expect(rag.registry.size).toBe(1);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createEmbeddingGenerator,
+  DEFAULT_LOCAL_MODEL,
+  EmbeddingProvider,
+  HashingEmbedding,
+  LocalEmbedding,
+} from '../../src/rag/embeddings';
+import type { FeatureExtractorLoader } from '../../src/rag/embeddings';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import type { LLMProvider } from '../../src/types/llm';
+
+const transformers = vi.hoisted(() => ({
+  env: { localModelPath: '/models/', allowRemoteModels: true },
+  pipeline: vi.fn(),
+}));
+vi.mock('@huggingface/transformers', () => transformers);
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('HashingEmbedding', () => {
+  test('should produce deterministic normalized vectors', async () => {
+    const embedding = new HashingEmbedding({ dimension: 64 });
+    const first = await embedding.embed('The quick brown fox');
+    const second = await new HashingEmbedding({ dimension: 64 }).embed('the QUICK brown fox!');
+
+    expect(first).toHaveLength(64);
+    expect(second).toEqual(first);
+    expect(dot(first, first)).toBeCloseTo(1, 6);
+    expect(await embedding.embed('')).toEqual(new Array(64).fill(0));
+  });
+
+  test('should score texts sharing words above unrelated texts', async () => {
+    const embedding = new HashingEmbedding();
+    const [query, related, unrelated] = await embedding.embedBatch([
+      'vector database search',
+      'searching a vector database',
+      'chocolate cake recipe',
+    ]);
+
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated) + 0.3);
+  });
+});
+
+describe('LocalEmbedding', () => {
+  function countingLoader() {
+    const extractor = vi.fn(async (texts: string[]) => texts.map(text => [text.length, 1]));
+    const loader = vi.fn<FeatureExtractorLoader>(async () => extractor);
+    return { extractor, loader };
+  }
+
+  test('should load the model once and embed in batches of batchSize', async () => {
+    const { extractor, loader } = countingLoader();
+    const embedding = new LocalEmbedding({ batchSize: 2, dimension: 2 }, loader);
+
+    const vectors = await embedding.embedBatch(['a', 'bb', 'ccc', 'bb', 'dddd', 'eeeee']);
+
+    expect(vectors.map(vector => vector[0])).toEqual([1, 2, 3, 2, 4, 5]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader.mock.calls[0][0]).toBe(DEFAULT_LOCAL_MODEL);
+    expect(extractor.mock.calls.map(([texts]) => texts)).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+  });
+
+  test('should reuse cached embeddings and reload when the model changes', async () => {
+    const { extractor, loader } = countingLoader();
+    const embedding = new LocalEmbedding({ model: 'org/model' }, loader);
+
+    await embedding.embedBatch(['a', 'b']);
+    await embedding.embed('a');
+    expect(extractor).toHaveBeenCalledTimes(1);
+
+    embedding.updateConfig({ model: 'org/other' });
+    await embedding.embed('a');
+    expect(loader.mock.calls.map(([model]) => model)).toEqual(['org/model', 'org/other']);
+    expect(extractor).toHaveBeenCalledTimes(2);
+  });
+
+  test('should only read models from modelPath while loading them', async () => {
+    const settings: object[] = [];
+    transformers.pipeline.mockImplementation(async () => {
+      settings.push({ ...transformers.env });
+      return async (texts: string[]) => ({ tolist: () => texts.map(() => [1, 0]) });
+    });
+
+    await new LocalEmbedding({ model: 'org/offline', modelPath: '/opt/models', dimension: 2 }).embed('a');
+    await new LocalEmbedding({ model: 'org/online', dimension: 2 }).embed('a');
+
+    expect(settings).toEqual([
+      { localModelPath: '/opt/models', allowRemoteModels: false },
+      { localModelPath: '/models/', allowRemoteModels: true },
+    ]);
+    expect(transformers.env).toEqual({ localModelPath: '/models/', allowRemoteModels: true });
+  });
+
+  test('should reject vectors of an unexpected dimension', async () => {
+    const { loader } = countingLoader();
+    const embedding = new LocalEmbedding(undefined, loader);
+
+    expect(embedding.dimension).toBe(384);
+    await expect(embedding.embed('a')).rejects.toThrow('Embedding dimension mismatch');
+  });
+});
+
+describe('createEmbeddingGenerator', () => {
+  const llm = { generate: vi.fn(), chat: vi.fn() } as unknown as LLMProvider;
+
+  test('should create offline generators for the local providers', () => {
+    expect(createEmbeddingGenerator(llm, { provider: EmbeddingProvider.LOCAL, model: 'hashing' }))
+      .toBeInstanceOf(HashingEmbedding);
+    expect(createEmbeddingGenerator(llm, { provider: EmbeddingProvider.LOCAL })).toBeInstanceOf(LocalEmbedding);
+    expect(createEmbeddingGenerator(llm, { provider: EmbeddingProvider.HUGGINGFACE, model: 'org/model' }))
+      .toBeInstanceOf(LocalEmbedding);
+  });
+
+  test('should let RAGSystem retrieve documents without an embedding API', async () => {
+    const rag = RAGSystem.create(llm, {
+      searchMode: SearchMode.SEMANTIC,
+      minScore: 0.2,
+      topK: 1,
+      embedding: { provider: EmbeddingProvider.LOCAL, model: 'hashing', dimension: 128 },
+    });
+    await rag.addDocuments([
+      { content: 'Bananas are rich in potassium.' },
+      { content: 'TypeScript adds static types to JavaScript.' },
+    ]);
+
+    const [result] = await rag.search('static types for JavaScript');
+    expect(result.chunk.content).toContain('TypeScript');
+  });
+});
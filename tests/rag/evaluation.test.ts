@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import {
+  formatEvalComparison,
+  formatEvalReport,
+  RAGEvaluator,
+  readEvalReport,
+  scoreRetrieval,
+  writeEvalReport,
+} from '../../src/rag/evaluation';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore } from '../../src/rag/vector-store';
+import { RecordingLLMProvider, ReplayLLMProvider } from '../../src/provider/replay-llm';
+import type { LLMProvider } from '../../src/types/llm';
+import type { SearchResult } from '../../src/types/rag';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rag-eval-'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+function result(id: string, source?: string): SearchResult {
+  return { chunk: { id, content: id, embedding: [], metadata: source ? { source } : {} }, score: 1, metadata: {} };
+}
+
+const dataset = {
+  name: 'handbook',
+  cases: [
+    { id: 'vacation', question: 'How many vacation days?', expectedSources: ['vacation.md'], referenceAnswer: '25 days' },
+    { id: 'expenses', question: 'When are expense reports due?', expectedSources: ['expenses.md', 'finance.md'] },
+  ],
+};
+
+async function createSystem(topK: number) {
+  const llm = { chat: vi.fn(), generate: vi.fn(async () => 'Employees get 25 vacation days.') } as unknown as LLMProvider;
+  const chunker = { chunk: (text: string) => [text], updateConfig: vi.fn() };
+  const rag = new RAGSystem(llm, chunker, new HashingEmbedding({ dimension: 64 }), new InMemoryVectorStore({ dimension: 64 }), {
+    searchMode: SearchMode.KEYWORD,
+    topK,
+  });
+  await rag.addDocuments([
+    { source: 'vacation.md', content: 'Employees receive 25 vacation days per year.' },
+    { source: 'expenses.md', content: 'Expense reports are due by the fifth of the month.' },
+    { source: 'finance.md', content: 'Finance reviews expense reports monthly.' },
+    { source: 'travel.md', content: 'Book travel through the portal. Expense limits apply.' },
+  ]);
+  return rag;
+}
+
+function createJudge(): LLMProvider {
+  return {
+    chat: vi.fn(async () => JSON.stringify({ faithfulness: 5, relevance: 4, reasoning: 'Supported.' })),
+    generate: vi.fn(),
+    getName: () => 'judge',
+    getModel: () => 'judge-model',
+  } as unknown as LLMProvider;
+}
+
+describe('scoreRetrieval', () => {
+  test('should count each expected source once at its best rank', () => {
+    const results = [result('1', 'x.md'), result('2', 'a.md'), result('3', 'a.md'), result('4', 'b.md')];
+    const metrics = scoreRetrieval(results, ['a.md', 'b.md', 'c.md'], 4);
+
+    expect(metrics.recall).toBeCloseTo(2 / 3);
+    expect(metrics.mrr).toBe(0.5);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const idealDcg = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+    expect(metrics.ndcg).toBeCloseTo(dcg / idealDcg);
+
+    expect(scoreRetrieval(results, ['b.md'], 3)).toEqual({ recall: 0, mrr: 0, ndcg: 0 });
+    expect(scoreRetrieval([result('chunk-7')], ['chunk-7'], 1)).toEqual({ recall: 1, mrr: 1, ndcg: 1 });
+  });
+});
+
+describe('RAGEvaluator', () => {
+  test('should score retrieval and replay the judge offline', async () => {
+    const fixturePath = path.join(dir, 'judge.json');
+    const rag = await createSystem(3);
+
+    const recorded = await new RAGEvaluator(rag, new RecordingLLMProvider(createJudge(), fixturePath), {
+      k: 2,
+      label: 'baseline',
+    }).evaluate(dataset);
+    const replayed = await new RAGEvaluator(rag, new ReplayLLMProvider(fixturePath), {
+      k: 2,
+      label: 'baseline',
+    }).evaluate(dataset);
+
+    expect(replayed.summary).toEqual(recorded.summary);
+    expect(recorded.summary).toMatchObject({ cases: 2, errors: 0, recall: 1, mrr: 1, faithfulness: 1, relevance: 0.75 });
+    expect(recorded.cases[0]).toMatchObject({ id: 'vacation', retrieved: ['vacation.md'], missed: [] });
+    expect(recorded.config).toMatchObject({ searchMode: SearchMode.KEYWORD, topK: 3 });
+  });
+
+  test('should write JSON and Markdown reports and compare runs', async () => {
+    const baseline = await new RAGEvaluator(await createSystem(3), undefined, { k: 2, label: 'top 2' }).evaluate(dataset);
+    const narrow = await new RAGEvaluator(await createSystem(3), undefined, { k: 1, label: 'top 1' }).evaluate(dataset);
+
+    writeEvalReport(narrow, path.join(dir, 'narrow'));
+    expect(readEvalReport(path.join(dir, 'narrow.json')).summary).toEqual(narrow.summary);
+    const markdown = fs.readFileSync(path.join(dir, 'narrow.md'), 'utf8');
+    expect(markdown).toBe(`${formatEvalReport(narrow)}\n`);
+    expect(markdown).toContain('| recall@1 | 0.750 |');
+    expect(markdown).toContain('| expenses | 0.500 | 1.000 | 1.000 | finance.md |');
+    expect(markdown).not.toContain('faithfulness');
+
+    expect(formatEvalComparison([baseline, narrow])).toContain('| top 1 | 0.750 (-0.250) | 1.000 (+0.000) |');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileVectorStore } from '../../src/rag/file-vector-store';
+import { createVectorStore, VectorIndexType } from '../../src/rag/vector-store';
+
+describe('FileVectorStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'file-vector-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should keep vectors, metadata and content across restarts', async () => {
+    const store = createVectorStore('file', { directory, dimension: 2 });
+    await store.addBatch([
+      { id: 'a', vector: [1, 0], metadata: { tag: 'x' }, content: 'alpha' },
+      { id: 'b', vector: [0, 1], content: 'beta' },
+    ]);
+    await store.delete(['b']);
+
+    const reopened = new FileVectorStore({ directory, dimension: 2 });
+    expect(await reopened.count()).toBe(1);
+    expect(await reopened.search([1, 0], 5)).toEqual([
+      { id: 'a', score: 1, metadata: { tag: 'x' }, content: 'alpha' },
+    ]);
+    expect(await reopened.list()).toEqual([{ id: 'a', metadata: { tag: 'x' }, content: 'alpha' }]);
+  });
+
+  test('should fold the log into a checkpoint and replay later changes', async () => {
+    const store = new FileVectorStore({ directory, dimension: 2 }, { compactAfter: 3 });
+    await store.add('a', [1, 0]);
+    await store.add('b', [0, 1]);
+    await store.add('c', [1, 1]);
+    const collectionDir = path.join(directory, 'default');
+    expect(fs.existsSync(path.join(collectionDir, 'vectors.vec'))).toBe(true);
+    expect(fs.readFileSync(path.join(collectionDir, 'wal.jsonl'), 'utf8')).toBe('');
+
+    await store.add('d', [-1, 0]);
+    fs.appendFileSync(path.join(collectionDir, 'wal.jsonl'), '{"op":"put","id":"trunc');
+
+    const reopened = new FileVectorStore({ directory, dimension: 2 });
+    expect(await reopened.count()).toBe(4);
+    expect((await reopened.search([-1, 0], 1))[0].id).toBe('d');
+    expect((await reopened.get(['c'])).get('c')?.vector).toEqual([1, 1]);
+
+    await reopened.add('e', [0, -1]);
+    expect(await new FileVectorStore({ directory, dimension: 2 }).count()).toBe(5);
+  });
+
+  test('should keep collections in separate namespaces', async () => {
+    const docs = new FileVectorStore({ directory, dimension: 2, collection: 'docs' });
+    const code = new FileVectorStore({ directory, dimension: 2, collection: 'code' });
+    await docs.add('a', [1, 0]);
+    await code.add('b', [1, 0]);
+    await code.clear();
+
+    expect((await FileVectorStore.listCollections(directory)).sort()).toEqual(['code', 'docs']);
+    expect(await new FileVectorStore({ directory, dimension: 2, collection: 'docs' }).count()).toBe(1);
+    expect(await new FileVectorStore({ directory, dimension: 2, collection: 'code' }).count()).toBe(0);
+    expect(() => new FileVectorStore({ directory, collection: '../escape' })).toThrow('Invalid collection name');
+  });
+
+  test('should save and restore snapshots', async () => {
+    const store = new FileVectorStore({ directory, dimension: 2, index: VectorIndexType.HNSW });
+    await store.add('a', [1, 0]);
+    await store.snapshot('before');
+    await store.add('b', [0, 1]);
+
+    expect(await store.listSnapshots()).toEqual(['before']);
+    await store.restoreSnapshot('before');
+    expect(await store.count()).toBe(1);
+
+    const reopened = new FileVectorStore({ directory, dimension: 2 });
+    expect((await reopened.search([0, 1], 5)).map(result => result.id)).toEqual(['a']);
+    await expect(store.restoreSnapshot('missing')).rejects.toThrow('Snapshot not found');
+  });
+
+  test('should require a directory', () => {
+    expect(() => createVectorStore('file', { dimension: 2 })).toThrow('needs a directory');
+  });
+});
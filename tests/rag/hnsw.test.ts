@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HnswIndex } from '../../src/rag/hnsw';
+import { InMemoryVectorStore, VectorIndexType, DistanceMetric } from '../../src/rag/vector-store';
+
+/**
+ * Deterministic pseudo-random vectors
+ */
+function randomVectors(count: number, dimension: number, seed = 1): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, random));
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+describe('HnswIndex', () => {
+  test('should find the same nearest neighbours as an exact scan', () => {
+    const vectors = randomVectors(500, 16);
+    const index = new HnswIndex(dot, { m: 8, efConstruction: 64 });
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+
+    let hits = 0;
+    for (const query of randomVectors(20, 16, 7)) {
+      const exact = vectors
+        .map((vector, i) => ({ id: String(i), score: dot(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
+        .map(result => result.id);
+      const approximate = index.search(query, 5, 64).map(result => result.id);
+      hits += approximate.filter(id => exact.includes(id)).length;
+    }
+
+    expect(index.size).toBe(500);
+    expect(hits / 100).toBeGreaterThanOrEqual(0.9);
+  });
+
+  test('should only return accepted vectors while traversing rejected ones', () => {
+    const vectors = randomVectors(300, 8, 5);
+    const index = new HnswIndex(dot, { m: 6 });
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+    const even = (id: string) => Number(id) % 2 === 0;
+
+    const query = randomVectors(1, 8, 11)[0];
+    const exact = vectors
+      .map((vector, i) => ({ id: String(i), score: dot(query, vector) }))
+      .filter(result => even(result.id))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5)
+      .map(result => result.id);
+    const results = index.search(query, 5, 64, even);
+
+    expect(results).toHaveLength(5);
+    expect(results.every(result => even(result.id))).toBe(true);
+    expect(results.filter(result => exact.includes(result.id)).length).toBeGreaterThanOrEqual(4);
+  });
+
+  test('should delete and replace vectors incrementally', () => {
+    const index = new HnswIndex(dot, { m: 4 });
+    const vectors = randomVectors(100, 8);
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+
+    for (let i = 0; i < 50; i++) {
+      expect(index.delete(String(i))).toBe(true);
+    }
+    expect(index.delete('0')).toBe(false);
+    expect(index.size).toBe(50);
+
+    const results = index.search(vectors[10], 100);
+    expect(results.map(result => result.id)).not.toContain('10');
+    expect(results).toHaveLength(50);
+
+    index.add('60', vectors[10]);
+    expect(index.size).toBe(50);
+    expect(index.search(vectors[10], 1)[0].id).toBe('60');
+  });
+});
+
+describe('InMemoryVectorStore with HNSW index', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should search, delete and clear through the index', async () => {
+    const store = new InMemoryVectorStore({ dimension: 3, index: VectorIndexType.HNSW });
+    await store.addBatch([
+      { id: 'x', vector: [1, 0, 0], metadata: { axis: 'x' }, content: 'X' },
+      { id: 'y', vector: [0, 1, 0], metadata: { axis: 'y' } },
+      { id: 'z', vector: [0, 0, 1] },
+    ]);
+
+    expect(await store.search([0.9, 0.1, 0], 1)).toEqual([
+      { id: 'x', score: expect.closeTo(0.994, 3), metadata: { axis: 'x' }, content: 'X' },
+    ]);
+    expect((await store.search([1, 1, 0], 10, 0.5)).map(result => result.id).sort()).toEqual(['x', 'y']);
+
+    await store.delete(['x']);
+    expect((await store.search([1, 0, 0], 1))[0].id).not.toBe('x');
+
+    await store.clear();
+    expect(await store.search([1, 0, 0])).toEqual([]);
+  });
+
+  test.each([VectorIndexType.FLAT, VectorIndexType.HNSW])('should save and load a %s store', async indexType => {
+    const store = new InMemoryVectorStore({ dimension: 8, index: indexType, metric: DistanceMetric.DOT });
+    const vectors = randomVectors(200, 8, 3);
+    await store.addBatch(vectors.map((vector, i) => ({ id: `doc-${i}`, vector, metadata: { i }, content: `text ${i}` })));
+    const filePath = path.join(tempDir, 'store.vec');
+
+    await store.save(filePath);
+    const loaded = await InMemoryVectorStore.load(filePath);
+
+    expect(loaded.size).toBe(200);
+    const query = vectors[42];
+    expect((await loaded.search(query, 5)).map(result => result.id))
+      .toEqual((await store.search(query, 5)).map(result => result.id));
+    const item = (await loaded.get(['doc-7'])).get('doc-7')!;
+    expect(item.metadata).toEqual({ i: 7 });
+    expect(item.content).toBe('text 7');
+    expect(item.vector[0]).toBeCloseTo(vectors[7][0], 6);
+
+    await loaded.add('extra', vectors[0].map(value => value * 100));
+    expect((await loaded.search(vectors[0], 1))[0].id).toBe('extra');
+  });
+
+  test('should reject files that are not vector files', async () => {
+    const filePath = path.join(tempDir, 'bad.vec');
+    fs.writeFileSync(filePath, 'not vectors');
+
+    await expect(InMemoryVectorStore.load(filePath)).rejects.toThrow('Not a vector file');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, test, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BM25Index, tokenize } from '../../src/rag/bm25';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import { FileVectorStore } from '../../src/rag/file-vector-store';
+import { FusionMethod, HybridSearch } from '../../src/rag/hybrid-search';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore } from '../../src/rag/vector-store';
+import type { LLMProvider } from '../../src/types/llm';
+
+describe('BM25Index', () => {
+  test('should tokenize without stop words', () => {
+    expect(tokenize('The ERR_42 code is in the logs!')).toEqual(['err_42', 'code', 'logs']);
+  });
+
+  test('should rank rare and frequent terms higher', () => {
+    const index = new BM25Index();
+    index.addBatch([
+      { id: 'a', content: 'cats and dogs' },
+      { id: 'b', content: 'cats cats cats' },
+      { id: 'c', content: 'dogs only here', metadata: { kind: 'pet' } },
+    ]);
+
+    expect(index.search('cats').map(result => result.id)).toEqual(['b', 'a']);
+    expect(index.search('dogs here')[0]).toMatchObject({ id: 'c', content: 'dogs only here', metadata: { kind: 'pet' } });
+    expect(index.search('unknown')).toEqual([]);
+  });
+
+  test('should keep statistics in sync as documents change', () => {
+    const index = new BM25Index();
+    index.add('a', 'alpha beta');
+    index.add('b', 'beta gamma');
+    index.add('a', 'delta');
+    index.remove(['b', 'missing']);
+
+    expect(index.size).toBe(1);
+    expect(index.search('beta')).toEqual([]);
+    expect(index.search('delta').map(result => result.id)).toEqual(['a']);
+
+    index.clear();
+    expect(index.search('delta')).toEqual([]);
+  });
+});
+
+describe('HybridSearch', () => {
+  const documents = [
+    { id: 'error', content: 'Deployment failed with code E4711 during rollout' },
+    { id: 'rollout', content: 'Rollout guide for deployment pipelines and staged rollout' },
+    { id: 'cooking', content: 'Pasta recipe with tomatoes and basil' },
+  ];
+
+  function createSearch(fusion: FusionMethod): HybridSearch {
+    // Stand-in for a semantic search that misses identifiers entirely
+    const store = new InMemoryVectorStore({ dimension: 8 });
+    vi.spyOn(store, 'search').mockResolvedValue([
+      { id: 'rollout', score: 0.9, content: documents[1].content },
+      { id: 'cooking', score: 0.2, content: documents[2].content },
+    ]);
+    const search = new HybridSearch(store, new HashingEmbedding({ dimension: 8 }), {
+      fusion,
+      applyReranking: false,
+      minScore: 0.01,
+    });
+    search.addDocuments(documents);
+    return search;
+  }
+
+  test('should find exact-term matches that the semantic search misses', async () => {
+    const results = await createSearch(FusionMethod.WEIGHTED_SUM).search('E4711');
+
+    expect(results.map(result => result.id)).toEqual(['rollout', 'error', 'cooking']);
+    expect(results[1]).toMatchObject({
+      content: documents[0].content,
+      scores: { semantic: 0, keyword: 1 },
+      combinedScore: expect.closeTo(0.3, 6),
+    });
+  });
+
+  test('should fuse rankings by reciprocal rank', async () => {
+    const search = createSearch(FusionMethod.RRF);
+    search.updateConfig({ semanticWeight: 0.5, keywordWeight: 0.5 });
+    const results = await search.search('rollout E4711');
+
+    // rollout: semantic rank 1, keyword rank 2; error: keyword rank 1 only; cooking: semantic rank 2 only
+    expect(results.map(result => result.id)).toEqual(['rollout', 'error', 'cooking']);
+    expect(results.map(result => result.combinedScore)).toEqual([
+      expect.closeTo((1 / 61 + 1 / 62) / (2 / 61), 6),
+      expect.closeTo(0.5, 6),
+      expect.closeTo(61 / 124, 6),
+    ]);
+  });
+
+  test('should stop returning removed documents', async () => {
+    const search = createSearch(FusionMethod.RRF);
+    search.removeDocuments(['error']);
+
+    expect(search.keywordSearch('E4711')).toEqual([]);
+  });
+});
+
+describe('RAGSystem keyword mode', () => {
+  test('should search the keyword index only', async () => {
+    const llm = { generate: vi.fn(), chat: vi.fn() } as unknown as LLMProvider;
+    const embedding = new HashingEmbedding({ dimension: 32 });
+    const embed = vi.spyOn(embedding, 'embed');
+    const chunker = { chunk: (text: string) => text.split('\n'), updateConfig: vi.fn() };
+    const rag = new RAGSystem(llm, chunker, embedding, new InMemoryVectorStore({ dimension: 32 }), {
+      searchMode: SearchMode.KEYWORD,
+    });
+    const chunks = await rag.addDocument({
+      content: 'Invoices are due in 30 days\nRefunds take 5 business days',
+      metadata: { source: 'faq' },
+    });
+
+    const results = await rag.search('refunds');
+    expect(results.map(result => result.chunk.content)).toEqual(['Refunds take 5 business days']);
+    expect(results[0].chunk.metadata).toMatchObject({ source: 'faq', chunkIndex: 1 });
+    expect(embed).not.toHaveBeenCalled();
+
+    await rag.removeChunks([chunks[1].id]);
+    expect(await rag.search('refunds')).toEqual([]);
+  });
+
+  test('should rebuild the keyword index from a durable store after a restart', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'keyword-index-'));
+    const llm = { generate: vi.fn(), chat: vi.fn() } as unknown as LLMProvider;
+    const chunker = { chunk: (text: string) => text.split('\n'), updateConfig: vi.fn() };
+    const open = (searchMode: SearchMode) => new RAGSystem(
+      llm,
+      chunker,
+      new HashingEmbedding({ dimension: 32 }),
+      new FileVectorStore({ directory, dimension: 32 }),
+      { searchMode, hybridSearch: { minScore: 0 } }
+    );
+
+    try {
+      await open(SearchMode.KEYWORD).addDocument({ content: 'Invoices are due in 30 days\nRefunds take 5 business days' });
+
+      const keyword = await open(SearchMode.KEYWORD).search('refunds');
+      expect(keyword.map(result => result.chunk.content)).toEqual(['Refunds take 5 business days']);
+
+      const hybrid = await open(SearchMode.HYBRID).search('refunds');
+      expect(hybrid[0].chunk.content).toBe('Refunds take 5 business days');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
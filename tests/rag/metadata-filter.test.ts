@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeAll, afterAll, vi } from 'vitest';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import { HnswIndex } from '../../src/rag/hnsw';
+import type { MetadataFilter } from '../../src/rag/metadata-filter';
+import { matchesFilter, MetadataFilterSchema } from '../../src/rag/metadata-filter';
+import { QdrantVectorStore } from '../../src/rag/qdrant-vector-store';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore, VectorIndexType } from '../../src/rag/vector-store';
+import type { LLMProvider } from '../../src/types/llm';
+import { QdrantStandInServer } from '../mocks/qdrant-server';
+
+const items = [
+  { id: 'a', vector: [1, 0, 0], metadata: { project: 'apollo', type: 'pdf', date: '2024-03-01', tags: ['x', 'y'] } },
+  { id: 'b', vector: [0.9, 0.1, 0], metadata: { project: 'apollo', type: 'md', date: '2023-11-20', reviewer: 'kim' } },
+  { id: 'c', vector: [0.8, 0, 0.2], metadata: { project: 'gemini', type: 'pdf', date: '2024-07-09', priority: 3 } },
+];
+
+const cases: Array<[MetadataFilter, string[]]> = [
+  [{ project: 'apollo' }, ['a', 'b']],
+  [{ type: { $in: ['md', 'html'] } }, ['b']],
+  [{ date: { $gte: '2024-01-01', $lt: '2024-06-01' } }, ['a']],
+  [{ reviewer: { $exists: true } }, ['b']],
+  [{ reviewer: { $exists: false }, tags: 'y' }, ['a']],
+  [{ project: { $ne: 'apollo' } }, ['c']],
+  [{ $or: [{ type: 'md' }, { priority: { $gte: 2 } }] }, ['b', 'c']],
+];
+
+describe('matchesFilter', () => {
+  test.each(cases)('should evaluate %j', (filter, expected) => {
+    expect(items.filter(item => matchesFilter(item.metadata, filter)).map(item => item.id)).toEqual(expected);
+  });
+
+  test('should reject unknown operators', () => {
+    expect(() => MetadataFilterSchema.parse({ date: { $after: '2024' } })).toThrow();
+    expect(() => MetadataFilterSchema.parse({ $not: [{ type: 'pdf' }] })).toThrow('Unknown operator $not');
+    expect(() => MetadataFilterSchema.parse({ $or: { type: 'pdf' } })).toThrow();
+  });
+});
+
+describe('filtered vector search', () => {
+  const server = new QdrantStandInServer();
+  let url: string;
+
+  beforeAll(async () => {
+    url = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should apply filters inside the in-memory, HNSW and Qdrant stores', async () => {
+    const stores = [
+      new InMemoryVectorStore({ dimension: 3 }),
+      new InMemoryVectorStore({ dimension: 3, index: VectorIndexType.HNSW }),
+      new QdrantVectorStore({ url, dimension: 3, collection: 'filtered' }),
+    ];
+    for (const store of stores) {
+      await store.addBatch(items);
+      for (const [filter, expected] of cases) {
+        const results = await store.search([1, 0, 0], 10, 0, filter);
+        expect(results.map(result => result.id).sort()).toEqual(expected);
+      }
+    }
+  });
+});
+
+describe('RAGSystem namespaces', () => {
+  function createSystem(searchMode: SearchMode) {
+    const llm = { chat: vi.fn(), generate: vi.fn() } as unknown as LLMProvider;
+    const chunker = { chunk: (text: string) => [text], updateConfig: vi.fn() };
+    return new RAGSystem(llm, chunker, new HashingEmbedding({ dimension: 64 }), new InMemoryVectorStore({ dimension: 64 }), {
+      searchMode,
+      minScore: 0,
+    });
+  }
+
+  test.each([SearchMode.SEMANTIC, SearchMode.KEYWORD, SearchMode.HYBRID])('should isolate tenants in %s search', async mode => {
+    const rag = createSystem(mode);
+    await rag.addDocument({ content: 'quarterly revenue report', namespace: 'acme', metadata: { year: 2024 } });
+    await rag.addDocument({ content: 'quarterly revenue forecast', namespace: 'acme', metadata: { year: 2025 } });
+    await rag.addDocument({ content: 'quarterly revenue summary', namespace: 'globex', metadata: { namespace: 'acme' } });
+    await rag.addDocument({ content: 'quarterly revenue notes' });
+
+    const contents = async (scope?: Parameters<RAGSystem['search']>[3]) =>
+      (await rag.search('quarterly revenue', 10, undefined, scope)).map(result => result.chunk.content).sort();
+
+    expect(await contents({ namespace: 'acme' })).toEqual(['quarterly revenue forecast', 'quarterly revenue report']);
+    expect(await contents({ namespace: 'acme', filter: { year: { $lt: 2025 } } })).toEqual(['quarterly revenue report']);
+    expect(await contents({ namespace: 'globex', filter: { namespace: 'acme' } })).toEqual(['quarterly revenue summary']);
+    expect(await contents()).toEqual(['quarterly revenue notes']);
+  });
+
+  test('should serve namespaced searches from the HNSW index', async () => {
+    const llm = { chat: vi.fn(), generate: vi.fn() } as unknown as LLMProvider;
+    const chunker = { chunk: (text: string) => [text], updateConfig: vi.fn() };
+    const store = new InMemoryVectorStore({ dimension: 64, index: VectorIndexType.HNSW });
+    const rag = new RAGSystem(llm, chunker, new HashingEmbedding({ dimension: 64 }), store, {
+      searchMode: SearchMode.SEMANTIC,
+      minScore: 0,
+    });
+    await rag.addDocument({ content: 'release checklist', namespace: 'acme' });
+    await rag.addDocument({ content: 'release notes' });
+    const search = vi.spyOn(HnswIndex.prototype, 'search');
+
+    const results = await rag.search('release', 10);
+
+    expect(results.map(result => result.chunk.content)).toEqual(['release notes']);
+    expect(search).toHaveBeenCalledWith(expect.anything(), 10, undefined, expect.any(Function));
+    search.mockRestore();
+  });
+
+  test('should keep registry entries apart per namespace', async () => {
+    const rag = createSystem(SearchMode.KEYWORD);
+    await rag.addDocument({ source: 'handbook.md', content: 'vacation policy', namespace: 'acme' });
+    await rag.addDocument({ source: 'handbook.md', content: 'vacation policy', namespace: 'globex' });
+
+    expect(rag.registry.size).toBe(2);
+    expect(await rag.removeDocument('handbook.md', 'acme')).toBe(true);
+    expect(await rag.search('vacation', 10, undefined, { namespace: 'acme' })).toEqual([]);
+    expect(await rag.search('vacation', 10, undefined, { namespace: 'globex' })).toHaveLength(1);
+  });
+});
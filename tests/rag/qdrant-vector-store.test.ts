@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { QdrantVectorStore } from '../../src/rag/qdrant-vector-store';
+import { createVectorStore, DistanceMetric } from '../../src/rag/vector-store';
+import { QdrantStandInServer } from '../mocks/qdrant-server';
+
+describe('QdrantVectorStore', () => {
+  const server = new QdrantStandInServer();
+  let url: string;
+
+  beforeAll(async () => {
+    url = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should be created by the external factory path', () => {
+    expect(createVectorStore('external', { url, dimension: 3 })).toBeInstanceOf(QdrantVectorStore);
+    expect(() => createVectorStore('external', { dimension: 3 })).toThrow('needs a url');
+  });
+
+  test('should create the collection and round-trip points', async () => {
+    const store = new QdrantVectorStore({ url, dimension: 3, collection: 'docs' });
+    await store.addBatch([
+      { id: 'doc-1', vector: [1, 0, 0], metadata: { source: 'a' }, content: 'first' },
+      { id: 'doc-2', vector: [0, 1, 0], content: 'second' },
+      { id: '42', vector: [0, 0, 1] },
+    ]);
+
+    expect(server.collections.get('docs')).toMatchObject({ size: 3, distance: 'Cosine' });
+    expect(await store.search([0.9, 0.1, 0], 2)).toEqual([
+      { id: 'doc-1', score: expect.closeTo(0.994, 3), metadata: { source: 'a' }, content: 'first' },
+      { id: 'doc-2', score: expect.closeTo(0.110, 3), content: 'second' },
+    ]);
+    expect((await store.search([0, 0, 1], 5, 0.5)).map(result => result.id)).toEqual(['42']);
+
+    const items = await store.get(['doc-1', 'missing']);
+    expect([...items.keys()]).toEqual(['doc-1']);
+    expect(items.get('doc-1')).toEqual({ vector: [1, 0, 0], metadata: { source: 'a' }, content: 'first' });
+
+    await store.add('doc-1', [0, 0, 1], { source: 'b' });
+    expect((await store.get(['doc-1'])).get('doc-1')?.metadata).toEqual({ source: 'b' });
+
+    await store.delete(['doc-2']);
+    expect((await store.get(['doc-2'])).size).toBe(0);
+    expect((await store.list()).map(document => document.id).sort()).toEqual(['42', 'doc-1']);
+  });
+
+  test('should keep collections apart and recreate a cleared collection', async () => {
+    const first = new QdrantVectorStore({ url, dimension: 2, collection: 'first', metric: DistanceMetric.DOT });
+    const second = new QdrantVectorStore({ url, dimension: 2, collection: 'second' });
+    await first.add('a', [1, 1]);
+    await second.add('b', [1, 1]);
+
+    expect(server.collections.get('first')?.distance).toBe('Dot');
+    expect((await first.search([1, 1])).map(result => result.id)).toEqual(['a']);
+
+    await first.clear();
+    expect(server.collections.has('first')).toBe(false);
+    expect(await first.search([1, 1])).toEqual([]);
+    expect((await second.search([1, 1])).map(result => result.id)).toEqual(['b']);
+  });
+
+  test('should reject vectors of the wrong dimension before sending them', async () => {
+    const store = new QdrantVectorStore({ url, dimension: 3, collection: 'strict' });
+    const before = server.requests.length;
+
+    await expect(store.add('x', [1, 2])).rejects.toThrow('dimension mismatch');
+    expect(server.requests.length).toBe(before);
+  });
+});
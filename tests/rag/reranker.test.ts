@@ -0,0 +1,130 @@
+import { describe, test, expect, vi } from 'vitest';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import { CrossEncoderReranker, LLMReranker, MMRReranker, RerankerType } from '../../src/rag/reranker';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore } from '../../src/rag/vector-store';
+import type { LLMProvider } from '../../src/types/llm';
+import type { SearchResult } from '../../src/types/rag';
+
+const transformers = vi.hoisted(() => ({
+  env: { localModelPath: '/models/', allowRemoteModels: true },
+  AutoTokenizer: { from_pretrained: vi.fn() },
+  AutoModelForSequenceClassification: { from_pretrained: vi.fn() },
+}));
+vi.mock('@huggingface/transformers', () => transformers);
+
+function result(id: string, content: string, score: number): SearchResult {
+  return { chunk: { id, content, embedding: [], metadata: {} }, score, metadata: {} };
+}
+
+function createRankingLLM(ranking: number[]) {
+  const generateObject = vi.fn(async (_prompt: string) => ({ ranking }));
+  const llm = { chat: vi.fn(), generate: vi.fn(async (prompt: string) => prompt), generateObject } as unknown as LLMProvider;
+  return { llm, generateObject };
+}
+
+const candidates = [
+  result('a', 'alpha', 0.9),
+  result('b', 'beta', 0.8),
+  result('c', 'gamma', 0.7),
+];
+
+describe('LLMReranker', () => {
+  test('should follow the model ranking and keep omitted passages after it', async () => {
+    const { llm, generateObject } = createRankingLLM([3, 3, 7, 1]);
+    const reranked = await new LLMReranker(llm).rerank('query', candidates, 3);
+
+    expect(reranked.map(r => r.chunk.id)).toEqual(['c', 'a', 'b']);
+    expect(reranked.map(r => r.score)).toEqual([1, expect.closeTo(2 / 3, 6), expect.closeTo(1 / 3, 6)]);
+    expect(reranked[0].metadata.retrievalScore).toBe(0.7);
+    expect(generateObject.mock.calls[0][0]).toContain('[2] beta');
+  });
+});
+
+describe('CrossEncoderReranker', () => {
+  test('should sort by pair scores and load the model once', async () => {
+    const scorer = vi.fn(async (_query: string, passages: string[]) => passages.map(p => p.length / 10));
+    const loader = vi.fn(async () => scorer);
+    const reranker = new CrossEncoderReranker('org/cross-encoder', undefined, loader);
+
+    expect((await reranker.rerank('q', candidates, 2)).map(r => [r.chunk.id, r.score])).toEqual([
+      ['a', 0.5],
+      ['c', 0.5],
+    ]);
+    await reranker.rerank('q', candidates, 1);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader).toHaveBeenCalledWith('org/cross-encoder', undefined);
+  });
+
+  test('should read the default model from modelPath only while loading it', async () => {
+    const settings: object[] = [];
+    transformers.AutoTokenizer.from_pretrained.mockImplementation(async () => {
+      settings.push({ ...transformers.env });
+      return () => ({});
+    });
+    transformers.AutoModelForSequenceClassification.from_pretrained.mockResolvedValue(async () => ({
+      logits: { tolist: () => [[0], [2], [-2]] },
+    }));
+
+    const reranked = await new CrossEncoderReranker('org/cross-encoder', '/opt/models').rerank('q', candidates, 1);
+
+    expect(reranked.map(r => r.chunk.id)).toEqual(['b']);
+    expect(settings).toEqual([{ localModelPath: '/opt/models', allowRemoteModels: false }]);
+    expect(transformers.env).toEqual({ localModelPath: '/models/', allowRemoteModels: true });
+  });
+});
+
+describe('MMRReranker', () => {
+  test('should prefer diverse passages over near-duplicates', async () => {
+    const passages = [
+      result('1', 'solar panels convert sunlight into electricity', 0.9),
+      result('2', 'solar panels convert sunlight into electricity efficiently', 0.88),
+      result('3', 'wind turbines also generate electricity', 0.7),
+    ];
+    const embeddings = new HashingEmbedding({ dimension: 256 });
+
+    expect((await new MMRReranker(embeddings, 1).rerank('solar electricity', passages, 2)).map(r => r.chunk.id))
+      .toEqual(['1', '2']);
+    expect((await new MMRReranker(embeddings, 0.5).rerank('solar electricity', passages, 2)).map(r => r.chunk.id))
+      .toEqual(['1', '3']);
+  });
+});
+
+describe('RAGSystem reranking', () => {
+  async function createSystem(llm: LLMProvider, config: Parameters<typeof RAGSystem.create>[1]) {
+    const embedding = new HashingEmbedding({ dimension: 64 });
+    const chunker = { chunk: (text: string) => text.split('\n'), updateConfig: vi.fn() };
+    const rag = new RAGSystem(llm, chunker, embedding, new InMemoryVectorStore({ dimension: 64 }), {
+      searchMode: SearchMode.KEYWORD,
+      ...config,
+    });
+    await rag.addDocument({ content: 'cache one\ncache two\ncache three\ncache four' });
+    return rag;
+  }
+
+  test('should rerank a larger candidate set down to topK', async () => {
+    const { llm, generateObject } = createRankingLLM([4, 2]);
+    const rag = await createSystem(llm, { topK: 2, rerank: { type: RerankerType.LLM, candidates: 4 } });
+
+    const results = await rag.search('cache');
+    expect(generateObject.mock.calls[0][0]).toContain('[4]');
+    expect(results).toHaveLength(2);
+
+    rag.updateConfig({ rerank: undefined });
+    await rag.search('cache');
+    expect(generateObject).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep the context within the token budget', async () => {
+    const { llm } = createRankingLLM([]);
+    const rag = await createSystem(llm, {
+      topK: 4,
+      maxContextTokens: 15,
+      systemPromptTemplate: '{{documents}}',
+    });
+
+    const { response, searchResults } = await rag.generateWithResults('cache');
+    expect(searchResults).toHaveLength(4);
+    expect(response.match(/\[\d\] \[Score/g)).toHaveLength(2);
+  });
+});
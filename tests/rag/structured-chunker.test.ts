@@ -0,0 +1,210 @@
+import { describe, test, expect, vi } from 'vitest';
+import { BaseChunker, ChunkingStrategy } from '../../src/rag/chunker';
+import { HashingEmbedding } from '../../src/rag/embeddings';
+import { RAGSystem, SearchMode } from '../../src/rag/rag-system';
+import { InMemoryVectorStore } from '../../src/rag/vector-store';
+import type { LLMProvider } from '../../src/types/llm';
+
+/**
+ * Lines of a text cited by a chunk
+ */
+function cited(text: string, metadata: Record<string, any>): string {
+  return text.split('\n').slice(metadata.startLine - 1, metadata.endLine).join('\n');
+}
+
+describe('Markdown chunking', () => {
+  const markdown = [
+    'Intro line',
+    '',
+    '# Guide',
+    'Overview',
+    '## Install',
+    '```sh',
+    '# not a heading',
+    'npm install',
+    '```',
+    '### Windows',
+    'Use PowerShell',
+    '# API',
+    'Reference',
+  ].join('\n');
+
+  test('should split by headings and keep the header path', async () => {
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.MARKDOWN }).chunkWithMetadata(markdown);
+
+    expect(chunks.map(chunk => chunk.metadata.headerPath)).toEqual([
+      [],
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Install', 'Windows'],
+      ['API'],
+    ]);
+    expect(chunks[2].content).toContain('# not a heading');
+    for (const chunk of chunks) {
+      expect(cited(markdown, chunk.metadata)).toBe(chunk.content);
+    }
+  });
+
+  test('should split long sections within their line range', async () => {
+    const body = Array.from({ length: 10 }, (_, i) => `line ${i} of the section`);
+    const text = ['# Long', ...body].join('\n');
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.MARKDOWN, maxSize: 100 }).chunkWithMetadata(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map(chunk => chunk.metadata.part)).toEqual(chunks.map((_, i) => i + 1));
+    expect(chunks.every(chunk => chunk.content.length <= 100 && chunk.metadata.heading === 'Long')).toBe(true);
+    expect(chunks[chunks.length - 1].metadata.endLine).toBe(11);
+  });
+
+  test('should return the chunk texts synchronously from chunk', async () => {
+    const chunker = new BaseChunker({ strategy: ChunkingStrategy.MARKDOWN });
+
+    expect(chunker.chunk(markdown)).toEqual((await chunker.chunkWithMetadata(markdown)).map(chunk => chunk.content));
+  });
+});
+
+describe('Code chunking', () => {
+  const typescript = [
+    "import { join } from 'path';",
+    '',
+    '/** Greets someone */',
+    'export function greet(name: string): string {',
+    '  return `hi ${name}`;',
+    '}',
+    '',
+    'export class Store {',
+    '  private items: string[] = [];',
+    '',
+    '  add(item: string): void {',
+    "    this.items.push(join('a', item));",
+    '  }',
+    '',
+    '  // Removes everything',
+    '  clear(): void {',
+    '    this.items = [];',
+    '  }',
+    '}',
+  ].join('\n');
+
+  test('should split TypeScript on declaration boundaries', async () => {
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.CODE }).chunkWithMetadata(typescript, { path: 'src/store.ts' });
+
+    expect(chunks.map(chunk => [chunk.metadata.kind, chunk.metadata.symbol, chunk.metadata.startLine, chunk.metadata.endLine]))
+      .toEqual([
+        ['statement', undefined, 1, 1],
+        ['function', 'greet', 3, 6],
+        ['class', 'Store', 8, 19],
+      ]);
+  });
+
+  test('should split oversized classes between members', async () => {
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.CODE, maxSize: 140 }).chunkWithMetadata(typescript);
+    const classChunks = chunks.filter(chunk => chunk.metadata.symbol === 'Store');
+
+    expect(classChunks.map(chunk => chunk.metadata.members)).toEqual([['items', 'add'], ['clear']]);
+    expect(classChunks[1].content.startsWith('  // Removes everything')).toBe(true);
+    for (const chunk of chunks) {
+      expect(cited(typescript, chunk.metadata)).toBe(chunk.content);
+    }
+  });
+
+  test('should only split code through chunkWithMetadata', () => {
+    expect(() => new BaseChunker({ strategy: ChunkingStrategy.CODE }).chunk(typescript)).toThrow('use chunkWithMetadata');
+  });
+
+  test('should split Python on def and class boundaries', async () => {
+    const python = [
+      'import os',
+      '',
+      '# Loads settings',
+      '@cache',
+      'def load(path,',
+      '):',
+      '    """Read a file.',
+      'def not_a_function():',
+      '"""',
+      '    return open(path).read()',
+      '',
+      'class Config:',
+      '    def get(self, key):',
+      '        return os.environ[key]',
+    ].join('\n');
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.CODE }).chunkWithMetadata(python, { source: 'config.py' });
+
+    expect(chunks.map(chunk => [chunk.metadata.kind, chunk.metadata.symbol, chunk.metadata.startLine, chunk.metadata.endLine]))
+      .toEqual([
+        ['statement', undefined, 1, 1],
+        ['function', 'load', 3, 10],
+        ['class', 'Config', 12, 14],
+      ]);
+    expect(chunks[1].metadata.language).toBe('python');
+  });
+});
+
+describe('HTML chunking', () => {
+  test('should split by DOM sections and skip scripts', async () => {
+    const html = [
+      '<html><head><title>Docs &amp; more</title></head>',
+      '<body><main>',
+      '<h1>Guide</h1><p>Welcome</p>',
+      '<section id="install">',
+      '<h2>Install</h2>',
+      '<p>Run npm&nbsp;install</p><script>const tag = "<p>";</script>',
+      '</section>',
+      '<p>Closing words</p>',
+      '</main></body></html>',
+    ].join('\n');
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.HTML }).chunkWithMetadata(html);
+
+    expect(chunks).toEqual([
+      {
+        content: 'Guide\nWelcome',
+        metadata: { title: 'Docs & more', sectionPath: ['main'], headerPath: ['Guide'], startLine: 3, endLine: 3 },
+      },
+      {
+        content: 'Install\nRun npm install',
+        metadata: {
+          title: 'Docs & more',
+          sectionPath: ['main', 'section#install'],
+          headerPath: ['Guide', 'Install'],
+          startLine: 5,
+          endLine: 6,
+        },
+      },
+      {
+        content: 'Closing words',
+        metadata: { title: 'Docs & more', sectionPath: ['main'], headerPath: ['Guide'], startLine: 8, endLine: 8 },
+      },
+    ]);
+  });
+});
+
+describe('RAGSystem with structured chunks', () => {
+  test('should store line ranges and structure with each chunk', async () => {
+    const llm = { generate: vi.fn(), chat: vi.fn() } as unknown as LLMProvider;
+    const rag = new RAGSystem(
+      llm,
+      new BaseChunker({ strategy: ChunkingStrategy.MARKDOWN }),
+      new HashingEmbedding({ dimension: 32 }),
+      new InMemoryVectorStore({ dimension: 32 }),
+      { searchMode: SearchMode.KEYWORD }
+    );
+    await rag.addDocument({ content: '# Setup\nInstall it\n# Usage\nRun the binary', metadata: { path: 'README.md' } });
+
+    const [result] = await rag.search('binary');
+    expect(result.chunk.metadata).toMatchObject({
+      path: 'README.md',
+      headerPath: ['Usage'],
+      startLine: 3,
+      endLine: 4,
+      chunkIndex: 1,
+    });
+  });
+
+  test('should locate prose chunks in the document', async () => {
+    const text = 'First paragraph.\n\nSecond paragraph\nspans two lines.';
+    const chunks = await new BaseChunker({ strategy: ChunkingStrategy.PARAGRAPH, maxSize: 20 }).chunkWithMetadata(text);
+
+    expect(chunks.map(chunk => [chunk.metadata.startLine, chunk.metadata.endLine])).toEqual([[1, 1], [3, 4]]);
+  });
+});
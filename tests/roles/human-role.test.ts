@@ -0,0 +1,50 @@
+/**
+ * Unit tests for HumanRole
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HumanRole, HUMAN_INPUT } from '../../src/roles/human-role';
+import { Environment } from '../../src/environment/environment';
+import { ScriptedHumanChannel } from '../../src/environment/human-channel';
+import { MessageSchema } from '../../src/types/message';
+
+describe('HumanRole', () => {
+  it('should show watched messages and publish the reply', async () => {
+    const channel = new ScriptedHumanChannel(['Looks good, go ahead']);
+    const human = new HumanRole({ channel, watch: ['WriteDesign'], sendTo: 'Engineer' });
+    const env = new Environment();
+    env.addRoles([human]);
+
+    env.publishMessage(MessageSchema.parse({ content: 'Design v1', sentFrom: 'Architect', causedBy: 'WriteDesign' }));
+    await env.run();
+
+    expect(channel.prompts[0]).toContain('Design v1');
+    const reply = env.history[env.history.length - 1];
+    expect(reply).toMatchObject({ content: 'Looks good, go ahead', role: 'Human', causedBy: HUMAN_INPUT });
+    expect(reply.sendTo).toEqual(new Set(['Engineer']));
+  });
+
+  it('should not ask when nothing was delivered', async () => {
+    const channel = new ScriptedHumanChannel();
+    const human = new HumanRole({ channel });
+    const env = new Environment();
+    env.addRoles([human]);
+
+    const result = await human.run();
+
+    expect(result.content).toBe('');
+    expect(channel.prompts).toHaveLength(0);
+  });
+
+  it('should not publish an empty reply', async () => {
+    const channel = new ScriptedHumanChannel(['  ']);
+    const human = new HumanRole({ channel, name: 'Reviewer' });
+    const env = new Environment();
+    env.addRoles([human]);
+
+    env.publishMessage(MessageSchema.parse({ content: 'Please review', sendTo: 'Reviewer' }));
+    await env.run();
+
+    expect(env.history).toHaveLength(1);
+  });
+});
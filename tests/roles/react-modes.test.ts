@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the react modes of BaseRole
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BaseRole } from '../../src/roles/base-role';
+import type { Action, ActionContext, ActionOutput } from '../../src/types/action';
+import type { LLMProvider } from '../../src/types/llm';
+import type { RoleReactMode } from '../../src/types/role';
+
+class StubAction implements Action {
+  desc: string;
+  context: ActionContext;
+  prefix = '';
+  runs = 0;
+
+  constructor(
+    public name: string,
+    public llm: LLMProvider,
+    private outputs: ActionOutput['status'][] = ['completed']
+  ) {
+    this.desc = `Stub action ${name}`;
+    this.context = { name, description: this.desc, memory: null, workingMemory: null, llm };
+  }
+
+  async run(): Promise<ActionOutput> {
+    const status = this.outputs[Math.min(this.runs, this.outputs.length - 1)];
+    this.runs++;
+    return { content: `${this.name} #${this.runs}`, status };
+  }
+}
+
+class TestRole extends BaseRole {
+  constructor(actions: Action[], mode: RoleReactMode, maxReactLoop = 1, public llm?: LLMProvider) {
+    super('Tester', 'Test Profile', 'Test Goal', '', actions);
+    this.setReactMode(mode, maxReactLoop);
+  }
+}
+
+function createLLM(generateObject?: LLMProvider['generateObject']): LLMProvider {
+  return {
+    chat: vi.fn(async () => ''),
+    generate: vi.fn(async () => ''),
+    getName: () => 'fake',
+    getModel: () => 'fake-model',
+    generateObject,
+  };
+}
+
+async function createRole(...args: ConstructorParameters<typeof TestRole>): Promise<TestRole> {
+  const role = new TestRole(...args);
+  await new Promise(resolve => setTimeout(resolve, 50)); // Wait for async init
+  return role;
+}
+
+describe('BaseRole react modes', () => {
+  it('should take at most maxReactLoop actions in react mode', async () => {
+    const action = new StubAction('Answer', createLLM());
+    const role = await createRole([action], 'react', 3);
+
+    const result = await role.run();
+
+    expect(action.runs).toBe(3);
+    expect(result.content).toBe('Answer #3');
+  });
+
+  it('should run every action in order in by_order mode', async () => {
+    const llm = createLLM();
+    const actions = [new StubAction('First', llm), new StubAction('Second', llm), new StubAction('Third', llm)];
+    const role = await createRole(actions, 'by_order');
+
+    const result = await role.run();
+
+    expect(actions.map(action => action.runs)).toEqual([1, 1, 1]);
+    expect(result.content).toBe('Third #1');
+    const contents = (await role.context.memory.get()).map((message: { content: string }) => message.content);
+    expect(contents).toEqual(['First #1', 'Second #1', 'Third #1']);
+  });
+
+  it('should plan tasks with the LLM and expose the plan', async () => {
+    const llm = createLLM(vi.fn(async () => ({
+      tasks: [
+        { instruction: 'Collect data', action: 'Collect' },
+        { instruction: 'Write the report', action: 'Report' },
+      ],
+    })) as LLMProvider['generateObject']);
+    const actions = [new StubAction('Collect', llm), new StubAction('Report', llm)];
+    const role = await createRole(actions, 'plan_and_act', 1, llm);
+
+    const result = await role.run();
+
+    expect(result.content).toBe('Report #1');
+    expect(role.plan?.tasks.map(task => [task.action, task.status])).toEqual([
+      ['Collect', 'completed'],
+      ['Report', 'completed'],
+    ]);
+  });
+
+  it('should revise the plan when a task fails', async () => {
+    const generateObject = vi.fn()
+      .mockResolvedValueOnce({ tasks: [{ instruction: 'Fetch', action: 'Fetch' }, { instruction: 'Report', action: 'Report' }] })
+      .mockResolvedValueOnce({ tasks: [{ instruction: 'Use the cache', action: 'Cache' }, { instruction: 'Report', action: 'Report' }] });
+    const llm = createLLM(generateObject as LLMProvider['generateObject']);
+    const actions = [
+      new StubAction('Fetch', llm, ['failed']),
+      new StubAction('Cache', llm),
+      new StubAction('Report', llm),
+    ];
+    const role = await createRole(actions, 'plan_and_act', 1, llm);
+
+    const result = await role.run();
+
+    expect(generateObject).toHaveBeenCalledTimes(2);
+    expect(generateObject.mock.calls[1][0]).toContain('Failed task: Fetch');
+    expect(result.content).toBe('Report #1');
+    expect(role.plan?.replans).toBe(1);
+    expect(role.plan?.tasks.map(task => task.action)).toEqual(['Cache', 'Report']);
+  });
+
+  it('should give up after maxReplans revisions', async () => {
+    const generateObject = vi.fn(async () => ({ tasks: [{ instruction: 'Try', action: 'Flaky' }] }));
+    const llm = createLLM(generateObject as LLMProvider['generateObject']);
+    const action = new StubAction('Flaky', llm, ['failed']);
+    const role = await createRole([action], 'plan_and_act', 1, llm);
+    role.maxReplans = 1;
+
+    await role.run();
+
+    expect(action.runs).toBe(2);
+    expect(generateObject).toHaveBeenCalledTimes(2);
+    expect(role.plan?.tasks[0].status).toBe('failed');
+  });
+});
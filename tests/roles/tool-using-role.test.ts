@@ -0,0 +1,104 @@
+/**
+ * Unit tests for ToolUsingRole
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ToolUsingRole } from '../../src/roles/tool-using-role';
+import { TOOL_CALL_TAG } from '../../src/actions/use-tools';
+import { BaseTool } from '../../src/tools/base-tool';
+import { MessageSchema } from '../../src/types/message';
+import type { LLMProvider, LLMToolDefinition, ToolInvocation } from '../../src/types/llm';
+import type { ToolResult } from '../../src/types/tool';
+
+class WeatherTool extends BaseTool {
+  constructor() {
+    super({
+      name: 'weather',
+      description: 'Get the weather of a city',
+      version: '1.0.0',
+      category: 'test',
+      parameters: z.object({ city: z.string() }),
+    });
+  }
+
+  async execute(args: Record<string, any> = {}): Promise<ToolResult> {
+    return { success: true, message: `Sunny in ${args.city}`, data: { city: args.city } };
+  }
+}
+
+/**
+ * Fake provider that calls each tool once with the given arguments
+ */
+function createToolCallingLLM(calls: Array<{ name: string; args: any }>): LLMProvider {
+  return {
+    chat: vi.fn(async () => ''),
+    generate: vi.fn(async () => ''),
+    getName: () => 'fake',
+    getModel: () => 'fake-model',
+    generateWithTools: vi.fn(async (_prompt: string, tools: LLMToolDefinition[]) => {
+      const toolCalls: ToolInvocation[] = [];
+      for (const [index, call] of calls.entries()) {
+        const definition = tools.find(tool => tool.name === call.name)!;
+        const result = await definition.execute(call.args);
+        toolCalls.push({ id: `call-${index}`, name: call.name, args: call.args, result, step: index + 1 });
+      }
+      return { text: 'Done', toolCalls, steps: calls.length + 1, finishReason: 'stop' };
+    }),
+  };
+}
+
+async function runWithRequest(role: ToolUsingRole, content: string) {
+  await new Promise(resolve => setTimeout(resolve, 50)); // Wait for async init
+  await role.context.memory.add(MessageSchema.parse({ role: 'Human', content }));
+  return role.actions[0].run();
+}
+
+async function getToolCallRecords(role: ToolUsingRole) {
+  const messages = await role.context.workingMemory.get();
+  return messages.filter((message: any) => message.metadata?.tags?.includes(TOOL_CALL_TAG));
+}
+
+describe('ToolUsingRole', () => {
+  it('should record every tool invocation in working memory', async () => {
+    const llm = createToolCallingLLM([{ name: 'weather', args: { city: 'Paris' } }]);
+    const role = new ToolUsingRole({ llm, tools: [new WeatherTool()] });
+
+    const output = await runWithRequest(role, 'What is the weather in Paris?');
+
+    expect(output.status).toBe('completed');
+    expect(output.content).toBe('Done');
+    const records = await getToolCallRecords(role);
+    expect(records).toHaveLength(1);
+    expect(records[0].metadata.context).toMatchObject({
+      name: 'weather',
+      args: { city: 'Paris' },
+      result: { success: true, message: 'Sunny in Paris' },
+    });
+  });
+
+  it('should feed validation errors back instead of executing the tool', async () => {
+    const tool = new WeatherTool();
+    const execute = vi.spyOn(tool, 'execute');
+    const llm = createToolCallingLLM([{ name: 'weather', args: { town: 'Paris' } }]);
+    const role = new ToolUsingRole({ llm, tools: [tool] });
+
+    await runWithRequest(role, 'What is the weather in Paris?');
+
+    expect(execute).not.toHaveBeenCalled();
+    const [record] = await getToolCallRecords(role);
+    expect(record.metadata.context.result).toMatchObject({ success: false });
+    expect(record.metadata.context.result.message).toContain('city');
+  });
+
+  it('should pass the step limit to the provider and note when it is reached', async () => {
+    const llm = createToolCallingLLM([]);
+    vi.mocked(llm.generateWithTools!).mockResolvedValue({ text: '', toolCalls: [], steps: 2, finishReason: 'tool-calls' });
+    const role = new ToolUsingRole({ llm, tools: [new WeatherTool()], maxSteps: 2 });
+
+    const output = await runWithRequest(role, 'Keep checking the weather');
+
+    expect(llm.generateWithTools).toHaveBeenCalledWith(expect.any(String), expect.any(Array), { maxSteps: 2 });
+    expect(output.content).toContain('Stopped after 2 steps');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test, beforeEach } from 'vitest';
+import {
+  CostManager,
+  UNATTRIBUTED,
+  withCostAttribution,
+  withStreamCostAttribution,
+  getCostAttribution,
+} from '../../src/utils/cost-manager';
+import { getModelPrice, calculateCost } from '../../src/utils/token-costs';
+import { NoMoneyError } from '../../src/utils/errors';
+
+describe('token costs', () => {
+  test('should match dated model snapshots by longest prefix', () => {
+    expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual(getModelPrice('gpt-4o-mini'));
+    expect(getModelPrice('gpt-4o-2024-08-06')).toEqual(getModelPrice('gpt-4o'));
+    expect(getModelPrice('no-such-model')).toBeUndefined();
+  });
+
+  test('should price per 1K tokens', () => {
+    expect(calculateCost({ prompt: 0.01, completion: 0.03 }, 1000, 500)).toBeCloseTo(0.025);
+  });
+});
+
+describe('CostManager', () => {
+  let costManager: CostManager;
+
+  beforeEach(() => {
+    costManager = new CostManager({ 'test-model': { prompt: 1, completion: 2 } });
+  });
+
+  test('should accumulate totals', () => {
+    costManager.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 500 });
+    costManager.updateCost({ model: 'test-model', promptTokens: 500, completionTokens: NaN });
+
+    expect(costManager.totalPromptTokens).toBe(1500);
+    expect(costManager.totalCompletionTokens).toBe(500);
+    expect(costManager.totalCost).toBeCloseTo(2.5);
+  });
+
+  test('should count unknown models as free', () => {
+    expect(costManager.updateCost({ model: 'mystery', promptTokens: 1000, completionTokens: 1000 })).toBe(0);
+    expect(costManager.totalPromptTokens).toBe(1000);
+  });
+
+  test('should attribute usage to the current role and action', async () => {
+    await withCostAttribution({ role: 'Engineer' }, async () => {
+      await withCostAttribution({ action: 'WriteCode' }, async () => {
+        await Promise.resolve();
+        costManager.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 0 });
+      });
+    });
+    costManager.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 0 });
+
+    const report = costManager.getReport();
+    expect(report.byRole['Engineer'].cost).toBeCloseTo(1);
+    expect(report.byAction['Engineer/WriteCode'].calls).toBe(1);
+    expect(report.byRole[UNATTRIBUTED].calls).toBe(1);
+    expect(report.byModel['test-model'].calls).toBe(2);
+  });
+
+  test('should attribute every step of a stream', async () => {
+    const seen: Array<string | undefined> = [];
+    async function* stream(): AsyncGenerator<number> {
+      seen.push(getCostAttribution().action);
+      yield 1;
+      seen.push(getCostAttribution().action);
+    }
+
+    for await (const _ of withStreamCostAttribution({ action: 'Stream' }, stream())) {
+      // consume
+    }
+
+    expect(seen).toEqual(['Stream', 'Stream']);
+  });
+
+  test('should throw NoMoneyError once the budget is spent', () => {
+    costManager.maxBudget = 1;
+    expect(() => costManager.checkBudget()).not.toThrow();
+
+    costManager.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 0 });
+
+    expect(() => costManager.checkBudget()).toThrow(NoMoneyError);
+  });
+
+  test('should render a Markdown report', () => {
+    withCostAttribution({ role: 'QA', action: 'WriteTest' }, () => {
+      costManager.updateCost({ model: 'test-model', promptTokens: 100, completionTokens: 100 });
+    });
+
+    const report = costManager.formatReport();
+    expect(report).toContain('| QA | 1 | 100 | 100 | 0.3000 |');
+    expect(report).toContain('| QA/WriteTest |');
+    expect(report).toContain('| test-model |');
+  });
+
+  test('should round-trip snapshots including the breakdown', () => {
+    withCostAttribution({ role: 'PM' }, () => {
+      costManager.updateCost({ model: 'test-model', promptTokens: 1000, completionTokens: 0 });
+    });
+
+    const restored = new CostManager();
+    restored.restore(costManager.snapshot());
+
+    expect(restored.totalCost).toBeCloseTo(1);
+    expect(restored.getReport().byRole['PM'].calls).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, test, vi } from 'vitest';
+import { z } from 'zod';
+import { extractJson } from '../../src/utils/json';
+import { generateObjectWith, generateStructured, validateStructuredOutput } from '../../src/utils/structured-output';
+import { StructuredOutputError } from '../../src/utils/errors';
+import { BaseAction } from '../../src/actions/base-action';
+import type { ActionOutput } from '../../src/types/action';
+
+const PlanSchema = z.object({
+  title: z.string(),
+  steps: z.array(z.string()).min(1),
+  priority: z.enum(['HIGH', 'LOW']).default('LOW'),
+});
+
+class PlanAction extends BaseAction {
+  async run(): Promise<ActionOutput> {
+    const plan = await this.askStructured('Plan a release', PlanSchema);
+    return this.createOutput(plan.title, 'completed', plan);
+  }
+}
+
+describe('extractJson', () => {
+  test('should parse bare, fenced and embedded JSON', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n```json\n{"a": 2}\n```')).toEqual({ a: 2 });
+    expect(extractJson('Result: [1, 2] as requested')).toEqual([1, 2]);
+    expect(() => extractJson('no json here')).toThrow(SyntaxError);
+  });
+});
+
+describe('generateStructured', () => {
+  test('should report validation issues with their paths', () => {
+    const result = validateStructuredOutput('{"title": "Release", "steps": []}', PlanSchema);
+    expect(result).toEqual({ success: false, issues: [expect.stringMatching(/^steps: /)] });
+  });
+
+  test('should feed validation errors back until the answer is valid', async () => {
+    const complete = vi.fn()
+      .mockResolvedValueOnce('not json')
+      .mockResolvedValueOnce('{"title": "Release", "steps": []}')
+      .mockResolvedValueOnce('{"title": "Release", "steps": ["tag", "publish"]}');
+
+    const plan = await generateStructured(complete, 'Plan a release', PlanSchema);
+
+    expect(plan).toEqual({ title: 'Release', steps: ['tag', 'publish'], priority: 'LOW' });
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(complete.mock.calls[0][0]).toContain('"steps"');
+    expect(complete.mock.calls[1][0]).toContain('not valid JSON');
+    expect(complete.mock.calls[2][0]).toContain('steps: Array must contain at least 1 element(s)');
+  });
+
+  test('should give up after the repair attempts', async () => {
+    const complete = vi.fn().mockResolvedValue('{"title": 1}');
+
+    const error = await generateStructured(complete, 'Plan a release', PlanSchema, { maxRepairs: 1 })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(2);
+    expect(error.text).toBe('{"title": 1}');
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('generateObjectWith', () => {
+  test('should prefer native structured output and fall back to chat', async () => {
+    const plan = { title: 'Release', steps: ['tag'], priority: 'LOW' };
+    const provider = { generate: vi.fn(), getName: () => 'test', getModel: () => 'test-model' };
+    const native = { ...provider, chat: vi.fn(), generateObject: vi.fn().mockResolvedValue(plan) };
+    const chatOnly = { ...provider, chat: vi.fn().mockResolvedValue(JSON.stringify(plan)) };
+
+    expect(await generateObjectWith(native, 'Plan a release', PlanSchema, { maxRepairs: 0 })).toEqual(plan);
+    expect(native.generateObject).toHaveBeenCalledWith('Plan a release', PlanSchema, { maxRepairs: 0 });
+    expect(native.chat).not.toHaveBeenCalled();
+
+    expect(await generateObjectWith(chatOnly, 'Plan a release', PlanSchema)).toEqual(plan);
+    expect(chatOnly.chat.mock.calls[0][0]).toContain('JSON Schema');
+  });
+});
+
+describe('BaseAction.askStructured', () => {
+  test('should validate chat responses when the provider has no native support', async () => {
+    const llm = {
+      chat: vi.fn()
+        .mockResolvedValueOnce('{"title": "Release"}')
+        .mockResolvedValueOnce('```json\n{"title": "Release", "steps": ["tag"], "priority": "HIGH"}\n```'),
+      generate: vi.fn(),
+      getName: () => 'test',
+      getModel: () => 'test-model',
+    };
+    const action = new PlanAction({ name: 'Plan', llm });
+
+    const output = await action.run();
+
+    expect(output.instructContent).toEqual({ title: 'Release', steps: ['tag'], priority: 'HIGH' });
+    expect(llm.chat).toHaveBeenCalledTimes(2);
+  });
+
+  test('should use the provider structured output when available', async () => {
+    const llm = {
+      chat: vi.fn(),
+      generate: vi.fn(),
+      generateObject: vi.fn().mockResolvedValue({ title: 'Release', steps: ['tag'], priority: 'LOW' }),
+      getName: () => 'test',
+      getModel: () => 'test-model',
+    };
+    const action = new PlanAction({ name: 'Plan', llm });
+
+    const output = await action.run();
+
+    expect(output.content).toBe('Release');
+    expect(llm.generateObject).toHaveBeenCalledWith('Plan a release', PlanSchema, undefined);
+    expect(llm.chat).not.toHaveBeenCalled();
+  });
+});
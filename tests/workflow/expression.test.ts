@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'vitest';
+import { compileExpression, evaluateExpression } from '../../src/workflow/expression';
+import { ConditionNodeExecutor } from '../../src/workflow/executors/condition-executor';
+import { WorkflowNodeType, WorkflowOrchestration } from '../../src/management/workflow-orchestration';
+import type { WorkflowNode } from '../../src/types/workflow';
+import { ExpressionError } from '../../src/utils/errors';
+
+const scope = {
+  variables: {
+    status: 'approved',
+    amount: 1200,
+    tags: ['urgent', 'finance'],
+    reviewer: { name: 'Kim', level: 3 },
+  },
+};
+
+describe('evaluateExpression', () => {
+  test.each([
+    ['variables.amount > 1000 && variables.status == "approved"', true],
+    ['variables.amount * 2 - 400 >= 2000', true],
+    ['!(variables.amount < 100) || false', true],
+    ['"urgent" in variables.tags && !("legal" in variables.tags)', true],
+    ['variables.reviewer["level"] === 3 ? "senior" : "junior"', 'senior'],
+    ['len(variables.tags) + len(keys(variables.reviewer))', 4],
+    ['startsWith(lower(variables.reviewer.name), "ki")', true],
+    ['variables.missing.field === undefined && !exists(variables.missing)', true],
+    ['variables.amount == "1200"', false],
+    ['variables.status < 5', false],
+    ['[1, 2, 3][1] + -variables.reviewer.level', -1],
+  ])('should evaluate %s', (source, expected) => {
+    expect(evaluateExpression(source, scope)).toEqual(expected);
+  });
+
+  test('should report syntax errors with a position', () => {
+    const error = (() => {
+      try {
+        compileExpression('variables.amount = 5');
+      } catch (e) {
+        return e as ExpressionError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ExpressionError);
+    expect(error?.position).toBe(17);
+    expect(error?.message).toContain('use == to compare');
+    expect(error?.message).toContain('\n  variables.amount = 5\n                   ^');
+
+    expect(() => compileExpression('variables.amount >')).toThrow(ExpressionError);
+    expect(() => compileExpression('(variables.amount')).toThrow(ExpressionError);
+  });
+
+  test('should reject unknown functions and names at compile time', () => {
+    expect(() => compileExpression('eval("1")')).toThrow('Unknown function eval');
+    expect(() => compileExpression('variables.save()')).toThrow(ExpressionError);
+    expect(() => compileExpression('process.exit(1)')).toThrow(ExpressionError);
+    expect(() => compileExpression('vars.amount > 1', { identifiers: ['variables'] })).toThrow('Unknown name vars');
+    expect(compileExpression('double(2)', { functions: { double: (n: unknown) => Number(n) * 2 } }).evaluate()).toBe(4);
+  });
+
+  test('should not reach prototypes or functions in the scope', () => {
+    expect(() => compileExpression('variables.constructor')).toThrow(ExpressionError);
+    expect(() => compileExpression('variables["__proto__"]')).toThrow(ExpressionError);
+
+    expect(() => evaluateExpression('variables[key]', { variables: {}, key: '__proto__' })).toThrow(ExpressionError);
+    expect(evaluateExpression('variables.toString', { variables: {} })).toBeUndefined();
+    expect(evaluateExpression('run', { run: () => 'escaped' })).toBeUndefined();
+    expect(() => evaluateExpression('variables.tags * 2', scope)).toThrow(ExpressionError);
+  });
+});
+
+describe('workflow conditions', () => {
+  test('should evaluate condition nodes against params and context', async () => {
+    const executor = new ConditionNodeExecutor();
+    const node: WorkflowNode = {
+      id: 'check',
+      name: 'Check',
+      type: 'condition',
+      status: 'pending',
+      childIds: [],
+      config: { condition: { expression: 'amount > limit && context.approved', params: { amount: 50, limit: 10 } } },
+    };
+
+    expect(executor.validate(node)).toBe(true);
+    expect(await executor.execute(node, { approved: true })).toBe(true);
+    expect(await executor.execute(node, { approved: false })).toBe(false);
+
+    expect(executor.validate({ ...node, config: { condition: { expression: 'amount >> limit' } } })).toBe(false);
+    expect(executor.validate({ ...node, config: { condition: { expression: 'window.alert(1)' } } })).toBe(false);
+  });
+
+  test('should reject invalid conditions when a workflow is registered', () => {
+    const orchestration = new WorkflowOrchestration({
+      teamCollaboration: {},
+      maxParallelTasks: 1,
+      enableAutoRecovery: false,
+      executionTimeout: 1000,
+    });
+    const node = (id: string, type: WorkflowNodeType, condition?: string) => ({
+      id,
+      type,
+      name: id,
+      description: id,
+      condition,
+      inputs: {},
+      outputs: {},
+      metadata: {},
+    });
+
+    expect(() => orchestration.registerWorkflow({
+      id: 'unsafe',
+      name: 'Unsafe',
+      description: 'Unsafe condition',
+      inputs: {},
+      outputs: {},
+      metadata: {},
+      nodes: [
+        node('start', WorkflowNodeType.START),
+        node('check', WorkflowNodeType.CONDITION, 'globalThis.process.exit()'),
+        node('end', WorkflowNodeType.END),
+      ],
+      edges: [],
+    })).toThrow('Invalid condition in node check of workflow unsafe');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect, vi } from 'vitest';
+import { LoopNodeExecutor } from '../../src/workflow/executors/loop-executor';
+import { MapNodeExecutor } from '../../src/workflow/executors/map-executor';
+import type { NodeExecutor, WorkflowNode } from '../../src/types/workflow';
+
+function node(type: WorkflowNode['type'], config: Record<string, any>): WorkflowNode {
+  return { id: type, name: type, type, status: 'pending', childIds: ['step'], config };
+}
+
+/**
+ * Context running the single `step` child with the given function
+ */
+function contextWith(step: (ctx: any) => Promise<any>) {
+  const executor: NodeExecutor = {
+    execute: vi.fn((_node, ctx) => step(ctx)),
+    validate: () => true,
+    getStatus: () => 'completed',
+    getResult: () => null,
+  };
+  return {
+    workflow: {
+      nodes: [{ id: 'step', name: 'Step', type: 'action', status: 'pending', childIds: [] }],
+      nodeExecutors: new Map([['action', executor]]),
+    },
+  };
+}
+
+describe('LoopNodeExecutor', () => {
+  test('should repeat the children until the condition fails', async () => {
+    const executor = new LoopNodeExecutor();
+    const loop = node('loop', { loop: { condition: 'result[0] < target', params: { target: 3 } } });
+
+    const results = await executor.execute(loop, contextWith(async ctx => ctx.iteration + 1));
+
+    expect(results).toEqual([[1], [2], [3]]);
+    expect(executor.getStatus()).toBe('completed');
+  });
+
+  test('should fail when the condition still holds after maxIterations', async () => {
+    const executor = new LoopNodeExecutor();
+    const loop = node('loop', { loop: { condition: 'true', maxIterations: 2 } });
+
+    await expect(executor.execute(loop, contextWith(async () => 'retry'))).rejects
+      .toThrow('Loop condition still holds after 2 iterations');
+    expect(executor.getStatus()).toBe('failed');
+  });
+
+  test('should validate the loop condition', () => {
+    const executor = new LoopNodeExecutor();
+
+    expect(executor.validate(node('loop', { loop: { condition: 'iteration < 3' } }))).toBe(true);
+    expect(executor.validate(node('loop', { loop: { condition: 'attempts < 3' } }))).toBe(false);
+    expect(executor.validate(node('loop', {}))).toBe(false);
+  });
+});
+
+describe('MapNodeExecutor', () => {
+  test('should run the children for every item within maxConcurrency', async () => {
+    const executor = new MapNodeExecutor();
+    const map = node('map', { map: { items: 'context.state.files', maxConcurrency: 2 } });
+    let running = 0;
+    let peak = 0;
+    const context = {
+      ...contextWith(async ctx => {
+        peak = Math.max(peak, ++running);
+        await new Promise(resolve => setTimeout(resolve, ctx.index === 0 ? 10 : 1));
+        running--;
+        return `${ctx.index}:${ctx.item}`;
+      }),
+      state: { files: ['a.ts', 'b.ts', 'c.ts'] },
+    };
+
+    expect(await executor.execute(map, context)).toEqual([['0:a.ts'], ['1:b.ts'], ['2:c.ts']]);
+    expect(peak).toBe(2);
+  });
+
+  test('should stop at the first failed item', async () => {
+    const executor = new MapNodeExecutor();
+    const map = node('map', { map: { items: ['eu', 'us', 'ap'], maxConcurrency: 1 } });
+    const context = contextWith(async ctx => {
+      if (ctx.item === 'us') throw new Error('quota exceeded');
+      return ctx.item;
+    });
+
+    await expect(executor.execute(map, context)).rejects.toThrow('Item 1 failed: quota exceeded');
+    expect(context.workflow.nodeExecutors.get('action')!.execute).toHaveBeenCalledTimes(2);
+  });
+
+  test('should validate the items', () => {
+    const executor = new MapNodeExecutor();
+
+    expect(executor.validate(node('map', { map: { items: ['a'] } }))).toBe(true);
+    expect(executor.validate(node('map', { map: { items: 'context.state.files' } }))).toBe(true);
+    expect(executor.validate(node('map', { map: { items: 'files' } }))).toBe(false);
+    expect(executor.validate(node('loop', { map: { items: ['a'] } }))).toBe(false);
+  });
+});